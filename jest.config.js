@@ -1,3 +1,6 @@
+// Services log through pino; keep test output readable unless LOG_LEVEL is set
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+
 module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
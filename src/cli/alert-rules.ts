@@ -0,0 +1,120 @@
+/**
+ * Alert Rules CLI
+ *
+ * Checks an alert rules file and tries it against sample events before it
+ * is deployed.
+ *
+ * Usage:
+ *   npm run alert-rules -- check [--rules <file>]
+ *   npm run alert-rules -- test <events.json> [--rules <file>] [--json]
+ *
+ * The rules file defaults to ALERT_RULES_FILE. events.json holds an array
+ * of { "event_type", "payload", "instance"?, "at"? }, evaluated in order
+ * against fresh state (so change operators see the earlier events of the
+ * same user, and "at" drives threshold windows). Alerts are printed, not
+ * sent.
+ */
+
+import { readFileSync } from "fs"
+import { parseArgs } from "util"
+import { DiscourseWebhookEvent } from "../shared/types"
+import { AlertEngine, UserSnapshots, readAlertRulesFile } from "../worker/alerts"
+import { DEFAULT_INBOX_INSTANCE } from "../worker/inbox"
+
+interface SampleEvent {
+  event_type: string
+  payload: Record<string, unknown>
+  instance?: string
+  at?: string // ISO date; defaults to one second after the previous event
+}
+
+const SAMPLE_EVENT_SPACING_MS = 1000
+
+function rulesPath(option: string | undefined): string {
+  const file = option || process.env.ALERT_RULES_FILE
+  if (!file) {
+    throw new Error("Pass --rules <file> or set ALERT_RULES_FILE")
+  }
+  return file
+}
+
+function check(file: string): void {
+  const { rules, channels = [] } = readAlertRulesFile(file)
+  console.log(`${file}: ${rules.length} rule(s), ${channels.length} channel(s) OK`)
+  for (const rule of rules) {
+    const state = rule.enabled === false ? " (disabled)" : ""
+    console.log(`  ${rule.id}${state}: ${rule.description || rule.events.join(", ")}`)
+  }
+}
+
+function test(file: string, eventsFile: string, json: boolean): void {
+  const { rules } = readAlertRulesFile(file)
+  const samples = JSON.parse(readFileSync(eventsFile, "utf-8")) as SampleEvent[]
+  if (!Array.isArray(samples)) {
+    throw new Error(`${eventsFile} must contain an array of events`)
+  }
+
+  const engine = new AlertEngine(rules, new UserSnapshots(Number.MAX_SAFE_INTEGER))
+  let now = Date.now()
+  let raised = 0
+
+  samples.forEach((sample, index) => {
+    now = sample.at ? Date.parse(sample.at) : now + SAMPLE_EVENT_SPACING_MS
+    if (Number.isNaN(now)) {
+      throw new Error(`Event ${index + 1}: invalid at ${sample.at}`)
+    }
+
+    const event: DiscourseWebhookEvent = {
+      event_type: sample.event_type,
+      payload: sample.payload,
+      headers: {
+        "x-discourse-event": sample.event_type,
+        "x-discourse-event-signature": "",
+        "x-discourse-event-id": String(index + 1),
+      },
+      received_at: new Date(now).toISOString(),
+    }
+
+    for (const outcome of engine.evaluate(event, sample.instance || DEFAULT_INBOX_INSTANCE, now)) {
+      if (json) {
+        console.log(JSON.stringify(outcome.alert || { rule: outcome.rule.id, event: index + 1, suppressed: outcome.suppressed }))
+      } else if (outcome.alert) {
+        console.log(
+          `#${index + 1} ${sample.event_type}: ALERT ${outcome.rule.id} [${outcome.alert.severity}] ${JSON.stringify(outcome.alert.details)}`
+        )
+      } else {
+        console.log(`#${index + 1} ${sample.event_type}: ${outcome.rule.id} matched, not raised: ${outcome.suppressed}`)
+      }
+      raised += outcome.alert ? 1 : 0
+    }
+  })
+
+  if (!json) {
+    console.log(`${samples.length} event(s), ${raised} alert(s)`)
+  }
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      rules: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  })
+
+  const [command, eventsFile] = positionals
+  if (command === "check") {
+    check(rulesPath(values.rules))
+  } else if (command === "test" && eventsFile) {
+    test(rulesPath(values.rules), eventsFile, values.json as boolean)
+  } else {
+    console.error("Usage: alert-rules <check|test <events.json>> [--rules <file>] [--json]")
+    process.exit(2)
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
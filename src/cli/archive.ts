@@ -0,0 +1,347 @@
+/**
+ * Raw Event Archive CLI
+ *
+ * Reads the archive the handler writes when ARCHIVE_ENABLED=true: lists
+ * and shows archived webhooks, re-checks their stored signatures and
+ * applies retention.
+ *
+ * Usage:
+ *   npm run archive -- list     [filters] [--json]
+ *   npm run archive -- show     <message-id|event-id>
+ *   npm run archive -- segments [--json]
+ *   npm run archive -- verify   [filters] [--json]
+ *   npm run archive -- prune    [--dry-run]
+ *   npm run archive -- seal     [--all]
+ *
+ * Filters:
+ *   --instance <id>       Match the resolved instance
+ *   --event-type <type>   Match event_type
+ *   --since <iso-date>    Received at or after
+ *   --until <iso-date>    Received before
+ *   --limit <n>           Stop after n matching records
+ *
+ * verify checks sealed segments against their index checksum, each
+ * record's body against its digest and its signature against the
+ * instance's secrets that were active when it was received (configured as
+ * for the handler: INSTANCES_FILE, WEBHOOK_SECRETS_FILE or
+ * DISCOURSE_WEBHOOK_SECRET). Records of instances with no secret active
+ * at the time (retired since) are reported as skipped. It exits with
+ * status 1 if any check failed; skipped records do not count.
+ * seal seals segments idle for twice ARCHIVE_SEGMENT_MAX_AGE_MS; with
+ * --all it seals every unsealed segment, so only use that while no
+ * handler writes to the archive.
+ */
+
+import { createHash } from "crypto"
+import { parseArgs } from "util"
+import {
+  ArchiveConfig,
+  ArchiveQuery,
+  ArchiveRecord,
+  archiveBodyOf,
+  getArchiveConfigFromEnv,
+  listSegments,
+  listUnsealedSegments,
+  pruneArchive,
+  readArchive,
+  readSegment,
+  readSegmentIndexes,
+  sealAbandonedSegments,
+  verifySegmentChecksum,
+} from "../shared/archive"
+import { isSecretActive, validateWebhookSignatureWithSecrets } from "../shared/security"
+import { InstanceRegistry, getInstancesConfigFromEnv } from "../handler/instances"
+
+interface VerifyIssue {
+  status: "failed" | "skipped"
+  segment: string
+  line?: number
+  message_id?: string
+  event_type?: string
+  reason: string // segment_checksum, malformed_record, body_digest, unknown_instance, invalid_signature; skipped: no_active_secret
+  detail?: string
+}
+
+function parseDate(value: string | undefined, flag: string): Date | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date for --${flag}: ${value}`)
+  }
+  return date
+}
+
+function summarize(record: ArchiveRecord): Record<string, unknown> {
+  return {
+    received_at: record.received_at,
+    instance: record.instance,
+    event_type: record.event_type,
+    event_id: record.event_id || "",
+    message_id: record.message_id,
+    bytes: archiveBodyOf(record).length,
+  }
+}
+
+async function list(
+  config: ArchiveConfig,
+  query: ArchiveQuery,
+  limit: number,
+  json: boolean
+): Promise<void> {
+  const rows: Record<string, unknown>[] = []
+  let count = 0
+  let malformed = 0
+
+  for await (const entry of readArchive(config.dir, query)) {
+    if (!entry.record) {
+      malformed++
+      continue
+    }
+    if (json) {
+      console.log(JSON.stringify(entry.record))
+    } else {
+      rows.push(summarize(entry.record))
+    }
+    if (++count >= limit) break
+  }
+
+  if (!json) {
+    console.table(rows)
+  }
+  if (malformed > 0) {
+    console.error(`${malformed} malformed line(s) skipped, run verify for details`)
+  }
+}
+
+/**
+ * Prints a record with its body decoded, or exits 1 if none matches
+ */
+async function show(config: ArchiveConfig, id: string): Promise<void> {
+  for await (const { record } of readArchive(config.dir)) {
+    if (record && (record.message_id === id || record.event_id === id)) {
+      const body = archiveBodyOf(record).toString("utf-8")
+      let payload: unknown = body
+      try {
+        payload = JSON.parse(body)
+      } catch {
+        // Shown as stored
+      }
+      console.log(JSON.stringify({ ...record, body: undefined, payload }, null, 2))
+      return
+    }
+  }
+  console.error(`No archived webhook with message or event id ${id}`)
+  process.exit(1)
+}
+
+async function segments(config: ArchiveConfig, json: boolean): Promise<void> {
+  const rows = (await readSegmentIndexes(config.dir)).map((index) => ({
+    segment: index.segment,
+    sealed: true,
+    records: index.records,
+    bytes: index.bytes,
+    first_received_at: index.first_received_at ?? "",
+    last_received_at: index.last_received_at ?? "",
+    instances: Object.keys(index.instances).join(","),
+  }))
+  for (const segment of await listUnsealedSegments(config.dir)) {
+    rows.push({
+      segment,
+      sealed: false,
+      records: 0,
+      bytes: 0,
+      first_received_at: "",
+      last_received_at: "",
+      instances: "",
+    })
+  }
+
+  if (json) {
+    rows.forEach((row) => console.log(JSON.stringify(row)))
+  } else {
+    console.table(rows)
+  }
+}
+
+/**
+ * Checks a record's body digest and signature, or returns why it fails or
+ * cannot be checked
+ */
+function verifyRecord(
+  record: ArchiveRecord,
+  instances: InstanceRegistry
+): Pick<VerifyIssue, "status" | "reason" | "detail"> | null {
+  const body = archiveBodyOf(record)
+  if (createHash("sha256").update(body).digest("hex") !== record.body_sha256) {
+    return { status: "failed", reason: "body_digest" }
+  }
+
+  const instance = instances.get(record.instance)
+  if (!instance) {
+    return { status: "failed", reason: "unknown_instance", detail: record.instance }
+  }
+
+  const receivedAt = new Date(record.received_at)
+  if (!instance.secrets.some((secret) => isSecretActive(secret, receivedAt))) {
+    // Retired since: nothing to check against, which is not tampering
+    return {
+      status: "skipped",
+      reason: "no_active_secret",
+      detail: `No secret of ${instance.id} was active then`,
+    }
+  }
+
+  const result = validateWebhookSignatureWithSecrets(
+    body,
+    record.headers["x-discourse-event-signature"] || "",
+    instance.secrets,
+    receivedAt
+  )
+  return result.valid ? null : { status: "failed", reason: "invalid_signature", detail: result.error }
+}
+
+async function verify(config: ArchiveConfig, query: ArchiveQuery, json: boolean): Promise<void> {
+  const instances = new InstanceRegistry(
+    getInstancesConfigFromEnv(process.env.DISCOURSE_WEBHOOK_SECRET || "change_me_in_production")
+  )
+  const indexes = new Map((await readSegmentIndexes(config.dir)).map((index) => [index.segment, index]))
+  const issues: VerifyIssue[] = []
+  const names = await listSegments(config.dir, query)
+  let verified = 0
+
+  for (const segment of names) {
+    const index = indexes.get(segment)
+    if (index && !(await verifySegmentChecksum(config.dir, index).catch(() => false))) {
+      issues.push({ status: "failed", segment, reason: "segment_checksum", detail: "Does not match its index" })
+      continue
+    }
+
+    try {
+      for await (const { line, record, error } of readSegment(config.dir, segment, query)) {
+        if (!record) {
+          issues.push({ status: "failed", segment, line, reason: "malformed_record", detail: error })
+          continue
+        }
+        const issue = verifyRecord(record, instances)
+        if (issue) {
+          issues.push({
+            segment,
+            line,
+            message_id: record.message_id,
+            event_type: record.event_type,
+            ...issue,
+          })
+        } else {
+          verified++
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") continue // Sealed or pruned meanwhile
+      issues.push({
+        status: "failed",
+        segment,
+        reason: "unreadable",
+        detail: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  const failed = issues.filter((issue) => issue.status === "failed").length
+  if (json) {
+    issues.forEach((issue) => console.log(JSON.stringify(issue)))
+  } else if (issues.length > 0) {
+    console.table(issues)
+  }
+  console.error(
+    `${verified} record(s) verified in ${names.length} segment(s), ${failed} failure(s), ` +
+      `${issues.length - failed} skipped`
+  )
+
+  if (failed > 0) {
+    process.exit(1)
+  }
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      instance: { type: "string" },
+      "event-type": { type: "string" },
+      since: { type: "string" },
+      until: { type: "string" },
+      limit: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      all: { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+    },
+  })
+
+  const [command, id] = positionals
+  if (!command || !["list", "show", "segments", "verify", "prune", "seal"].includes(command)) {
+    console.error(
+      "Usage: archive <list|show|segments|verify|prune|seal> [--instance] [--event-type] [--since] [--until] [--limit] [--dry-run] [--all] [--json]"
+    )
+    process.exit(2)
+  }
+
+  const query: ArchiveQuery = {
+    instance: values.instance,
+    eventType: values["event-type"],
+    since: parseDate(values.since, "since"),
+    until: parseDate(values.until, "until"),
+  }
+  const limit = values.limit ? parseInt(values.limit, 10) : Infinity
+  const config = getArchiveConfigFromEnv()
+
+  switch (command) {
+    case "list":
+      await list(config, query, limit, values.json)
+      break
+
+    case "show":
+      if (!id) {
+        console.error("Usage: archive show <message-id|event-id>")
+        process.exit(2)
+      }
+      await show(config, id)
+      break
+
+    case "segments":
+      await segments(config, values.json)
+      break
+
+    case "verify":
+      await verify(config, query, values.json)
+      break
+
+    case "prune": {
+      const pruned = await pruneArchive(config, { dryRun: values["dry-run"] })
+      for (const index of pruned) {
+        const action = values["dry-run"] ? "[dry-run] would delete" : "deleted"
+        console.log(`${action} ${index.segment} (${index.records} records, ${index.bytes} bytes)`)
+      }
+      if (pruned.length === 0) {
+        console.log("Nothing to prune")
+      }
+      break
+    }
+
+    case "seal": {
+      const idleMs = values.all ? 0 : 2 * config.segmentMaxAgeMs
+      const sealed = await sealAbandonedSegments(config.dir, idleMs)
+      for (const index of sealed) {
+        console.log(`sealed ${index.segment} (${index.records} records)`)
+      }
+      if (sealed.length === 0) {
+        console.log("Nothing to seal")
+      }
+      break
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
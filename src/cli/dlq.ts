@@ -0,0 +1,346 @@
+/**
+ * Dead-Letter Queue CLI
+ *
+ * Lets on-call engineers inspect and act on dead-lettered messages
+ * without opening the RabbitMQ management UI.
+ *
+ * Usage:
+ *   npm run dlq -- list    [filters] [--json]
+ *   npm run dlq -- show    <message-id>
+ *   npm run dlq -- purge   [filters] [--dry-run]
+ *   npm run dlq -- replay  [filters] [--dry-run] [--rate <msgs/sec>]
+ *
+ * Queue (default: the main queue, QUEUE_NAME):
+ *   --subscriber <id>     The outbound subscriber's queue (discourse-outbound.<id>)
+ *   --queue <name>        Any queue by name
+ *
+ * Every command acts on the queue's DLQ ("<queue>.dlq"); replay
+ * republishes onto the queue itself.
+ *
+ * Filters:
+ *   --event-type <type>   Match event_type
+ *   --instance <url>      Match x-discourse-instance
+ *   --error <text>        Substring of the last error or failure reason
+ *   --since <iso-date>    Dead-lettered at or after
+ *   --until <iso-date>    Dead-lettered before
+ *   --limit <n>           Stop after n matching messages
+ *
+ * Messages are fetched unacknowledged and returned to the DLQ unless the
+ * command removes them, so an interrupted run never loses messages.
+ * Works with the RabbitMQ transport only; the file transport keeps its
+ * dead letters as plain files under <FILE_TRANSPORT_DIR>/<queue>/dead/.
+ */
+
+import amqp from "amqplib"
+import { parseArgs } from "util"
+import { getWorkerConfig } from "../worker/config"
+import { subscriberQueueName } from "../worker/subscribers"
+import {
+  RETRY_COUNT_HEADER,
+  LAST_ERROR_HEADER,
+  FAILURE_REASON_HEADER,
+  FIRST_FAILED_AT_HEADER,
+  DEAD_LETTERED_AT_HEADER,
+  ORIGINAL_QUEUE_HEADER,
+  FAILURE_DETAILS_HEADER,
+  deadLetterQueueName,
+} from "../shared/retry"
+import { QueueMessage } from "../shared/types"
+
+type Channel = Awaited<
+  ReturnType<Awaited<ReturnType<typeof amqp.connect>>["createConfirmChannel"]>
+>
+
+interface DeadLetterFilter {
+  eventType?: string
+  instance?: string
+  error?: string
+  since?: Date
+  until?: Date
+}
+
+interface DeadLetterEntry {
+  raw: amqp.GetMessage
+  message: QueueMessage | null
+  id: string
+  eventType: string
+  instance: string
+  reason: string
+  lastError: string
+  retryCount: number
+  deadLetteredAt: Date | null
+}
+
+const DEFAULT_REPLAY_RATE = 10 // messages per second
+
+const HEADERS_CLEARED_ON_REPLAY = [
+  RETRY_COUNT_HEADER,
+  LAST_ERROR_HEADER,
+  FAILURE_REASON_HEADER,
+  FIRST_FAILED_AT_HEADER,
+  DEAD_LETTERED_AT_HEADER,
+  ORIGINAL_QUEUE_HEADER,
+  FAILURE_DETAILS_HEADER,
+  "x-death",
+  "x-first-death-exchange",
+  "x-first-death-queue",
+  "x-first-death-reason",
+]
+
+/**
+ * Builds an entry from a dead-lettered message. Messages dead-lettered by
+ * the broker (expired, overflowed) only carry the x-death header.
+ */
+function toEntry(raw: amqp.GetMessage): DeadLetterEntry {
+  let message: QueueMessage | null = null
+  try {
+    message = JSON.parse(raw.content.toString())
+  } catch {
+    message = null
+  }
+
+  const headers = raw.properties.headers || {}
+  const death = Array.isArray(headers["x-death"]) ? headers["x-death"][0] : null
+  const deadLetteredAt =
+    headers[DEAD_LETTERED_AT_HEADER] ||
+    (death?.time ? new Date(death.time.value * 1000).toISOString() : null)
+
+  return {
+    raw,
+    message,
+    id: message?.id || "unknown",
+    eventType: message?.event?.event_type || "unknown",
+    instance: message?.event?.headers?.["x-discourse-instance"] || "",
+    reason: headers[FAILURE_REASON_HEADER] || death?.reason || "unknown",
+    lastError: headers[LAST_ERROR_HEADER] || "",
+    retryCount: Number(headers[RETRY_COUNT_HEADER]) || 0,
+    deadLetteredAt: deadLetteredAt ? new Date(deadLetteredAt) : null,
+  }
+}
+
+function matches(entry: DeadLetterEntry, filter: DeadLetterFilter): boolean {
+  if (filter.eventType && entry.eventType !== filter.eventType) return false
+  if (filter.instance && entry.instance !== filter.instance) return false
+
+  if (filter.error) {
+    const needle = filter.error.toLowerCase()
+    const haystack = `${entry.lastError} ${entry.reason}`.toLowerCase()
+    if (!haystack.includes(needle)) return false
+  }
+
+  if (filter.since || filter.until) {
+    if (!entry.deadLetteredAt) return false
+    if (filter.since && entry.deadLetteredAt < filter.since) return false
+    if (filter.until && entry.deadLetteredAt >= filter.until) return false
+  }
+
+  return true
+}
+
+/**
+ * Fetches every message in the DLQ without acknowledging it
+ */
+async function fetchAll(
+  channel: Channel,
+  queue: string
+): Promise<DeadLetterEntry[]> {
+  const entries: DeadLetterEntry[] = []
+
+  for (;;) {
+    const raw = await channel.get(queue, { noAck: false })
+    if (!raw) break
+    entries.push(toEntry(raw))
+  }
+
+  return entries
+}
+
+function summarize(entry: DeadLetterEntry): Record<string, unknown> {
+  return {
+    id: entry.id,
+    event_type: entry.eventType,
+    instance: entry.instance,
+    reason: entry.reason,
+    retries: entry.retryCount,
+    dead_lettered_at: entry.deadLetteredAt?.toISOString() || "",
+    last_error: entry.lastError,
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function parseDate(value: string | undefined, flag: string): Date | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date for --${flag}: ${value}`)
+  }
+  return date
+}
+
+/**
+ * Republishes a dead-lettered message onto its queue with a fresh
+ * retry budget, acking it from the DLQ only once the broker confirms.
+ */
+async function replay(
+  channel: Channel,
+  queueName: string,
+  entry: DeadLetterEntry
+): Promise<void> {
+  const headers = { ...(entry.raw.properties.headers || {}) }
+  for (const header of HEADERS_CLEARED_ON_REPLAY) {
+    delete headers[header]
+  }
+  headers["x-replayed-at"] = new Date().toISOString()
+
+  const content = entry.message
+    ? Buffer.from(JSON.stringify({ ...entry.message, retry_count: 0 }))
+    : entry.raw.content
+
+  channel.sendToQueue(queueName, content, {
+    persistent: true,
+    contentType: "application/json",
+    timestamp: Date.now(),
+    headers,
+  })
+  await channel.waitForConfirms()
+  channel.ack(entry.raw)
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      queue: { type: "string" },
+      subscriber: { type: "string" },
+      "event-type": { type: "string" },
+      instance: { type: "string" },
+      error: { type: "string" },
+      since: { type: "string" },
+      until: { type: "string" },
+      limit: { type: "string" },
+      rate: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+    },
+  })
+
+  const [command, messageId] = positionals
+  if (!command || !["list", "show", "purge", "replay"].includes(command)) {
+    console.error(
+      "Usage: dlq <list|show|purge|replay> [--queue|--subscriber] [--event-type] [--instance] [--error] [--since] [--until] [--limit] [--rate] [--dry-run] [--json]"
+    )
+    process.exit(2)
+  }
+
+  const filter: DeadLetterFilter = {
+    eventType: values["event-type"],
+    instance: values.instance,
+    error: values.error,
+    since: parseDate(values.since, "since"),
+    until: parseDate(values.until, "until"),
+  }
+  const limit = values.limit ? parseInt(values.limit, 10) : Infinity
+  const rate = values.rate ? parseFloat(values.rate) : DEFAULT_REPLAY_RATE
+  const dryRun = values["dry-run"]
+
+  const config = getWorkerConfig()
+  if (config.transport !== "rabbitmq") {
+    throw new Error(`The DLQ CLI requires TRANSPORT=rabbitmq (got ${config.transport})`)
+  }
+  if (values.queue && values.subscriber) {
+    console.error("Use either --queue or --subscriber")
+    process.exit(2)
+  }
+
+  const queueName =
+    values.queue ||
+    (values.subscriber ? subscriberQueueName(config.outbound, values.subscriber) : config.queueName)
+  const dlq = deadLetterQueueName(queueName)
+  const connection = await amqp.connect(config.rabbitmqUrl)
+  const channel = await connection.createConfirmChannel()
+
+  try {
+    await channel.checkQueue(dlq)
+    const entries = await fetchAll(channel, dlq)
+    const selected = (
+      command === "show"
+        ? entries.filter((entry) => entry.id === messageId)
+        : entries.filter((entry) => matches(entry, filter))
+    ).slice(0, limit)
+    const handled = new Set<DeadLetterEntry>()
+
+    switch (command) {
+      case "list":
+        if (values.json) {
+          selected.forEach((entry) => console.log(JSON.stringify(summarize(entry))))
+        } else {
+          console.table(selected.map(summarize))
+        }
+        console.log(`${selected.length} of ${entries.length} messages matched`)
+        break
+
+      case "show":
+        if (!messageId || selected.length === 0) {
+          console.error(`Message not found in ${dlq}: ${messageId}`)
+          process.exitCode = 1
+          break
+        }
+        for (const entry of selected) {
+          console.log(
+            JSON.stringify(
+              {
+                headers: entry.raw.properties.headers,
+                message: entry.message ?? entry.raw.content.toString(),
+              },
+              null,
+              2
+            )
+          )
+        }
+        break
+
+      case "purge":
+        for (const entry of selected) {
+          if (!dryRun) {
+            channel.ack(entry.raw)
+            handled.add(entry)
+          }
+          console.log(`${dryRun ? "[dry-run] would purge" : "purged"} ${entry.id}`)
+        }
+        break
+
+      case "replay":
+        for (const [index, entry] of selected.entries()) {
+          if (dryRun) {
+            console.log(`[dry-run] would replay ${entry.id} (${entry.eventType})`)
+            continue
+          }
+          if (index > 0 && rate > 0) {
+            await sleep(1000 / rate)
+          }
+          await replay(channel, queueName, entry)
+          handled.add(entry)
+          console.log(`replayed ${entry.id} (${entry.eventType})`)
+        }
+        break
+    }
+
+    // Return everything we did not remove to the DLQ
+    for (const entry of entries) {
+      if (!handled.has(entry)) {
+        channel.nack(entry.raw, false, true)
+      }
+    }
+  } finally {
+    await channel.close()
+    await connection.close()
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
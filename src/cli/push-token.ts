@@ -0,0 +1,61 @@
+/**
+ * Push Token CLI
+ *
+ * Issues the token a client presents to the push endpoints (/push/sse,
+ * /push/ws) to receive one user's notifications. In production the
+ * application that knows the logged-in user issues these with
+ * createPushToken(); this command is for testing and scripts.
+ *
+ * Usage:
+ *   npm run push-token -- --user <id> [--instance <id>] [--ttl <duration>]
+ *
+ * Signed with PUSH_TOKEN_SECRET. Durations look like 30m, 12h or 7d
+ * (default 1h).
+ */
+
+import { parseArgs } from "util"
+import { createPushToken } from "../worker/push"
+import { DEFAULT_INBOX_INSTANCE } from "../worker/inbox"
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60,
+  h: 3600,
+  d: 86400,
+}
+
+function parseDuration(value: string): number {
+  const match = /^(\d+)([mhd])$/.exec(value)
+  if (!match) {
+    throw new Error(`Invalid duration: ${value} (expected e.g. 30m, 12h, 7d)`)
+  }
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2]]
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      user: { type: "string" },
+      instance: { type: "string", default: DEFAULT_INBOX_INSTANCE },
+      ttl: { type: "string", default: "1h" },
+    },
+  })
+
+  const secret = process.env.PUSH_TOKEN_SECRET
+  if (!secret) {
+    throw new Error("Set PUSH_TOKEN_SECRET to issue push tokens")
+  }
+
+  const userId = Number(values.user)
+  if (!values.user || !Number.isInteger(userId)) {
+    console.error("Usage: push-token --user <id> [--instance <id>] [--ttl <duration>]")
+    process.exit(2)
+  }
+
+  const exp = Math.floor(Date.now() / 1000) + parseDuration(values.ttl as string)
+  console.log(createPushToken({ instance: values.instance as string, user_id: userId, exp }, secret))
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,79 @@
+import { promises as fs } from "fs"
+import * as os from "os"
+import * as path from "path"
+import {
+  Checkpoint,
+  ReplayPosition,
+  isAtOrBefore,
+  readCheckpoint,
+  selectionOf,
+  writeCheckpoint,
+} from "./replay-checkpoint"
+
+describe("replay checkpoints", () => {
+  let dir: string
+  let file: string
+  const selection = selectionOf({ archiveDir: "./data/archive", files: ["events.json"], filter: {} })
+
+  function checkpointAt(key: string, line: number): Checkpoint {
+    return {
+      run_id: "run-1",
+      selection,
+      key,
+      line,
+      published: 3,
+      updated_at: "2025-11-18T00:00:00.000Z",
+    }
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "replay-"))
+    file = path.join(dir, "checkpoint.json")
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it("reads back the checkpoint of the same selection", async () => {
+    await writeCheckpoint(file, checkpointAt("archive/0001-a", 2))
+
+    expect(await readCheckpoint(file, selection)).toEqual(checkpointAt("archive/0001-a", 2))
+    expect(await fs.readdir(dir)).toEqual(["checkpoint.json"])
+  })
+
+  it("starts from the beginning without a checkpoint", async () => {
+    expect(await readCheckpoint(file, selection)).toBeUndefined()
+  })
+
+  it("refuses a checkpoint of other sources or filters", async () => {
+    await writeCheckpoint(file, checkpointAt("archive/0001-a", 2))
+    const other = selectionOf({ archiveDir: "./data/archive", files: ["events.json"], filter: { user: "1" } })
+
+    expect(other).not.toBe(selection)
+    await expect(readCheckpoint(file, other)).rejects.toThrow("belongs to a replay with other sources or filters")
+  })
+
+  it("resumes after the last published delivery", async () => {
+    const deliveries: ReplayPosition[] = [
+      { key: "archive/0001-a", line: 1 },
+      { key: "archive/0001-a", line: 2 },
+      { key: "archive/0002-a", line: 1 },
+      { key: "file/0000", line: 1 },
+      { key: "file/0000", line: 2 },
+    ]
+
+    // First run, --limit 3
+    for (const delivery of deliveries.slice(0, 3)) {
+      await writeCheckpoint(file, checkpointAt(delivery.key, delivery.line))
+    }
+
+    const checkpoint = (await readCheckpoint(file, selection)) as Checkpoint
+    const remaining = deliveries.filter((delivery) => !isAtOrBefore(delivery, checkpoint))
+
+    expect(remaining).toEqual([
+      { key: "file/0000", line: 1 },
+      { key: "file/0000", line: 2 },
+    ])
+  })
+})
@@ -0,0 +1,70 @@
+/**
+ * Checkpoints of the replay CLI
+ *
+ * A checkpoint records the position of the last published delivery: the
+ * key of its source (archive segments sort before files) and its line. A
+ * later run with the same selection (sources and filters) skips every
+ * delivery at or before it and keeps the run id, so the worker's
+ * idempotency keys stay scoped to the one run.
+ */
+
+import { createHash } from "crypto"
+import { promises as fs } from "fs"
+
+export interface ReplayPosition {
+  key: string // Orders sources: archive segments, then files
+  line: number
+}
+
+export interface Checkpoint extends ReplayPosition {
+  run_id: string
+  selection: string // Hash of the sources and filters it applies to
+  published: number
+  updated_at: string
+}
+
+/**
+ * Identifies what a run replays, so a checkpoint only resumes its own run
+ */
+export function selectionOf(selection: unknown): string {
+  return createHash("sha256").update(JSON.stringify(selection)).digest("hex").slice(0, 16)
+}
+
+/**
+ * The checkpoint at filePath, or undefined if there is none yet. Throws
+ * if it was written for another selection.
+ */
+export async function readCheckpoint(
+  filePath: string,
+  selection: string
+): Promise<Checkpoint | undefined> {
+  let checkpoint: Checkpoint
+  try {
+    checkpoint = JSON.parse(await fs.readFile(filePath, "utf-8")) as Checkpoint
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined
+    throw error
+  }
+
+  if (checkpoint.selection !== selection) {
+    throw new Error(
+      `Checkpoint ${filePath} belongs to a replay with other sources or filters; delete it or pass another --checkpoint`
+    )
+  }
+  return checkpoint
+}
+
+export async function writeCheckpoint(filePath: string, checkpoint: Checkpoint): Promise<void> {
+  await fs.writeFile(`${filePath}.tmp`, JSON.stringify(checkpoint, null, 2))
+  await fs.rename(`${filePath}.tmp`, filePath)
+}
+
+/**
+ * Whether a resumed run already went past the position
+ */
+export function isAtOrBefore(position: ReplayPosition, checkpoint: Checkpoint): boolean {
+  return (
+    position.key < checkpoint.key ||
+    (position.key === checkpoint.key && position.line <= checkpoint.line)
+  )
+}
@@ -0,0 +1,470 @@
+/**
+ * Replay CLI
+ *
+ * Re-ingests captured webhook deliveries, for example to run a new
+ * processor over last month's events. Deliveries (raw body and headers)
+ * are read from the raw event archive or from files and republished onto
+ * the main queue as QueueMessages marked with `replay`. Processors
+ * registered with skipOnReplay (mail, push, alerts, outbound deliveries)
+ * do not run for them.
+ *
+ * Usage:
+ *   npm run replay -- [--archive] [<file>...] [filters] [--rate <msgs/sec>]
+ *                     [--checkpoint <file>] [--limit <n>] [--dry-run]
+ *
+ * Sources:
+ *   --archive             The archive in ARCHIVE_DIR, oldest segment first
+ *   <file>                Archive records (NDJSON, .gz allowed) or an export of
+ *                         Discourse's web hook event log: the JSON of
+ *                         /admin/api/web_hooks/<id>/events.json, a JSON array of
+ *                         events, or NDJSON with one event per line
+ *
+ * Filters:
+ *   --instance <id>       Match the instance the delivery resolves to
+ *   --event-type <type>   Match event_type ("*" matches any run of characters)
+ *   --user <id|username>  Events whose payload names the user (user, notified
+ *                         user, author)
+ *   --since <iso-date>    Received at or after
+ *   --until <iso-date>    Received before
+ *
+ * Events of a JSON export are replayed oldest first. Redeliveries of an
+ * event are replayed once. With --checkpoint the position of the last
+ * published delivery is saved after each publish, and a later run with the
+ * same sources and filters resumes after it (so --limit runs in batches).
+ * Replayed messages carry an idempotency key scoped to the run: the worker
+ * processes them even though it saw the events before, and only once per
+ * run when a resume republishes the last one. Publishes with the handler's
+ * settings (TRANSPORT rabbitmq or file, QUEUE_NAME, TOPIC_EXCHANGE,
+ * INSTANCES_FILE).
+ */
+
+import { createReadStream, promises as fs } from "fs"
+import { randomUUID } from "crypto"
+import * as readline from "readline"
+import { parseArgs } from "util"
+import { createGunzip } from "zlib"
+import { getHandlerConfig } from "../handler/config"
+import { InstanceRegistry } from "../handler/instances"
+import {
+  ArchiveQuery,
+  ArchiveRecord,
+  archiveBodyOf,
+  getArchiveConfigFromEnv,
+  readArchive,
+} from "../shared/archive"
+import { idempotencyKeyFor } from "../shared/dedup"
+import { eventTypeMatches } from "../shared/topology"
+import { MessageTransport, createTransport } from "../shared/transport"
+import { DiscourseWebhookEvent, QueueMessage } from "../shared/types"
+import { isAtOrBefore, readCheckpoint, selectionOf, writeCheckpoint } from "./replay-checkpoint"
+
+/**
+ * A webhook as Discourse sent it, and where it was read from
+ */
+interface CapturedDelivery {
+  key: string // Orders sources for checkpoints: archive segments, then files
+  source: string
+  line: number
+  headers: Record<string, string> // Lowercase names
+  body: Buffer
+  receivedAt: string
+  instance?: string // Resolved when it was archived
+}
+
+interface UnreadableDelivery {
+  key: string
+  source: string
+  line: number
+  error: string
+}
+
+type Captured = CapturedDelivery | UnreadableDelivery
+
+// One entry of Discourse's web hook event log
+interface DiscourseWebHookEvent {
+  id: number
+  headers: string | Record<string, string> // JSON text in Discourse's exports
+  payload: string // The body as sent
+  created_at: string
+}
+
+interface ReplayFilter {
+  instance?: string
+  eventType?: string
+  user?: string
+  since?: Date
+  until?: Date
+}
+
+type Outcome = "published" | "filtered" | "duplicate" | "unknown_instance" | "invalid" | "resumed"
+
+const DEFAULT_REPLAY_RATE = 10 // messages per second
+
+// How deep --user looks for user ids and usernames in a payload
+const USER_SEARCH_DEPTH = 4
+
+function parseDate(value: string | undefined, flag: string): Date | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date for --${flag}: ${value}`)
+  }
+  return date
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function isArchiveRecord(value: unknown): value is ArchiveRecord {
+  const record = value as ArchiveRecord
+  return record?.v === 1 && typeof record.body === "string" && typeof record.headers === "object"
+}
+
+function isWebHookEvent(value: unknown): value is DiscourseWebHookEvent {
+  const event = value as DiscourseWebHookEvent
+  return typeof event?.payload === "string" && event.headers !== undefined && !!event.created_at
+}
+
+function lowercaseHeaders(headers: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), String(value)])
+  )
+}
+
+/**
+ * Reads an archive record or a Discourse web hook event
+ */
+function toDelivery(value: unknown, key: string, source: string, line: number): Captured {
+  if (isArchiveRecord(value)) {
+    return {
+      key,
+      source,
+      line,
+      headers: value.headers,
+      body: archiveBodyOf(value),
+      receivedAt: value.received_at,
+      instance: value.instance,
+    }
+  }
+
+  if (isWebHookEvent(value)) {
+    try {
+      const headers = typeof value.headers === "string" ? JSON.parse(value.headers) : value.headers
+      return {
+        key,
+        source,
+        line,
+        headers: lowercaseHeaders(headers),
+        body: Buffer.from(value.payload, "utf-8"),
+        receivedAt: new Date(value.created_at).toISOString(),
+      }
+    } catch {
+      return { key, source, line, error: "Web hook event headers are not valid JSON" }
+    }
+  }
+
+  return { key, source, line, error: "Neither an archive record nor a Discourse web hook event" }
+}
+
+async function* fromArchive(dir: string, query: ArchiveQuery): AsyncGenerator<Captured> {
+  for await (const entry of readArchive(dir, query)) {
+    // Sealing renames a segment but keeps its lines, so checkpoints use the base name
+    const key = `archive/${entry.segment.replace(/\.ndjson(\.gz|\.sealing)?$/, "")}`
+    yield entry.record
+      ? toDelivery(entry.record, key, entry.segment, entry.line)
+      : { key, source: entry.segment, line: entry.line, error: entry.error || "Unreadable" }
+  }
+}
+
+async function* fromFile(filePath: string, ordinal: number): AsyncGenerator<Captured> {
+  const key = `file/${String(ordinal).padStart(4, "0")}`
+
+  if (filePath.endsWith(".json")) {
+    const document = JSON.parse(await fs.readFile(filePath, "utf-8"))
+    const events = Array.isArray(document) ? document : document?.web_hook_events
+    if (!Array.isArray(events)) {
+      throw new Error(`${filePath}: expected a JSON array or {"web_hook_events": [...]}`)
+    }
+
+    // Discourse lists the newest event first
+    const ordered = [...events].sort(
+      (a, b) => Date.parse(a.created_at) - Date.parse(b.created_at) || a.id - b.id
+    )
+    for (const [index, event] of ordered.entries()) {
+      yield toDelivery(event, key, filePath, index + 1)
+    }
+    return
+  }
+
+  const stream = createReadStream(filePath)
+  const lines = readline.createInterface({
+    input: filePath.endsWith(".gz") ? stream.pipe(createGunzip()) : stream,
+    crlfDelay: Infinity,
+  })
+
+  let line = 0
+  for await (const text of lines) {
+    line++
+    if (!text.trim()) continue
+    let value: unknown
+    try {
+      value = JSON.parse(text)
+    } catch {
+      yield { key, source: filePath, line, error: "Malformed JSON" }
+      continue
+    }
+    yield toDelivery(value, key, filePath, line)
+  }
+}
+
+/**
+ * Whether the payload names the user: by user_id, by username, or by id
+ * under a "user" or "created_by" key
+ */
+function concernsUser(value: unknown, user: string, depth = 0, key = ""): boolean {
+  if (!value || typeof value !== "object" || depth > USER_SEARCH_DEPTH) return false
+
+  const node = value as Record<string, unknown>
+  if (
+    String(node.user_id) === user ||
+    node.username === user ||
+    ((key === "user" || key === "created_by") && String(node.id) === user)
+  ) {
+    return true
+  }
+  return Object.entries(node).some(([name, child]) => concernsUser(child, user, depth + 1, name))
+}
+
+function matches(message: QueueMessage, filter: ReplayFilter): boolean {
+  const { event } = message
+  const receivedAt = new Date(event.received_at)
+  return (
+    (!filter.instance || message.tenant?.id === filter.instance) &&
+    (!filter.eventType || eventTypeMatches(filter.eventType, event.event_type)) &&
+    (!filter.since || receivedAt >= filter.since) &&
+    (!filter.until || receivedAt < filter.until) &&
+    (!filter.user || concernsUser(event.payload, filter.user))
+  )
+}
+
+/**
+ * Builds the message the handler would have queued for the delivery,
+ * marked as replayed
+ */
+function toQueueMessage(
+  delivery: CapturedDelivery,
+  instances: InstanceRegistry,
+  runId: string
+): { message: QueueMessage; key?: string } | { outcome: Outcome; error: string } {
+  const { headers } = delivery
+  const resolution = instances.resolve(delivery.instance, headers["x-discourse-instance"])
+  if (!resolution.ok) {
+    return { outcome: "unknown_instance", error: resolution.reason }
+  }
+
+  const eventType = headers["x-discourse-event"]
+  if (!eventType) {
+    return { outcome: "invalid", error: "No X-Discourse-Event header" }
+  }
+
+  let payload: DiscourseWebhookEvent["payload"]
+  try {
+    payload = JSON.parse(delivery.body.toString("utf-8"))
+  } catch {
+    return { outcome: "invalid", error: "Body is not valid JSON" }
+  }
+
+  const eventHeaders: DiscourseWebhookEvent["headers"] = {
+    "x-discourse-event": eventType,
+    "x-discourse-event-signature": headers["x-discourse-event-signature"] || "",
+    "x-discourse-event-id": headers["x-discourse-event-id"],
+    "x-discourse-instance": headers["x-discourse-instance"],
+  }
+  const key = idempotencyKeyFor(eventHeaders, resolution.tenant.id)
+
+  return {
+    key,
+    message: {
+      id: randomUUID(),
+      event: {
+        event_type: eventType,
+        payload,
+        headers: eventHeaders,
+        received_at: delivery.receivedAt,
+      },
+      timestamp: new Date().toISOString(),
+      retry_count: 0,
+      idempotency_key: key && `replay:${runId}:${key}`,
+      tenant: resolution.tenant,
+      replay: {
+        run_id: runId,
+        source: `${delivery.source}:${delivery.line}`,
+        replayed_at: new Date().toISOString(),
+      },
+    },
+  }
+}
+
+async function main(): Promise<void> {
+  const { values, positionals: files } = parseArgs({
+    allowPositionals: true,
+    options: {
+      archive: { type: "boolean", default: false },
+      instance: { type: "string" },
+      "event-type": { type: "string" },
+      user: { type: "string" },
+      since: { type: "string" },
+      until: { type: "string" },
+      rate: { type: "string" },
+      checkpoint: { type: "string" },
+      limit: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+    },
+  })
+
+  if (!values.archive && files.length === 0) {
+    console.error(
+      "Usage: replay [--archive] [<file>...] [--instance] [--event-type] [--user] [--since] [--until] [--rate] [--checkpoint] [--limit] [--dry-run]"
+    )
+    process.exit(2)
+  }
+
+  const filter: ReplayFilter = {
+    instance: values.instance,
+    eventType: values["event-type"],
+    user: values.user,
+    since: parseDate(values.since, "since"),
+    until: parseDate(values.until, "until"),
+  }
+  const limit = values.limit ? parseInt(values.limit, 10) : Infinity
+  const rate = values.rate ? parseFloat(values.rate) : DEFAULT_REPLAY_RATE
+  const dryRun = values["dry-run"]
+
+  const config = getHandlerConfig()
+  const archiveDir = values.archive ? getArchiveConfigFromEnv().dir : null
+  const instances = new InstanceRegistry(config.instances)
+
+  // A checkpoint only resumes the run it was written for
+  const selection = selectionOf({ archiveDir, files, filter })
+  const checkpoint = values.checkpoint ? await readCheckpoint(values.checkpoint, selection) : undefined
+  const runId = checkpoint?.run_id || randomUUID()
+  let published = checkpoint?.published || 0
+
+  async function* captured(): AsyncGenerator<Captured> {
+    if (archiveDir) {
+      // Segments that cannot match are skipped through their indexes
+      yield* fromArchive(archiveDir, {
+        instance: filter.instance,
+        eventType: filter.eventType?.includes("*") ? undefined : filter.eventType,
+        since: filter.since,
+        until: filter.until,
+      })
+    }
+    for (const [ordinal, filePath] of files.entries()) {
+      yield* fromFile(filePath, ordinal)
+    }
+  }
+
+  let transport: MessageTransport | null = null
+  if (!dryRun) {
+    if (config.transport === "memory") {
+      throw new Error("Replay needs TRANSPORT=rabbitmq or file (the memory transport is in-process)")
+    }
+    transport = createTransport({
+      type: config.transport,
+      queueName: config.queueName,
+      topology: config.topology,
+      rabbitmqUrl: config.rabbitmqUrl,
+      fileDir: config.fileTransportDir,
+      confirmTimeoutMs: config.publishConfirmTimeoutMs,
+    })
+    await transport.connect()
+  }
+
+  const counts: Record<Outcome, number> = {
+    published: 0,
+    filtered: 0,
+    duplicate: 0,
+    unknown_instance: 0,
+    invalid: 0,
+    resumed: 0,
+  }
+  const replayed = new Set<string>() // Idempotency keys of this run
+
+  try {
+    for await (const entry of captured()) {
+      if (counts.published >= limit) break
+
+      if (checkpoint && isAtOrBefore(entry, checkpoint)) {
+        counts.resumed++
+        continue
+      }
+
+      const built =
+        "error" in entry
+          ? { outcome: "invalid" as Outcome, error: entry.error }
+          : toQueueMessage(entry, instances, runId)
+      if ("outcome" in built) {
+        counts[built.outcome]++
+        console.error(`skipped ${entry.source}:${entry.line}: ${built.error}`)
+        continue
+      }
+
+      const { message, key } = built
+      if (!matches(message, filter)) {
+        counts.filtered++
+        continue
+      }
+      if (key && replayed.has(key)) {
+        counts.duplicate++ // A redelivery in Discourse's log
+        continue
+      }
+      if (key) replayed.add(key)
+
+      const { event, tenant } = message
+      const description =
+        `${entry.source}:${entry.line} ${event.event_type} ${event.headers["x-discourse-event-id"] || "-"}` +
+        ` (${tenant?.id}, received ${event.received_at})`
+      counts.published++
+
+      if (!transport) {
+        console.log(`[dry-run] would replay ${description}`)
+        continue
+      }
+
+      if (counts.published > 1 && rate > 0) {
+        await sleep(1000 / rate)
+      }
+      if (!(await transport.publish(message))) {
+        throw new Error(`Publish of ${entry.source}:${entry.line} was not confirmed`)
+      }
+      published++
+      console.log(`replayed ${description} as ${message.id}`)
+
+      if (values.checkpoint) {
+        await writeCheckpoint(values.checkpoint, {
+          run_id: runId,
+          selection,
+          key: entry.key,
+          line: entry.line,
+          published,
+          updated_at: new Date().toISOString(),
+        })
+      }
+    }
+  } finally {
+    await transport?.close()
+  }
+
+  console.error(
+    `${dryRun ? "[dry-run] " : ""}run ${runId}: ${Object.entries(counts)
+      .map(([outcome, count]) => `${outcome} ${count}`)
+      .join(", ")}`
+  )
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,292 @@
+/**
+ * Webhook Secret CLI
+ *
+ * Rotates webhook secrets without dropping webhooks: the new secret is
+ * added next to the old one, Discourse is switched over, and the old one
+ * expires once the usage report shows Discourse stopped sending it.
+ *
+ * Usage:
+ *   npm run secrets -- generate [--instance <id>] [--label <label>] [--retire-after <duration|iso-date>]
+ *   npm run secrets -- retire   --label <label> [--instance <id>] [--at <iso-date>]
+ *   npm run secrets -- usage    [--quiet-for <duration>] [--json]
+ *
+ * Secrets are edited in INSTANCES_FILE (per instance) or, in single-instance
+ * mode, WEBHOOK_SECRETS_FILE. Durations look like 30m, 12h or 7d. Send the
+ * handler SIGHUP (or restart it) after a change.
+ */
+
+import { promises as fs } from "fs"
+import { parseArgs } from "util"
+import { generateWebhookSecret, isSecretActive } from "../shared/security"
+import {
+  DEFAULT_SECRET_LABEL,
+  SecretConfig,
+  loadSecrets,
+  readSecretUsage,
+  usageKey,
+} from "../shared/secrets"
+import {
+  DEFAULT_INSTANCE_ID,
+  InstanceConfig,
+  getInstancesConfigFromEnv,
+} from "../handler/instances"
+
+const DEFAULT_QUIET_FOR_MS = 86400000 // 24 hours without use: safe to retire
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60000,
+  h: 3600000,
+  d: 86400000,
+}
+
+interface SecretsFile {
+  path: string
+  instances: InstanceConfig[] // One entry in single-instance mode
+  singleInstance: boolean
+}
+
+function parseDuration(value: string): number {
+  const match = /^(\d+)([mhd])$/.exec(value)
+  if (!match) {
+    throw new Error(`Invalid duration: ${value} (expected e.g. 30m, 12h, 7d)`)
+  }
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2]]
+}
+
+/**
+ * An ISO date, or a duration from now
+ */
+function parseTime(value: string): Date {
+  if (/^\d+[mhd]$/.test(value)) {
+    return new Date(Date.now() + parseDuration(value))
+  }
+
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`)
+  }
+  return date
+}
+
+async function readSecretsFile(): Promise<SecretsFile> {
+  if (process.env.INSTANCES_FILE) {
+    const filePath = process.env.INSTANCES_FILE
+    return {
+      path: filePath,
+      instances: JSON.parse(await fs.readFile(filePath, "utf-8")) as InstanceConfig[],
+      singleInstance: false,
+    }
+  }
+
+  const filePath = process.env.WEBHOOK_SECRETS_FILE
+  if (!filePath) {
+    throw new Error(
+      "Set WEBHOOK_SECRETS_FILE (single instance) or INSTANCES_FILE to manage secrets"
+    )
+  }
+
+  let secrets: SecretConfig[] = []
+  try {
+    secrets = JSON.parse(await fs.readFile(filePath, "utf-8")) as SecretConfig[]
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+    // First rotation: carry the current DISCOURSE_WEBHOOK_SECRET over
+    if (process.env.DISCOURSE_WEBHOOK_SECRET) {
+      secrets = [{ label: DEFAULT_SECRET_LABEL, secretEnv: "DISCOURSE_WEBHOOK_SECRET" }]
+    }
+  }
+
+  return {
+    path: filePath,
+    instances: [{ id: DEFAULT_INSTANCE_ID, secrets }],
+    singleInstance: true,
+  }
+}
+
+async function writeSecretsFile(file: SecretsFile): Promise<void> {
+  const content = file.singleInstance ? file.instances[0].secrets : file.instances
+  const tmpPath = `${file.path}.tmp`
+
+  await fs.writeFile(tmpPath, JSON.stringify(content, null, 2) + "\n", { mode: 0o600 })
+  await fs.rename(tmpPath, file.path)
+}
+
+function findInstance(file: SecretsFile, id: string | undefined): InstanceConfig {
+  if (file.singleInstance) {
+    return file.instances[0]
+  }
+
+  if (!id) {
+    throw new Error(`--instance is required with INSTANCES_FILE (${file.instances.map((i) => i.id).join(", ")})`)
+  }
+
+  const instance = file.instances.find((candidate) => candidate.id === id)
+  if (!instance) {
+    throw new Error(`Unknown instance: ${id}`)
+  }
+  return instance
+}
+
+/**
+ * Turns the secret/secretEnv shorthand into an explicit secrets list
+ */
+function secretsOf(instance: InstanceConfig): SecretConfig[] {
+  if (!instance.secrets) {
+    instance.secrets = [
+      { label: DEFAULT_SECRET_LABEL, secret: instance.secret, secretEnv: instance.secretEnv },
+    ]
+    delete instance.secret
+    delete instance.secretEnv
+  }
+  return instance.secrets
+}
+
+async function generate(
+  instanceId: string | undefined,
+  label: string | undefined,
+  retireAfter: string | undefined
+): Promise<void> {
+  const file = await readSecretsFile()
+  const instance = findInstance(file, instanceId)
+  const secrets = secretsOf(instance)
+  const now = new Date()
+  const newLabel = label || now.toISOString().slice(0, 10)
+
+  if (secrets.some((secret) => secret.label === newLabel)) {
+    throw new Error(`Instance ${instance.id} already has a secret labelled ${newLabel}`)
+  }
+
+  if (retireAfter) {
+    const notAfter = parseTime(retireAfter).toISOString()
+    for (const secret of secrets) {
+      if (!secret.notAfter || secret.notAfter > notAfter) {
+        secret.notAfter = notAfter
+      }
+    }
+  }
+
+  const secret = generateWebhookSecret()
+  secrets.push({ label: newLabel, secret, notBefore: now.toISOString() })
+  await writeSecretsFile(file)
+
+  console.log(`New secret for ${instance.id} (${newLabel}): ${secret}`)
+  console.log(`Written to ${file.path}. Next steps:`)
+  console.log("  1. Reload the handler (SIGHUP or restart) so it accepts both secrets")
+  console.log("  2. Set the new secret in Discourse (/admin/api/web_hooks)")
+  console.log("  3. Run `npm run secrets -- usage` until the old secret shows as unused, then retire it")
+}
+
+async function retire(
+  instanceId: string | undefined,
+  label: string | undefined,
+  at: string | undefined
+): Promise<void> {
+  if (!label) {
+    throw new Error("--label is required")
+  }
+
+  const file = await readSecretsFile()
+  const instance = findInstance(file, instanceId)
+  const secrets = secretsOf(instance)
+  const secret = secrets.find((candidate) => candidate.label === label)
+
+  if (!secret) {
+    throw new Error(`Instance ${instance.id} has no secret labelled ${label}`)
+  }
+
+  const notAfter = at ? parseTime(at) : new Date()
+  const remaining = secrets.filter(
+    (candidate) =>
+      candidate !== secret && (!candidate.notAfter || new Date(candidate.notAfter) > notAfter)
+  )
+  if (remaining.length === 0) {
+    throw new Error(`Refusing to retire ${label}: ${instance.id} would have no active secret`)
+  }
+
+  secret.notAfter = notAfter.toISOString()
+  await writeSecretsFile(file)
+  console.log(`Secret ${label} of ${instance.id} expires at ${secret.notAfter}. Reload the handler.`)
+}
+
+async function usage(quietForMs: number, json: boolean): Promise<void> {
+  const { instances } = getInstancesConfigFromEnv(
+    process.env.DISCOURSE_WEBHOOK_SECRET || ""
+  )
+  const recorded = await readSecretUsage(
+    process.env.SECRET_USAGE_PATH || "./data/secret-usage.json"
+  )
+  const now = new Date()
+
+  const rows = instances.flatMap((instance) => {
+    const configs = instance.secrets || [
+      { label: DEFAULT_SECRET_LABEL, secret: instance.secret, secretEnv: instance.secretEnv },
+    ]
+
+    return loadSecrets(configs).map((secret) => {
+      const used = recorded[usageKey(instance.id, secret.label)]
+      const lastUsedAt = used ? new Date(used.last_used_at) : undefined
+      const quiet = !lastUsedAt || now.getTime() - lastUsedAt.getTime() >= quietForMs
+
+      return {
+        instance: instance.id,
+        label: secret.label,
+        state: isSecretActive(secret, now)
+          ? "active"
+          : secret.notBefore && secret.notBefore > now
+            ? "pending"
+            : "expired",
+        not_before: secret.notBefore?.toISOString() ?? "",
+        not_after: secret.notAfter?.toISOString() ?? "",
+        uses: used?.count ?? 0,
+        last_used_at: used?.last_used_at ?? "never",
+        unused: quiet, // Not used within --quiet-for: safe to retire
+      }
+    })
+  })
+
+  if (json) {
+    rows.forEach((row) => console.log(JSON.stringify(row)))
+  } else {
+    console.table(rows)
+  }
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      instance: { type: "string" },
+      label: { type: "string" },
+      "retire-after": { type: "string" },
+      at: { type: "string" },
+      "quiet-for": { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  })
+
+  const [command] = positionals
+  switch (command) {
+    case "generate":
+      await generate(values.instance, values.label, values["retire-after"])
+      break
+    case "retire":
+      await retire(values.instance, values.label, values.at)
+      break
+    case "usage":
+      await usage(
+        values["quiet-for"] ? parseDuration(values["quiet-for"]) : DEFAULT_QUIET_FOR_MS,
+        values.json
+      )
+      break
+    default:
+      console.error(
+        "Usage: secrets <generate|retire|usage> [--instance] [--label] [--retire-after] [--at] [--quiet-for] [--json]"
+      )
+      process.exit(2)
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -5,31 +5,145 @@
 
 // Environment Variables (to be moved to .env)
 // DISCOURSE_WEBHOOK_SECRET=your_high_entropy_secret_here
+// WEBHOOK_SECRETS_FILE=./secrets.json
+// INSTANCES_FILE=./instances.json
+// SECRET_USAGE_PATH=./data/secret-usage.json
+// REPLAY_PROTECTION=true
+// REPLAY_FRESHNESS_WINDOW_MS=86400000
+// REPLAY_MAX_CLOCK_SKEW_MS=300000
+// REPLAY_MAX_NONCES=10000
+// IP_ALLOWLIST=203.0.113.0/24,2001:db8::/32
+// TRUSTED_PROXIES=10.0.0.0/8
+// RATE_LIMIT_IP_BURST=100
+// RATE_LIMIT_IP_PER_SECOND=20
+// RATE_LIMIT_INSTANCE_BURST=500
+// RATE_LIMIT_INSTANCE_PER_SECOND=100
+// BODY_LIMIT_BYTES=1048576
+// BODY_LIMITS=user_*=65536,chat_*=262144
+// SIGNATURE_FAILURE_THRESHOLD=10
+// SIGNATURE_FAILURE_WINDOW_MS=60000
+// SIGNATURE_FAILURE_BLOCK_MS=900000
+// TRANSPORT=rabbitmq
 // RABBITMQ_URL=amqp://localhost:5672
+// FILE_TRANSPORT_DIR=./data/queue
 // QUEUE_NAME=discourse-events
+// TOPIC_EXCHANGE=discourse.events
+// QUEUE_BINDINGS=#
+// TOPOLOGY_FILE=./topology.json
 // HANDLER_PORT=3000
 // LOG_LEVEL=info
+// DEDUP_STORE=memory
+// DEDUP_RETENTION_MS=86400000
+// DEDUP_MAX_ENTRIES=100000
+// DEDUP_FILE_PATH=./data/handler-dedup.ndjson
+// SPOOL_DIR=./data/spool
+// SPOOL_MAX_BYTES=104857600
+// SPOOL_DRAIN_INTERVAL_MS=1000
+// PUBLISH_CONFIRM_TIMEOUT_MS=5000
+// HANDLER_READY_MAX_SPOOL_DEPTH=1000
+// HANDLER_SHUTDOWN_TIMEOUT_MS=10000
+// ARCHIVE_ENABLED=false
+// ARCHIVE_DIR=./data/archive
+// ARCHIVE_SEGMENT_MAX_BYTES=67108864
+// ARCHIVE_SEGMENT_MAX_AGE_MS=3600000
+// ARCHIVE_RETENTION_MS=7776000000
+// ARCHIVE_MAX_BYTES=0
+// RECONNECT_INITIAL_DELAY_MS=1000
+// RECONNECT_MAX_DELAY_MS=30000
+// TRACING_EXPORTER=none
+// TRACING_FILE_PATH=./data/spans.ndjson
+// OTEL_EXPORTER_OTLP_ENDPOINT=http://localhost:4318
+// OTEL_SERVICE_NAME=discourse-webhook-handler
+// TRACING_FLUSH_INTERVAL_MS=5000
+
+import { ArchiveConfig, getArchiveConfigFromEnv } from "../shared/archive"
+import { DedupConfig, getDedupConfigFromEnv } from "../shared/dedup"
+import { SpoolConfig } from "../shared/spool"
+import { InstancesConfig, getInstancesConfigFromEnv } from "./instances"
+import { ReplayConfig, getReplayConfigFromEnv } from "./replay"
+import { IngressConfig, getIngressConfigFromEnv } from "./ingress"
+import { TopologySpec, getTopologyFromEnv } from "../shared/topology"
+import { TracingConfig, getTracingConfigFromEnv } from "../shared/tracing"
+import {
+  ReconnectPolicy,
+  TransportType,
+  getReconnectPolicyFromEnv,
+  getTransportTypeFromEnv,
+} from "../shared/transport"
 
 export interface HandlerConfig {
-  discourseWebhookSecret: string
+  discourseWebhookSecret: string // Secret of the default instance
+  instances: InstancesConfig
+  secretUsagePath: string
+  replay: ReplayConfig
+  ingress: IngressConfig
+  transport: TransportType
   rabbitmqUrl: string
+  fileTransportDir: string
   queueName: string
+  topology: TopologySpec
   port: number
   logLevel: string
+  dedup: DedupConfig
+  spool: SpoolConfig
+  publishConfirmTimeoutMs: number
+  readyMaxSpoolDepth: number // /readyz fails above this many spooled messages
+  shutdownTimeoutMs: number // How long in-flight webhooks may finish on shutdown
+  archive: ArchiveConfig
+  reconnect: ReconnectPolicy
+  tracing: TracingConfig
 }
 
 export function getHandlerConfig(): HandlerConfig {
+  const queueName = process.env.QUEUE_NAME || "discourse-events"
+  const discourseWebhookSecret =
+    process.env.DISCOURSE_WEBHOOK_SECRET || "change_me_in_production"
   const config: HandlerConfig = {
-    discourseWebhookSecret:
-      process.env.DISCOURSE_WEBHOOK_SECRET || "change_me_in_production",
+    discourseWebhookSecret,
+    instances: getInstancesConfigFromEnv(discourseWebhookSecret),
+    secretUsagePath:
+      process.env.SECRET_USAGE_PATH || "./data/secret-usage.json",
+    replay: getReplayConfigFromEnv(),
+    ingress: getIngressConfigFromEnv(),
+    transport: getTransportTypeFromEnv(),
     rabbitmqUrl: process.env.RABBITMQ_URL || "amqp://localhost:5672",
-    queueName: process.env.QUEUE_NAME || "discourse-events",
+    fileTransportDir: process.env.FILE_TRANSPORT_DIR || "./data/queue",
+    queueName,
+    topology: getTopologyFromEnv(queueName),
     port: parseInt(process.env.HANDLER_PORT || "3000", 10),
     logLevel: process.env.LOG_LEVEL || "info",
+    dedup: getDedupConfigFromEnv("./data/handler-dedup.ndjson"),
+    spool: {
+      dir: process.env.SPOOL_DIR || "./data/spool",
+      maxBytes: parseInt(process.env.SPOOL_MAX_BYTES || "104857600", 10), // 100MB
+      drainIntervalMs: parseInt(
+        process.env.SPOOL_DRAIN_INTERVAL_MS || "1000",
+        10
+      ),
+    },
+    publishConfirmTimeoutMs: parseInt(
+      process.env.PUBLISH_CONFIRM_TIMEOUT_MS || "5000",
+      10
+    ),
+    readyMaxSpoolDepth: parseInt(
+      process.env.HANDLER_READY_MAX_SPOOL_DEPTH || "1000",
+      10
+    ),
+    shutdownTimeoutMs: parseInt(
+      process.env.HANDLER_SHUTDOWN_TIMEOUT_MS || "10000",
+      10
+    ),
+    archive: getArchiveConfigFromEnv(),
+    reconnect: getReconnectPolicyFromEnv(),
+    tracing: getTracingConfigFromEnv("discourse-webhook-handler"),
   }
 
   // Validation
-  if (config.discourseWebhookSecret === "change_me_in_production") {
+  if (
+    !config.instances.requireKnownInstance &&
+    !process.env.WEBHOOK_SECRETS_FILE &&
+    config.discourseWebhookSecret === "change_me_in_production"
+  ) {
     console.warn(
       "WARNING: Using default webhook secret. Set DISCOURSE_WEBHOOK_SECRET in production!"
     )
@@ -5,7 +5,7 @@
  * Responsibilities:
  * 1. Receive HTTP POST webhooks from Discourse
  * 2. Validate HMAC-SHA256 signature
- * 3. Publish raw payload to message queue
+ * 3. Publish raw payload to message queue (spooling to disk if unconfirmed)
  * 4. Return fast response to Discourse
  *
  * Based on GET_STARTED.md implementation guide
@@ -14,10 +14,45 @@
 import Fastify, { FastifyRequest, FastifyReply } from "fastify"
 import { randomUUID } from "crypto"
 import { getHandlerConfig } from "./config"
-import { validateWebhookSignature } from "../shared/security"
-import { MessageQueue } from "../shared/queue"
+import { InstanceRegistry, getInstancesConfigFromEnv } from "./instances"
+import { ReplayGuard, deliveryDigest } from "./replay"
+import { IngressGuard } from "./ingress"
+import { validateWebhookSignatureWithSecrets } from "../shared/security"
+import { SecretUsageTracker } from "../shared/secrets"
+import { createTransport } from "../shared/transport"
+import {
+  IdempotencyStore,
+  createIdempotencyStore,
+  idempotencyKeyFor,
+} from "../shared/dedup"
+import { Spool, SpoolFullError } from "../shared/spool"
+import { ArchiveWriter, archiveRecordFor } from "../shared/archive"
 import { DiscourseWebhookEvent, QueueMessage } from "../shared/types"
+import { validatePayload } from "../shared/validation"
+import { METRICS_CONTENT_TYPE, eventTypeLabel, metrics } from "../shared/metrics"
 import logger from "../shared/logger"
+import { CheckResult, ageMs, registerHealthRoutes } from "../shared/health"
+import { isShuttingDown, onShutdown, waitUntil } from "../shared/shutdown"
+import {
+  CORRELATION_ID_HEADER,
+  REQUEST_ID_HEADER,
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+  correlationIdFrom,
+  createTracer,
+  parseTraceparent,
+  traceHeadersFor,
+} from "../shared/tracing"
+import {
+  archiveRecordsTotal,
+  messagesTotal,
+  publishDuration,
+  registerHandlerGauges,
+  rejectionsTotal,
+  signatureFailuresTotal,
+  webhookDuration,
+  webhooksTotal,
+} from "./metrics"
 
 // Extend FastifyRequest to include rawBody
 declare module "fastify" {
@@ -29,22 +64,256 @@ declare module "fastify" {
 // Initialize configuration
 const config = getHandlerConfig()
 
+// Ingress protection: allowlists, rate limits, body limits, IP blocks
+const ingressGuard = new IngressGuard(config.ingress)
+
+// Discourse instances and their secrets (reloaded on SIGHUP)
+let instances = new InstanceRegistry(config.instances)
+
+// Fixed at startup: a reload that raises an instance's body limit needs a restart
+const maxBodyLimit = ingressGuard.maxBodyLimit(instances.ingressPolicies())
+
 // Initialize Fastify
 const app = Fastify({
   logger: false, // Use custom logger
-  bodyLimit: 1048576, // 1MB limit
+  bodyLimit: maxBodyLimit, // Per event type limits are checked below
+  // X-Forwarded-For is only honored from these addresses
+  trustProxy: config.ingress.trustedProxies.length > 0 ? config.ingress.trustedProxies : false,
   disableRequestLogging: false,
 })
 
-// Initialize Message Queue
-const messageQueue = new MessageQueue(config.queueName, config.rabbitmqUrl)
+// Initialize Message Queue (transport selected by TRANSPORT)
+const messageQueue = createTransport({
+  type: config.transport,
+  queueName: config.queueName,
+  topology: config.topology,
+  rabbitmqUrl: config.rabbitmqUrl,
+  fileDir: config.fileTransportDir,
+  confirmTimeoutMs: config.publishConfirmTimeoutMs,
+  reconnect: config.reconnect,
+})
+
+messageQueue.on("state", (state, previous) => {
+  logger.info({ state, previous }, "Message queue state changed")
+})
+
+// Which secret each webhook matched, for rotation
+const secretUsage = new SecretUsageTracker(config.secretUsagePath)
+
+// Replay protection: per-instance nonces and a freshness window
+const replayGuard = new ReplayGuard(config.replay)
+
+// Disk spool for messages the broker could not confirm
+const spool = new Spool(config.spool)
+
+registerHandlerGauges(spool, messageQueue)
+
+// Raw event archive of accepted webhooks (ARCHIVE_ENABLED)
+const archive = config.archive.enabled ? new ArchiveWriter(config.archive) : null
+
+// Spans for received webhooks (TRACING_EXPORTER)
+const tracer = createTracer(config.tracing)
+
+// Initialized in start()
+let idempotencyStore: IdempotencyStore
+
+// Last broker-confirmed publish and last accepted webhook, for /readyz and /status
+let lastConfirmedAt: Date | undefined
+let lastAcceptedAt: Date | undefined
+
+// Webhooks being handled; shutdown waits for them
+let inFlightWebhooks = 0
+
+// Retry-After of webhooks refused while shutting down (seconds)
+const SHUTDOWN_RETRY_AFTER_SECONDS = 30
+
+/**
+ * Publishes a message and records how long the confirm took
+ */
+async function publishTimed(
+  message: QueueMessage,
+  source: "webhook" | "spool"
+): Promise<boolean> {
+  const stopTimer = publishDuration.startTimer({ source })
+  try {
+    const confirmed = await messageQueue.publish(message)
+    stopTimer({ outcome: confirmed ? "confirmed" : "unconfirmed" })
+    if (confirmed) lastConfirmedAt = new Date()
+    return confirmed
+  } catch (error) {
+    stopTimer({ outcome: "error" })
+    throw error
+  }
+}
+
+/**
+ * Publishes a message with publisher confirms, falling back to the spool.
+ * While the spool holds messages, new ones are spooled behind them so the
+ * queue receives events in arrival order.
+ */
+async function publishOrSpool(
+  message: QueueMessage
+): Promise<"queued" | "spooled"> {
+  if (spool.depth === 0 && messageQueue.isConnected()) {
+    try {
+      if (await publishTimed(message, "webhook")) {
+        return "queued"
+      }
+    } catch (error) {
+      logger.warn({ error, messageId: message.id }, "Publish failed, spooling")
+    }
+  }
+
+  await spool.append(message)
+  return "spooled"
+}
+
+/**
+ * Archives an accepted webhook with its raw body. The event is already
+ * queued or spooled, so a failed write is logged and counted but does not
+ * fail the webhook.
+ */
+async function archiveWebhook(
+  request: FastifyRequest,
+  instance: string,
+  message: QueueMessage,
+  rawBody: Buffer
+): Promise<void> {
+  if (!archive) return
+
+  try {
+    await archive.append(
+      archiveRecordFor({
+        messageId: message.id,
+        instance,
+        eventType: message.event.event_type,
+        eventId: message.event.headers["x-discourse-event-id"],
+        receivedAt: message.event.received_at,
+        headers: request.headers,
+        body: rawBody,
+      })
+    )
+    archiveRecordsTotal.inc({ outcome: "archived" })
+  } catch (error) {
+    archiveRecordsTotal.inc({ outcome: "error" })
+    logger.error({ error, messageId: message.id }, "Failed to archive webhook")
+  }
+}
+
+/**
+ * Sends a 4xx response and counts it under its rejection reason
+ */
+function reject(
+  reply: FastifyReply,
+  statusCode: number,
+  reason: string,
+  body: { error: string; message: string }
+): FastifyReply {
+  rejectionsTotal.inc({ reason })
+  return reply.code(statusCode).send(body)
+}
+
+/**
+ * Rejects webhooks before their body is read: blocked or unlisted source
+ * IPs, rate limits and declared bodies over the event type's limit.
+ * Requests from unknown instances are only checked per IP here; the
+ * handler rejects them. While shutting down every webhook gets a 503, so
+ * Discourse delivers it again later (to another replica).
+ */
+async function checkIngress(
+  request: FastifyRequest<{ Params: { instance?: string } }>,
+  reply: FastifyReply
+): Promise<FastifyReply | undefined> {
+  if (isShuttingDown()) {
+    reply.header("Retry-After", SHUTDOWN_RETRY_AFTER_SECONDS)
+    return reject(reply, 503, "shutting_down", {
+      error: "Service Unavailable",
+      message: "Handler is shutting down",
+    })
+  }
+
+  const eventType = request.headers["x-discourse-event"] as string | undefined
+  const contentLength = request.headers["content-length"]
+  const resolution = instances.resolve(
+    request.params.instance,
+    request.headers["x-discourse-instance"] as string | undefined
+  )
+
+  const check = ingressGuard.check(
+    request.ip,
+    resolution.ok ? resolution.instance.ingress : {},
+    eventType,
+    contentLength ? parseInt(contentLength, 10) : undefined
+  )
+  if (check.ok) {
+    return undefined
+  }
+
+  logger.warn(
+    { reason: check.reason, ip: request.ip, eventType },
+    "Webhook rejected by ingress protection"
+  )
+
+  if (check.retryAfterMs !== undefined) {
+    reply.header("Retry-After", Math.ceil(check.retryAfterMs / 1000))
+  }
+
+  switch (check.rejection) {
+    case "rate_limited":
+      return reject(reply, 429, check.rejection, {
+        error: "Too Many Requests",
+        message: "Rate limit exceeded",
+      })
+    case "body_too_large":
+      return reject(reply, 413, check.rejection, {
+        error: "Payload Too Large",
+        message: "Body exceeds the limit for this event type",
+      })
+    case "ip_blocked":
+      return reject(reply, 403, check.rejection, {
+        error: "Forbidden",
+        message: "Source address is temporarily blocked",
+      })
+    default:
+      return reject(reply, 403, check.rejection, {
+        error: "Forbidden",
+        message: "Source address not allowed",
+      })
+  }
+}
 
 /**
  * Webhook endpoint
- * POST /webhook
+ * POST /webhook (instance from X-Discourse-Instance)
+ * POST /webhook/:instance
  */
-app.post("/webhook", async (request: FastifyRequest, reply: FastifyReply) => {
+async function handleWebhook(
+  request: FastifyRequest<{ Params: { instance?: string } }>,
+  reply: FastifyReply
+): Promise<FastifyReply> {
   const startTime = Date.now()
+  inFlightWebhooks++
+
+  // Continue the sender's trace if it sent one; the correlation ID is
+  // echoed back and follows the event to the worker
+  const correlationId = correlationIdFrom(
+    request.headers[CORRELATION_ID_HEADER],
+    request.headers[REQUEST_ID_HEADER]
+  )
+  const receiveSpan = tracer.startSpan("receive", {
+    kind: "server",
+    parent: parseTraceparent(request.headers[TRACEPARENT_HEADER], request.headers[TRACESTATE_HEADER]),
+    attributes: {
+      "http.request.method": request.method,
+      "http.route": request.routeOptions.url,
+      "client.address": request.ip,
+      "discourse.event_type": request.headers["x-discourse-event"] as string | undefined,
+      "discourse.event_id": request.headers["x-discourse-event-id"] as string | undefined,
+    },
+  })
+  const validateSpan = tracer.startSpan("validate", { parent: receiveSpan.context })
+  const log = logger.child({ traceId: receiveSpan.traceId, correlationId })
+  reply.header("X-Correlation-Id", correlationId)
 
   try {
     // 1. Extract headers
@@ -54,108 +323,272 @@ app.post("/webhook", async (request: FastifyRequest, reply: FastifyReply) => {
     const instance = request.headers["x-discourse-instance"] as string
 
     if (!signature) {
-      logger.warn("Webhook received without signature header")
-      return reply.code(400).send({
+      log.warn("Webhook received without signature header")
+      return reject(reply, 400, "missing_signature", {
         error: "Bad Request",
         message: "Missing X-Discourse-Event-Signature header",
       })
     }
 
     if (!eventType) {
-      logger.warn("Webhook received without event type header")
-      return reply.code(400).send({
+      log.warn("Webhook received without event type header")
+      return reject(reply, 400, "missing_event_type", {
         error: "Bad Request",
         message: "Missing X-Discourse-Event header",
       })
     }
 
-    // 2. Get raw body (CRITICAL: Must use raw bytes, not parsed JSON)
+    // 2. Resolve the Discourse instance (its secret and allowed events)
+    const resolution = instances.resolve(request.params.instance, instance)
+
+    if (!resolution.ok) {
+      log.warn(
+        { reason: resolution.reason, pathInstance: request.params.instance, instance },
+        "Webhook from unknown instance rejected"
+      )
+      return reject(reply, 403, "unknown_instance", {
+        error: "Forbidden",
+        message: "Unknown instance",
+      })
+    }
+
+    const { tenant } = resolution
+
+    // 3. Get raw body (CRITICAL: Must use raw bytes, not parsed JSON)
     const rawBody = request.rawBody as Buffer
 
     if (!rawBody) {
-      logger.error("Raw body not available")
+      log.error("Raw body not available")
       return reply.code(500).send({
         error: "Internal Server Error",
         message: "Raw body not available",
       })
     }
 
-    // 3. Validate signature
-    const validationResult = validateWebhookSignature(
+    // Bodies sent without Content-Length are only measured now
+    const bodyLimit = ingressGuard.bodyLimitFor(eventType, resolution.instance.ingress)
+    if (rawBody.length > bodyLimit) {
+      log.warn(
+        { eventType, bytes: rawBody.length, bodyLimit, tenant: tenant.id },
+        "Webhook body over the event type's limit"
+      )
+      return reject(reply, 413, "body_too_large", {
+        error: "Payload Too Large",
+        message: "Body exceeds the limit for this event type",
+      })
+    }
+
+    // 4. Validate signature against the instance's active secrets
+    const validationResult = validateWebhookSignatureWithSecrets(
       rawBody,
       signature,
-      config.discourseWebhookSecret
+      resolution.instance.secrets
     )
 
     if (!validationResult.valid) {
-      logger.warn(
-        { error: validationResult.error, eventType },
+      log.warn(
+        { error: validationResult.error, eventType, tenant: tenant.id },
         "Invalid webhook signature"
       )
-      return reply.code(403).send({
+      signatureFailuresTotal.inc({ instance: resolution.instance.id })
+      if (ingressGuard.recordSignatureFailure(request.ip)) {
+        log.warn(
+          { ip: request.ip, blockMs: config.ingress.signatureFailures.blockMs },
+          "Source blocked after repeated invalid signatures"
+        )
+      }
+      return reject(reply, 403, "invalid_signature", {
         error: "Forbidden",
         message: "Invalid signature",
       })
     }
 
-    // 4. Parse JSON payload
-    const payload = JSON.parse(rawBody.toString("utf-8"))
+    secretUsage.record(tenant.id, validationResult.label)
+
+    // Charged only for signed requests, so forged ones cannot exhaust it
+    const rateCheck = ingressGuard.checkInstanceRate(resolution.instance.id, resolution.instance.ingress)
+    if (!rateCheck.ok) {
+      log.warn({ reason: rateCheck.reason, eventType, tenant: tenant.id }, "Webhook rate limited")
+      reply.header("Retry-After", Math.ceil((rateCheck.retryAfterMs ?? 1000) / 1000))
+      return reject(reply, 429, rateCheck.rejection, {
+        error: "Too Many Requests",
+        message: "Rate limit exceeded",
+      })
+    }
+
+    // Acknowledged without queueing so Discourse does not retry it
+    if (!instances.allows(resolution.instance, eventType)) {
+      log.info({ eventType, tenant: tenant.id }, "Event type not allowed for instance")
+      return reply.code(200).send({ status: "ignored" })
+    }
+
+    // 5. Reject event ids that were already accepted with another body and
+    // skip redeliveries of events that were already queued
+    const eventHeaders: DiscourseWebhookEvent["headers"] = {
+      "x-discourse-event": eventType,
+      "x-discourse-event-signature": signature,
+      "x-discourse-event-id": eventId,
+      "x-discourse-instance": instance,
+    }
+    // Scoped to the resolved instance: X-Discourse-Instance is not signed
+    const idempotencyKey = idempotencyKeyFor(eventHeaders, tenant.id)
+    const digest = deliveryDigest(eventType, rawBody)
+    const deliveryCheck = await replayGuard.checkDelivery(
+      tenant.id,
+      eventId,
+      digest,
+      async () => Boolean(idempotencyKey && (await idempotencyStore.seen(idempotencyKey)))
+    )
+
+    if (!deliveryCheck.ok) {
+      log.warn(
+        { reason: deliveryCheck.reason, eventType, eventId, tenant: tenant.id },
+        "Replayed webhook rejected"
+      )
+      return reject(reply, 409, deliveryCheck.rejection, {
+        error: "Conflict",
+        message: "Event id or body was already accepted for another delivery",
+      })
+    }
+
+    if (deliveryCheck.redelivery) {
+      log.info(
+        { eventType, eventId, instance },
+        "Duplicate webhook delivery ignored"
+      )
+      return reply.code(200).send({
+        status: "duplicate",
+        idempotency_key: idempotencyKey,
+      })
+    }
+
+    // 6. Parse JSON payload
+    let payload: DiscourseWebhookEvent["payload"]
+    try {
+      payload = JSON.parse(rawBody.toString("utf-8"))
+    } catch {
+      log.warn({ eventType, eventId }, "Webhook body is not valid JSON")
+      return reject(reply, 400, "invalid_json", {
+        error: "Bad Request",
+        message: "Body is not valid JSON",
+      })
+    }
+
+    // Reject events that happened outside the freshness window (created_at
+    // of *_created events, updated_at or deleted_at of the others)
+    const freshnessCheck = replayGuard.checkFreshness(eventType, payload)
 
-    // 5. Create webhook event object
+    if (!freshnessCheck.ok) {
+      log.warn(
+        { reason: freshnessCheck.reason, eventType, eventId, tenant: tenant.id },
+        "Stale webhook rejected"
+      )
+      return reject(reply, 409, freshnessCheck.rejection, {
+        error: "Conflict",
+        message: "Webhook is outside the freshness window",
+      })
+    }
+
+    // Malformed payloads are still queued; the worker quarantines them
+    const validation = validatePayload(eventType, payload)
+    if (validation.issues.length > 0) {
+      log.warn(
+        { eventType, eventId, issues: validation.issues },
+        "Webhook payload failed validation"
+      )
+    }
+
+    validateSpan.end()
+
+    // 7. Create webhook event object
     const webhookEvent: DiscourseWebhookEvent = {
       event_type: eventType,
       payload,
-      headers: {
-        "x-discourse-event": eventType,
-        "x-discourse-event-signature": signature,
-        "x-discourse-event-id": eventId,
-        "x-discourse-instance": instance,
-      },
+      headers: eventHeaders,
       received_at: new Date().toISOString(),
     }
 
-    // 6. Create queue message
+    // 8. Create queue message, carrying the trace of its publish span
+    const messageId = randomUUID()
+    const publishSpan = tracer.startSpan("publish", {
+      kind: "producer",
+      parent: receiveSpan.context,
+      attributes: {
+        "messaging.system": config.transport,
+        "messaging.destination.name": config.topology.exchange,
+        "messaging.message.id": messageId,
+      },
+    })
     const queueMessage: QueueMessage = {
-      id: randomUUID(),
+      id: messageId,
       event: webhookEvent,
       timestamp: new Date().toISOString(),
       retry_count: 0,
+      idempotency_key: idempotencyKey,
+      tenant,
+      trace: traceHeadersFor(publishSpan.context, correlationId),
     }
 
-    // 7. Publish to message queue
-    const published = await messageQueue.publish(queueMessage)
-
-    if (!published) {
-      logger.error(
-        { messageId: queueMessage.id },
-        "Failed to publish message to queue"
+    // 9. Publish to message queue (confirmed) or spool to disk
+    let status: "queued" | "spooled"
+    try {
+      status = await publishOrSpool(queueMessage)
+      lastAcceptedAt = new Date()
+      publishSpan.setAttribute("discourse.publish.status", status)
+    } catch (error) {
+      publishSpan.recordError(error)
+      log.error(
+        {
+          messageId: queueMessage.id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to publish or spool message"
       )
       return reply.code(503).send({
         error: "Service Unavailable",
-        message: "Queue is full or unavailable",
+        message:
+          error instanceof SpoolFullError
+            ? "Queue unavailable and spool is full"
+            : "Queue is unavailable",
       })
+    } finally {
+      publishSpan.end()
     }
 
+    await archiveWebhook(request, resolution.instance.id, queueMessage, rawBody)
+
+    if (idempotencyKey) {
+      await idempotencyStore.remember(idempotencyKey).catch((error) => {
+        log.warn({ error, idempotencyKey }, "Failed to record idempotency key")
+      })
+    }
+    replayGuard.remember(tenant.id, eventId, digest)
+    messagesTotal.inc({ event_type: eventTypeLabel(eventType), status })
+
     const duration = Date.now() - startTime
 
-    logger.info(
+    log.info(
       {
         messageId: queueMessage.id,
         eventType,
         eventId,
+        tenant: tenant.id,
+        secret: validationResult.label,
+        status,
         duration,
       },
       "Webhook processed successfully"
     )
 
-    // 8. Return fast response
+    // 10. Return fast response (the event is durably accepted either way)
     return reply.code(200).send({
-      status: "queued",
+      status,
       message_id: queueMessage.id,
     })
   } catch (error) {
     const duration = Date.now() - startTime
-    logger.error(
+    receiveSpan.recordError(error)
+    log.error(
       {
         error: error instanceof Error ? error.message : "Unknown error",
         duration,
@@ -167,35 +600,130 @@ app.post("/webhook", async (request: FastifyRequest, reply: FastifyReply) => {
       error: "Internal Server Error",
       message: "Failed to process webhook",
     })
+  } finally {
+    validateSpan.end() // No-op unless the webhook was rejected
+    receiveSpan.setAttribute("http.response.status_code", reply.statusCode)
+    if (reply.statusCode >= 500) receiveSpan.setStatus("error")
+    receiveSpan.end()
+    inFlightWebhooks--
   }
-})
+}
+
+/**
+ * Counts every webhook response, including ingress rejections and errors
+ */
+async function recordWebhook(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  const eventType = eventTypeLabel(request.headers["x-discourse-event"] as string | undefined)
+  webhooksTotal.inc({ event_type: eventType, status: reply.statusCode })
+  webhookDuration.observe({ event_type: eventType }, reply.elapsedTime / 1000)
+}
+
+app.post("/webhook", { onRequest: checkIngress, onResponse: recordWebhook }, handleWebhook)
+app.post("/webhook/:instance", { onRequest: checkIngress, onResponse: recordWebhook }, handleWebhook)
 
 /**
  * Health check endpoint
  */
 app.get("/health", async (_request: FastifyRequest, reply: FastifyReply) => {
   const isQueueConnected = messageQueue.isConnected()
+  const spoolStats = spool.stats()
+  const spoolHasRoom = spoolStats.bytes < config.spool.maxBytes
 
-  const status = isQueueConnected ? "healthy" : "degraded"
-  const statusCode = isQueueConnected ? 200 : 503
+  // 200 means new webhooks are durably accepted (queued or spooled)
+  const status =
+    isQueueConnected && spoolStats.depth === 0 ? "healthy" : "degraded"
+  const statusCode = isQueueConnected || spoolHasRoom ? 200 : 503
 
   return reply.code(statusCode).send({
     status,
     service: "discourse-webhook-handler",
     queue_connected: isQueueConnected,
+    queue: messageQueue.getHealth(),
+    spool: spoolStats,
+    rejections: rejectionsTotal.totalsBy("reason"),
     timestamp: new Date().toISOString(),
   })
 })
 
+/**
+ * Liveness, readiness and status (/livez, /readyz, /status). The handler
+ * stays ready while the broker is down as long as the spool takes the
+ * webhooks; it fails readiness once the spool is full or holds more than
+ * HANDLER_READY_MAX_SPOOL_DEPTH messages, so traffic moves to replicas
+ * that can still publish.
+ */
+registerHealthRoutes(app, {
+  service: "discourse-webhook-handler",
+  config,
+  checks: {
+    accepting: (): CheckResult => ({
+      status: isShuttingDown() ? "fail" : "pass",
+      in_flight: inFlightWebhooks,
+    }),
+    broker: (): CheckResult => {
+      const { state, reconnect_attempt } = messageQueue.getHealth()
+      return {
+        status: messageQueue.isConnected() ? "pass" : "warn",
+        transport: config.transport,
+        state,
+        reconnect_attempt,
+        last_confirmed_publish_age_ms: ageMs(lastConfirmedAt),
+      }
+    },
+    spool: (): CheckResult => {
+      const stats = spool.stats()
+      const full = stats.bytes >= config.spool.maxBytes
+      const backlogged = stats.depth > config.readyMaxSpoolDepth
+      return {
+        status: full || backlogged ? "fail" : stats.depth > 0 ? "warn" : "pass",
+        ...stats,
+        max_depth: config.readyMaxSpoolDepth,
+        max_bytes: config.spool.maxBytes,
+      }
+    },
+  },
+  status: () => ({
+    transport: config.transport,
+    queue: messageQueue.getHealth(),
+    spool: spool.stats(),
+    instances: instances.ids(),
+    rejections: rejectionsTotal.totalsBy("reason"),
+    last_accepted_at: lastAcceptedAt?.toISOString() ?? null,
+    last_confirmed_publish_at: lastConfirmedAt?.toISOString() ?? null,
+    archive: archive ? archive.stats() : null,
+  }),
+})
+
+/**
+ * Prometheus metrics
+ */
+app.get("/metrics", async (_request: FastifyRequest, reply: FastifyReply) => {
+  return reply.type(METRICS_CONTENT_TYPE).send(await metrics.render())
+})
+
 /**
  * Start the server
  */
 async function start(): Promise<void> {
   try {
+    idempotencyStore = await createIdempotencyStore(config.dedup)
+
+    await secretUsage.open()
+
+    await spool.open()
+
+    await archive?.open()
+
     // Connect to message queue
-    logger.info("Connecting to RabbitMQ...")
+    logger.info({ transport: config.transport }, "Connecting to message queue...")
     await messageQueue.connect()
 
+    // Drain spooled messages in the background whenever the broker is up
+    spool.startDraining(
+      (message) => publishTimed(message, "spool"),
+      () => messageQueue.isConnected()
+    )
+
     // Add raw body support
     app.addContentTypeParser(
       "application/json",
@@ -213,6 +741,8 @@ async function start(): Promise<void> {
       {
         port: config.port,
         queueName: config.queueName,
+        transport: config.transport,
+        instances: instances.ids(),
       },
       "Webhook handler service started"
     )
@@ -223,25 +753,52 @@ async function start(): Promise<void> {
 }
 
 /**
- * Graceful shutdown
+ * Graceful shutdown: new webhooks are refused with 503 (see checkIngress)
+ * while the ones in flight get up to HANDLER_SHUTDOWN_TIMEOUT_MS to be
+ * confirmed or spooled; then the spool finishes the publish it is
+ * waiting on and everything is closed
  */
 async function shutdown(): Promise<void> {
-  logger.info("Shutting down webhook handler service...")
+  logger.info({ inFlight: inFlightWebhooks }, "Shutting down webhook handler service...")
+
+  const finished = await waitUntil(() => inFlightWebhooks === 0, config.shutdownTimeoutMs)
+  if (!finished) {
+    logger.warn({ inFlight: inFlightWebhooks }, "Webhooks still in flight at the shutdown deadline")
+  }
 
+  await app.close()
+  await spool.close()
+  await archive?.close()
+  await messageQueue.close()
+  await idempotencyStore?.close()
+  await secretUsage.close()
+  await tracer.close()
+  logger.info("Webhook handler service stopped")
+}
+
+/**
+ * Reloads instances and secrets (after `npm run secrets -- generate`)
+ */
+function reloadInstances(): void {
   try {
-    await app.close()
-    await messageQueue.close()
-    logger.info("Shutdown complete")
-    process.exit(0)
+    instances = new InstanceRegistry(
+      getInstancesConfigFromEnv(config.discourseWebhookSecret)
+    )
+    logger.info({ instances: instances.ids() }, "Instances and secrets reloaded")
+    if (ingressGuard.maxBodyLimit(instances.ingressPolicies()) > maxBodyLimit) {
+      logger.warn(
+        { bodyLimit: maxBodyLimit },
+        "Instance body limits above the server's body limit take effect after a restart"
+      )
+    }
   } catch (error) {
-    logger.error({ error }, "Error during shutdown")
-    process.exit(1)
+    logger.error({ error }, "Failed to reload instances, keeping the previous ones")
   }
 }
 
-// Handle shutdown signals
-process.on("SIGTERM", shutdown)
-process.on("SIGINT", shutdown)
+// Handle shutdown signals (SIGTERM, SIGINT) and instance reloads
+onShutdown("handler", config.shutdownTimeoutMs, shutdown)
+process.on("SIGHUP", reloadInstances)
 
 // Start the service
 start()
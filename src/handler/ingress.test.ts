@@ -0,0 +1,173 @@
+import { IngressConfig, IngressGuard, getIngressConfigFromEnv, parseCidrs } from "./ingress"
+
+const NOW = 1_700_000_000_000
+
+function configOf(overrides: Partial<IngressConfig> = {}): IngressConfig {
+  return { ...getIngressConfigFromEnv({}), ...overrides }
+}
+
+describe("parseCidrs", () => {
+  it("matches IPv4 and IPv6 subnets and single addresses", () => {
+    const list = parseCidrs(["10.0.0.0/8", "2001:db8::/32", "192.0.2.7"])
+
+    expect(list.check("10.20.30.40", "ipv4")).toBe(true)
+    expect(list.check("11.0.0.1", "ipv4")).toBe(false)
+    expect(list.check("2001:db8::1", "ipv6")).toBe(true)
+    expect(list.check("192.0.2.7", "ipv4")).toBe(true)
+    expect(list.check("192.0.2.8", "ipv4")).toBe(false)
+  })
+
+  it.each(["10.0.0.0/33", "not-an-ip", "10.0.0.0/x"])("rejects %s", (cidr) => {
+    expect(() => parseCidrs([cidr])).toThrow(`Invalid CIDR: ${cidr}`)
+  })
+})
+
+describe("IngressGuard", () => {
+  describe("allowlist", () => {
+    it("rejects sources outside IP_ALLOWLIST, IPv4-mapped addresses included", () => {
+      const guard = new IngressGuard(configOf({ allowedCidrs: ["10.0.0.0/8"] }))
+
+      expect(guard.check("10.1.2.3", {}, "user_created", 10, NOW)).toEqual({ ok: true })
+      expect(guard.check("::ffff:10.1.2.3", {}, "user_created", 10, NOW)).toEqual({ ok: true })
+      expect(guard.check("192.0.2.1", {}, "user_created", 10, NOW)).toMatchObject({
+        ok: false,
+        rejection: "ip_not_allowed",
+      })
+    })
+
+    it("uses the instance's allowlist instead of the global one", () => {
+      const guard = new IngressGuard(configOf({ allowedCidrs: ["10.0.0.0/8"] }))
+      const policy = { allowlist: parseCidrs(["192.0.2.0/24"]) }
+
+      expect(guard.check("192.0.2.1", policy, "user_created", 10, NOW)).toEqual({ ok: true })
+      expect(guard.check("10.1.2.3", policy, "user_created", 10, NOW).ok).toBe(false)
+    })
+  })
+
+  describe("IP token bucket", () => {
+    it("allows a burst, then answers with the wait for the next token", () => {
+      const guard = new IngressGuard(configOf({ ipRateLimit: { burst: 2, perSecond: 1 } }))
+
+      expect(guard.check("192.0.2.1", {}, undefined, undefined, NOW).ok).toBe(true)
+      expect(guard.check("192.0.2.1", {}, undefined, undefined, NOW).ok).toBe(true)
+      expect(guard.check("192.0.2.1", {}, undefined, undefined, NOW)).toMatchObject({
+        ok: false,
+        rejection: "rate_limited",
+        retryAfterMs: 1000,
+      })
+      // Other sources have their own bucket
+      expect(guard.check("192.0.2.2", {}, undefined, undefined, NOW).ok).toBe(true)
+    })
+
+    it("refills over time", () => {
+      const guard = new IngressGuard(configOf({ ipRateLimit: { burst: 1, perSecond: 2 } }))
+
+      expect(guard.check("192.0.2.1", {}, undefined, undefined, NOW).ok).toBe(true)
+      expect(guard.check("192.0.2.1", {}, undefined, undefined, NOW + 100).ok).toBe(false)
+      expect(guard.check("192.0.2.1", {}, undefined, undefined, NOW + 600).ok).toBe(true)
+    })
+
+    it("is disabled by a burst of 0", () => {
+      const guard = new IngressGuard(configOf({ ipRateLimit: { burst: 0, perSecond: 0 } }))
+
+      for (let i = 0; i < 5; i++) {
+        expect(guard.check("192.0.2.1", {}, undefined, undefined, NOW).ok).toBe(true)
+      }
+    })
+  })
+
+  describe("instance token bucket", () => {
+    it("is charged only through checkInstanceRate", () => {
+      const guard = new IngressGuard(configOf({ instanceRateLimit: { burst: 1, perSecond: 1 } }))
+      const policy = {}
+
+      // Unsigned requests pass the pre-auth checks without using the budget
+      for (let i = 0; i < 3; i++) {
+        guard.check(`192.0.2.${i}`, policy, "user_created", 10, NOW)
+      }
+
+      expect(guard.checkInstanceRate("forum", policy, NOW)).toEqual({ ok: true })
+      expect(guard.checkInstanceRate("forum", policy, NOW)).toMatchObject({
+        ok: false,
+        rejection: "rate_limited",
+      })
+    })
+
+    it("uses the instance's rate limit when set", () => {
+      const guard = new IngressGuard(configOf({ instanceRateLimit: { burst: 1, perSecond: 1 } }))
+      const policy = { rateLimit: { burst: 3, perSecond: 1 } }
+
+      for (let i = 0; i < 3; i++) {
+        expect(guard.checkInstanceRate("forum", policy, NOW).ok).toBe(true)
+      }
+      expect(guard.checkInstanceRate("forum", policy, NOW).ok).toBe(false)
+    })
+  })
+
+  describe("body limits", () => {
+    const config = configOf({ bodyLimitBytes: 1000, bodyLimits: { "post_*": 500 } })
+
+    it("rejects declared bodies over the event type's limit", () => {
+      const guard = new IngressGuard(config)
+
+      expect(guard.check("192.0.2.1", {}, "post_created", 600, NOW)).toMatchObject({
+        ok: false,
+        rejection: "body_too_large",
+      })
+      expect(guard.check("192.0.2.1", {}, "user_created", 600, NOW)).toEqual({ ok: true })
+    })
+
+    it("prefers the instance's limits", () => {
+      const guard = new IngressGuard(config)
+
+      expect(guard.bodyLimitFor("post_created", { bodyLimits: { "post_*": 2000 } })).toBe(2000)
+      expect(guard.bodyLimitFor("post_created")).toBe(500)
+      expect(guard.bodyLimitFor("user_created")).toBe(1000)
+    })
+
+    it("uses the most specific matching pattern, whatever the order", () => {
+      const guard = new IngressGuard(
+        configOf({ bodyLimits: { "*": 100, "post_*": 200, post_created: 300, "p*": 400 } })
+      )
+
+      expect(guard.bodyLimitFor("post_created")).toBe(300)
+      expect(guard.bodyLimitFor("post_edited")).toBe(200)
+      expect(guard.bodyLimitFor("poll_closed")).toBe(400)
+      expect(guard.bodyLimitFor("user_created")).toBe(100)
+      expect(guard.bodyLimitFor("post_created", { bodyLimits: { "*": 50 } })).toBe(50)
+    })
+
+    it("sizes the server limit for the largest global or instance limit", () => {
+      const guard = new IngressGuard(config)
+
+      expect(guard.maxBodyLimit()).toBe(1000)
+      expect(guard.maxBodyLimit([{ bodyLimits: { "post_*": 5000 } }, {}])).toBe(5000)
+    })
+  })
+
+  describe("signature failures", () => {
+    it("blocks a source after the threshold and lets it back after the block", () => {
+      const guard = new IngressGuard(
+        configOf({ signatureFailures: { threshold: 2, windowMs: 60000, blockMs: 1000 } })
+      )
+
+      expect(guard.recordSignatureFailure("192.0.2.1", NOW)).toBe(false)
+      expect(guard.recordSignatureFailure("192.0.2.1", NOW + 1)).toBe(true)
+      expect(guard.check("192.0.2.1", {}, undefined, undefined, NOW + 2)).toMatchObject({
+        ok: false,
+        rejection: "ip_blocked",
+        retryAfterMs: 999,
+      })
+      expect(guard.check("192.0.2.1", {}, undefined, undefined, NOW + 1001).ok).toBe(true)
+    })
+
+    it("forgets failures outside the window", () => {
+      const guard = new IngressGuard(
+        configOf({ signatureFailures: { threshold: 2, windowMs: 1000, blockMs: 1000 } })
+      )
+
+      guard.recordSignatureFailure("192.0.2.1", NOW)
+      expect(guard.recordSignatureFailure("192.0.2.1", NOW + 2000)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,353 @@
+/**
+ * Ingress protection for the webhook endpoint
+ *
+ * Checks that run before the body is read and the signature verified:
+ *   - source IP allowlist (CIDRs of the Discourse egress addresses), global
+ *     or per instance
+ *   - token-bucket rate limit per source IP (429)
+ *   - body size limits per event type (413)
+ *   - temporary blocks of IPs that keep sending invalid signatures
+ *
+ * The per-instance rate limit is only charged once the signature is valid
+ * (checkInstanceRate), so unsigned requests naming an instance cannot use
+ * up its budget.
+ *
+ * Client IPs come from Fastify's request.ip, which only honors
+ * X-Forwarded-For when the connecting address is in TRUSTED_PROXIES.
+ */
+
+import { BlockList, isIP } from "net"
+import { eventTypeMatches } from "../shared/topology"
+
+export interface RateLimit {
+  burst: number // Bucket size; 0 disables the limit
+  perSecond: number // Refill rate
+}
+
+export interface SignatureFailurePolicy {
+  threshold: number // Invalid signatures within the window that trigger a block; 0 disables
+  windowMs: number
+  blockMs: number
+}
+
+export interface IngressConfig {
+  allowedCidrs: string[] // Empty: every source IP
+  trustedProxies: string[] // Empty: X-Forwarded-For is ignored
+  ipRateLimit: RateLimit
+  instanceRateLimit: RateLimit
+  bodyLimitBytes: number // Default for event types without a pattern below
+  bodyLimits: Record<string, number> // Event type pattern ("post_*") -> bytes
+  signatureFailures: SignatureFailurePolicy
+}
+
+// Per-instance overrides (allowedCidrs, rateLimit, bodyLimits in INSTANCES_FILE)
+export interface InstanceIngressPolicy {
+  allowlist?: BlockList
+  rateLimit?: RateLimit
+  bodyLimits?: Record<string, number>
+}
+
+export type IngressCheck =
+  | { ok: true }
+  | {
+      ok: false
+      rejection: "ip_blocked" | "ip_not_allowed" | "rate_limited" | "body_too_large"
+      reason: string
+      retryAfterMs?: number
+    }
+
+const DEFAULT_BODY_LIMIT_BYTES = 1048576 // 1MB
+const MAX_TRACKED_KEYS = 10000 // Buckets and failure counters kept per scope
+
+function parseList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+/**
+ * "post_*=262144,chat_message=65536"
+ */
+function parseBodyLimits(value: string | undefined): Record<string, number> {
+  const limits: Record<string, number> = {}
+  for (const entry of parseList(value)) {
+    const [pattern, bytes] = entry.split("=")
+    const limit = parseInt(bytes, 10)
+    if (!pattern || Number.isNaN(limit)) {
+      throw new Error(`Invalid BODY_LIMITS entry: ${entry} (expected <event pattern>=<bytes>)`)
+    }
+    limits[pattern] = limit
+  }
+  return limits
+}
+
+/**
+ * Ranks body limit patterns: an exact event type first, then wildcard
+ * patterns by how many literal characters they have ("post_*" before "*")
+ */
+function specificityOf(pattern: string): number {
+  return pattern.includes("*") ? pattern.replace(/\*/g, "").length : Infinity
+}
+
+export function getIngressConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): IngressConfig {
+  return {
+    allowedCidrs: parseList(env.IP_ALLOWLIST),
+    trustedProxies: parseList(env.TRUSTED_PROXIES),
+    ipRateLimit: {
+      burst: parseInt(env.RATE_LIMIT_IP_BURST || "100", 10),
+      perSecond: parseFloat(env.RATE_LIMIT_IP_PER_SECOND || "20"),
+    },
+    instanceRateLimit: {
+      burst: parseInt(env.RATE_LIMIT_INSTANCE_BURST || "500", 10),
+      perSecond: parseFloat(env.RATE_LIMIT_INSTANCE_PER_SECOND || "100"),
+    },
+    bodyLimitBytes: parseInt(
+      env.BODY_LIMIT_BYTES || String(DEFAULT_BODY_LIMIT_BYTES),
+      10
+    ),
+    bodyLimits: parseBodyLimits(env.BODY_LIMITS),
+    signatureFailures: {
+      threshold: parseInt(env.SIGNATURE_FAILURE_THRESHOLD || "10", 10),
+      windowMs: parseInt(env.SIGNATURE_FAILURE_WINDOW_MS || "60000", 10),
+      blockMs: parseInt(env.SIGNATURE_FAILURE_BLOCK_MS || "900000", 10), // 15 minutes
+    },
+  }
+}
+
+/**
+ * IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are matched as IPv4
+ */
+function normalizeIp(ip: string): string {
+  return ip.startsWith("::ffff:") && isIP(ip.slice(7)) === 4 ? ip.slice(7) : ip
+}
+
+export function parseCidrs(cidrs: string[]): BlockList {
+  const list = new BlockList()
+
+  for (const cidr of cidrs) {
+    const [network, prefix] = cidr.split("/")
+    const version = isIP(network)
+    if (version === 0) {
+      throw new Error(`Invalid CIDR: ${cidr}`)
+    }
+
+    const type = version === 4 ? "ipv4" : "ipv6"
+    if (prefix === undefined) {
+      list.addAddress(network, type)
+      continue
+    }
+
+    const bits = parseInt(prefix, 10)
+    if (Number.isNaN(bits) || bits < 0 || bits > (version === 4 ? 32 : 128)) {
+      throw new Error(`Invalid CIDR: ${cidr}`)
+    }
+    list.addSubnet(network, bits, type)
+  }
+
+  return list
+}
+
+/**
+ * Token buckets keyed by IP or instance. A bucket that refilled completely
+ * is equivalent to a new one, so those are dropped first when the map is
+ * full.
+ */
+class TokenBuckets {
+  private readonly buckets = new Map<string, { tokens: number; updatedAt: number }>()
+
+  take(key: string, limit: RateLimit, now: number): number {
+    if (limit.burst <= 0) {
+      return 0
+    }
+
+    const bucket = this.buckets.get(key) || { tokens: limit.burst, updatedAt: now }
+    bucket.tokens = Math.min(
+      limit.burst,
+      bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.perSecond
+    )
+    bucket.updatedAt = now
+
+    this.buckets.delete(key)
+    this.buckets.set(key, bucket)
+    this.evict(limit, now)
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1
+      return 0
+    }
+    // Milliseconds until the next token
+    return Math.ceil(((1 - bucket.tokens) / limit.perSecond) * 1000)
+  }
+
+  private evict(limit: RateLimit, now: number): void {
+    if (this.buckets.size <= MAX_TRACKED_KEYS) return
+
+    for (const [key, bucket] of this.buckets) {
+      const refilled = bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.perSecond
+      if (refilled >= limit.burst || this.buckets.size > MAX_TRACKED_KEYS * 2) {
+        this.buckets.delete(key)
+      }
+      if (this.buckets.size <= MAX_TRACKED_KEYS) return
+    }
+  }
+}
+
+export class IngressGuard {
+  private readonly allowlist: BlockList | undefined
+  private readonly ipBuckets = new TokenBuckets()
+  private readonly instanceBuckets = new TokenBuckets()
+  private readonly signatureFailures = new Map<string, number[]>() // IP -> failure times
+  private readonly blocked = new Map<string, number>() // IP -> blocked until
+
+  constructor(private readonly config: IngressConfig) {
+    this.allowlist = config.allowedCidrs.length > 0 ? parseCidrs(config.allowedCidrs) : undefined
+  }
+
+  /**
+   * Largest body any event type may send, globally or for one of the
+   * instances (the Fastify bodyLimit)
+   */
+  maxBodyLimit(policies: InstanceIngressPolicy[] = []): number {
+    return Math.max(
+      this.config.bodyLimitBytes,
+      ...Object.values(this.config.bodyLimits),
+      ...policies.flatMap((policy) => Object.values(policy.bodyLimits || {}))
+    )
+  }
+
+  /**
+   * Limit of the most specific matching pattern, whatever the order they
+   * are listed in; the instance's limits take precedence over BODY_LIMITS
+   */
+  bodyLimitFor(eventType: string, policy: InstanceIngressPolicy = {}): number {
+    for (const limits of [policy.bodyLimits || {}, this.config.bodyLimits]) {
+      const pattern = Object.keys(limits)
+        .filter((candidate) => eventTypeMatches(candidate, eventType))
+        .sort((a, b) => specificityOf(b) - specificityOf(a))[0]
+      if (pattern) {
+        return limits[pattern]
+      }
+    }
+    return this.config.bodyLimitBytes
+  }
+
+  /**
+   * Checks a request before its body is read. policy is empty when the
+   * instance could not be resolved (the handler rejects it afterwards).
+   */
+  check(
+    ip: string,
+    policy: InstanceIngressPolicy,
+    eventType: string | undefined,
+    contentLength: number | undefined,
+    now: number = Date.now()
+  ): IngressCheck {
+    const address = normalizeIp(ip)
+
+    const blockedUntil = this.blocked.get(address)
+    if (blockedUntil !== undefined) {
+      if (blockedUntil > now) {
+        return {
+          ok: false,
+          rejection: "ip_blocked",
+          reason: `${address} is blocked after repeated invalid signatures`,
+          retryAfterMs: blockedUntil - now,
+        }
+      }
+      this.blocked.delete(address)
+    }
+
+    const allowlist = policy.allowlist || this.allowlist
+    if (allowlist && !allowlist.check(address, isIP(address) === 6 ? "ipv6" : "ipv4")) {
+      return {
+        ok: false,
+        rejection: "ip_not_allowed",
+        reason: `${address} is not in the allowlist`,
+      }
+    }
+
+    const ipWait = this.ipBuckets.take(address, this.config.ipRateLimit, now)
+    if (ipWait > 0) {
+      return {
+        ok: false,
+        rejection: "rate_limited",
+        reason: `Rate limit exceeded for ${address}`,
+        retryAfterMs: ipWait,
+      }
+    }
+
+    if (eventType && contentLength !== undefined) {
+      const limit = this.bodyLimitFor(eventType, policy)
+      if (contentLength > limit) {
+        return {
+          ok: false,
+          rejection: "body_too_large",
+          reason: `${eventType} body of ${contentLength} bytes exceeds ${limit}`,
+        }
+      }
+    }
+
+    return { ok: true }
+  }
+
+  /**
+   * Charges the instance's rate limit, for a request with a valid signature
+   */
+  checkInstanceRate(
+    instanceId: string,
+    policy: InstanceIngressPolicy,
+    now: number = Date.now()
+  ): IngressCheck {
+    const wait = this.instanceBuckets.take(
+      instanceId,
+      policy.rateLimit || this.config.instanceRateLimit,
+      now
+    )
+    if (wait > 0) {
+      return {
+        ok: false,
+        rejection: "rate_limited",
+        reason: `Rate limit exceeded for instance ${instanceId}`,
+        retryAfterMs: wait,
+      }
+    }
+    return { ok: true }
+  }
+
+  /**
+   * Counts an invalid signature; returns true when it starts a block
+   */
+  recordSignatureFailure(ip: string, now: number = Date.now()): boolean {
+    const { threshold, windowMs, blockMs } = this.config.signatureFailures
+    if (threshold <= 0) {
+      return false
+    }
+
+    const address = normalizeIp(ip)
+    const failures = (this.signatureFailures.get(address) || []).filter(
+      (at) => now - at < windowMs
+    )
+    failures.push(now)
+
+    this.signatureFailures.delete(address)
+    if (failures.length < threshold) {
+      this.signatureFailures.set(address, failures)
+      if (this.signatureFailures.size > MAX_TRACKED_KEYS) {
+        const [oldest] = this.signatureFailures.keys()
+        this.signatureFailures.delete(oldest)
+      }
+      return false
+    }
+
+    this.blocked.set(address, now + blockMs)
+    if (this.blocked.size > MAX_TRACKED_KEYS) {
+      for (const [blockedIp, until] of this.blocked) {
+        if (until <= now) this.blocked.delete(blockedIp)
+      }
+    }
+    return true
+  }
+}
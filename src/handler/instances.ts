@@ -0,0 +1,217 @@
+/**
+ * Registry of the Discourse instances the handler accepts webhooks from
+ *
+ * Each instance has its own secrets, optional allow list of event types,
+ * routing prefix and ingress overrides (source CIDRs, rate limit, body
+ * limits). A webhook is resolved to an instance by the path
+ * (/webhook/:instance, matched on id) or by the X-Discourse-Instance header
+ * (matched on url or id); when both are present they must agree.
+ *
+ * Without INSTANCES_FILE there is a single "default" instance using the
+ * secrets in WEBHOOK_SECRETS_FILE (or DISCOURSE_WEBHOOK_SECRET) that accepts
+ * every X-Discourse-Instance value.
+ */
+
+import { readFileSync } from "fs"
+import { InstanceIngressPolicy, RateLimit, parseCidrs } from "./ingress"
+import { WebhookSecret } from "../shared/security"
+import {
+  DEFAULT_SECRET_LABEL,
+  SecretConfig,
+  loadSecrets,
+  readSecretsFile,
+} from "../shared/secrets"
+import { eventTypeMatches, routingWord } from "../shared/topology"
+import { Tenant } from "../shared/types"
+
+export interface InstanceConfig {
+  id: string // Used in /webhook/:id and as the tenant id
+  url?: string // X-Discourse-Instance value, e.g. "https://forum.example.com"
+  secret?: string // Shorthand for a single secret labelled "primary"
+  secretEnv?: string // Name of an environment variable holding the secret
+  secrets?: SecretConfig[] // Labelled secrets with validity windows (rotation)
+  allowedEvents?: string[] // Event type patterns ("user_*"); all if unset
+  routingPrefix?: string // Routing key prefix (default: the id)
+  allowedCidrs?: string[] // Source IPs; replaces IP_ALLOWLIST for this instance
+  rateLimit?: RateLimit // Replaces the RATE_LIMIT_INSTANCE_* defaults
+  bodyLimits?: Record<string, number> // Event type pattern -> bytes
+}
+
+export interface InstancesConfig {
+  instances: InstanceConfig[]
+  requireKnownInstance: boolean // False in single-secret mode
+}
+
+export interface WebhookInstance {
+  id: string
+  secrets: WebhookSecret[]
+  allowedEvents?: string[]
+  routingPrefix?: string
+  url?: string
+  ingress: InstanceIngressPolicy
+}
+
+export type InstanceResolution =
+  | {
+      ok: true
+      instance: WebhookInstance
+      tenant: Tenant // tenant.id scopes idempotency keys and replay nonces
+    }
+  | { ok: false; reason: string }
+
+export const DEFAULT_INSTANCE_ID = "default"
+
+/**
+ * Instances from INSTANCES_FILE (JSON array of InstanceConfig), or the
+ * single default instance
+ */
+export function getInstancesConfigFromEnv(
+  defaultSecret: string,
+  env: NodeJS.ProcessEnv = process.env
+): InstancesConfig {
+  if (!env.INSTANCES_FILE) {
+    return {
+      instances: [
+        env.WEBHOOK_SECRETS_FILE
+          ? { id: DEFAULT_INSTANCE_ID, secrets: readSecretsFile(env.WEBHOOK_SECRETS_FILE) }
+          : { id: DEFAULT_INSTANCE_ID, secret: defaultSecret },
+      ],
+      requireKnownInstance: false,
+    }
+  }
+
+  const instances = JSON.parse(
+    readFileSync(env.INSTANCES_FILE, "utf-8")
+  ) as InstanceConfig[]
+
+  if (!Array.isArray(instances) || instances.length === 0) {
+    throw new Error(`${env.INSTANCES_FILE} must contain a non-empty array of instances`)
+  }
+
+  return { instances, requireKnownInstance: true }
+}
+
+function normalizeUrl(value: string): string {
+  return value.trim().toLowerCase().replace(/\/+$/, "")
+}
+
+export class InstanceRegistry {
+  private readonly instances: WebhookInstance[]
+  private readonly requireKnownInstance: boolean
+
+  constructor(
+    config: InstancesConfig,
+    private readonly env: NodeJS.ProcessEnv = process.env
+  ) {
+    this.instances = config.instances.map((instance) => this.load(instance))
+    this.requireKnownInstance = config.requireKnownInstance
+  }
+
+  ids(): string[] {
+    return this.instances.map((instance) => instance.id)
+  }
+
+  ingressPolicies(): InstanceIngressPolicy[] {
+    return this.instances.map((instance) => instance.ingress)
+  }
+
+  get(id: string): WebhookInstance | undefined {
+    return this.instances.find((instance) => instance.id === id)
+  }
+
+  resolve(
+    pathInstance: string | undefined,
+    headerInstance: string | undefined
+  ): InstanceResolution {
+    if (!this.requireKnownInstance) {
+      const [instance] = this.instances
+      if (pathInstance && pathInstance !== instance.id) {
+        return { ok: false, reason: `Unknown instance: ${pathInstance}` }
+      }
+      return {
+        ok: true,
+        instance,
+        tenant: { id: instance.id, routing_prefix: routingWord(headerInstance) },
+      }
+    }
+
+    const byPath = pathInstance
+      ? this.instances.find((instance) => instance.id === pathInstance)
+      : undefined
+    if (pathInstance && !byPath) {
+      return { ok: false, reason: `Unknown instance: ${pathInstance}` }
+    }
+
+    const byHeader = headerInstance
+      ? this.instances.find(
+          (instance) =>
+            (instance.url && normalizeUrl(instance.url) === normalizeUrl(headerInstance)) ||
+            instance.id === headerInstance
+        )
+      : undefined
+    if (headerInstance && !byHeader) {
+      return { ok: false, reason: `Unknown instance: ${headerInstance}` }
+    }
+
+    if (byPath && byHeader && byPath !== byHeader) {
+      return {
+        ok: false,
+        reason: `Path instance ${byPath.id} does not match X-Discourse-Instance ${headerInstance}`,
+      }
+    }
+
+    const instance = byPath || byHeader
+    if (!instance) {
+      return { ok: false, reason: "Instance not identified (no path or X-Discourse-Instance)" }
+    }
+
+    return {
+      ok: true,
+      instance,
+      tenant: {
+        id: instance.id,
+        routing_prefix: instance.routingPrefix || routingWord(instance.id),
+      },
+    }
+  }
+
+  allows(instance: WebhookInstance, eventType: string): boolean {
+    return (
+      !instance.allowedEvents ||
+      instance.allowedEvents.some((pattern) => eventTypeMatches(pattern, eventType))
+    )
+  }
+
+  private load(config: InstanceConfig): WebhookInstance {
+    if (!config.id) {
+      throw new Error("Every instance needs an id")
+    }
+
+    const secrets = loadSecrets(
+      config.secrets || [
+        {
+          label: DEFAULT_SECRET_LABEL,
+          secret: config.secret,
+          secretEnv: config.secretEnv,
+        },
+      ],
+      this.env
+    )
+    if (secrets.length === 0) {
+      throw new Error(`Instance ${config.id} has no secret`)
+    }
+
+    return {
+      id: config.id,
+      secrets,
+      allowedEvents: config.allowedEvents,
+      routingPrefix: config.routingPrefix && routingWord(config.routingPrefix),
+      url: config.url,
+      ingress: {
+        allowlist: config.allowedCidrs && parseCidrs(config.allowedCidrs),
+        rateLimit: config.rateLimit,
+        bodyLimits: config.bodyLimits,
+      },
+    }
+  }
+}
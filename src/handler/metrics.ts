@@ -0,0 +1,75 @@
+/**
+ * Handler metrics, served on GET /metrics
+ *
+ * Event types are labeled through eventTypeLabel (the header is client
+ * input) and instances only once resolved, so label values stay bounded.
+ */
+
+import { metrics } from "../shared/metrics"
+import { Spool } from "../shared/spool"
+import { MessageTransport } from "../shared/transport"
+
+export const webhooksTotal = metrics.counter({
+  name: "discourse_handler_webhooks_total",
+  help: "Webhook requests by event type and HTTP status",
+  labelNames: ["event_type", "status"],
+})
+
+export const webhookDuration = metrics.histogram({
+  name: "discourse_handler_webhook_duration_seconds",
+  help: "Time to answer a webhook request, by event type",
+  labelNames: ["event_type"],
+})
+
+export const rejectionsTotal = metrics.counter({
+  name: "discourse_handler_rejections_total",
+  help: "Rejected webhooks by reason (invalid_signature, rate_limited, replayed, ...)",
+  labelNames: ["reason"],
+})
+
+export const signatureFailuresTotal = metrics.counter({
+  name: "discourse_handler_signature_failures_total",
+  help: "Webhooks with an invalid signature, by instance",
+  labelNames: ["instance"],
+})
+
+export const publishDuration = metrics.histogram({
+  name: "discourse_handler_publish_duration_seconds",
+  help: "Time for the broker to confirm a publish; outcome is confirmed, unconfirmed or error",
+  labelNames: ["source", "outcome"], // source: webhook or spool (drain)
+})
+
+export const messagesTotal = metrics.counter({
+  name: "discourse_handler_messages_total",
+  help: "Accepted events by event type and whether they were queued or spooled",
+  labelNames: ["event_type", "status"],
+})
+
+export const archiveRecordsTotal = metrics.counter({
+  name: "discourse_handler_archive_records_total",
+  help: "Accepted webhooks written to the raw event archive; outcome is archived or error",
+  labelNames: ["outcome"],
+})
+
+/**
+ * Gauges read from the spool and the transport on each scrape
+ */
+export function registerHandlerGauges(spool: Spool, transport: MessageTransport): void {
+  metrics.gauge({
+    name: "discourse_handler_spool_messages",
+    help: "Messages waiting in the disk spool",
+    collect: (gauge) => gauge.set({}, spool.stats().depth),
+  })
+
+  metrics.gauge({
+    name: "discourse_handler_spool_bytes",
+    help: "Bytes of spooled messages",
+    collect: (gauge) => gauge.set({}, spool.stats().bytes),
+  })
+
+  metrics.gauge({
+    name: "discourse_handler_queue_connected",
+    help: "1 while the message queue is connected",
+    collect: (gauge) => gauge.set({}, transport.isConnected() ? 1 : 0),
+  })
+}
@@ -0,0 +1,282 @@
+import { ReplayConfig, ReplayGuard, deliveryDigest, eventTimestampOf } from "./replay"
+import { InstanceRegistry, getInstancesConfigFromEnv } from "./instances"
+import { idempotencyKeyFor } from "../shared/dedup"
+import { DiscourseWebhookEvent } from "../shared/types"
+
+const config: ReplayConfig = {
+  enabled: true,
+  freshnessWindowMs: 60000,
+  maxClockSkewMs: 5000,
+  maxNoncesPerInstance: 2,
+}
+
+const NOW = new Date("2025-11-18T12:00:00.000Z")
+const body = Buffer.from('{"user":{"id":1}}')
+const digest = deliveryDigest("user_created", body)
+
+describe("deliveryDigest", () => {
+  it("covers the event type and the body", () => {
+    expect(deliveryDigest("user_created", body)).toBe(digest)
+    expect(deliveryDigest("user_updated", body)).not.toBe(digest)
+    expect(deliveryDigest("user_created", Buffer.from('{"user":{"id":2}}'))).not.toBe(digest)
+  })
+})
+
+describe("eventTimestampOf", () => {
+  it("reads created_at of the entity of *_created events", () => {
+    const payload = { user: { id: 1, created_at: "2025-11-18T11:59:00.000Z" } }
+
+    expect(eventTimestampOf("user_created", payload)).toEqual(new Date("2025-11-18T11:59:00.000Z"))
+  })
+
+  it("reads the latest of updated_at and deleted_at of other events", () => {
+    const post = {
+      id: 1,
+      created_at: "2020-01-01T00:00:00.000Z",
+      updated_at: "2025-11-18T11:00:00.000Z",
+      deleted_at: "2025-11-18T11:30:00.000Z",
+    }
+
+    expect(eventTimestampOf("post_destroyed", { post })).toEqual(new Date("2025-11-18T11:30:00.000Z"))
+    expect(eventTimestampOf("post_edited", { post: { ...post, deleted_at: null } })).toEqual(
+      new Date("2025-11-18T11:00:00.000Z")
+    )
+  })
+
+  it("never uses created_at of other events, which describes the entity", () => {
+    const payload = { user: { id: 1, created_at: "2020-01-01T00:00:00.000Z" } }
+
+    expect(eventTimestampOf("user_updated", payload)).toBeUndefined()
+    expect(eventTimestampOf("user_created", { user: { id: 1, created_at: "soon" } })).toBeUndefined()
+    expect(eventTimestampOf("user_created", null)).toBeUndefined()
+  })
+})
+
+describe("ReplayGuard", () => {
+  beforeEach(() => {
+    jest.spyOn(Date, "now").mockReturnValue(NOW.getTime())
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe("checkNonce", () => {
+    it("leaves unknown event ids to the idempotency store", () => {
+      const guard = new ReplayGuard(config)
+
+      expect(guard.checkNonce("forum", "evt-1", digest)).toEqual({ ok: true })
+      expect(guard.checkNonce("forum", undefined, digest)).toEqual({ ok: true })
+    })
+
+    it("treats the same event id with the same body as a redelivery", () => {
+      const guard = new ReplayGuard(config)
+      guard.remember("forum", "evt-1", digest)
+
+      expect(guard.checkNonce("forum", "evt-1", digest)).toEqual({ ok: true, redelivery: true })
+    })
+
+    it("rejects an accepted event id with a different body", () => {
+      const guard = new ReplayGuard(config)
+      guard.remember("forum", "evt-1", digest)
+
+      expect(guard.checkNonce("forum", "evt-1", deliveryDigest("user_created", Buffer.from("{}")))).toEqual({
+        ok: false,
+        rejection: "replayed",
+        reason: "Event evt-1 was already accepted with a different body",
+      })
+    })
+
+    it("keeps nonces per instance", () => {
+      const guard = new ReplayGuard(config)
+      guard.remember("forum", "evt-1", digest)
+
+      expect(guard.checkNonce("other", "evt-1", "another digest")).toEqual({ ok: true })
+    })
+
+    it("forgets nonces older than the freshness window", () => {
+      const guard = new ReplayGuard(config)
+      guard.remember("forum", "evt-1", digest)
+      jest.spyOn(Date, "now").mockReturnValue(NOW.getTime() + 60001)
+
+      expect(guard.checkNonce("forum", "evt-1", "another digest")).toEqual({ ok: true })
+    })
+
+    it("evicts the least recently accepted nonce beyond the limit", () => {
+      const guard = new ReplayGuard(config)
+      guard.remember("forum", "evt-1", "digest-1")
+      guard.remember("forum", "evt-2", "digest-2")
+      guard.remember("forum", "evt-1", "digest-1")
+      guard.remember("forum", "evt-3", "digest-3")
+
+      expect(guard.checkNonce("forum", "evt-1", "digest-1")).toEqual({ ok: true, redelivery: true })
+      expect(guard.checkNonce("forum", "evt-2", "digest-2")).toEqual({ ok: true })
+    })
+
+    it("rejects an accepted body under another event id", () => {
+      const guard = new ReplayGuard(config)
+      guard.remember("forum", "evt-1", digest)
+
+      expect(guard.checkNonce("forum", "evt-2", digest)).toEqual({
+        ok: false,
+        rejection: "replayed",
+        reason: "Body was already accepted as event evt-1",
+      })
+      expect(guard.checkNonce("forum", undefined, digest)).toMatchObject({ ok: false })
+    })
+
+    it("rejects an accepted body without an event id when it comes again", () => {
+      const guard = new ReplayGuard(config)
+      guard.remember("forum", undefined, digest)
+
+      expect(guard.checkNonce("forum", undefined, digest)).toEqual({
+        ok: false,
+        rejection: "replayed",
+        reason: "Body was already accepted as event without an event id",
+      })
+    })
+
+    it("accepts everything when disabled", () => {
+      const guard = new ReplayGuard({ ...config, enabled: false })
+      guard.remember("forum", "evt-1", digest)
+
+      expect(guard.checkNonce("forum", "evt-1", "another digest")).toEqual({ ok: true })
+    })
+  })
+
+  describe("checkDelivery", () => {
+    const other = deliveryDigest("user_created", Buffer.from("{}"))
+
+    it("rejects a reused event id with another body before asking the idempotency store", async () => {
+      const guard = new ReplayGuard(config)
+      const seen = jest.fn(async () => true)
+      guard.remember("forum", "evt-1", digest)
+
+      expect(await guard.checkDelivery("forum", "evt-1", other, seen)).toMatchObject({
+        ok: false,
+        rejection: "replayed",
+      })
+      expect(seen).not.toHaveBeenCalled()
+    })
+
+    it("answers remembered redeliveries without asking the idempotency store", async () => {
+      const guard = new ReplayGuard(config)
+      const seen = jest.fn(async () => false)
+      guard.remember("forum", "evt-1", digest)
+
+      expect(await guard.checkDelivery("forum", "evt-1", digest, seen)).toEqual({
+        ok: true,
+        redelivery: true,
+      })
+      expect(seen).not.toHaveBeenCalled()
+    })
+
+    it("answers events the idempotency store has seen as redeliveries", async () => {
+      const guard = new ReplayGuard(config)
+
+      expect(await guard.checkDelivery("forum", "evt-1", digest, async () => true)).toEqual({
+        ok: true,
+        redelivery: true,
+      })
+      expect(await guard.checkDelivery("forum", "evt-2", digest, async () => false)).toEqual({
+        ok: true,
+      })
+    })
+  })
+
+  describe("a captured delivery sent again with another X-Discourse-Instance", () => {
+    // Single-instance mode: no INSTANCES_FILE, any X-Discourse-Instance is accepted
+    const instances = new InstanceRegistry(getInstancesConfigFromEnv("secret", {}), {})
+
+    function deliver(headerInstance: string, eventId: string): { scope: string; key?: string } {
+      const resolution = instances.resolve(undefined, headerInstance)
+      if (!resolution.ok) throw new Error(resolution.reason)
+      const headers: DiscourseWebhookEvent["headers"] = {
+        "x-discourse-event": "user_created",
+        "x-discourse-event-signature": "sha256=00",
+        "x-discourse-event-id": eventId,
+        "x-discourse-instance": headerInstance,
+      }
+      return { scope: resolution.tenant.id, key: idempotencyKeyFor(headers, resolution.tenant.id) }
+    }
+
+    it("hits the same nonces and idempotency key", async () => {
+      const guard = new ReplayGuard(config)
+      const accepted = deliver("https://forum.example.com", "evt-1")
+      guard.remember(accepted.scope, "evt-1", digest)
+
+      const replayed = deliver("https://attacker.example.com", "evt-1")
+
+      expect(replayed).toEqual(accepted)
+      expect(
+        await guard.checkDelivery(replayed.scope, "evt-1", digest, async () => replayed.key === accepted.key)
+      ).toEqual({ ok: true, redelivery: true })
+    })
+
+    it("is rejected with a new event id as well", async () => {
+      const guard = new ReplayGuard(config)
+      guard.remember(deliver("https://forum.example.com", "evt-1").scope, "evt-1", digest)
+
+      const replayed = deliver("https://attacker.example.com", "evt-2")
+
+      expect(await guard.checkDelivery(replayed.scope, "evt-2", digest, async () => false)).toMatchObject({
+        ok: false,
+        rejection: "replayed",
+      })
+    })
+  })
+
+  describe("checkFreshness", () => {
+    const createdAt = (offsetMs: number): unknown => ({
+      user: { id: 1, created_at: new Date(NOW.getTime() + offsetMs).toISOString() },
+    })
+
+    it("accepts *_created events inside the window", () => {
+      const guard = new ReplayGuard(config)
+
+      expect(guard.checkFreshness("user_created", createdAt(-60000), NOW)).toEqual({ ok: true })
+      expect(guard.checkFreshness("user_created", createdAt(5000), NOW)).toEqual({ ok: true })
+    })
+
+    it("rejects *_created events that are too old or too far in the future", () => {
+      const guard = new ReplayGuard(config)
+
+      expect(guard.checkFreshness("user_created", createdAt(-60001), NOW)).toMatchObject({
+        ok: false,
+        rejection: "stale",
+      })
+      expect(guard.checkFreshness("user_created", createdAt(5001), NOW)).toMatchObject({
+        ok: false,
+        rejection: "stale",
+        reason: expect.stringContaining("in the future"),
+      })
+    })
+
+    it("does not judge other events by the entity's age", () => {
+      const guard = new ReplayGuard(config)
+
+      expect(guard.checkFreshness("user_updated", createdAt(-86400000), NOW)).toEqual({ ok: true })
+    })
+
+    it("rejects updates and deletions whose change is outside the window", () => {
+      const guard = new ReplayGuard(config)
+      const changedAt = (offsetMs: number): unknown => ({
+        user: {
+          id: 1,
+          created_at: "2020-01-01T00:00:00.000Z",
+          updated_at: new Date(NOW.getTime() + offsetMs).toISOString(),
+        },
+      })
+
+      expect(guard.checkFreshness("user_updated", changedAt(-1000), NOW)).toEqual({ ok: true })
+      expect(guard.checkFreshness("user_updated", changedAt(-60001), NOW)).toMatchObject({
+        ok: false,
+        rejection: "stale",
+      })
+      expect(guard.checkFreshness("user_destroyed", changedAt(5001), NOW)).toMatchObject({
+        ok: false,
+        rejection: "stale",
+      })
+    })
+  })
+})
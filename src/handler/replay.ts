@@ -0,0 +1,249 @@
+/**
+ * Replay protection for the webhook endpoint
+ *
+ * A signature only proves the body came from Discourse, not that it is the
+ * first time we see it. Only the body is signed, so the guard keys
+ * everything on the resolved instance, never on request headers such as
+ * X-Discourse-Instance. It rejects a signed request when:
+ *   - its X-Discourse-Event-Id was already accepted for the same instance
+ *     with a different body (bounded nonce store per instance),
+ *   - its body was already accepted for the same instance under another
+ *     event id (the same store, indexed by digest), or
+ *   - the time the event happened according to its payload lies outside
+ *     the freshness window (too old, or too far in the future): created_at
+ *     for *_created events, the latest of updated_at and deleted_at for
+ *     the others (*_updated, *_edited, *_destroyed...). Events whose
+ *     payload has none of these are not time bound.
+ *
+ * The same event id with the same body is a redelivery (Discourse retries,
+ * or an admin pressed "Redeliver"); the handler answers it as a duplicate.
+ * Nonces only need to outlive the freshness window: anything older is
+ * rejected as stale anyway.
+ */
+
+import { createHash } from "crypto"
+
+export interface ReplayConfig {
+  enabled: boolean
+  freshnessWindowMs: number // Max age of the embedded timestamp
+  maxClockSkewMs: number // How far in the future a timestamp may be
+  maxNoncesPerInstance: number
+}
+
+export type ReplayRejection = "replayed" | "stale"
+
+export type ReplayCheck =
+  | { ok: true; redelivery?: boolean }
+  | { ok: false; rejection: ReplayRejection; reason: string }
+
+interface Nonce {
+  digest: string
+  at: number
+}
+
+interface BodyNonce {
+  eventId?: string
+  at: number
+}
+
+// Accepted deliveries of one instance, by event id and by body digest
+interface InstanceNonces {
+  events: Map<string, Nonce>
+  bodies: Map<string, BodyNonce>
+}
+
+const DEFAULT_FRESHNESS_WINDOW_MS = 86400000 // 24 hours
+const DEFAULT_MAX_CLOCK_SKEW_MS = 300000 // 5 minutes
+const DEFAULT_MAX_NONCES_PER_INSTANCE = 10000
+
+export function getReplayConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): ReplayConfig {
+  return {
+    enabled: env.REPLAY_PROTECTION !== "false",
+    freshnessWindowMs: parseInt(
+      env.REPLAY_FRESHNESS_WINDOW_MS || String(DEFAULT_FRESHNESS_WINDOW_MS),
+      10
+    ),
+    maxClockSkewMs: parseInt(
+      env.REPLAY_MAX_CLOCK_SKEW_MS || String(DEFAULT_MAX_CLOCK_SKEW_MS),
+      10
+    ),
+    maxNoncesPerInstance: parseInt(
+      env.REPLAY_MAX_NONCES || String(DEFAULT_MAX_NONCES_PER_INSTANCE),
+      10
+    ),
+  }
+}
+
+/**
+ * Digest of a delivery, to tell a redelivery from a reused event id
+ */
+export function deliveryDigest(eventType: string, rawBody: Buffer): string {
+  return createHash("sha256").update(eventType).update("\n").update(rawBody).digest("hex")
+}
+
+function parseTimestamp(value: unknown): Date | undefined {
+  if (typeof value !== "string") {
+    return undefined
+  }
+
+  const timestamp = new Date(value)
+  return Number.isNaN(timestamp.getTime()) ? undefined : timestamp
+}
+
+/**
+ * When the event happened according to its payload's entity: created_at
+ * for *_created events, otherwise the latest of updated_at and deleted_at
+ * (an update or a deletion bumps them). created_at is not used for other
+ * events: it describes the entity, not the change that was delivered.
+ */
+export function eventTimestampOf(eventType: string, payload: unknown): Date | undefined {
+  if (typeof payload !== "object" || payload === null) {
+    return undefined
+  }
+
+  const entity = Object.values(payload).find(
+    (value): value is Record<string, unknown> =>
+      typeof value === "object" && value !== null && !Array.isArray(value)
+  )
+  if (!entity) {
+    return undefined
+  }
+
+  if (eventType.endsWith("_created")) {
+    return parseTimestamp(entity.created_at)
+  }
+
+  const changes = [parseTimestamp(entity.updated_at), parseTimestamp(entity.deleted_at)]
+  return changes.reduce<Date | undefined>(
+    (latest, timestamp) => (timestamp && (!latest || timestamp > latest) ? timestamp : latest),
+    undefined
+  )
+}
+
+export class ReplayGuard {
+  private readonly nonces = new Map<string, InstanceNonces>()
+
+  constructor(private readonly config: ReplayConfig) {}
+
+  /**
+   * Whether the delivery was already accepted for the instance (scope is
+   * the resolved instance id): the same event id with the same digest is
+   * a redelivery; the event id with another digest, or the digest under
+   * another event id, is rejected
+   */
+  checkNonce(scope: string, eventId: string | undefined, digest: string): ReplayCheck {
+    if (!this.config.enabled) {
+      return { ok: true }
+    }
+
+    const { events, bodies } = this.noncesFor(scope)
+    const nonce = eventId ? events.get(eventId) : undefined
+    if (nonce && this.isFresh(nonce.at)) {
+      if (nonce.digest !== digest) {
+        return {
+          ok: false,
+          rejection: "replayed",
+          reason: `Event ${eventId} was already accepted with a different body`,
+        }
+      }
+      return { ok: true, redelivery: true }
+    }
+
+    const body = bodies.get(digest)
+    if (body && this.isFresh(body.at) && (!eventId || body.eventId !== eventId)) {
+      return {
+        ok: false,
+        rejection: "replayed",
+        reason: `Body was already accepted as event ${body.eventId || "without an event id"}`,
+      }
+    }
+    return { ok: true }
+  }
+
+  /**
+   * checkNonce, then the idempotency store: a reused event id with another
+   * body is rejected even if the store has seen it, and event ids the guard
+   * no longer remembers are still answered as redeliveries when seen
+   */
+  async checkDelivery(
+    scope: string,
+    eventId: string | undefined,
+    digest: string,
+    seen: () => Promise<boolean>
+  ): Promise<ReplayCheck> {
+    const nonceCheck = this.checkNonce(scope, eventId, digest)
+    if (!nonceCheck.ok || nonceCheck.redelivery) {
+      return nonceCheck
+    }
+    return (await seen()) ? { ok: true, redelivery: true } : { ok: true }
+  }
+
+  checkFreshness(eventType: string, payload: unknown, now: Date = new Date()): ReplayCheck {
+    if (!this.config.enabled) {
+      return { ok: true }
+    }
+
+    const timestamp = eventTimestampOf(eventType, payload)
+    if (!timestamp) {
+      return { ok: true }
+    }
+
+    const age = now.getTime() - timestamp.getTime()
+    if (age > this.config.freshnessWindowMs) {
+      return {
+        ok: false,
+        rejection: "stale",
+        reason: `Event timestamp ${timestamp.toISOString()} is older than the freshness window`,
+      }
+    }
+    if (-age > this.config.maxClockSkewMs) {
+      return {
+        ok: false,
+        rejection: "stale",
+        reason: `Event timestamp ${timestamp.toISOString()} is in the future`,
+      }
+    }
+    return { ok: true }
+  }
+
+  /**
+   * Records an accepted event id (after it was queued or spooled, so a
+   * failed attempt can be retried by Discourse)
+   */
+  remember(scope: string, eventId: string | undefined, digest: string): void {
+    if (!this.config.enabled) {
+      return
+    }
+
+    const at = Date.now()
+    const { events, bodies } = this.noncesFor(scope)
+    if (eventId) {
+      this.record(events, eventId, { digest, at })
+    }
+    this.record(bodies, digest, { eventId, at })
+  }
+
+  private isFresh(at: number): boolean {
+    return Date.now() - at <= this.config.freshnessWindowMs
+  }
+
+  // Map iteration order doubles as recency order
+  private record<T>(nonces: Map<string, T>, key: string, value: T): void {
+    nonces.delete(key)
+    nonces.set(key, value)
+    while (nonces.size > this.config.maxNoncesPerInstance) {
+      nonces.delete(nonces.keys().next().value as string)
+    }
+  }
+
+  private noncesFor(scope: string): InstanceNonces {
+    let nonces = this.nonces.get(scope)
+    if (!nonces) {
+      nonces = { events: new Map(), bodies: new Map() }
+      this.nonces.set(scope, nonces)
+    }
+    return nonces
+  }
+}
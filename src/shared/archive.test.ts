@@ -0,0 +1,179 @@
+import { promises as fs } from "fs"
+import * as os from "os"
+import * as path from "path"
+import {
+  ArchiveConfig,
+  ArchiveEntry,
+  ArchiveRecord,
+  ArchiveWriter,
+  archiveBodyOf,
+  archiveRecordFor,
+  listUnsealedSegments,
+  pruneArchive,
+  readArchive,
+  readSegmentIndexes,
+  sealAbandonedSegments,
+  verifySegmentChecksum,
+} from "./archive"
+
+function recordOf(messageId: string, receivedAt: string, eventType = "user_created"): ArchiveRecord {
+  return archiveRecordFor({
+    messageId,
+    instance: "forum",
+    eventType,
+    eventId: `evt-${messageId}`,
+    receivedAt,
+    headers: { "x-discourse-event": eventType, "x-forwarded-for": "192.0.2.1" },
+    body: Buffer.from(`{"id":"${messageId}"}`),
+  })
+}
+
+async function collect(entries: AsyncGenerator<ArchiveEntry>): Promise<ArchiveEntry[]> {
+  const collected: ArchiveEntry[] = []
+  for await (const entry of entries) {
+    collected.push(entry)
+  }
+  return collected
+}
+
+describe("archive", () => {
+  let dir: string
+  let config: ArchiveConfig
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "archive-"))
+    config = {
+      enabled: true,
+      dir,
+      segmentMaxBytes: 1048576,
+      segmentMaxAgeMs: 3600000,
+      retentionMs: 0,
+      maxBytes: 0,
+    }
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  describe("archiveRecordFor", () => {
+    it("keeps the body and only the Discourse and content headers", () => {
+      const record = recordOf("m1", "2025-11-18T10:00:00.000Z")
+
+      expect(record.headers).toEqual({ "x-discourse-event": "user_created" })
+      expect(archiveBodyOf(record).toString()).toBe('{"id":"m1"}')
+    })
+  })
+
+  describe("ArchiveWriter", () => {
+    it("seals the active segment on close with an index of its records", async () => {
+      const writer = new ArchiveWriter(config)
+      await writer.open()
+      await writer.append(recordOf("m1", "2025-11-18T10:00:00.000Z"))
+      await writer.append(recordOf("m2", "2025-11-18T11:00:00.000Z", "post_created"))
+      expect(writer.stats().active_records).toBe(2)
+      await writer.close()
+
+      const [index] = await readSegmentIndexes(dir)
+      expect(index).toMatchObject({
+        records: 2,
+        malformed_lines: 0,
+        first_received_at: "2025-11-18T10:00:00.000Z",
+        last_received_at: "2025-11-18T11:00:00.000Z",
+        instances: { forum: 2 },
+        event_types: { user_created: 1, post_created: 1 },
+      })
+      expect(await verifySegmentChecksum(dir, index)).toBe(true)
+      expect(await listUnsealedSegments(dir)).toEqual([])
+
+      const entries = await collect(readArchive(dir, { eventType: "post_created" }))
+      expect(entries.map((entry) => entry.record?.message_id)).toEqual(["m2"])
+    })
+
+    it("seals a segment once it reaches the max size", async () => {
+      const writer = new ArchiveWriter({ ...config, segmentMaxBytes: 1 })
+      await writer.open()
+      await writer.append(recordOf("m1", "2025-11-18T10:00:00.000Z"))
+
+      expect(writer.stats().active_segment).toBeNull()
+      expect(await readSegmentIndexes(dir)).toHaveLength(1)
+      await writer.close()
+    })
+  })
+
+  describe("sealAbandonedSegments", () => {
+    it("seals idle segments of other writers, counting malformed lines", async () => {
+      const lines = JSON.stringify(recordOf("m1", "2025-11-18T10:00:00.000Z")) + '\n{"v":1,"mess'
+      await fs.writeFile(path.join(dir, "000001763460000000-crashed.ndjson"), lines)
+      await fs.writeFile(path.join(dir, "000001763460000001-live.ndjson"), "")
+
+      const sealed = await sealAbandonedSegments(dir, 0, "000001763460000001-live")
+
+      expect(sealed).toHaveLength(1)
+      expect(sealed[0]).toMatchObject({
+        segment: "000001763460000000-crashed.ndjson.gz",
+        records: 1,
+        malformed_lines: 1,
+      })
+      expect(await listUnsealedSegments(dir)).toEqual(["000001763460000001-live.ndjson"])
+    })
+
+    it("leaves segments that were written to recently", async () => {
+      await fs.writeFile(path.join(dir, "000001763460000000-busy.ndjson"), "")
+
+      expect(await sealAbandonedSegments(dir, 60000)).toEqual([])
+    })
+
+    it("finishes a seal interrupted after the claim", async () => {
+      const line = JSON.stringify(recordOf("m1", "2025-11-18T10:00:00.000Z")) + "\n"
+      await fs.writeFile(path.join(dir, "000001763460000000-crashed.ndjson.sealing"), line)
+
+      const [index] = await sealAbandonedSegments(dir, 0)
+
+      expect(index.records).toBe(1)
+      expect(await listUnsealedSegments(dir)).toEqual([])
+    })
+  })
+
+  describe("pruneArchive", () => {
+    const NOW = Date.parse("2025-11-20T00:00:00.000Z")
+
+    async function sealDay(day: number): Promise<void> {
+      const name = `00000176346000000${day}-writer`
+      const line = JSON.stringify(recordOf(`m${day}`, `2025-11-1${day}T00:00:00.000Z`)) + "\n"
+      await fs.writeFile(path.join(dir, `${name}.ndjson`), line)
+    }
+
+    beforeEach(async () => {
+      for (const day of [6, 7, 8]) {
+        await sealDay(day)
+      }
+      await sealAbandonedSegments(dir, 0)
+    })
+
+    it("deletes segments past the retention period", async () => {
+      const pruned = await pruneArchive({ ...config, retentionMs: 3.5 * 86400000 }, { now: NOW })
+
+      expect(pruned.map((index) => index.last_received_at)).toEqual(["2025-11-16T00:00:00.000Z"])
+      expect((await readSegmentIndexes(dir)).map((index) => index.records)).toEqual([1, 1])
+      expect((await fs.readdir(dir)).filter((entry) => entry.startsWith("000001763460000006"))).toEqual([])
+    })
+
+    it("deletes the oldest segments while over maxBytes", async () => {
+      const indexes = await readSegmentIndexes(dir)
+      const maxBytes = indexes[2].bytes
+
+      const pruned = await pruneArchive({ ...config, maxBytes }, { now: NOW })
+
+      expect(pruned.map((index) => index.segment)).toEqual([indexes[0].segment, indexes[1].segment])
+      expect(await readSegmentIndexes(dir)).toEqual([indexes[2]])
+    })
+
+    it("only lists deletable segments on a dry run", async () => {
+      const pruned = await pruneArchive({ ...config, retentionMs: 1 }, { dryRun: true, now: NOW })
+
+      expect(pruned).toHaveLength(3)
+      expect(await readSegmentIndexes(dir)).toHaveLength(3)
+    })
+  })
+})
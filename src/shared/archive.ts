@@ -0,0 +1,558 @@
+import { createReadStream, createWriteStream, promises as fs } from "fs"
+import * as path from "path"
+import * as readline from "readline"
+import { createHash } from "crypto"
+import { hostname } from "os"
+import { Transform } from "stream"
+import { pipeline } from "stream/promises"
+import { createGunzip, createGzip } from "zlib"
+import logger from "./logger"
+
+/**
+ * Append-only archive of the raw webhooks the handler accepted
+ *
+ * Every accepted event is one NDJSON line holding its raw body (base64),
+ * the Discourse headers it came with and where it went (instance, message
+ * id). Each handler process appends to its own active segment,
+ * <dir>/<start>-<writer>.ndjson, fsynced per record. The segment is sealed
+ * once it reaches ARCHIVE_SEGMENT_MAX_BYTES or ARCHIVE_SEGMENT_MAX_AGE_MS:
+ * it is gzipped to .ndjson.gz and an index sidecar (.index.json) records
+ * its time range, its record counts by instance and event type and the
+ * SHA-256 of the compressed file. Readers pick segments by their sidecars.
+ *
+ * Segments a crashed writer left unsealed are sealed by any writer once
+ * they have been idle for twice the max age (or by `npm run archive --
+ * seal`). Sealed segments older than ARCHIVE_RETENTION_MS, or beyond
+ * ARCHIVE_MAX_BYTES oldest first, are deleted.
+ */
+
+export interface ArchiveConfig {
+  enabled: boolean
+  dir: string
+  segmentMaxBytes: number
+  segmentMaxAgeMs: number
+  retentionMs: number // 0 keeps sealed segments forever
+  maxBytes: number // Total size of sealed segments; 0 for no limit
+}
+
+export interface ArchiveRecord {
+  v: 1
+  message_id: string
+  instance: string
+  event_type: string
+  event_id?: string
+  received_at: string
+  headers: Record<string, string> // As received: X-Discourse-*, content type, user agent
+  body: string // Raw body bytes, base64
+  body_sha256: string
+}
+
+export interface SegmentIndex {
+  segment: string // File name of the sealed segment
+  records: number
+  malformed_lines: number
+  raw_bytes: number
+  bytes: number // Compressed
+  sha256: string // Of the compressed file
+  first_received_at: string | null
+  last_received_at: string | null
+  instances: Record<string, number>
+  event_types: Record<string, number>
+  sealed_at: string
+}
+
+export interface ArchiveQuery {
+  instance?: string
+  eventType?: string
+  since?: Date // Received at or after
+  until?: Date // Received before
+}
+
+/**
+ * One line of a segment: a record, or the reason it is not one
+ */
+export interface ArchiveEntry {
+  segment: string
+  line: number
+  record?: ArchiveRecord
+  error?: string
+}
+
+export interface ArchiveStats {
+  active_segment: string | null
+  active_records: number
+  active_bytes: number
+}
+
+interface ActiveSegment {
+  name: string
+  file: fs.FileHandle
+  openedAt: number
+  records: number
+  bytes: number
+}
+
+const ACTIVE_SUFFIX = ".ndjson"
+const SEALING_SUFFIX = ".ndjson.sealing"
+const SEALED_SUFFIX = ".ndjson.gz"
+const INDEX_SUFFIX = ".index.json"
+
+const MAINTENANCE_INTERVAL_MS = 60000
+
+// Request headers archived besides X-Discourse-*
+const ARCHIVED_HEADERS = ["content-type", "user-agent"]
+
+// Identifies this process in segment names, so replicas sharing the
+// directory never append to the same file
+const WRITER_ID = `${hostname()}-${process.pid}`.replace(/[^A-Za-z0-9_.-]/g, "_")
+
+export function getArchiveConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): ArchiveConfig {
+  return {
+    enabled: env.ARCHIVE_ENABLED === "true",
+    dir: env.ARCHIVE_DIR || "./data/archive",
+    segmentMaxBytes: parseInt(env.ARCHIVE_SEGMENT_MAX_BYTES || "67108864", 10), // 64MB
+    segmentMaxAgeMs: parseInt(env.ARCHIVE_SEGMENT_MAX_AGE_MS || "3600000", 10), // 1 hour
+    retentionMs: parseInt(env.ARCHIVE_RETENTION_MS || "7776000000", 10), // 90 days
+    maxBytes: parseInt(env.ARCHIVE_MAX_BYTES || "0", 10),
+  }
+}
+
+/**
+ * Builds the record of an accepted webhook from its request headers and
+ * raw body
+ */
+export function archiveRecordFor(webhook: {
+  messageId: string
+  instance: string
+  eventType: string
+  eventId?: string
+  receivedAt: string
+  headers: Record<string, string | string[] | undefined>
+  body: Buffer
+}): ArchiveRecord {
+  const headers: Record<string, string> = {}
+  for (const [name, value] of Object.entries(webhook.headers)) {
+    if (value !== undefined && (name.startsWith("x-discourse-") || ARCHIVED_HEADERS.includes(name))) {
+      headers[name] = Array.isArray(value) ? value.join(", ") : value
+    }
+  }
+
+  return {
+    v: 1,
+    message_id: webhook.messageId,
+    instance: webhook.instance,
+    event_type: webhook.eventType,
+    event_id: webhook.eventId,
+    received_at: webhook.receivedAt,
+    headers,
+    body: webhook.body.toString("base64"),
+    body_sha256: sha256(webhook.body),
+  }
+}
+
+export function archiveBodyOf(record: ArchiveRecord): Buffer {
+  return Buffer.from(record.body, "base64")
+}
+
+export function recordMatches(record: ArchiveRecord, query: ArchiveQuery): boolean {
+  const receivedAt = new Date(record.received_at)
+  return (
+    (!query.instance || record.instance === query.instance) &&
+    (!query.eventType || record.event_type === query.eventType) &&
+    (!query.since || receivedAt >= query.since) &&
+    (!query.until || receivedAt < query.until)
+  )
+}
+
+/**
+ * Whether a sealed segment can hold records matching the query
+ */
+export function segmentMatches(index: SegmentIndex, query: ArchiveQuery): boolean {
+  if (query.instance && !index.instances[query.instance]) return false
+  if (query.eventType && !index.event_types[query.eventType]) return false
+  if (query.since && index.last_received_at && new Date(index.last_received_at) < query.since) return false
+  if (query.until && index.first_received_at && new Date(index.first_received_at) >= query.until) return false
+  return true
+}
+
+/**
+ * Appends accepted webhooks to this process's active segment and keeps
+ * the archive directory sealed and within its retention
+ */
+export class ArchiveWriter {
+  private active: ActiveSegment | null = null
+  private lock: Promise<unknown> = Promise.resolve()
+  private timer: NodeJS.Timeout | null = null
+
+  constructor(private readonly config: ArchiveConfig) {}
+
+  async open(): Promise<void> {
+    await fs.mkdir(this.config.dir, { recursive: true })
+    await this.maintain()
+
+    this.timer = setInterval(() => {
+      this.maintain().catch((error) => logger.error({ error }, "Archive maintenance failed"))
+    }, Math.min(MAINTENANCE_INTERVAL_MS, this.config.segmentMaxAgeMs))
+    this.timer.unref()
+
+    logger.info({ dir: this.config.dir }, "Raw event archive opened")
+  }
+
+  /**
+   * Appends and fsyncs one record; seals the segment once it is full
+   */
+  append(record: ArchiveRecord): Promise<void> {
+    return this.serialize(async () => {
+      if (!this.active) {
+        this.active = await this.openSegment()
+      }
+
+      const line = JSON.stringify(record) + "\n"
+      await this.active.file.write(line)
+      await this.active.file.datasync()
+      this.active.records++
+      this.active.bytes += Buffer.byteLength(line)
+
+      if (this.active.bytes >= this.config.segmentMaxBytes) {
+        await this.sealActive()
+      }
+    })
+  }
+
+  stats(): ArchiveStats {
+    return {
+      active_segment: this.active ? this.active.name + ACTIVE_SUFFIX : null,
+      active_records: this.active?.records ?? 0,
+      active_bytes: this.active?.bytes ?? 0,
+    }
+  }
+
+  /**
+   * Seals the active segment, so a restart starts a fresh one
+   */
+  async close(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    await this.serialize(() => this.sealActive())
+  }
+
+  /**
+   * Seals the active segment once it is old enough and segments abandoned
+   * by other writers, then applies retention
+   */
+  private async maintain(): Promise<void> {
+    await this.serialize(async () => {
+      if (this.active && Date.now() - this.active.openedAt >= this.config.segmentMaxAgeMs) {
+        await this.sealActive()
+      }
+    })
+
+    await sealAbandonedSegments(this.config.dir, 2 * this.config.segmentMaxAgeMs, this.active?.name)
+
+    const pruned = await pruneArchive(this.config)
+    if (pruned.length > 0) {
+      logger.info({ segments: pruned.map((index) => index.segment) }, "Pruned archive segments")
+    }
+  }
+
+  private async openSegment(): Promise<ActiveSegment> {
+    const openedAt = Date.now()
+    const name = `${String(openedAt).padStart(15, "0")}-${WRITER_ID}`
+    const file = await fs.open(path.join(this.config.dir, name + ACTIVE_SUFFIX), "a")
+    return { name, file, openedAt, records: 0, bytes: 0 }
+  }
+
+  private async sealActive(): Promise<void> {
+    const active = this.active
+    if (!active) return
+
+    this.active = null
+    await active.file.close()
+    const index = await sealSegment(this.config.dir, active.name)
+    if (index) {
+      logger.info(
+        { segment: index.segment, records: index.records, bytes: index.bytes },
+        "Archive segment sealed"
+      )
+    }
+  }
+
+  /**
+   * Runs segment operations one at a time, like the spool
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.lock.then(task)
+    this.lock = next.catch(() => undefined)
+    return next
+  }
+}
+
+/**
+ * Claims an active segment (renaming it to .sealing, so only one writer
+ * seals it) and seals it. Returns null if another writer got there first.
+ */
+export async function sealSegment(dir: string, name: string): Promise<SegmentIndex | null> {
+  try {
+    await fs.rename(path.join(dir, name + ACTIVE_SUFFIX), path.join(dir, name + SEALING_SUFFIX))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+    throw error
+  }
+  return finishSeal(dir, name)
+}
+
+/**
+ * Seals segments without a live writer: active or half-sealed segments
+ * not modified for idleMs (every unsealed segment with 0)
+ * @returns Indexes of the sealed segments
+ */
+export async function sealAbandonedSegments(
+  dir: string,
+  idleMs: number,
+  exclude?: string
+): Promise<SegmentIndex[]> {
+  const sealed: SegmentIndex[] = []
+  const cutoff = Date.now() - idleMs
+
+  for (const entry of (await fs.readdir(dir)).sort()) {
+    const sealing = entry.endsWith(SEALING_SUFFIX)
+    if (!sealing && !entry.endsWith(ACTIVE_SUFFIX)) continue
+
+    const name = entry.slice(0, -(sealing ? SEALING_SUFFIX : ACTIVE_SUFFIX).length)
+    if (name === exclude) continue
+
+    try {
+      const { mtimeMs } = await fs.stat(path.join(dir, entry))
+      if (idleMs > 0 && mtimeMs > cutoff) continue
+
+      const index = sealing ? await finishSeal(dir, name) : await sealSegment(dir, name)
+      if (index) {
+        logger.warn({ segment: index.segment, records: index.records }, "Sealed abandoned archive segment")
+        sealed.push(index)
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+      // Sealed by another writer meanwhile
+    }
+  }
+
+  return sealed
+}
+
+/**
+ * Gzips a claimed segment, writes its index sidecar and removes the
+ * uncompressed file. Safe to run again after a crash at any step.
+ */
+async function finishSeal(dir: string, name: string): Promise<SegmentIndex> {
+  const source = path.join(dir, name + SEALING_SUFFIX)
+  const target = path.join(dir, name + SEALED_SUFFIX)
+  const tmp = `${target}.${WRITER_ID}.tmp`
+
+  const hash = createHash("sha256")
+  let bytes = 0
+  await pipeline(
+    createReadStream(source),
+    createGzip(),
+    new Transform({
+      transform(chunk: Buffer, _encoding, callback): void {
+        hash.update(chunk)
+        bytes += chunk.length
+        callback(null, chunk)
+      },
+    }),
+    createWriteStream(tmp)
+  )
+  const written = await fs.open(tmp, "r+")
+  try {
+    await written.sync()
+  } finally {
+    await written.close()
+  }
+
+  const index: SegmentIndex = {
+    segment: name + SEALED_SUFFIX,
+    records: 0,
+    malformed_lines: 0,
+    raw_bytes: (await fs.stat(source)).size,
+    bytes,
+    sha256: hash.digest("hex"),
+    first_received_at: null,
+    last_received_at: null,
+    instances: {},
+    event_types: {},
+    sealed_at: new Date().toISOString(),
+  }
+  for await (const entry of readLines(source, index.segment)) {
+    if (!entry.record) {
+      index.malformed_lines++
+      continue
+    }
+    const { record } = entry
+    index.records++
+    index.instances[record.instance] = (index.instances[record.instance] || 0) + 1
+    index.event_types[record.event_type] = (index.event_types[record.event_type] || 0) + 1
+    if (!index.first_received_at || record.received_at < index.first_received_at) {
+      index.first_received_at = record.received_at
+    }
+    if (!index.last_received_at || record.received_at > index.last_received_at) {
+      index.last_received_at = record.received_at
+    }
+  }
+
+  await fs.rename(tmp, target)
+  const indexPath = path.join(dir, name + INDEX_SUFFIX)
+  await fs.writeFile(`${indexPath}.tmp`, JSON.stringify(index, null, 2))
+  await fs.rename(`${indexPath}.tmp`, indexPath)
+  await fs.rm(source, { force: true })
+  return index
+}
+
+/**
+ * Index sidecars of the sealed segments, oldest segment first
+ */
+export async function readSegmentIndexes(dir: string): Promise<SegmentIndex[]> {
+  const indexes: SegmentIndex[] = []
+  for (const entry of (await fs.readdir(dir)).sort()) {
+    if (!entry.endsWith(INDEX_SUFFIX)) continue
+    try {
+      indexes.push(JSON.parse(await fs.readFile(path.join(dir, entry), "utf-8")) as SegmentIndex)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn({ error, index: entry }, "Unreadable archive index")
+      }
+    }
+  }
+  return indexes
+}
+
+/**
+ * Segments still being written (or waiting to be sealed)
+ */
+export async function listUnsealedSegments(dir: string): Promise<string[]> {
+  return (await fs.readdir(dir))
+    .filter((entry) => entry.endsWith(ACTIVE_SUFFIX) || entry.endsWith(SEALING_SUFFIX))
+    .sort()
+}
+
+/**
+ * Names of the segments that can hold matching records, sealed or not,
+ * in segment order (start time, then writer)
+ */
+export async function listSegments(dir: string, query: ArchiveQuery = {}): Promise<string[]> {
+  const sealed = (await readSegmentIndexes(dir))
+    .filter((index) => segmentMatches(index, query))
+    .map((index) => index.segment)
+  return [...sealed, ...(await listUnsealedSegments(dir))].sort()
+}
+
+/**
+ * Entries of one segment. Records not matching the query are skipped;
+ * lines that are not records are always yielded.
+ */
+export async function* readSegment(
+  dir: string,
+  segment: string,
+  query: ArchiveQuery = {}
+): AsyncGenerator<ArchiveEntry> {
+  for await (const entry of readLines(path.join(dir, segment), segment)) {
+    if (!entry.record || recordMatches(entry.record, query)) {
+      yield entry
+    }
+  }
+}
+
+/**
+ * Entries of every segment that can hold matching records, as readSegment
+ */
+export async function* readArchive(
+  dir: string,
+  query: ArchiveQuery = {}
+): AsyncGenerator<ArchiveEntry> {
+  for (const segment of await listSegments(dir, query)) {
+    try {
+      yield* readSegment(dir, segment, query)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+      // Sealed or pruned since it was listed
+    }
+  }
+}
+
+/**
+ * Whether a sealed segment still has the checksum its index recorded
+ */
+export async function verifySegmentChecksum(dir: string, index: SegmentIndex): Promise<boolean> {
+  const hash = createHash("sha256")
+  for await (const chunk of createReadStream(path.join(dir, index.segment))) {
+    hash.update(chunk as Buffer)
+  }
+  return hash.digest("hex") === index.sha256
+}
+
+/**
+ * Deletes sealed segments past the retention period, then the oldest ones
+ * while the archive is over maxBytes
+ * @returns Indexes of the deleted (or, with dryRun, deletable) segments
+ */
+export async function pruneArchive(
+  config: ArchiveConfig,
+  { dryRun = false, now = Date.now() }: { dryRun?: boolean; now?: number } = {}
+): Promise<SegmentIndex[]> {
+  const indexes = await readSegmentIndexes(config.dir)
+  const cutoff = now - config.retentionMs
+
+  const expired = (index: SegmentIndex): boolean =>
+    config.retentionMs > 0 && Date.parse(index.last_received_at ?? index.sealed_at) < cutoff
+
+  const pruned = indexes.filter(expired)
+  const kept = indexes.filter((index) => !expired(index))
+  let total = kept.reduce((sum, index) => sum + index.bytes, 0)
+  while (config.maxBytes > 0 && total > config.maxBytes && kept.length > 0) {
+    const oldest = kept.shift() as SegmentIndex
+    total -= oldest.bytes
+    pruned.push(oldest)
+  }
+
+  if (!dryRun) {
+    for (const index of pruned) {
+      // Data first: a leftover index is removed by the next run
+      await fs.rm(path.join(config.dir, index.segment), { force: true })
+      await fs.rm(path.join(config.dir, index.segment.slice(0, -SEALED_SUFFIX.length) + INDEX_SUFFIX), {
+        force: true,
+      })
+    }
+  }
+  return pruned
+}
+
+async function* readLines(filePath: string, segment: string): AsyncGenerator<ArchiveEntry> {
+  const stream = createReadStream(filePath)
+  const lines = readline.createInterface({
+    input: filePath.endsWith(SEALED_SUFFIX) ? stream.pipe(createGunzip()) : stream,
+    crlfDelay: Infinity,
+  })
+
+  let line = 0
+  for await (const text of lines) {
+    line++
+    if (!text) continue
+    try {
+      const record = JSON.parse(text) as ArchiveRecord
+      if (record.v !== 1 || typeof record.body !== "string" || typeof record.received_at !== "string") {
+        yield { segment, line, error: "Not an archive record" }
+        continue
+      }
+      yield { segment, line, record }
+    } catch {
+      yield { segment, line, error: "Malformed JSON (truncated write?)" }
+    }
+  }
+}
+
+function sha256(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex")
+}
@@ -0,0 +1,241 @@
+import { promises as fs } from "fs"
+import * as path from "path"
+import logger from "./logger"
+import { DiscourseWebhookEvent } from "./types"
+
+/**
+ * Idempotency store for webhook deduplication
+ *
+ * Discourse redelivers webhooks and RabbitMQ redelivers on requeue, so both
+ * the handler and the worker remember which events they already handled,
+ * keyed on the resolved instance id + X-Discourse-Event-Id. The instance
+ * is never taken from X-Discourse-Instance: the signature does not cover
+ * headers, so a changed header would let a captured delivery through.
+ */
+
+export interface IdempotencyStore {
+  /** Whether the key was remembered within the retention window */
+  seen(key: string): Promise<boolean>
+  /** Records the key as handled */
+  remember(key: string): Promise<void>
+  close(): Promise<void>
+}
+
+export type IdempotencyStoreType = "memory" | "file" | "none"
+
+export interface DedupConfig {
+  store: IdempotencyStoreType
+  retentionMs: number
+  maxEntries: number
+  filePath: string
+}
+
+const DEFAULT_RETENTION_MS = 86400000 // 24 hours, matches the queue TTL
+const DEFAULT_MAX_ENTRIES = 100000
+
+export function getDedupConfigFromEnv(
+  defaultFilePath: string,
+  env: NodeJS.ProcessEnv = process.env
+): DedupConfig {
+  return {
+    store: (env.DEDUP_STORE as IdempotencyStoreType) || "memory",
+    retentionMs: parseInt(
+      env.DEDUP_RETENTION_MS || String(DEFAULT_RETENTION_MS),
+      10
+    ),
+    maxEntries: parseInt(
+      env.DEDUP_MAX_ENTRIES || String(DEFAULT_MAX_ENTRIES),
+      10
+    ),
+    filePath: env.DEDUP_FILE_PATH || defaultFilePath,
+  }
+}
+
+/**
+ * Builds the idempotency key for an event, or undefined when Discourse did
+ * not send an event id (such events cannot be deduplicated)
+ */
+export function idempotencyKeyFor(
+  headers: DiscourseWebhookEvent["headers"],
+  scope: string // Resolved instance id (tenant id)
+): string | undefined {
+  const eventId = headers["x-discourse-event-id"]
+  if (!eventId) {
+    return undefined
+  }
+
+  return `${scope}:${eventId}`
+}
+
+/**
+ * In-memory LRU store. Map iteration order doubles as recency order.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  protected readonly entries = new Map<string, number>()
+
+  constructor(
+    protected readonly retentionMs: number,
+    protected readonly maxEntries: number
+  ) {}
+
+  async seen(key: string): Promise<boolean> {
+    const recordedAt = this.entries.get(key)
+    if (recordedAt === undefined) {
+      return false
+    }
+
+    if (Date.now() - recordedAt > this.retentionMs) {
+      this.entries.delete(key)
+      return false
+    }
+
+    return true
+  }
+
+  async remember(key: string): Promise<void> {
+    this.record(key, Date.now())
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear()
+  }
+
+  protected record(key: string, recordedAt: number): void {
+    this.entries.delete(key)
+    this.entries.set(key, recordedAt)
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string
+      this.entries.delete(oldest)
+    }
+  }
+}
+
+/**
+ * File-backed store: an append-only NDJSON log replayed into the LRU on
+ * startup and compacted once it grows to twice the live entry count.
+ */
+export class FileIdempotencyStore extends MemoryIdempotencyStore {
+  private lineCount = 0
+  private writeChain: Promise<void> = Promise.resolve()
+
+  constructor(
+    private readonly filePath: string,
+    retentionMs: number,
+    maxEntries: number
+  ) {
+    super(retentionMs, maxEntries)
+  }
+
+  async load(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+
+    let contents = ""
+    try {
+      contents = await fs.readFile(this.filePath, "utf-8")
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error
+      }
+    }
+
+    const cutoff = Date.now() - this.retentionMs
+    for (const line of contents.split("\n")) {
+      if (!line) continue
+      try {
+        const { key, at } = JSON.parse(line) as { key: string; at: number }
+        if (at >= cutoff) {
+          this.record(key, at)
+        }
+      } catch {
+        logger.warn({ filePath: this.filePath }, "Skipping corrupt dedup entry")
+      }
+    }
+
+    await this.compact()
+    logger.info(
+      { filePath: this.filePath, entries: this.entries.size },
+      "Loaded idempotency store"
+    )
+  }
+
+  async remember(key: string): Promise<void> {
+    const at = Date.now()
+    this.record(key, at)
+
+    await this.enqueue(async () => {
+      await fs.appendFile(this.filePath, JSON.stringify({ key, at }) + "\n")
+      this.lineCount++
+      if (this.lineCount > this.entries.size * 2 && this.lineCount > 1000) {
+        await this.rewrite()
+      }
+    })
+  }
+
+  async close(): Promise<void> {
+    await this.writeChain
+  }
+
+  private compact(): Promise<void> {
+    return this.enqueue(() => this.rewrite())
+  }
+
+  /**
+   * Rewrites the log with only live entries (atomic rename)
+   */
+  private async rewrite(): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`
+    const lines = [...this.entries].map(
+      ([key, at]) => JSON.stringify({ key, at }) + "\n"
+    )
+    await fs.writeFile(tmpPath, lines.join(""))
+    await fs.rename(tmpPath, this.filePath)
+    this.lineCount = lines.length
+  }
+
+  /**
+   * Serializes file writes so appends and rewrites never interleave
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(task)
+    this.writeChain = next.catch((error) => {
+      logger.error({ error, filePath: this.filePath }, "Dedup store write failed")
+    })
+    return next
+  }
+}
+
+/**
+ * Store used when deduplication is disabled
+ */
+export class NoopIdempotencyStore implements IdempotencyStore {
+  async seen(): Promise<boolean> {
+    return false
+  }
+
+  async remember(): Promise<void> {}
+
+  async close(): Promise<void> {}
+}
+
+export async function createIdempotencyStore(
+  config: DedupConfig
+): Promise<IdempotencyStore> {
+  switch (config.store) {
+    case "none":
+      return new NoopIdempotencyStore()
+    case "file": {
+      const store = new FileIdempotencyStore(
+        config.filePath,
+        config.retentionMs,
+        config.maxEntries
+      )
+      await store.load()
+      return store
+    }
+    case "memory":
+      return new MemoryIdempotencyStore(config.retentionMs, config.maxEntries)
+    default:
+      throw new Error(`Unknown DEDUP_STORE: ${config.store}`)
+  }
+}
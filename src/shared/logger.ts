@@ -4,6 +4,52 @@ import pino from "pino"
  * Centralized logger configuration using Pino
  */
 
+const MINUTE_MS = 60 * 1000
+const LOG_COUNT_HISTORY_MINUTES = 60
+
+export interface LogLevelCounts {
+  warn: number
+  error: number // error and fatal
+}
+
+/**
+ * Warnings and errors logged per minute over the last hour, reported by
+ * the services' /status endpoints
+ */
+export class RecentLogCounts {
+  private readonly minutes: Array<LogLevelCounts & { minute: number }> = []
+
+  record(level: number, now: number = Date.now()): void {
+    if (level < 40) return // Below warn
+
+    const minute = Math.floor(now / MINUTE_MS)
+    let bucket = this.minutes[this.minutes.length - 1]
+    if (!bucket || bucket.minute !== minute) {
+      bucket = { minute, warn: 0, error: 0 }
+      this.minutes.push(bucket)
+      while (this.minutes.length > LOG_COUNT_HISTORY_MINUTES) this.minutes.shift()
+    }
+
+    if (level >= 50) bucket.error++
+    else bucket.warn++
+  }
+
+  /** Counts over the last windowMs (whole minutes, at most an hour) */
+  within(windowMs: number, now: number = Date.now()): LogLevelCounts {
+    const since = Math.floor(now / MINUTE_MS) - Math.ceil(windowMs / MINUTE_MS)
+    const counts: LogLevelCounts = { warn: 0, error: 0 }
+    for (const bucket of this.minutes) {
+      if (bucket.minute > since) {
+        counts.warn += bucket.warn
+        counts.error += bucket.error
+      }
+    }
+    return counts
+  }
+}
+
+export const recentLogCounts = new RecentLogCounts()
+
 const logger = pino({
   level: process.env.LOG_LEVEL || "info",
   transport:
@@ -22,6 +68,15 @@ const logger = pino({
       return { level: label }
     },
   },
+  hooks: {
+    // Child loggers inherit the hook, so every service's lines are counted
+    logMethod(args, method, level) {
+      recentLogCounts.record(level)
+      return method.apply(this, args)
+    },
+  },
 })
 
+export type Logger = pino.Logger
+
 export default logger
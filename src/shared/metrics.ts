@@ -0,0 +1,312 @@
+import logger from "./logger"
+import { DISCOURSE_EVENTS } from "./types"
+
+/**
+ * Prometheus metrics in the text exposition format (version 0.0.4)
+ *
+ * Counters, gauges and histograms with labels, registered once on the
+ * process-wide `metrics` registry and rendered by the services' /metrics
+ * endpoints. Gauges that mirror state elsewhere (queue depth, spool size)
+ * take a collect callback that runs before each render. Each metric keeps
+ * at most MAX_SERIES label combinations; further ones are dropped with a
+ * warning, so a misbehaving label cannot exhaust memory.
+ */
+
+export type Labels = Record<string, string | number>
+
+export type MetricType = "counter" | "gauge" | "histogram"
+
+export interface MetricOptions {
+  name: string
+  help: string
+  labelNames?: string[]
+}
+
+export interface GaugeOptions extends MetricOptions {
+  collect?: (gauge: Gauge) => void | Promise<void>
+}
+
+export interface HistogramOptions extends MetricOptions {
+  buckets?: number[] // Upper bounds in seconds (or the metric's unit)
+}
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8"
+
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+const MAX_SERIES = 1000
+
+const KNOWN_EVENT_TYPES = new Set<string>(Object.values(DISCOURSE_EVENTS).flat())
+
+/**
+ * Event type as a label value: event types Discourse sends as is, anything
+ * else (headers are client input) as "other"
+ */
+export function eventTypeLabel(eventType: string | undefined): string {
+  return eventType && KNOWN_EVENT_TYPES.has(eventType) ? eventType : "other"
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf"
+  if (value === -Infinity) return "-Inf"
+  return String(value)
+}
+
+abstract class Metric<Series> {
+  protected readonly series = new Map<string, { labels: Labels; value: Series }>()
+  private overflowWarned = false
+  abstract readonly type: MetricType
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[] = []
+  ) {}
+
+  /** Drops every series (gauges that are rebuilt on collect) */
+  reset(): void {
+    this.series.clear()
+  }
+
+  abstract lines(): string[]
+
+  protected seriesFor(labels: Labels, create: () => Series): Series | undefined {
+    const key = this.labelNames.map((name) => String(labels[name] ?? "")).join("\u0000")
+    const existing = this.series.get(key)
+    if (existing) return existing.value
+
+    if (this.series.size >= MAX_SERIES) {
+      if (!this.overflowWarned) {
+        this.overflowWarned = true
+        logger.warn({ metric: this.name, maxSeries: MAX_SERIES }, "Metric has too many label combinations")
+      }
+      return undefined
+    }
+
+    const entry = { labels, value: create() }
+    this.series.set(key, entry)
+    return entry.value
+  }
+
+  protected formatLabels(labels: Labels, extra: Labels = {}): string {
+    const pairs = [
+      ...this.labelNames.map((name) => [name, labels[name] ?? ""] as const),
+      ...Object.entries(extra),
+    ].map(([name, value]) => `${name}="${escapeLabel(String(value))}"`)
+    return pairs.length > 0 ? `{${pairs.join(",")}}` : ""
+  }
+}
+
+export class Counter extends Metric<{ value: number }> {
+  readonly type = "counter"
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const series = this.seriesFor(labels, () => ({ value: 0 }))
+    if (series) series.value += amount
+  }
+
+  /** Values by the given label, summed over the others */
+  totalsBy(labelName: string): Record<string, number> {
+    const totals: Record<string, number> = {}
+    for (const { labels, value } of this.series.values()) {
+      const key = String(labels[labelName] ?? "")
+      totals[key] = (totals[key] || 0) + value.value
+    }
+    return totals
+  }
+
+  lines(): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) => `${this.name}${this.formatLabels(labels)} ${formatValue(value.value)}`
+    )
+  }
+}
+
+export class Gauge extends Metric<{ value: number }> {
+  readonly type = "gauge"
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: string[] = [],
+    readonly collect?: (gauge: Gauge) => void | Promise<void>
+  ) {
+    super(name, help, labelNames)
+  }
+
+  set(labels: Labels, value: number): void {
+    const series = this.seriesFor(labels, () => ({ value: 0 }))
+    if (series) series.value = value
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const series = this.seriesFor(labels, () => ({ value: 0 }))
+    if (series) series.value += amount
+  }
+
+  dec(labels: Labels = {}, amount = 1): void {
+    this.inc(labels, -amount)
+  }
+
+  lines(): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) => `${this.name}${this.formatLabels(labels)} ${formatValue(value.value)}`
+    )
+  }
+}
+
+interface HistogramSeries {
+  counts: number[] // Per bucket, not cumulative
+  sum: number
+  count: number
+}
+
+export class Histogram extends Metric<HistogramSeries> {
+  readonly type = "histogram"
+  readonly buckets: number[]
+
+  constructor(name: string, help: string, labelNames: string[] = [], buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames)
+    this.buckets = [...buckets].sort((a, b) => a - b)
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.seriesFor(labels, () => ({
+      counts: new Array(this.buckets.length).fill(0),
+      sum: 0,
+      count: 0,
+    }))
+    if (!series) return
+
+    const bucket = this.buckets.findIndex((bound) => value <= bound)
+    if (bucket >= 0) series.counts[bucket]++
+    series.sum += value
+    series.count++
+  }
+
+  /**
+   * Starts a timer; calling the returned function observes the elapsed
+   * seconds with the labels given then (merged over these)
+   */
+  startTimer(labels: Labels = {}): (endLabels?: Labels) => number {
+    const startedAt = process.hrtime.bigint()
+    return (endLabels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9
+      this.observe({ ...labels, ...endLabels }, seconds)
+      return seconds
+    }
+  }
+
+  lines(): string[] {
+    return [...this.series.values()].flatMap(({ labels, value }) => {
+      let cumulative = 0
+      const buckets = this.buckets.map((bound, index) => {
+        cumulative += value.counts[index]
+        return `${this.name}_bucket${this.formatLabels(labels, { le: formatValue(bound) })} ${cumulative}`
+      })
+      return [
+        ...buckets,
+        `${this.name}_bucket${this.formatLabels(labels, { le: "+Inf" })} ${value.count}`,
+        `${this.name}_sum${this.formatLabels(labels)} ${formatValue(value.sum)}`,
+        `${this.name}_count${this.formatLabels(labels)} ${value.count}`,
+      ]
+    })
+  }
+}
+
+type AnyMetric = Counter | Gauge | Histogram
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, AnyMetric>()
+
+  /**
+   * Registers a counter, or returns the one registered under that name
+   */
+  counter(options: MetricOptions): Counter {
+    return this.register(options.name, "counter", () => new Counter(options.name, options.help, options.labelNames))
+  }
+
+  gauge(options: GaugeOptions): Gauge {
+    return this.register(
+      options.name,
+      "gauge",
+      () => new Gauge(options.name, options.help, options.labelNames, options.collect)
+    )
+  }
+
+  histogram(options: HistogramOptions): Histogram {
+    return this.register(
+      options.name,
+      "histogram",
+      () => new Histogram(options.name, options.help, options.labelNames, options.buckets)
+    )
+  }
+
+  /**
+   * Runs the gauges' collect callbacks and renders every metric. A failing
+   * callback leaves its gauge as it was.
+   */
+  async render(): Promise<string> {
+    const output: string[] = []
+
+    for (const metric of this.metrics.values()) {
+      if (metric instanceof Gauge && metric.collect) {
+        try {
+          await metric.collect(metric)
+        } catch (error) {
+          logger.warn({ error, metric: metric.name }, "Metric collection failed")
+        }
+      }
+
+      output.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`)
+      output.push(`# TYPE ${metric.name} ${metric.type}`)
+      output.push(...metric.lines())
+    }
+
+    return output.join("\n") + "\n"
+  }
+
+  private register<T extends AnyMetric>(name: string, type: MetricType, create: () => T): T {
+    const existing = this.metrics.get(name)
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`)
+      }
+      return existing as T
+    }
+
+    const metric = create()
+    this.metrics.set(name, metric)
+    return metric
+  }
+}
+
+/**
+ * Process-wide registry; the handler and the worker register on it (both,
+ * in standalone mode)
+ */
+export const metrics = new MetricsRegistry()
+
+const processStartSeconds = Math.floor(Date.now() / 1000 - process.uptime())
+
+metrics.gauge({
+  name: "process_start_time_seconds",
+  help: "Start time of the process since the Unix epoch in seconds",
+  collect: (gauge) => gauge.set({}, processStartSeconds),
+})
+
+metrics.gauge({
+  name: "process_resident_memory_bytes",
+  help: "Resident memory size in bytes",
+  collect: (gauge) => gauge.set({}, process.memoryUsage().rss),
+})
+
+metrics.gauge({
+  name: "nodejs_heap_used_bytes",
+  help: "V8 heap in use in bytes",
+  collect: (gauge) => gauge.set({}, process.memoryUsage().heapUsed),
+})
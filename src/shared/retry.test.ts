@@ -0,0 +1,69 @@
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryPolicy,
+  computeRetryDelay,
+  failureReasonOf,
+  planFailure,
+  retryTiers,
+} from "./retry"
+
+const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, jitter: 0 }
+
+describe("retryTiers", () => {
+  it("has one tier per retry of the default policy", () => {
+    expect(retryTiers(policy)).toEqual([5000, 20000, 80000])
+  })
+
+  it("covers the event type with the most attempts and caps at maxDelayMs", () => {
+    const tiers = retryTiers({ ...policy, maxAttemptsByEventType: { notification: 6 } })
+
+    expect(tiers).toEqual([5000, 20000, 80000, 300000])
+  })
+
+  it("is empty when nothing is retried", () => {
+    expect(retryTiers({ ...policy, maxAttempts: 1 })).toEqual([])
+  })
+})
+
+describe("computeRetryDelay", () => {
+  it("only shortens the nominal delay", () => {
+    const jittered = { ...policy, jitter: 0.2 }
+
+    expect(computeRetryDelay(jittered, 2, () => 0)).toBe(20000)
+    expect(computeRetryDelay(jittered, 2, () => 1)).toBe(16000)
+  })
+})
+
+describe("planFailure", () => {
+  it("retries into the tier of the next attempt", () => {
+    expect(planFailure(policy, 0)).toEqual({ action: "retry", retry: 1, tier: 5000, delay: 5000 })
+    expect(planFailure(policy, 2)).toEqual({ action: "retry", retry: 3, tier: 80000, delay: 80000 })
+  })
+
+  it("dead-letters once the attempts are used up", () => {
+    expect(planFailure(policy, 3)).toEqual({ action: "dead_letter", reason: "max_attempts_exceeded" })
+  })
+
+  it("uses the event type's max attempts", () => {
+    const perEvent = { ...policy, maxAttemptsByEventType: { notification: 6 } }
+
+    expect(planFailure(perEvent, 3, "notification")).toMatchObject({ action: "retry", retry: 4 })
+    expect(planFailure(perEvent, 3, "user_created")).toMatchObject({ action: "dead_letter" })
+  })
+
+  it("dead-letters non-retryable failures at once", () => {
+    expect(planFailure(policy, 0, "user_created", "invalid_payload")).toEqual({
+      action: "dead_letter",
+      reason: "invalid_payload",
+    })
+  })
+})
+
+describe("failureReasonOf", () => {
+  it("reads the reason of errors that must not be retried", () => {
+    const error = Object.assign(new Error("disabled"), { failureReason: "subscriber_disabled" })
+
+    expect(failureReasonOf(error)).toBe("subscriber_disabled")
+    expect(failureReasonOf(new Error("boom"))).toBeUndefined()
+  })
+})
@@ -0,0 +1,246 @@
+/**
+ * Retry policy for failed message processing
+ *
+ * Failed messages are parked in tiered delay queues (one per backoff step)
+ * and dead-lettered back onto the main queue once their delay expires.
+ * After the max attempts for the event type they go to the dead-letter queue.
+ */
+
+export interface RetryPolicy {
+  initialDelayMs: number
+  multiplier: number
+  maxDelayMs: number
+  jitter: number // Fraction (0-1) of each delay that is randomized
+  maxAttempts: number // Total deliveries, including the first one
+  maxAttemptsByEventType: Record<string, number>
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  initialDelayMs: 5000,
+  multiplier: 4,
+  maxDelayMs: 300000,
+  jitter: 0.2,
+  maxAttempts: 4,
+  maxAttemptsByEventType: {},
+}
+
+// Message headers used by the retry pipeline
+export const RETRY_COUNT_HEADER = "x-retry-count"
+export const LAST_ERROR_HEADER = "x-last-error"
+export const FAILURE_REASON_HEADER = "x-failure-reason"
+export const FIRST_FAILED_AT_HEADER = "x-first-failed-at"
+export const DEAD_LETTERED_AT_HEADER = "x-dead-lettered-at"
+export const ORIGINAL_QUEUE_HEADER = "x-original-queue"
+export const FAILURE_DETAILS_HEADER = "x-failure-details"
+
+export type FailureReason =
+  | "max_attempts_exceeded"
+  | "malformed_message"
+  | "invalid_payload"
+  | "subscriber_disabled"
+
+/**
+ * Errors that must not be retried name the reason they are dead-lettered
+ * with and may carry details (stored as JSON in x-failure-details)
+ */
+interface NonRetryableError {
+  failureReason: FailureReason
+  details?: unknown
+}
+
+function isNonRetryable(error: unknown): error is NonRetryableError {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    typeof (error as NonRetryableError).failureReason === "string"
+  )
+}
+
+export function failureReasonOf(error: unknown): FailureReason | undefined {
+  return isNonRetryable(error) ? error.failureReason : undefined
+}
+
+/**
+ * Parses "event_type:attempts" pairs, e.g. "notification:6,user_created:2"
+ */
+function parseAttemptsByEventType(value: string | undefined): Record<string, number> {
+  const result: Record<string, number> = {}
+
+  for (const entry of (value || "").split(",")) {
+    const [eventType, attempts] = entry.split(":").map((part) => part.trim())
+    const parsed = parseInt(attempts, 10)
+
+    if (eventType && parsed > 0) {
+      result[eventType] = parsed
+    }
+  }
+
+  return result
+}
+
+export function getRetryPolicyFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): RetryPolicy {
+  const jitter = parseFloat(env.RETRY_JITTER || String(DEFAULT_RETRY_POLICY.jitter))
+
+  return {
+    initialDelayMs: parseInt(
+      env.RETRY_INITIAL_DELAY_MS || String(DEFAULT_RETRY_POLICY.initialDelayMs),
+      10
+    ),
+    multiplier: parseFloat(
+      env.RETRY_BACKOFF_MULTIPLIER || String(DEFAULT_RETRY_POLICY.multiplier)
+    ),
+    maxDelayMs: parseInt(
+      env.RETRY_MAX_DELAY_MS || String(DEFAULT_RETRY_POLICY.maxDelayMs),
+      10
+    ),
+    jitter: Math.min(Math.max(jitter, 0), 1),
+    maxAttempts: parseInt(
+      env.RETRY_MAX_ATTEMPTS || String(DEFAULT_RETRY_POLICY.maxAttempts),
+      10
+    ),
+    maxAttemptsByEventType: parseAttemptsByEventType(
+      env.RETRY_MAX_ATTEMPTS_BY_EVENT
+    ),
+  }
+}
+
+/**
+ * Max deliveries allowed for an event type (falls back to the global value)
+ */
+export function maxAttemptsFor(policy: RetryPolicy, eventType?: string): number {
+  return (
+    (eventType && policy.maxAttemptsByEventType[eventType]) || policy.maxAttempts
+  )
+}
+
+/**
+ * Nominal (un-jittered) delay before the given retry (1-based)
+ */
+export function nominalDelayFor(policy: RetryPolicy, retry: number): number {
+  const delay = policy.initialDelayMs * Math.pow(policy.multiplier, retry - 1)
+  return Math.round(Math.min(delay, policy.maxDelayMs))
+}
+
+/**
+ * Delay tiers that need a delay queue: one per distinct nominal delay,
+ * up to the largest number of retries any event type may use
+ */
+export function retryTiers(policy: RetryPolicy): number[] {
+  const maxRetries =
+    Math.max(
+      policy.maxAttempts,
+      ...Object.values(policy.maxAttemptsByEventType)
+    ) - 1
+
+  const tiers = new Set<number>()
+  for (let retry = 1; retry <= maxRetries; retry++) {
+    tiers.add(nominalDelayFor(policy, retry))
+  }
+
+  return [...tiers].sort((a, b) => a - b)
+}
+
+/**
+ * Jittered delay for the given retry. Jitter only shortens the delay, so a
+ * message never waits longer than the TTL of its tier queue.
+ */
+export function computeRetryDelay(
+  policy: RetryPolicy,
+  retry: number,
+  random: () => number = Math.random
+): number {
+  const nominal = nominalDelayFor(policy, retry)
+  return Math.max(0, Math.round(nominal * (1 - policy.jitter * random())))
+}
+
+export function retryQueueName(queueName: string, delayMs: number): string {
+  return `${queueName}.retry.${delayMs}`
+}
+
+export function deadLetterExchangeName(queueName: string): string {
+  return `${queueName}.dlx`
+}
+
+export function deadLetterQueueName(queueName: string): string {
+  return `${queueName}.dlq`
+}
+
+export type FailurePlan =
+  | { action: "retry"; retry: number; tier: number; delay: number }
+  | { action: "dead_letter"; reason: FailureReason }
+
+/**
+ * Decides what happens to a message whose processing failed
+ * @param retryCount - Retries already performed (x-retry-count)
+ * @param reason - Set when the message can never succeed (e.g. malformed)
+ */
+export function planFailure(
+  policy: RetryPolicy,
+  retryCount: number,
+  eventType?: string,
+  reason?: FailureReason
+): FailurePlan {
+  const attempt = retryCount + 1
+
+  if (reason) {
+    return { action: "dead_letter", reason }
+  }
+
+  if (attempt >= maxAttemptsFor(policy, eventType)) {
+    return { action: "dead_letter", reason: "max_attempts_exceeded" }
+  }
+
+  return {
+    action: "retry",
+    retry: attempt,
+    tier: nominalDelayFor(policy, attempt),
+    delay: computeRetryDelay(policy, attempt),
+  }
+}
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Headers for a message scheduled for the given retry
+ */
+export function retryHeaders(
+  headers: Record<string, unknown>,
+  error: unknown,
+  retry: number
+): Record<string, unknown> {
+  return {
+    ...headers,
+    [RETRY_COUNT_HEADER]: retry,
+    [LAST_ERROR_HEADER]: errorMessage(error),
+    [FIRST_FAILED_AT_HEADER]:
+      headers[FIRST_FAILED_AT_HEADER] || new Date().toISOString(),
+  }
+}
+
+/**
+ * Headers for a dead-lettered message
+ */
+export function deadLetterHeaders(
+  headers: Record<string, unknown>,
+  error: unknown,
+  reason: FailureReason,
+  queueName: string
+): Record<string, unknown> {
+  return {
+    ...headers,
+    [RETRY_COUNT_HEADER]: Number(headers[RETRY_COUNT_HEADER]) || 0,
+    [LAST_ERROR_HEADER]: errorMessage(error),
+    [FIRST_FAILED_AT_HEADER]:
+      headers[FIRST_FAILED_AT_HEADER] || new Date().toISOString(),
+    [FAILURE_REASON_HEADER]: reason,
+    [DEAD_LETTERED_AT_HEADER]: new Date().toISOString(),
+    [ORIGINAL_QUEUE_HEADER]: queueName,
+    ...(isNonRetryable(error) && error.details !== undefined
+      ? { [FAILURE_DETAILS_HEADER]: JSON.stringify(error.details) }
+      : {}),
+  }
+}
@@ -0,0 +1,142 @@
+import { readFileSync, promises as fs } from "fs"
+import * as path from "path"
+import logger from "./logger"
+import { WebhookSecret } from "./security"
+
+/**
+ * Webhook secret sets and their usage
+ *
+ * An instance accepts any of its secrets whose validity window covers the
+ * current time. Rotation adds a new secret, switches Discourse over and
+ * lets the old one expire; the usage file records when each secret last
+ * matched so the old one can be retired once Discourse stopped using it.
+ */
+
+export interface SecretConfig {
+  label: string
+  secret?: string
+  secretEnv?: string // Name of an environment variable holding the secret
+  notBefore?: string // ISO date
+  notAfter?: string // ISO date
+}
+
+export interface SecretUsage {
+  first_used_at: string
+  last_used_at: string
+  count: number
+}
+
+// "<instance>:<label>" -> usage
+export type SecretUsageMap = Record<string, SecretUsage>
+
+export const DEFAULT_SECRET_LABEL = "primary"
+const DEFAULT_USAGE_FLUSH_INTERVAL_MS = 10000
+
+function parseDate(value: string | undefined, field: string, label: string): Date | undefined {
+  if (!value) return undefined
+
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Secret ${label}: invalid ${field} ${value}`)
+  }
+  return date
+}
+
+export function loadSecrets(
+  configs: SecretConfig[],
+  env: NodeJS.ProcessEnv = process.env
+): WebhookSecret[] {
+  return configs.map((config) => {
+    const secret = config.secretEnv ? env[config.secretEnv] : config.secret
+    if (!config.label || !secret) {
+      throw new Error(
+        `Secret ${config.label || "(unlabelled)"} has no value` +
+          (config.secretEnv ? ` (${config.secretEnv} is not set)` : "")
+      )
+    }
+
+    return {
+      label: config.label,
+      secret,
+      notBefore: parseDate(config.notBefore, "notBefore", config.label),
+      notAfter: parseDate(config.notAfter, "notAfter", config.label),
+    }
+  })
+}
+
+export function readSecretsFile(filePath: string): SecretConfig[] {
+  const secrets = JSON.parse(readFileSync(filePath, "utf-8")) as SecretConfig[]
+  if (!Array.isArray(secrets)) {
+    throw new Error(`${filePath} must contain an array of secrets`)
+  }
+  return secrets
+}
+
+export function usageKey(instanceId: string, label: string): string {
+  return `${instanceId}:${label}`
+}
+
+export async function readSecretUsage(filePath: string): Promise<SecretUsageMap> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf-8")) as SecretUsageMap
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return {}
+    }
+    throw error
+  }
+}
+
+/**
+ * Records which secret matched, in memory, flushed to a JSON file on an
+ * interval and on close
+ */
+export class SecretUsageTracker {
+  private usage: SecretUsageMap = {}
+  private dirty = false
+  private timer: NodeJS.Timeout | null = null
+
+  constructor(
+    private readonly filePath: string,
+    private readonly flushIntervalMs: number = DEFAULT_USAGE_FLUSH_INTERVAL_MS
+  ) {}
+
+  async open(): Promise<void> {
+    this.usage = await readSecretUsage(this.filePath)
+    this.timer = setInterval(() => {
+      this.flush().catch((error) => {
+        logger.warn({ error, filePath: this.filePath }, "Failed to write secret usage")
+      })
+    }, this.flushIntervalMs)
+    this.timer.unref()
+  }
+
+  record(instanceId: string, label: string): void {
+    const key = usageKey(instanceId, label)
+    const now = new Date().toISOString()
+    const entry = this.usage[key]
+
+    this.usage[key] = entry
+      ? { ...entry, last_used_at: now, count: entry.count + 1 }
+      : { first_used_at: now, last_used_at: now, count: 1 }
+    this.dirty = true
+  }
+
+  async flush(): Promise<void> {
+    if (!this.dirty) return
+    this.dirty = false
+
+    const tmpPath = `${this.filePath}.tmp`
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+    await fs.writeFile(tmpPath, JSON.stringify(this.usage, null, 2))
+    await fs.rename(tmpPath, this.filePath)
+  }
+
+  async close(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    await this.flush()
+  }
+}
@@ -65,6 +65,66 @@ export function validateWebhookSignature(
   }
 }
 
+/**
+ * Signs a body the way Discourse does, for webhooks we send ourselves:
+ * the X-Discourse-Event-Signature value that validateWebhookSignature accepts
+ */
+export function signWebhookBody(rawBody: Buffer | string, secret: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(rawBody).digest('hex')}`;
+}
+
+/**
+ * One of possibly several secrets accepted for an instance. Overlapping
+ * validity windows let Discourse switch secrets without dropped webhooks.
+ */
+export interface WebhookSecret {
+  label: string;
+  secret: string;
+  notBefore?: Date;
+  notAfter?: Date;
+}
+
+export type SecretMatchResult =
+  | { valid: true; label: string } // Label of the secret that matched
+  | { valid: false; error?: string };
+
+export function isSecretActive(secret: WebhookSecret, now: Date = new Date()): boolean {
+  return (
+    (!secret.notBefore || secret.notBefore <= now) &&
+    (!secret.notAfter || now < secret.notAfter)
+  );
+}
+
+/**
+ * Validates the signature against every secret active at `now`, each with
+ * the constant-time comparison above
+ */
+export function validateWebhookSignatureWithSecrets(
+  rawBody: Buffer,
+  signature: string,
+  secrets: WebhookSecret[],
+  now: Date = new Date()
+): SecretMatchResult {
+  const active = secrets.filter((secret) => isSecretActive(secret, now));
+
+  if (active.length === 0) {
+    return { valid: false, error: 'No webhook secret is active' };
+  }
+
+  let lastResult: SignatureValidationResult = { valid: false };
+  for (const secret of active) {
+    lastResult = validateWebhookSignature(rawBody, signature, secret.secret);
+    if (lastResult.valid) {
+      return { valid: true, label: secret.label };
+    }
+  }
+
+  return {
+    valid: false,
+    error: active.length > 1 ? `No active secret matched (${active.length} tried)` : lastResult.error
+  };
+}
+
 /**
  * Generates a secure random secret for webhook configuration
  * @returns High-entropy secret string (UUID format)
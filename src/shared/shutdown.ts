@@ -0,0 +1,88 @@
+import logger from "./logger"
+
+/**
+ * Coordinated shutdown on SIGTERM and SIGINT
+ *
+ * Services register a shutdown hook instead of handling the signals
+ * themselves. On the first signal every hook runs at once (in standalone
+ * mode the handler and the worker drain side by side) and the process
+ * exits when all of them finished, with status 1 if one failed. Hooks
+ * bound their own waits; if one still hangs, the process exits
+ * FORCE_EXIT_GRACE_MS after the longest hook's timeout. A second signal
+ * exits at once.
+ */
+
+export type ShutdownHook = () => Promise<void>
+
+interface RegisteredHook {
+  name: string
+  hook: ShutdownHook
+  timeoutMs: number
+}
+
+const FORCE_EXIT_GRACE_MS = 5000
+const WAIT_POLL_INTERVAL_MS = 50
+
+const hooks: RegisteredHook[] = []
+let shuttingDown = false
+
+/**
+ * Registers a service's shutdown; timeoutMs is how long it may drain
+ */
+export function onShutdown(name: string, timeoutMs: number, hook: ShutdownHook): void {
+  if (hooks.length === 0) {
+    process.on("SIGTERM", () => shutdown("SIGTERM"))
+    process.on("SIGINT", () => shutdown("SIGINT"))
+  }
+  hooks.push({ name, hook, timeoutMs })
+}
+
+export function isShuttingDown(): boolean {
+  return shuttingDown
+}
+
+/**
+ * Resolves true once condition() holds, or false after timeoutMs
+ */
+export async function waitUntil(condition: () => boolean, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() >= deadline) return false
+    await new Promise((resolve) => setTimeout(resolve, WAIT_POLL_INTERVAL_MS))
+  }
+  return true
+}
+
+/**
+ * Runs every hook, then exits
+ */
+export async function shutdown(signal: string): Promise<void> {
+  if (shuttingDown) {
+    logger.warn({ signal }, "Second shutdown signal, exiting now")
+    process.exit(1)
+  }
+  shuttingDown = true
+
+  const deadlineMs = Math.max(0, ...hooks.map((hook) => hook.timeoutMs)) + FORCE_EXIT_GRACE_MS
+  setTimeout(() => {
+    logger.error({ deadlineMs }, "Shutdown did not finish in time, exiting")
+    process.exit(1)
+  }, deadlineMs).unref()
+
+  logger.info({ signal, services: hooks.map((hook) => hook.name) }, "Shutting down")
+
+  const results = await Promise.allSettled(
+    hooks.map(async ({ name, hook }) => {
+      try {
+        await hook()
+      } catch (error) {
+        logger.error({ error, service: name }, "Error during shutdown")
+        throw error
+      }
+    })
+  )
+
+  const failed = results.some((result) => result.status === "rejected")
+  logger.info({ failed }, "Shutdown complete")
+  process.exit(failed ? 1 : 0)
+}
@@ -0,0 +1,103 @@
+import { promises as fs } from "fs"
+import * as os from "os"
+import * as path from "path"
+import { Spool, SpoolFullError } from "./spool"
+import { QueueMessage } from "./types"
+
+function messageOf(id: string): QueueMessage {
+  return {
+    id,
+    event: {
+      event_type: "user_created",
+      payload: { user: { id: 1 } },
+      headers: { "x-discourse-event": "user_created", "x-discourse-event-signature": "sha256=00" },
+      received_at: "2025-11-18T00:00:00.000Z",
+    },
+    timestamp: "2025-11-18T00:00:00.000Z",
+    retry_count: 0,
+  }
+}
+
+describe("Spool", () => {
+  let dir: string
+  const spools: Spool[] = []
+
+  async function openSpool(maxBytes = 1048576): Promise<Spool> {
+    const spool = new Spool({ dir, maxBytes, drainIntervalMs: 60000 })
+    await spool.open()
+    spools.push(spool)
+    return spool
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "spool-"))
+  })
+
+  afterEach(async () => {
+    await Promise.all(spools.splice(0).map((spool) => spool.close()))
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it("drains appended messages in order", async () => {
+    const spool = await openSpool()
+    await spool.append(messageOf("a"))
+    await spool.append(messageOf("b"))
+
+    const published: string[] = []
+    const drained = await spool.drain(async (message) => {
+      published.push(message.id)
+      return true
+    })
+
+    expect(drained).toBe(2)
+    expect(published).toEqual(["a", "b"])
+    expect(spool.stats()).toEqual({ depth: 0, bytes: 0, oldest_age_ms: null })
+  })
+
+  it("stops at the first unconfirmed publish and keeps the rest", async () => {
+    const spool = await openSpool()
+    await spool.append(messageOf("a"))
+    await spool.append(messageOf("b"))
+
+    const drained = await spool.drain(async (message) => message.id === "a")
+
+    expect(drained).toBe(1)
+    expect(spool.depth).toBe(1)
+  })
+
+  it("recovers messages that were not committed before a restart", async () => {
+    const first = await openSpool()
+    await first.append(messageOf("a"))
+    await first.append(messageOf("b"))
+    await first.append(messageOf("c"))
+    await first.drain(async (message) => message.id === "a")
+    await first.close()
+
+    const second = await openSpool()
+    const published: string[] = []
+    await second.drain(async (message) => {
+      published.push(message.id)
+      return true
+    })
+
+    expect(published).toEqual(["b", "c"])
+  })
+
+  it("skips a torn line at the tail", async () => {
+    const first = await openSpool()
+    await first.append(messageOf("a"))
+    await first.close()
+    await fs.appendFile(path.join(dir, "spool.ndjson"), '{"message":{"id"')
+
+    const second = await openSpool()
+
+    expect(second.depth).toBe(1)
+  })
+
+  it("refuses messages over maxBytes", async () => {
+    const spool = await openSpool(100)
+
+    await expect(spool.append(messageOf("a"))).rejects.toBeInstanceOf(SpoolFullError)
+    expect(spool.depth).toBe(0)
+  })
+})
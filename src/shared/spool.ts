@@ -0,0 +1,245 @@
+import { promises as fs } from "fs"
+import * as path from "path"
+import logger from "./logger"
+import { QueueMessage } from "./types"
+
+/**
+ * Disk-backed spool for messages the broker could not confirm
+ *
+ * Messages are appended (and fsynced) to an NDJSON file before the handler
+ * answers 200, then drained in order once the broker is back. The drain
+ * position is kept in a separate offset file; a crash between a confirmed
+ * publish and the offset update re-sends that message, which the worker's
+ * idempotency store absorbs.
+ */
+
+export interface SpoolConfig {
+  dir: string
+  maxBytes: number
+  drainIntervalMs: number
+}
+
+export interface SpoolStats {
+  depth: number
+  bytes: number
+  oldest_age_ms: number | null
+}
+
+interface SpoolEntry {
+  message: QueueMessage
+  spooledAt: number
+  end: number // Byte offset just past this entry's line
+}
+
+export class SpoolFullError extends Error {
+  constructor(maxBytes: number) {
+    super(`Spool is full (max ${maxBytes} bytes)`)
+    this.name = "SpoolFullError"
+  }
+}
+
+export class Spool {
+  private readonly dataPath: string
+  private readonly offsetPath: string
+  private file: fs.FileHandle | null = null
+  private pending: SpoolEntry[] = []
+  private size = 0
+  private offset = 0
+  private activeDrain: Promise<number> | null = null
+  private closing = false
+  private lock: Promise<unknown> = Promise.resolve()
+  private drainTimer: NodeJS.Timeout | null = null
+
+  constructor(private readonly config: SpoolConfig) {
+    this.dataPath = path.join(config.dir, "spool.ndjson")
+    this.offsetPath = path.join(config.dir, "spool.offset")
+  }
+
+  /**
+   * Opens the spool and loads entries left over from a previous run
+   */
+  async open(): Promise<void> {
+    await fs.mkdir(this.config.dir, { recursive: true })
+
+    try {
+      this.offset = parseInt(await fs.readFile(this.offsetPath, "utf-8"), 10) || 0
+    } catch {
+      this.offset = 0
+    }
+
+    this.file = await fs.open(this.dataPath, "a+")
+    const contents = await this.file.readFile()
+    this.size = contents.length
+
+    let position = this.offset
+    for (const line of contents.subarray(this.offset).toString("utf-8").split("\n")) {
+      if (!line) continue
+      position += Buffer.byteLength(line) + 1
+
+      try {
+        const { message, spooledAt } = JSON.parse(line)
+        this.pending.push({ message, spooledAt, end: position })
+      } catch {
+        // A torn write at the tail; everything before it is intact
+        logger.warn({ dataPath: this.dataPath }, "Skipping corrupt spool entry")
+      }
+    }
+
+    if (this.pending.length > 0) {
+      logger.warn(
+        { depth: this.pending.length, dataPath: this.dataPath },
+        "Spool has undelivered messages from a previous run"
+      )
+    }
+  }
+
+  /**
+   * Durably appends a message. Resolves only after the write is fsynced.
+   */
+  async append(message: QueueMessage): Promise<void> {
+    if (!this.file) {
+      throw new Error("Spool not opened. Call open() first")
+    }
+
+    const file = this.file
+    const spooledAt = Date.now()
+    const line = Buffer.from(JSON.stringify({ message, spooledAt }) + "\n")
+
+    await this.serialize(async () => {
+      if (this.size - this.offset + line.length > this.config.maxBytes) {
+        throw new SpoolFullError(this.config.maxBytes)
+      }
+
+      await file.appendFile(line)
+      await file.sync()
+
+      this.size += line.length
+      this.pending.push({ message, spooledAt, end: this.size })
+    })
+
+    logger.warn(
+      { messageId: message.id, depth: this.pending.length },
+      "Message spooled to disk"
+    )
+  }
+
+  /**
+   * Publishes pending entries in order, stopping at the first failure
+   * @returns Number of messages drained
+   */
+  drain(publish: (message: QueueMessage) => Promise<boolean>): Promise<number> {
+    if (this.activeDrain) {
+      return Promise.resolve(0)
+    }
+
+    this.activeDrain = this.drainPending(publish).finally(() => {
+      this.activeDrain = null
+    })
+    return this.activeDrain
+  }
+
+  private async drainPending(publish: (message: QueueMessage) => Promise<boolean>): Promise<number> {
+    let drained = 0
+
+    // Stops after the message being published once close() is called
+    while (this.pending.length > 0 && !this.closing) {
+      const entry = this.pending[0]
+
+      let published = false
+      try {
+        published = await publish(entry.message)
+      } catch (error) {
+        logger.warn({ error, messageId: entry.message.id }, "Spool drain publish failed")
+      }
+
+      if (!published) {
+        break
+      }
+
+      this.pending.shift()
+      drained++
+      await this.commit(entry.end)
+    }
+
+    if (drained > 0) {
+      logger.info(
+        { drained, depth: this.pending.length },
+        "Drained spooled messages to queue"
+      )
+    }
+
+    return drained
+  }
+
+  /**
+   * Drains periodically while the broker is ready
+   */
+  startDraining(
+    publish: (message: QueueMessage) => Promise<boolean>,
+    isReady: () => boolean
+  ): void {
+    this.drainTimer = setInterval(() => {
+      if (this.pending.length > 0 && isReady()) {
+        this.drain(publish).catch((error) => {
+          logger.error({ error }, "Spool drain failed")
+        })
+      }
+    }, this.config.drainIntervalMs)
+  }
+
+  get depth(): number {
+    return this.pending.length
+  }
+
+  stats(): SpoolStats {
+    return {
+      depth: this.pending.length,
+      bytes: this.size - this.offset,
+      oldest_age_ms:
+        this.pending.length > 0 ? Date.now() - this.pending[0].spooledAt : null,
+    }
+  }
+
+  /**
+   * Stops draining, waits for the publish in progress to be confirmed (or
+   * fail) and closes the file; undrained entries stay for the next start
+   */
+  async close(): Promise<void> {
+    this.closing = true
+    if (this.drainTimer) {
+      clearInterval(this.drainTimer)
+      this.drainTimer = null
+    }
+    await this.activeDrain?.catch(() => undefined)
+    await this.file?.close()
+    this.file = null
+  }
+
+  /**
+   * Persists the drain position; truncates the spool once it is empty
+   */
+  private commit(offset: number): Promise<void> {
+    return this.serialize(async () => {
+      if (this.pending.length === 0 && this.file) {
+        await this.file.truncate(0)
+        await this.file.sync()
+        this.size = 0
+        offset = 0
+      }
+
+      this.offset = offset
+      const tmpPath = `${this.offsetPath}.tmp`
+      await fs.writeFile(tmpPath, String(offset))
+      await fs.rename(tmpPath, this.offsetPath)
+    })
+  }
+
+  /**
+   * Runs file operations one at a time so a truncate never races an append
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.lock.then(task)
+    this.lock = next.catch(() => undefined)
+    return next
+  }
+}
@@ -0,0 +1,79 @@
+import { eventTypeMatches, routingKeyFor, routingWord, topicMatches } from "./topology"
+import { DiscourseWebhookEvent } from "./types"
+
+function eventOf(
+  eventType: string,
+  payload: Record<string, unknown> = {},
+  instance?: string
+): DiscourseWebhookEvent {
+  return {
+    event_type: eventType,
+    payload,
+    headers: {
+      "x-discourse-event": eventType,
+      "x-discourse-event-signature": "sha256=00",
+      "x-discourse-instance": instance,
+    },
+    received_at: "2025-11-18T00:00:00.000Z",
+  }
+}
+
+describe("topicMatches", () => {
+  it.each([
+    ["#", "forum.user_created", true],
+    ["#", "", true],
+    ["forum.#", "forum.notification.replied", true],
+    ["forum.#", "forum", true],
+    ["*.user_created", "forum.user_created", true],
+    ["*.user_created", "forum.user_created.extra", false],
+    ["*.notification.*", "forum.notification.replied", true],
+    ["*.notification.*", "forum.notification", false],
+    ["#.replied", "forum.notification.replied", true],
+    ["forum.*", "other.user_created", false],
+  ])("%s against %s is %s", (pattern, routingKey, expected) => {
+    expect(topicMatches(pattern, routingKey)).toBe(expected)
+  })
+})
+
+describe("routingWord", () => {
+  it("turns an instance URL into one word", () => {
+    expect(routingWord("https://Discourse.Example.com/")).toBe("discourse_example_com")
+    expect(routingWord(undefined)).toBe("default")
+  })
+})
+
+describe("routingKeyFor", () => {
+  it("starts with the word of X-Discourse-Instance", () => {
+    const event = eventOf("user_created", {}, "https://forum.example.com")
+
+    expect(routingKeyFor(event)).toBe("forum_example_com.user_created")
+  })
+
+  it("prefers the tenant's routing prefix", () => {
+    const event = eventOf("user_created", {}, "https://forum.example.com")
+
+    expect(routingKeyFor(event, "community")).toBe("community.user_created")
+  })
+
+  it("appends the notification type by name, or by number when unknown", () => {
+    expect(routingKeyFor(eventOf("notification", { notification: { notification_type: 2 } })))
+      .toBe("default.notification.replied")
+    expect(routingKeyFor(eventOf("notification", { notification: { notification_type: 999 } })))
+      .toBe("default.notification.type_999")
+  })
+
+  it("tolerates payloads that are not objects", () => {
+    const event = { ...eventOf("post_created"), payload: null } as unknown as DiscourseWebhookEvent
+
+    expect(routingKeyFor(event)).toBe("default.post_created")
+  })
+})
+
+describe("eventTypeMatches", () => {
+  it("matches globs on the whole event type", () => {
+    expect(eventTypeMatches("user_*", "user_created")).toBe(true)
+    expect(eventTypeMatches("user_*", "post_created")).toBe(false)
+    expect(eventTypeMatches("*", "anything")).toBe(true)
+    expect(eventTypeMatches("user.created", "user_created")).toBe(false)
+  })
+})
@@ -0,0 +1,190 @@
+import { readFileSync } from "fs"
+import {
+  DiscourseNotificationPayload,
+  DiscourseWebhookEvent,
+  NotificationType,
+} from "./types"
+
+/**
+ * Declarative message bus topology
+ *
+ * The handler publishes every event to one topic exchange with a routing
+ * key of the form:
+ *
+ *   <instance>.<event_type>[.<notification_type>]
+ *
+ *   discourse_example_com.user_created
+ *   discourse_example_com.notification.mentioned
+ *
+ * Each queue lists the binding patterns it wants, so a consumer only
+ * receives the events it cares about. Events no queue is bound for go to
+ * the "<exchange>.unrouted" queue instead of being dropped.
+ */
+
+export interface QueueSpec {
+  name: string
+  bindings: string[] // Topic patterns ("*" = one word, "#" = zero or more)
+}
+
+export interface TopologySpec {
+  exchange: string
+  queues: QueueSpec[]
+  // Fan-out of short-lived messages (one queue per consumer process):
+  // queues live only as long as their consumer's connection, failed
+  // messages are not retried and unrouted ones are dropped
+  broadcast?: boolean
+}
+
+export const DEFAULT_EXCHANGE = "discourse.events"
+
+/**
+ * Topology from TOPOLOGY_FILE (JSON TopologySpec) or, without one, a single
+ * queue named QUEUE_NAME bound with QUEUE_BINDINGS (default "#").
+ * The queue the service consumes from must be part of the topology.
+ */
+export function getTopologyFromEnv(
+  queueName: string,
+  env: NodeJS.ProcessEnv = process.env
+): TopologySpec {
+  if (env.TOPOLOGY_FILE) {
+    const spec = JSON.parse(readFileSync(env.TOPOLOGY_FILE, "utf-8")) as TopologySpec
+    validateTopology(spec)
+
+    if (!spec.queues.some((queue) => queue.name === queueName)) {
+      throw new Error(
+        `Queue ${queueName} is not declared in ${env.TOPOLOGY_FILE}`
+      )
+    }
+
+    return spec
+  }
+
+  return {
+    exchange: env.TOPIC_EXCHANGE || DEFAULT_EXCHANGE,
+    queues: [
+      {
+        name: queueName,
+        bindings: (env.QUEUE_BINDINGS || "#")
+          .split(",")
+          .map((pattern) => pattern.trim())
+          .filter(Boolean),
+      },
+    ],
+  }
+}
+
+function validateTopology(spec: TopologySpec): void {
+  if (!spec.exchange || !Array.isArray(spec.queues)) {
+    throw new Error("Topology must have an exchange and a queues array")
+  }
+
+  for (const queue of spec.queues) {
+    if (!queue.name || !Array.isArray(queue.bindings) || queue.bindings.length === 0) {
+      throw new Error(`Queue ${queue.name || "(unnamed)"} needs at least one binding`)
+    }
+  }
+}
+
+/**
+ * Turns an instance URL into a single routing-key word
+ * ("https://discourse.example.com" -> "discourse_example_com")
+ */
+export function routingWord(value: string | undefined): string {
+  const word = (value || "")
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/[^a-z0-9_-]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+
+  return word || "default"
+}
+
+/**
+ * Routing key for an event. The first word is the tenant's routing prefix
+ * when the handler resolved one, else derived from X-Discourse-Instance.
+ */
+export function routingKeyFor(
+  event: DiscourseWebhookEvent,
+  routingPrefix?: string
+): string {
+  const words = [
+    routingPrefix || routingWord(event.headers["x-discourse-instance"]),
+    routingWord(event.event_type),
+  ]
+
+  const notification = (event.payload as DiscourseNotificationPayload)
+    ?.notification
+  if (notification?.notification_type !== undefined) {
+    const name = NotificationType[notification.notification_type]
+    words.push(
+      name ? name.toLowerCase() : `type_${notification.notification_type}`
+    )
+  }
+
+  return words.join(".")
+}
+
+/**
+ * Event type glob matching ("user_*", "*"), used for processor and
+ * instance allow lists
+ */
+export function eventTypeMatches(pattern: string, eventType: string): boolean {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*")
+  return new RegExp(`^${source}$`).test(eventType)
+}
+
+/**
+ * AMQP topic matching, for transports that route in-process
+ */
+export function topicMatches(pattern: string, routingKey: string): boolean {
+  const match = (patternWords: string[], keyWords: string[]): boolean => {
+    if (patternWords.length === 0) {
+      return keyWords.length === 0
+    }
+
+    const [head, ...rest] = patternWords
+    if (head === "#") {
+      // Zero or more words
+      for (let skip = 0; skip <= keyWords.length; skip++) {
+        if (match(rest, keyWords.slice(skip))) return true
+      }
+      return false
+    }
+
+    if (keyWords.length === 0) {
+      return false
+    }
+
+    return (head === "*" || head === keyWords[0]) && match(rest, keyWords.slice(1))
+  }
+
+  return match(pattern.split("."), routingKey.split("."))
+}
+
+/**
+ * Names of the queues whose bindings match the routing key
+ */
+export function queuesFor(spec: TopologySpec, routingKey: string): string[] {
+  return spec.queues
+    .filter((queue) =>
+      queue.bindings.some((pattern) => topicMatches(pattern, routingKey))
+    )
+    .map((queue) => queue.name)
+}
+
+/**
+ * Topology used when none is configured: the consumed queue gets everything
+ */
+export function defaultTopology(queueName: string): TopologySpec {
+  return {
+    exchange: DEFAULT_EXCHANGE,
+    queues: [{ name: queueName, bindings: ["#"] }],
+  }
+}
+
+export function unroutedQueueName(exchange: string): string {
+  return `${exchange}.unrouted`
+}
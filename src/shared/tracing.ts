@@ -0,0 +1,427 @@
+import { promises as fs } from "fs"
+import * as path from "path"
+import { randomBytes, randomUUID } from "crypto"
+import logger from "./logger"
+import { QueueMessage, TraceHeaders } from "./types"
+
+/**
+ * Trace and correlation propagation
+ *
+ * The handler accepts a W3C traceparent and a correlation ID on POST
+ * /webhook (or starts new ones) and stores them on the queue message and
+ * in its transport headers; the worker continues the trace from there.
+ * Spans are exported in the OpenTelemetry (OTLP/JSON) format:
+ *
+ *   none  spans only provide IDs for the logs (default)
+ *   file  one ExportTraceServiceRequest per line in TRACING_FILE_PATH, as
+ *         written by the collector's file exporter (and read by its
+ *         otlpjsonfile receiver)
+ *   otlp  POSTed to OTEL_EXPORTER_OTLP_ENDPOINT/v1/traces (OTLP/HTTP JSON)
+ */
+
+export const TRACEPARENT_HEADER = "traceparent"
+export const TRACESTATE_HEADER = "tracestate"
+export const CORRELATION_ID_HEADER = "x-correlation-id"
+export const REQUEST_ID_HEADER = "x-request-id" // Accepted as a correlation ID
+
+export type TracingExporterType = "none" | "file" | "otlp"
+
+export interface TracingConfig {
+  exporter: TracingExporterType
+  serviceName: string
+  filePath: string
+  otlpEndpoint: string
+  flushIntervalMs: number
+}
+
+export type SpanKind = "internal" | "server" | "client" | "producer" | "consumer"
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>
+
+export interface SpanContext {
+  traceId: string // 32 hex digits
+  spanId: string // 16 hex digits
+  sampled: boolean
+  traceState?: string
+}
+
+export interface StartSpanOptions {
+  kind?: SpanKind
+  parent?: SpanContext
+  attributes?: SpanAttributes
+}
+
+export interface FinishedSpan {
+  name: string
+  kind: SpanKind
+  context: SpanContext
+  parentSpanId?: string
+  startTimeNs: bigint
+  endTimeNs: bigint
+  attributes: SpanAttributes
+  status: { code: "unset" | "ok" | "error"; message?: string }
+  events: Array<{ name: string; timeNs: bigint; attributes: SpanAttributes }>
+}
+
+export interface SpanExporter {
+  export(serviceName: string, spans: FinishedSpan[]): Promise<void>
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/
+const CORRELATION_ID_PATTERN = /^[\w.:@/+=-]{1,128}$/
+const MAX_BUFFERED_SPANS = 2048
+const EXPORT_BATCH_SIZE = 512
+const SCOPE_NAME = "discourse-webhook"
+
+// OTLP enum values
+const SPAN_KINDS: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+  producer: 4,
+  consumer: 5,
+}
+const STATUS_CODES = { unset: 0, ok: 1, error: 2 }
+
+export function getTracingConfigFromEnv(
+  defaultServiceName: string,
+  env: NodeJS.ProcessEnv = process.env
+): TracingConfig {
+  return {
+    exporter: (env.TRACING_EXPORTER as TracingExporterType) || "none",
+    serviceName: env.OTEL_SERVICE_NAME || defaultServiceName,
+    filePath: env.TRACING_FILE_PATH || "./data/spans.ndjson",
+    otlpEndpoint: env.OTEL_EXPORTER_OTLP_ENDPOINT || "http://localhost:4318",
+    flushIntervalMs: parseInt(env.TRACING_FLUSH_INTERVAL_MS || "5000", 10),
+  }
+}
+
+/**
+ * Parses a W3C traceparent; undefined if it is missing or invalid
+ */
+export function parseTraceparent(
+  traceparent: unknown,
+  traceState?: unknown
+): SpanContext | undefined {
+  const match = typeof traceparent === "string" ? TRACEPARENT_PATTERN.exec(traceparent.trim()) : null
+  if (!match) return undefined
+
+  const [, version, traceId, spanId, flags, rest] = match
+  if (version === "ff" || (version === "00" && rest) || /^0+$/.test(traceId) || /^0+$/.test(spanId)) {
+    return undefined
+  }
+
+  return {
+    traceId,
+    spanId,
+    sampled: (parseInt(flags, 16) & 1) === 1,
+    traceState: typeof traceState === "string" && traceState ? traceState : undefined,
+  }
+}
+
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? "01" : "00"}`
+}
+
+/**
+ * The client's correlation ID if it is usable as a log field, else a new one
+ */
+export function correlationIdFrom(...candidates: unknown[]): string {
+  const usable = candidates.find(
+    (candidate): candidate is string => typeof candidate === "string" && CORRELATION_ID_PATTERN.test(candidate)
+  )
+  return usable || randomUUID()
+}
+
+/**
+ * Trace headers for a message, from the span that publishes it
+ */
+export function traceHeadersFor(context: SpanContext, correlationId: string): TraceHeaders {
+  return {
+    traceparent: formatTraceparent(context),
+    tracestate: context.traceState,
+    correlation_id: correlationId,
+  }
+}
+
+/**
+ * Transport headers carrying the message's trace (empty if it has none)
+ */
+export function transportTraceHeaders(message: QueueMessage): Record<string, string> {
+  const headers: Record<string, string> = {}
+  if (message.trace?.traceparent) headers[TRACEPARENT_HEADER] = message.trace.traceparent
+  if (message.trace?.tracestate) headers[TRACESTATE_HEADER] = message.trace.tracestate
+  if (message.trace?.correlation_id) headers[CORRELATION_ID_HEADER] = message.trace.correlation_id
+  return headers
+}
+
+/**
+ * Trace of a delivered message: its transport headers, falling back to the
+ * message itself (headers can be lost, e.g. by a manual requeue)
+ */
+export function traceOf(
+  message: QueueMessage,
+  headers: Record<string, unknown> = {}
+): { parent?: SpanContext; correlationId: string } {
+  const parent =
+    parseTraceparent(headers[TRACEPARENT_HEADER], headers[TRACESTATE_HEADER]) ||
+    parseTraceparent(message.trace?.traceparent, message.trace?.tracestate)
+  return {
+    parent,
+    correlationId: correlationIdFrom(headers[CORRELATION_ID_HEADER], message.trace?.correlation_id),
+  }
+}
+
+function nowNs(): bigint {
+  return BigInt(Math.round((performance.timeOrigin + performance.now()) * 1e6))
+}
+
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+export class Span {
+  private readonly attributes: SpanAttributes
+  private readonly startTimeNs = nowNs()
+  private readonly events: FinishedSpan["events"] = []
+  private status: FinishedSpan["status"] = { code: "unset" }
+  private ended = false
+
+  constructor(
+    private readonly tracer: Tracer,
+    readonly name: string,
+    readonly kind: SpanKind,
+    readonly context: SpanContext,
+    readonly parentSpanId?: string,
+    attributes: SpanAttributes = {}
+  ) {
+    this.attributes = { ...attributes }
+  }
+
+  get traceId(): string {
+    return this.context.traceId
+  }
+
+  get spanId(): string {
+    return this.context.spanId
+  }
+
+  setAttribute(key: string, value: string | number | boolean | undefined): this {
+    this.attributes[key] = value
+    return this
+  }
+
+  /**
+   * Marks the span failed and records the error as an exception event
+   */
+  recordError(error: unknown): this {
+    this.status = { code: "error", message: errorText(error) }
+    this.events.push({
+      name: "exception",
+      timeNs: nowNs(),
+      attributes: {
+        "exception.type": error instanceof Error ? error.name : typeof error,
+        "exception.message": errorText(error),
+      },
+    })
+    return this
+  }
+
+  setStatus(code: "ok" | "error", message?: string): this {
+    this.status = { code, message }
+    return this
+  }
+
+  /** Ends the span; later calls are ignored */
+  end(): void {
+    if (this.ended) return
+    this.ended = true
+
+    this.tracer.finish({
+      name: this.name,
+      kind: this.kind,
+      context: this.context,
+      parentSpanId: this.parentSpanId,
+      startTimeNs: this.startTimeNs,
+      endTimeNs: nowNs(),
+      attributes: this.attributes,
+      status: this.status,
+      events: this.events,
+    })
+  }
+}
+
+function otlpValue(value: string | number | boolean): Record<string, unknown> {
+  if (typeof value === "boolean") return { boolValue: value }
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value }
+  }
+  return { stringValue: value }
+}
+
+function otlpAttributes(attributes: SpanAttributes): Array<{ key: string; value: Record<string, unknown> }> {
+  return Object.entries(attributes)
+    .filter((entry): entry is [string, string | number | boolean] => entry[1] !== undefined)
+    .map(([key, value]) => ({ key, value: otlpValue(value) }))
+}
+
+/**
+ * OTLP/JSON ExportTraceServiceRequest for one service's spans
+ */
+export function toOtlpJson(serviceName: string, spans: FinishedSpan[]): Record<string, unknown> {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: otlpAttributes({ "service.name": serviceName }) },
+        scopeSpans: [
+          {
+            scope: { name: SCOPE_NAME },
+            spans: spans.map((span) => ({
+              traceId: span.context.traceId,
+              spanId: span.context.spanId,
+              parentSpanId: span.parentSpanId || "",
+              traceState: span.context.traceState,
+              name: span.name,
+              kind: SPAN_KINDS[span.kind],
+              startTimeUnixNano: String(span.startTimeNs),
+              endTimeUnixNano: String(span.endTimeNs),
+              attributes: otlpAttributes(span.attributes),
+              events: span.events.map((event) => ({
+                name: event.name,
+                timeUnixNano: String(event.timeNs),
+                attributes: otlpAttributes(event.attributes),
+              })),
+              status: { code: STATUS_CODES[span.status.code], message: span.status.message },
+            })),
+          },
+        ],
+      },
+    ],
+  }
+}
+
+export class FileSpanExporter implements SpanExporter {
+  constructor(private readonly filePath: string) {}
+
+  async export(serviceName: string, spans: FinishedSpan[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+    await fs.appendFile(this.filePath, JSON.stringify(toOtlpJson(serviceName, spans)) + "\n")
+  }
+}
+
+export class OtlpHttpSpanExporter implements SpanExporter {
+  private readonly url: string
+
+  constructor(endpoint: string) {
+    this.url = `${endpoint.replace(/\/$/, "")}/v1/traces`
+  }
+
+  async export(serviceName: string, spans: FinishedSpan[]): Promise<void> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(toOtlpJson(serviceName, spans)),
+      signal: AbortSignal.timeout(10000),
+    })
+    if (!response.ok) {
+      throw new Error(`OTLP endpoint answered ${response.status}`)
+    }
+  }
+}
+
+export function createSpanExporter(config: TracingConfig): SpanExporter | undefined {
+  switch (config.exporter) {
+    case "none":
+      return undefined
+    case "file":
+      return new FileSpanExporter(config.filePath)
+    case "otlp":
+      return new OtlpHttpSpanExporter(config.otlpEndpoint)
+    default:
+      throw new Error(`Unknown tracing exporter: ${config.exporter}`)
+  }
+}
+
+/**
+ * Starts spans and exports the sampled ones in batches. Without an
+ * exporter spans are still created, for the IDs in the logs.
+ */
+export class Tracer {
+  private buffer: FinishedSpan[] = []
+  private flushTimer: NodeJS.Timeout | null = null
+  private flushing: Promise<void> = Promise.resolve()
+  private droppedWarned = false
+
+  constructor(
+    readonly serviceName: string,
+    private readonly exporter?: SpanExporter,
+    flushIntervalMs = 5000
+  ) {
+    if (exporter) {
+      this.flushTimer = setInterval(() => this.flush(), flushIntervalMs)
+      this.flushTimer.unref()
+    }
+  }
+
+  /**
+   * A child of parent, or the root of a new (sampled) trace
+   */
+  startSpan(name: string, options: StartSpanOptions = {}): Span {
+    const { parent } = options
+    const context: SpanContext = {
+      traceId: parent?.traceId || randomBytes(16).toString("hex"),
+      spanId: randomBytes(8).toString("hex"),
+      sampled: parent ? parent.sampled : true,
+      traceState: parent?.traceState,
+    }
+    return new Span(this, name, options.kind || "internal", context, parent?.spanId, options.attributes)
+  }
+
+  /** Called by Span.end() */
+  finish(span: FinishedSpan): void {
+    if (!this.exporter || !span.context.sampled) return
+
+    if (this.buffer.length >= MAX_BUFFERED_SPANS) {
+      if (!this.droppedWarned) {
+        this.droppedWarned = true
+        logger.warn({ maxBuffered: MAX_BUFFERED_SPANS }, "Span buffer full, dropping spans")
+      }
+      return
+    }
+
+    this.buffer.push(span)
+    if (this.buffer.length >= EXPORT_BATCH_SIZE) {
+      this.flush()
+    }
+  }
+
+  /**
+   * Exports the buffered spans; a failed export is logged and dropped
+   */
+  flush(): Promise<void> {
+    this.flushing = this.flushing.then(async () => {
+      while (this.exporter && this.buffer.length > 0) {
+        const batch = this.buffer.splice(0, EXPORT_BATCH_SIZE)
+        try {
+          await this.exporter.export(this.serviceName, batch)
+          this.droppedWarned = false
+        } catch (error) {
+          logger.warn({ error: errorText(error), spans: batch.length }, "Span export failed")
+        }
+      }
+    })
+    return this.flushing
+  }
+
+  async close(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer)
+      this.flushTimer = null
+    }
+    await this.flush()
+  }
+}
+
+export function createTracer(config: TracingConfig): Tracer {
+  return new Tracer(config.serviceName, createSpanExporter(config), config.flushIntervalMs)
+}
@@ -0,0 +1,573 @@
+import { EventEmitter } from "events"
+import { promises as fs } from "fs"
+import * as path from "path"
+import { randomBytes } from "crypto"
+import logger from "../logger"
+import { QueueMessage } from "../types"
+import { transportTraceHeaders } from "../tracing"
+import { waitUntil } from "../shutdown"
+import {
+  RetryPolicy,
+  DEFAULT_RETRY_POLICY,
+  RETRY_COUNT_HEADER,
+  planFailure,
+  retryHeaders,
+  deadLetterHeaders,
+  errorMessage,
+  failureReasonOf,
+} from "../retry"
+import {
+  TopologySpec,
+  defaultTopology,
+  routingKeyFor,
+  topicMatches,
+  unroutedQueueName,
+} from "../topology"
+import {
+  ConnectionState,
+  ConsumeOptions,
+  Delivery,
+  MessageHandler,
+  MessageTransport,
+  QueueDepth,
+  TransportHealth,
+} from "./types"
+
+/**
+ * Durable file-based transport for small deployments
+ *
+ * Each message is one JSON file that moves between directories under
+ * <dir>/<queue>/:
+ *   ready/       waiting for a consumer, processed in file-name order
+ *   processing/  claimed by a consumer (atomic rename; one winner)
+ *   delayed/     waiting for a retry, named by due time
+ *   dead/        dead-lettered, with failure headers
+ *
+ * Handler and worker share the directory (e.g. a volume). Files written
+ * with fsync + rename survive crashes; claims older than the visibility
+ * timeout are returned to ready/.
+ *
+ * Bindings are declared as <dir>/_exchanges/<exchange>/<queue>.json; a
+ * publish writes one copy into ready/ of every queue whose patterns match.
+ * Like RabbitMQ bindings they are additive: every service that declares a
+ * queue adds its patterns to the ones already there.
+ * Consumers of a broadcast topology touch their binding while polling;
+ * bindings left untouched (a crashed consumer) no longer receive messages.
+ */
+
+export interface FileTransportOptions {
+  retryPolicy?: RetryPolicy
+  topology?: TopologySpec
+  pollIntervalMs?: number
+  visibilityTimeoutMs?: number
+}
+
+interface StoredMessage {
+  headers: Record<string, unknown>
+  message: QueueMessage
+}
+
+interface FileConsumer {
+  handler: MessageHandler
+  prefetch: number
+  inFlight: number
+}
+
+interface FileDelivery extends Delivery {
+  message: QueueMessage // Malformed files are dead-lettered before delivery
+  fileName: string
+  released?: boolean // Moved back to ready/ by drain()
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 500
+const DEFAULT_VISIBILITY_TIMEOUT_MS = 300000 // 5 minutes
+const STALE_CHECK_INTERVAL_MS = 30000
+const BROADCAST_BINDING_TTL_MS = STALE_CHECK_INTERVAL_MS * 3
+
+const EXCHANGES_DIRECTORY = "_exchanges"
+
+const SUBDIRECTORIES = ["ready", "processing", "delayed", "dead", "tmp"] as const
+type Subdirectory = (typeof SUBDIRECTORIES)[number]
+
+export class FileTransport extends EventEmitter implements MessageTransport {
+  readonly type = "file" as const
+  private readonly root: string
+  private readonly exchangeDir: string
+  private readonly retryPolicy: RetryPolicy
+  private readonly topology: TopologySpec
+  private readonly pollIntervalMs: number
+  private readonly visibilityTimeoutMs: number
+  private readonly consumers: FileConsumer[] = []
+  private readonly unsettled = new Set<FileDelivery>()
+  private state: ConnectionState = "idle"
+  private pollTimer: NodeJS.Timeout | null = null
+  private polling = false
+  private lastStaleCheck = 0
+  private sequence = 0
+  private counts: Record<Subdirectory, number> = {
+    ready: 0,
+    processing: 0,
+    delayed: 0,
+    dead: 0,
+    tmp: 0,
+  }
+
+  constructor(
+    private readonly queueName: string,
+    private readonly dir: string,
+    options: FileTransportOptions = {}
+  ) {
+    super()
+    this.root = path.join(dir, queueName)
+    this.retryPolicy = options.retryPolicy || DEFAULT_RETRY_POLICY
+    this.topology = options.topology || defaultTopology(queueName)
+    this.exchangeDir = path.join(dir, EXCHANGES_DIRECTORY, this.topology.exchange)
+    this.pollIntervalMs = options.pollIntervalMs || DEFAULT_POLL_INTERVAL_MS
+    this.visibilityTimeoutMs =
+      options.visibilityTimeoutMs || DEFAULT_VISIBILITY_TIMEOUT_MS
+  }
+
+  async connect(): Promise<void> {
+    this.setState("connecting")
+
+    const queueNames = this.topology.queues.map((queue) => queue.name)
+    if (!this.topology.broadcast) {
+      queueNames.push(unroutedQueueName(this.topology.exchange))
+    }
+    for (const queueName of queueNames) {
+      for (const subdirectory of SUBDIRECTORIES) {
+        await fs.mkdir(path.join(this.dir, queueName, subdirectory), {
+          recursive: true,
+        })
+      }
+    }
+
+    await fs.mkdir(this.exchangeDir, { recursive: true })
+    for (const queue of this.topology.queues) {
+      await this.declareBindings(queue.name, queue.bindings)
+    }
+
+    this.setState("connected")
+    logger.info({ root: this.root }, "Using file transport")
+  }
+
+  async publish(message: QueueMessage): Promise<boolean> {
+    if (this.state !== "connected") {
+      throw new Error("Transport not connected. Call connect() first")
+    }
+
+    const routingKey = routingKeyFor(message.event, message.tenant?.routing_prefix)
+    const fileName = this.nextFileName(Date.now())
+
+    for (const queueName of await this.route(routingKey)) {
+      await this.writeDurably(
+        "ready",
+        fileName,
+        { headers: transportTraceHeaders(message), message },
+        path.join(this.dir, queueName)
+      )
+    }
+    logger.debug(
+      { messageId: message.id, routingKey },
+      "Message written to file queue"
+    )
+    return true
+  }
+
+  async consume(
+    handler: MessageHandler,
+    options: ConsumeOptions = {}
+  ): Promise<void> {
+    if (this.state !== "connected") {
+      throw new Error("Transport not connected. Call connect() first")
+    }
+
+    this.consumers.push({ handler, prefetch: options.prefetch || 1, inFlight: 0 })
+    logger.info({ root: this.root }, "Starting message consumption")
+
+    if (!this.pollTimer) {
+      this.pollTimer = setInterval(() => this.poll(), this.pollIntervalMs)
+      this.poll()
+    }
+  }
+
+  /**
+   * Stops polling; files still claimed after timeoutMs are moved back to
+   * ready/ under their original names, so they keep their place
+   */
+  async drain(timeoutMs: number): Promise<number> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer)
+      this.pollTimer = null
+    }
+    this.consumers.splice(0)
+
+    // A running poll may still hand out the files it claimed
+    await waitUntil(() => !this.polling && this.unsettled.size === 0, timeoutMs)
+
+    const released = [...this.unsettled]
+    this.unsettled.clear()
+    for (const delivery of released) {
+      delivery.released = true
+      await fs
+        .rename(this.pathFor("processing", delivery.fileName), this.pathFor("ready", delivery.fileName))
+        .catch((error) => {
+          // Released after the visibility timeout instead
+          logger.warn({ error, fileName: delivery.fileName }, "Failed to release message claim")
+        })
+    }
+    return released.length
+  }
+
+  async ack(delivery: Delivery): Promise<void> {
+    if (!this.settle(delivery as FileDelivery)) {
+      return
+    }
+    const { fileName } = delivery as FileDelivery
+    await fs.rm(this.pathFor("processing", fileName), { force: true })
+  }
+
+  async nack(delivery: Delivery, error: unknown): Promise<void> {
+    if (!this.settle(delivery as FileDelivery)) {
+      return
+    }
+
+    if (this.topology.broadcast) {
+      logger.warn(
+        { messageId: delivery.message?.id, error: errorMessage(error) },
+        "Broadcast message dropped"
+      )
+      return this.ack(delivery)
+    }
+
+    const { fileName, message } = delivery as FileDelivery
+    const plan = planFailure(
+      this.retryPolicy,
+      delivery.retryCount,
+      message.event?.event_type,
+      failureReasonOf(error)
+    )
+
+    if (plan.action === "retry") {
+      await this.writeDurably("delayed", this.nextFileName(Date.now() + plan.delay), {
+        headers: retryHeaders(delivery.headers, error, plan.retry),
+        message: { ...message, retry_count: plan.retry },
+      })
+
+      logger.warn(
+        { messageId: message.id, retry: plan.retry, delay: plan.delay },
+        "Message scheduled for retry"
+      )
+      this.emit("retry", message, plan.retry, plan.delay)
+    } else {
+      await this.writeDurably("dead", fileName, {
+        headers: deadLetterHeaders(
+          delivery.headers,
+          error,
+          plan.reason,
+          this.queueName
+        ),
+        message,
+      })
+
+      logger.error(
+        { messageId: message.id, reason: plan.reason, lastError: errorMessage(error) },
+        "Message moved to dead-letter queue"
+      )
+      this.emit("dead_letter", message, plan.reason)
+    }
+
+    await fs.rm(this.pathFor("processing", fileName), { force: true })
+  }
+
+  isConnected(): boolean {
+    return this.state === "connected"
+  }
+
+  getHealth(): TransportHealth {
+    return {
+      transport: this.type,
+      state: this.state,
+      consumers: this.consumers.length,
+      ready: this.counts.ready,
+      delayed: this.counts.delayed,
+      dead_letters: this.counts.dead,
+    }
+  }
+
+  /**
+   * Lists the directories rather than using the poll counts, which a
+   * publish-only transport never updates
+   */
+  async queueDepth(): Promise<QueueDepth> {
+    const [ready, delayed, dead] = await Promise.all(
+      (["ready", "delayed", "dead"] as const).map((subdirectory) => this.list(subdirectory))
+    )
+    return { ready: ready.length, delayed: delayed.length, dead_letters: dead.length }
+  }
+
+  async close(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer)
+      this.pollTimer = null
+    }
+    if (this.topology.broadcast) {
+      // The queue goes away with its consumer
+      await fs.rm(path.join(this.exchangeDir, `${this.queueName}.json`), { force: true })
+      await fs.rm(this.root, { recursive: true, force: true })
+    }
+    this.setState("closed")
+  }
+
+  /**
+   * One consumer pass: release stale claims, promote due retries, then
+   * claim ready files for consumers with free prefetch slots
+   */
+  private async poll(): Promise<void> {
+    if (this.polling || this.state !== "connected") {
+      return
+    }
+    this.polling = true
+
+    try {
+      if (Date.now() - this.lastStaleCheck > STALE_CHECK_INTERVAL_MS) {
+        this.lastStaleCheck = Date.now()
+        await this.releaseStaleClaims()
+        if (this.topology.broadcast) {
+          const now = new Date()
+          await fs.utimes(path.join(this.exchangeDir, `${this.queueName}.json`), now, now)
+        }
+      }
+
+      await this.promoteDueRetries()
+
+      for (const consumer of this.consumers) {
+        const free = consumer.prefetch - consumer.inFlight
+        if (free <= 0) continue
+
+        // Claim and read in order first, then start handlers in that order
+        const deliveries: FileDelivery[] = []
+        for (const fileName of await this.list("ready")) {
+          if (deliveries.length >= free) break
+          const delivery = await this.claim(fileName)
+          if (delivery) deliveries.push(delivery)
+        }
+
+        for (const delivery of deliveries) {
+          consumer.inFlight++
+          this.deliver(consumer, delivery).finally(() => {
+            consumer.inFlight--
+          })
+        }
+      }
+
+      for (const subdirectory of ["ready", "delayed", "dead"] as const) {
+        this.counts[subdirectory] = (await this.list(subdirectory)).length
+      }
+    } catch (error) {
+      logger.error({ error, root: this.root }, "File transport poll failed")
+    } finally {
+      this.polling = false
+    }
+  }
+
+  /**
+   * Moves a ready file to processing/. Returns null if another consumer
+   * won the race or the file is unreadable (then it is dead-lettered).
+   */
+  private async claim(fileName: string): Promise<FileDelivery | null> {
+    const claimed = this.pathFor("processing", fileName)
+
+    try {
+      await fs.rename(this.pathFor("ready", fileName), claimed)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null
+      }
+      throw error
+    }
+
+    // Claim time drives the visibility timeout
+    const now = new Date()
+    await fs.utimes(claimed, now, now)
+
+    try {
+      const stored = JSON.parse(await fs.readFile(claimed, "utf-8")) as StoredMessage
+      return {
+        message: stored.message,
+        headers: stored.headers,
+        retryCount: Number(stored.headers[RETRY_COUNT_HEADER]) || 0,
+        fileName,
+      }
+    } catch (error) {
+      logger.error({ error, fileName }, "Received malformed message")
+      await fs.rename(claimed, this.pathFor("dead", fileName))
+      this.emit("dead_letter", null, "malformed_message")
+      return null
+    }
+  }
+
+  /**
+   * Marks a delivery settled; false if drain() already released it (the
+   * file may have been claimed again since)
+   */
+  private settle(delivery: FileDelivery): boolean {
+    if (delivery.released) {
+      logger.debug({ messageId: delivery.message?.id }, "Ignoring settlement of a released message")
+      return false
+    }
+    this.unsettled.delete(delivery)
+    return true
+  }
+
+  private async deliver(consumer: FileConsumer, delivery: FileDelivery): Promise<void> {
+    this.unsettled.add(delivery)
+    try {
+      await consumer.handler(delivery.message, delivery)
+      await this.ack(delivery)
+    } catch (error) {
+      logger.error(
+        { error, messageId: delivery.message.id },
+        "Error processing message"
+      )
+      await this.nack(delivery, error).catch((nackError) => {
+        // Left in processing/; released after the visibility timeout
+        logger.error({ error: nackError, fileName: delivery.fileName }, "Failed to nack message")
+      })
+    }
+  }
+
+  private async promoteDueRetries(): Promise<void> {
+    const now = Date.now()
+
+    for (const fileName of await this.list("delayed")) {
+      const dueAt = parseInt(fileName.split("-")[0], 10)
+      if (dueAt > now) break // Sorted by due time
+
+      await fs
+        .rename(this.pathFor("delayed", fileName), this.pathFor("ready", fileName))
+        .catch(() => undefined) // Another consumer promoted it
+    }
+  }
+
+  private async releaseStaleClaims(): Promise<void> {
+    const cutoff = Date.now() - this.visibilityTimeoutMs
+
+    for (const fileName of await this.list("processing")) {
+      const claimed = this.pathFor("processing", fileName)
+      try {
+        const { mtimeMs } = await fs.stat(claimed)
+        if (mtimeMs < cutoff) {
+          await fs.rename(claimed, this.pathFor("ready", fileName))
+          logger.warn({ fileName }, "Released stale message claim")
+        }
+      } catch {
+        // Acked or released meanwhile
+      }
+    }
+  }
+
+  /**
+   * Adds the patterns to the queue's binding file, keeping those other
+   * services declared (written to a temporary file, then renamed)
+   */
+  private async declareBindings(queueName: string, bindings: string[]): Promise<void> {
+    const bindingPath = path.join(this.exchangeDir, `${queueName}.json`)
+    let existing: string[] = []
+    try {
+      existing = JSON.parse(await fs.readFile(bindingPath, "utf-8")) as string[]
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn({ bindingPath }, "Replacing unreadable binding file")
+      }
+    }
+
+    const merged = [...new Set([...(Array.isArray(existing) ? existing : []), ...bindings])]
+    const tmpPath = `${bindingPath}.${process.pid}.tmp`
+    await fs.writeFile(tmpPath, JSON.stringify(merged))
+    await fs.rename(tmpPath, bindingPath)
+  }
+
+  /**
+   * Queues bound to the exchange (by any service) whose patterns match,
+   * or the unrouted queue when none do (nothing for broadcast topologies)
+   */
+  private async route(routingKey: string): Promise<string[]> {
+    const matched: string[] = []
+
+    for (const entry of (await fs.readdir(this.exchangeDir)).sort()) {
+      if (!entry.endsWith(".json")) continue
+
+      const bindingPath = path.join(this.exchangeDir, entry)
+      if (this.topology.broadcast) {
+        const { mtimeMs } = await fs.stat(bindingPath).catch(() => ({ mtimeMs: 0 }))
+        if (Date.now() - mtimeMs > BROADCAST_BINDING_TTL_MS) continue
+      }
+
+      const bindings = JSON.parse(
+        await fs.readFile(bindingPath, "utf-8").catch(() => "[]")
+      ) as string[]
+      if (bindings.some((pattern) => topicMatches(pattern, routingKey))) {
+        matched.push(entry.slice(0, -".json".length))
+      }
+    }
+
+    if (matched.length > 0 || this.topology.broadcast) {
+      return matched
+    }
+    return [unroutedQueueName(this.topology.exchange)]
+  }
+
+  /**
+   * Writes to tmp/, fsyncs, then renames into place (atomic)
+   */
+  private async writeDurably(
+    subdirectory: Subdirectory,
+    fileName: string,
+    stored: StoredMessage,
+    root: string = this.root
+  ): Promise<void> {
+    const tmpPath = path.join(root, "tmp", fileName)
+    const file = await fs.open(tmpPath, "w")
+    try {
+      await file.writeFile(JSON.stringify(stored))
+      await file.sync()
+    } finally {
+      await file.close()
+    }
+    await fs.rename(tmpPath, path.join(root, subdirectory, fileName))
+  }
+
+  /**
+   * Sortable file name: zero-padded time, then a per-process sequence
+   */
+  private nextFileName(time: number): string {
+    this.sequence = (this.sequence + 1) % 1e8
+    return [
+      String(time).padStart(15, "0"),
+      String(process.pid),
+      String(this.sequence).padStart(8, "0"),
+      randomBytes(4).toString("hex"),
+    ].join("-") + ".json"
+  }
+
+  private async list(subdirectory: Subdirectory): Promise<string[]> {
+    const entries = await fs.readdir(path.join(this.root, subdirectory))
+    return entries.filter((entry) => entry.endsWith(".json")).sort()
+  }
+
+  private pathFor(subdirectory: Subdirectory, fileName: string): string {
+    return path.join(this.root, subdirectory, fileName)
+  }
+
+  private setState(state: ConnectionState): void {
+    const previous = this.state
+    if (previous === state) {
+      return
+    }
+
+    this.state = state
+    this.emit("state", state, previous)
+    this.emit(state)
+  }
+}
@@ -0,0 +1,55 @@
+import { MessageTransport, TransportConfig, TransportType } from "./types"
+import { RabbitMQTransport } from "./rabbitmq"
+import { MemoryTransport } from "./memory"
+import { FileTransport } from "./file"
+
+/**
+ * Transport factory: picks the Message Bus backend from configuration
+ */
+
+export * from "./types"
+export {
+  RabbitMQTransport,
+  DEFAULT_RECONNECT_POLICY,
+  getReconnectPolicyFromEnv,
+} from "./rabbitmq"
+export { MemoryTransport, resetMemoryBroker } from "./memory"
+export { FileTransport } from "./file"
+
+const TRANSPORT_TYPES: TransportType[] = ["rabbitmq", "memory", "file"]
+
+export function getTransportTypeFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): TransportType {
+  const type = (env.TRANSPORT || "rabbitmq") as TransportType
+
+  if (!TRANSPORT_TYPES.includes(type)) {
+    throw new Error(
+      `Unknown TRANSPORT: ${type} (expected ${TRANSPORT_TYPES.join(", ")})`
+    )
+  }
+
+  return type
+}
+
+export function createTransport(config: TransportConfig): MessageTransport {
+  switch (config.type) {
+    case "memory":
+      return new MemoryTransport(config.queueName, {
+        retryPolicy: config.retryPolicy,
+        topology: config.topology,
+      })
+    case "file":
+      return new FileTransport(config.queueName, config.fileDir, {
+        retryPolicy: config.retryPolicy,
+        topology: config.topology,
+      })
+    case "rabbitmq":
+      return new RabbitMQTransport(config.queueName, config.rabbitmqUrl, {
+        retryPolicy: config.retryPolicy,
+        topology: config.topology,
+        confirmTimeoutMs: config.confirmTimeoutMs,
+        reconnect: config.reconnect,
+      })
+  }
+}
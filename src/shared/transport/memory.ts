@@ -0,0 +1,398 @@
+import { EventEmitter } from "events"
+import logger from "../logger"
+import { QueueMessage } from "../types"
+import { transportTraceHeaders } from "../tracing"
+import { waitUntil } from "../shutdown"
+import {
+  RetryPolicy,
+  DEFAULT_RETRY_POLICY,
+  RETRY_COUNT_HEADER,
+  planFailure,
+  retryHeaders,
+  deadLetterHeaders,
+  errorMessage,
+  failureReasonOf,
+} from "../retry"
+import {
+  TopologySpec,
+  defaultTopology,
+  routingKeyFor,
+  topicMatches,
+  unroutedQueueName,
+} from "../topology"
+import {
+  ConnectionState,
+  ConsumeOptions,
+  Delivery,
+  MessageHandler,
+  MessageTransport,
+  QueueDepth,
+  TransportHealth,
+} from "./types"
+
+/**
+ * In-process transport for single-binary dev mode and tests
+ *
+ * Queues and exchange bindings live in a process-wide broker, so a handler
+ * and a worker running in the same process share them. Nothing survives a
+ * restart.
+ */
+
+export interface MemoryTransportOptions {
+  retryPolicy?: RetryPolicy
+  topology?: TopologySpec
+}
+
+interface Envelope {
+  content: string // Serialized so consumers never share objects with publishers
+  headers: Record<string, unknown>
+}
+
+interface MemoryQueue {
+  ready: Envelope[]
+  deadLetters: Envelope[]
+  delayed: Set<NodeJS.Timeout>
+  listeners: Set<() => void>
+}
+
+interface MemoryConsumer {
+  handler: MessageHandler
+  prefetch: number
+  inFlight: number
+}
+
+interface MemoryDelivery extends Delivery {
+  envelope: Envelope
+  released?: boolean // Returned to the queue by drain()
+}
+
+const broker = new Map<string, MemoryQueue>()
+
+// exchange -> queue name -> binding patterns
+const exchanges = new Map<string, Map<string, Set<string>>>()
+
+function queueFor(name: string): MemoryQueue {
+  let queue = broker.get(name)
+  if (!queue) {
+    queue = {
+      ready: [],
+      deadLetters: [],
+      delayed: new Set(),
+      listeners: new Set(),
+    }
+    broker.set(name, queue)
+  }
+  return queue
+}
+
+function declareTopology({ exchange, queues }: TopologySpec): void {
+  let bindings = exchanges.get(exchange)
+  if (!bindings) {
+    bindings = new Map()
+    exchanges.set(exchange, bindings)
+  }
+
+  for (const queue of queues) {
+    queueFor(queue.name)
+    const patterns = bindings.get(queue.name) || new Set<string>()
+    queue.bindings.forEach((pattern) => patterns.add(pattern))
+    bindings.set(queue.name, patterns)
+  }
+}
+
+function route({ exchange, broadcast }: TopologySpec, routingKey: string): MemoryQueue[] {
+  const matched: MemoryQueue[] = []
+
+  for (const [queueName, patterns] of exchanges.get(exchange) || []) {
+    if ([...patterns].some((pattern) => topicMatches(pattern, routingKey))) {
+      matched.push(queueFor(queueName))
+    }
+  }
+
+  if (matched.length > 0 || broadcast) {
+    return matched
+  }
+  return [queueFor(unroutedQueueName(exchange))]
+}
+
+function enqueue(queue: MemoryQueue, envelope: Envelope): void {
+  queue.ready.push(envelope)
+  queue.listeners.forEach((listener) => listener())
+}
+
+/**
+ * Drops every in-memory queue and binding (for tests)
+ */
+export function resetMemoryBroker(): void {
+  for (const queue of broker.values()) {
+    queue.delayed.forEach((timer) => clearTimeout(timer))
+  }
+  broker.clear()
+  exchanges.clear()
+}
+
+export class MemoryTransport extends EventEmitter implements MessageTransport {
+  readonly type = "memory" as const
+  private readonly queue: MemoryQueue
+  private readonly consumers: MemoryConsumer[] = []
+  private readonly unsettled = new Set<MemoryDelivery>()
+  private readonly retryPolicy: RetryPolicy
+  private readonly topology: TopologySpec
+  private readonly pump = (): void => this.dispatch()
+  private state: ConnectionState = "idle"
+
+  constructor(
+    private readonly queueName: string,
+    options: MemoryTransportOptions = {}
+  ) {
+    super()
+    this.queue = queueFor(queueName)
+    this.retryPolicy = options.retryPolicy || DEFAULT_RETRY_POLICY
+    this.topology = options.topology || defaultTopology(queueName)
+  }
+
+  async connect(): Promise<void> {
+    declareTopology(this.topology)
+    this.setState("connected")
+    logger.info({ queueName: this.queueName }, "Using in-memory transport")
+  }
+
+  async publish(message: QueueMessage): Promise<boolean> {
+    if (this.state !== "connected") {
+      throw new Error("Transport not connected. Call connect() first")
+    }
+
+    const routingKey = routingKeyFor(message.event, message.tenant?.routing_prefix)
+    const content = JSON.stringify(message)
+    const headers = transportTraceHeaders(message)
+
+    for (const queue of route(this.topology, routingKey)) {
+      enqueue(queue, { content, headers: { ...headers } })
+    }
+    logger.debug(
+      { messageId: message.id, routingKey },
+      "Message published in memory"
+    )
+    return true
+  }
+
+  async consume(
+    handler: MessageHandler,
+    options: ConsumeOptions = {}
+  ): Promise<void> {
+    if (this.state !== "connected") {
+      throw new Error("Transport not connected. Call connect() first")
+    }
+
+    this.consumers.push({ handler, prefetch: options.prefetch || 1, inFlight: 0 })
+    this.queue.listeners.add(this.pump)
+
+    logger.info({ queueName: this.queueName }, "Starting message consumption")
+    this.dispatch()
+  }
+
+  /**
+   * Stops dispatching; deliveries unsettled after timeoutMs are put back at
+   * the head of the queue in their original order
+   */
+  async drain(timeoutMs: number): Promise<number> {
+    this.queue.listeners.delete(this.pump)
+    this.consumers.splice(0)
+
+    await waitUntil(() => this.unsettled.size === 0, timeoutMs)
+
+    const released = [...this.unsettled]
+    this.unsettled.clear()
+    for (const delivery of released.reverse()) {
+      delivery.released = true
+      this.queue.ready.unshift(delivery.envelope)
+    }
+    if (released.length > 0) {
+      this.queue.listeners.forEach((listener) => listener())
+    }
+    return released.length
+  }
+
+  async ack(delivery: Delivery): Promise<void> {
+    // Delivered envelopes are already off the ready list
+    this.settle(delivery as MemoryDelivery)
+  }
+
+  async nack(delivery: Delivery, error: unknown): Promise<void> {
+    if (!this.settle(delivery as MemoryDelivery)) {
+      return
+    }
+
+    if (this.topology.broadcast) {
+      logger.warn(
+        { messageId: delivery.message?.id, error: errorMessage(error) },
+        "Broadcast message dropped"
+      )
+      return
+    }
+
+    const { envelope } = delivery as MemoryDelivery
+    const message = delivery.message
+    const plan = planFailure(
+      this.retryPolicy,
+      delivery.retryCount,
+      message?.event?.event_type,
+      message ? failureReasonOf(error) : "malformed_message"
+    )
+
+    if (plan.action === "retry") {
+      const retried: Envelope = {
+        content: message
+          ? JSON.stringify({ ...message, retry_count: plan.retry })
+          : envelope.content,
+        headers: retryHeaders(delivery.headers, error, plan.retry),
+      }
+
+      const timer = setTimeout(() => {
+        this.queue.delayed.delete(timer)
+        enqueue(this.queue, retried)
+      }, plan.delay)
+      timer.unref()
+      this.queue.delayed.add(timer)
+
+      logger.warn(
+        { messageId: message?.id, retry: plan.retry, delay: plan.delay },
+        "Message scheduled for retry"
+      )
+      this.emit("retry", message ?? null, plan.retry, plan.delay)
+    } else {
+      this.queue.deadLetters.push({
+        content: envelope.content,
+        headers: deadLetterHeaders(
+          delivery.headers,
+          error,
+          plan.reason,
+          this.queueName
+        ),
+      })
+
+      logger.error(
+        { messageId: message?.id, reason: plan.reason, lastError: errorMessage(error) },
+        "Message moved to dead-letter queue"
+      )
+      this.emit("dead_letter", message ?? null, plan.reason)
+    }
+  }
+
+  /**
+   * Dead-lettered messages with their failure headers (for tests and dev)
+   */
+  deadLetters(): Array<{ message: QueueMessage; headers: Record<string, unknown> }> {
+    return this.queue.deadLetters.map((envelope) => ({
+      message: JSON.parse(envelope.content),
+      headers: envelope.headers,
+    }))
+  }
+
+  isConnected(): boolean {
+    return this.state === "connected"
+  }
+
+  getHealth(): TransportHealth {
+    return {
+      transport: this.type,
+      state: this.state,
+      consumers: this.consumers.length,
+      ready: this.queue.ready.length,
+      delayed: this.queue.delayed.size,
+      dead_letters: this.queue.deadLetters.length,
+    }
+  }
+
+  async queueDepth(): Promise<QueueDepth> {
+    return {
+      ready: this.queue.ready.length,
+      delayed: this.queue.delayed.size,
+      dead_letters: this.queue.deadLetters.length,
+    }
+  }
+
+  async close(): Promise<void> {
+    this.queue.listeners.delete(this.pump)
+    if (this.topology.broadcast) {
+      // The queue goes away with its consumer
+      exchanges.get(this.topology.exchange)?.delete(this.queueName)
+      broker.delete(this.queueName)
+    }
+    this.setState("closed")
+  }
+
+  /**
+   * Marks a delivery settled; false if drain() already released it
+   */
+  private settle(delivery: MemoryDelivery): boolean {
+    if (delivery.released) {
+      logger.debug({ messageId: delivery.message?.id }, "Ignoring settlement of a released message")
+      return false
+    }
+    this.unsettled.delete(delivery)
+    return true
+  }
+
+  /**
+   * Hands ready messages to consumers with free prefetch slots, in order
+   */
+  private dispatch(): void {
+    if (this.state !== "connected") {
+      return
+    }
+
+    for (const consumer of this.consumers) {
+      while (consumer.inFlight < consumer.prefetch && this.queue.ready.length > 0) {
+        const envelope = this.queue.ready.shift() as Envelope
+        consumer.inFlight++
+
+        this.deliver(consumer, envelope).finally(() => {
+          consumer.inFlight--
+          this.dispatch()
+        })
+      }
+    }
+  }
+
+  private async deliver(consumer: MemoryConsumer, envelope: Envelope): Promise<void> {
+    const delivery: MemoryDelivery = {
+      headers: envelope.headers,
+      retryCount: Number(envelope.headers[RETRY_COUNT_HEADER]) || 0,
+      envelope,
+    }
+    this.unsettled.add(delivery)
+
+    let message: QueueMessage
+    try {
+      message = JSON.parse(envelope.content) as QueueMessage
+    } catch (error) {
+      logger.error({ error }, "Received malformed message")
+      await this.nack(delivery, error)
+      return
+    }
+    delivery.message = message
+
+    try {
+      await consumer.handler(message, delivery)
+      await this.ack(delivery)
+    } catch (error) {
+      logger.error(
+        { error, messageId: message.id },
+        "Error processing message"
+      )
+      await this.nack(delivery, error)
+    }
+  }
+
+  private setState(state: ConnectionState): void {
+    const previous = this.state
+    if (previous === state) {
+      return
+    }
+
+    this.state = state
+    this.emit("state", state, previous)
+    this.emit(state)
+  }
+}
@@ -0,0 +1,50 @@
+import amqp from "amqplib"
+import { QueueArgumentsMismatchError, RabbitMQTransport } from "./rabbitmq"
+
+jest.mock("amqplib", () => ({ __esModule: true, default: { connect: jest.fn() } }))
+
+function brokerWithQueue(existing: string): { close: jest.Mock } {
+  const channel = {
+    on: jest.fn(),
+    assertExchange: jest.fn(async () => undefined),
+    bindQueue: jest.fn(async () => undefined),
+    assertQueue: jest.fn(async (name: string) => {
+      if (name === existing) {
+        const message = `PRECONDITION_FAILED - inequivalent arg 'x-dead-letter-exchange' for queue '${name}'`
+        throw Object.assign(new Error(`Operation failed: QueueDeclare; 406 (${message})`), { code: 406 })
+      }
+      return { queue: name }
+    }),
+  }
+  const connection = {
+    on: jest.fn(),
+    close: jest.fn(async () => undefined),
+    createConfirmChannel: jest.fn(async () => channel),
+  }
+  ;(amqp.connect as jest.Mock).mockResolvedValue(connection)
+  return connection
+}
+
+describe("RabbitMQTransport", () => {
+  it("fails with a clear error when the work queue exists with other arguments", async () => {
+    const connection = brokerWithQueue("discourse-events")
+    const transport = new RabbitMQTransport("discourse-events", "amqp://localhost")
+
+    const connecting = transport.connect()
+
+    await expect(connecting).rejects.toBeInstanceOf(QueueArgumentsMismatchError)
+    await expect(connecting).rejects.toThrow(/Queue discourse-events exists with other arguments.*Queue Migration/)
+    expect(connection.close).toHaveBeenCalled()
+    expect(transport.isConnected()).toBe(false)
+  })
+
+  it("declares the queues of a fresh broker", async () => {
+    brokerWithQueue("none")
+    const transport = new RabbitMQTransport("discourse-events", "amqp://localhost")
+
+    await transport.connect()
+
+    expect(transport.isConnected()).toBe(true)
+    await transport.close()
+  })
+})
@@ -0,0 +1,771 @@
+import amqp from "amqplib"
+import { EventEmitter } from "events"
+import logger from "../logger"
+import { QueueMessage } from "../types"
+import { transportTraceHeaders } from "../tracing"
+import { waitUntil } from "../shutdown"
+import {
+  RetryPolicy,
+  DEFAULT_RETRY_POLICY,
+  FailureReason,
+  RETRY_COUNT_HEADER,
+  planFailure,
+  retryHeaders,
+  deadLetterHeaders,
+  errorMessage,
+  failureReasonOf,
+  retryTiers,
+  retryQueueName,
+  deadLetterExchangeName,
+  deadLetterQueueName,
+} from "../retry"
+import {
+  TopologySpec,
+  defaultTopology,
+  routingKeyFor,
+  unroutedQueueName,
+} from "../topology"
+import {
+  ConnectionState,
+  ConsumeOptions,
+  Delivery,
+  MessageHandler,
+  MessageTransport,
+  QueueDepth,
+  ReconnectPolicy,
+  TransportHealth,
+} from "./types"
+
+/**
+ * Message Queue abstraction using RabbitMQ
+ * Implements the Message Bus component from the architecture
+ */
+
+export interface RabbitMQTransportOptions {
+  retryPolicy?: RetryPolicy
+  topology?: TopologySpec
+  confirmTimeoutMs?: number // How long to wait for a publisher confirm
+  reconnect?: ReconnectPolicy
+}
+
+type Connection = Awaited<ReturnType<typeof amqp.connect>>
+type Channel = Awaited<ReturnType<Connection["createConfirmChannel"]>>
+
+interface Consumer {
+  handler: MessageHandler
+  prefetch: number
+  tag?: string // Consumer tag on the current channel
+}
+
+interface RabbitMQDelivery extends Delivery {
+  raw: amqp.ConsumeMessage
+  channel: Channel
+  failureReason?: FailureReason
+  released?: boolean // Requeued by drain()
+}
+
+const DEFAULT_CONFIRM_TIMEOUT_MS = 5000
+
+// AMQP reply code of a declare whose arguments differ from the existing queue
+const PRECONDITION_FAILED = 406
+
+/**
+ * Thrown when a work queue already exists with other arguments, e.g. one
+ * declared before dead-lettering was added. Redeclaring cannot fix it, so
+ * the transport stops instead of reconnecting.
+ */
+export class QueueArgumentsMismatchError extends Error {
+  constructor(readonly queueName: string, cause: unknown) {
+    super(
+      `Queue ${queueName} exists with other arguments than this version declares ` +
+        "(x-message-ttl, x-max-length, x-dead-letter-exchange, x-dead-letter-routing-key). " +
+        "Drain and delete the queue so it is redeclared, see Queue Migration in ARCHITECTURE.md. " +
+        `Broker said: ${cause instanceof Error ? cause.message : cause}`
+    )
+    this.name = "QueueArgumentsMismatchError"
+  }
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+}
+
+export function getReconnectPolicyFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): ReconnectPolicy {
+  return {
+    initialDelayMs: parseInt(
+      env.RECONNECT_INITIAL_DELAY_MS ||
+        String(DEFAULT_RECONNECT_POLICY.initialDelayMs),
+      10
+    ),
+    maxDelayMs: parseInt(
+      env.RECONNECT_MAX_DELAY_MS || String(DEFAULT_RECONNECT_POLICY.maxDelayMs),
+      10
+    ),
+  }
+}
+
+export class RabbitMQTransport extends EventEmitter implements MessageTransport {
+  readonly type = "rabbitmq" as const
+  private connection: Connection | null = null
+  private channel: Channel | null = null
+  private readonly queueName: string
+  private readonly rabbitmqUrl: string
+  private readonly retryPolicy: RetryPolicy
+  private readonly confirmTimeoutMs: number
+  private readonly reconnectPolicy: ReconnectPolicy
+  private readonly topology: TopologySpec
+  private readonly consumers: Consumer[] = []
+  private readonly unsettled = new Set<RabbitMQDelivery>()
+  private state: ConnectionState = "idle"
+  private reconnectAttempt = 0
+  private reconnectTimer: NodeJS.Timeout | null = null
+  private lastConnectedAt: Date | null = null
+
+  constructor(
+    queueName: string,
+    rabbitmqUrl: string,
+    options: RabbitMQTransportOptions = {}
+  ) {
+    super()
+    this.queueName = queueName
+    this.rabbitmqUrl = rabbitmqUrl
+    this.retryPolicy = options.retryPolicy || DEFAULT_RETRY_POLICY
+    this.confirmTimeoutMs =
+      options.confirmTimeoutMs || DEFAULT_CONFIRM_TIMEOUT_MS
+    this.reconnectPolicy = options.reconnect || DEFAULT_RECONNECT_POLICY
+    this.topology = options.topology || defaultTopology(queueName)
+  }
+
+  /**
+   * Establishes connection to RabbitMQ and creates a confirm channel.
+   * Once connected, lost connections are re-established automatically.
+   */
+  async connect(): Promise<void> {
+    this.setState("connecting")
+
+    try {
+      await this.establish()
+    } catch (error) {
+      logger.error({ error }, "Failed to connect to RabbitMQ")
+      this.setState("idle")
+      throw error
+    }
+  }
+
+  /**
+   * Opens connection and channel, declares the topology and re-registers
+   * every consumer. Used for the first connect and for reconnects.
+   */
+  private async establish(): Promise<void> {
+    const connection = await amqp.connect(this.rabbitmqUrl)
+
+    try {
+      // Confirm channel: the broker acks every publish once it is stored
+      const channel = await connection.createConfirmChannel()
+      await this.assertTopology(channel)
+
+      // Handle connection events
+      connection.on("error", (err: Error) => {
+        logger.error({ err }, "RabbitMQ connection error")
+      })
+      connection.on("close", () => this.handleConnectionLost(connection))
+
+      // A channel can die on its own (e.g. a precondition failure);
+      // recover by recycling the whole connection
+      channel.on("error", (err: Error) => {
+        logger.error({ err }, "RabbitMQ channel error")
+      })
+      channel.on("close", () => {
+        if (this.channel === channel && this.state === "connected") {
+          logger.warn("RabbitMQ channel closed unexpectedly")
+          connection.close().catch(() => undefined)
+        }
+      })
+
+      this.connection = connection
+      this.channel = channel
+
+      if (this.consumers.length > 0) {
+        await this.assertRetryQueues(channel)
+        for (const consumer of this.consumers) {
+          await this.registerConsumer(channel, consumer)
+        }
+      }
+    } catch (error) {
+      if (this.connection === connection) {
+        this.connection = null
+        this.channel = null
+      }
+      await connection.close().catch(() => undefined)
+      throw error
+    }
+
+    this.reconnectAttempt = 0
+    this.lastConnectedAt = new Date()
+    this.setState("connected")
+    logger.info({ queueName: this.queueName }, "Connected to RabbitMQ")
+  }
+
+  /**
+   * Declares the topic exchange and every queue of the topology with its
+   * bindings. Publishers and consumers declare the same topology, so the
+   * queues exist no matter which service starts first.
+   */
+  private async assertTopology(channel: Channel): Promise<void> {
+    const { exchange, queues } = this.topology
+
+    if (this.topology.broadcast) {
+      // Without an alternate exchange: unrouted messages are dropped
+      await channel.assertExchange(exchange, "topic", { durable: true })
+      for (const queue of queues) {
+        // Deleted with this connection; undelivered messages expire quickly
+        await channel.assertQueue(queue.name, {
+          exclusive: true,
+          durable: false,
+          arguments: { "x-message-ttl": 60000 },
+        })
+        for (const pattern of queue.bindings) {
+          await channel.bindQueue(queue.name, exchange, pattern)
+        }
+      }
+      return
+    }
+
+    // Events no queue is bound for are kept instead of dropped
+    const unrouted = unroutedQueueName(exchange)
+    await channel.assertExchange(unrouted, "fanout", { durable: true })
+    await channel.assertQueue(unrouted, { durable: true })
+    await channel.bindQueue(unrouted, unrouted, "")
+
+    await channel.assertExchange(exchange, "topic", {
+      durable: true,
+      alternateExchange: unrouted,
+    })
+
+    for (const queue of queues) {
+      await this.assertQueue(channel, queue.name)
+      for (const pattern of queue.bindings) {
+        await channel.bindQueue(queue.name, exchange, pattern)
+      }
+    }
+  }
+
+  /**
+   * Declares a work queue together with its dead-letter exchange/queue
+   */
+  private async assertQueue(channel: Channel, queueName: string): Promise<void> {
+    // Dead-letter exchange/queue for messages that exhausted their retries
+    const deadLetterExchange = deadLetterExchangeName(queueName)
+    const deadLetterQueue = deadLetterQueueName(queueName)
+    await channel.assertExchange(deadLetterExchange, "direct", {
+      durable: true,
+    })
+    await channel.assertQueue(deadLetterQueue, { durable: true })
+    await channel.bindQueue(deadLetterQueue, deadLetterExchange, queueName)
+
+    // Declare durable queue (survives broker restart)
+    try {
+      await channel.assertQueue(queueName, {
+        durable: true,
+        arguments: {
+          "x-message-ttl": 86400000, // 24 hours TTL
+          "x-max-length": 100000, // Max 100k messages
+          // Expired, overflowed and rejected messages land in the DLQ
+          "x-dead-letter-exchange": deadLetterExchange,
+          "x-dead-letter-routing-key": queueName,
+        },
+      })
+    } catch (error) {
+      if ((error as { code?: number }).code === PRECONDITION_FAILED) {
+        throw new QueueArgumentsMismatchError(queueName, error)
+      }
+      throw error
+    }
+  }
+
+  private handleConnectionLost(connection: Connection): void {
+    if (this.connection !== connection) {
+      return // Already replaced
+    }
+
+    this.connection = null
+    this.channel = null
+
+    if (this.state === "closed") {
+      return
+    }
+
+    logger.warn("RabbitMQ connection closed")
+    this.scheduleReconnect()
+  }
+
+  /**
+   * Retries with exponential backoff (plus up to 20% jitter) until the
+   * connection is back or close() is called
+   */
+  private scheduleReconnect(): void {
+    this.reconnectAttempt++
+    const base = Math.min(
+      this.reconnectPolicy.initialDelayMs *
+        Math.pow(2, this.reconnectAttempt - 1),
+      this.reconnectPolicy.maxDelayMs
+    )
+    const delay = Math.round(base * (1 + 0.2 * Math.random()))
+
+    this.setState("reconnecting", { attempt: this.reconnectAttempt, delay })
+    logger.warn(
+      { attempt: this.reconnectAttempt, delay },
+      "Reconnecting to RabbitMQ"
+    )
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null
+      try {
+        await this.establish()
+        logger.info(
+          { consumers: this.consumers.length },
+          "Reconnected to RabbitMQ"
+        )
+      } catch (error) {
+        if (error instanceof QueueArgumentsMismatchError) {
+          // Retrying cannot succeed until the queue is migrated
+          logger.error(
+            { error: error.message },
+            "RabbitMQ queue conflicts with the declared topology; not reconnecting"
+          )
+          this.setState("idle", error)
+          return
+        }
+        logger.error({ error }, "Reconnect to RabbitMQ failed")
+        if (this.state !== "closed") {
+          this.scheduleReconnect()
+        }
+      }
+    }, delay)
+  }
+
+  private setState(state: ConnectionState, detail?: unknown): void {
+    const previous = this.state
+    if (previous === state && state !== "reconnecting") {
+      return
+    }
+
+    this.state = state
+    this.emit("state", state, previous)
+    this.emit(state, detail)
+  }
+
+  /**
+   * Publishes a message to the queue
+   * @param message - Message to publish
+   * @returns true once the broker confirmed the message, false if it was
+   * nacked or the confirm did not arrive within the timeout
+   */
+  async publish(message: QueueMessage): Promise<boolean> {
+    const channel = this.channel
+    if (this.state === "reconnecting") {
+      // Refuse while reconnecting; callers spool or retry
+      logger.warn({ messageId: message.id }, "Publish refused while reconnecting")
+      return false
+    }
+    if (!channel) {
+      throw new Error("Channel not initialized. Call connect() first")
+    }
+
+    try {
+      const messageBuffer = Buffer.from(JSON.stringify(message))
+
+      const confirmed = await this.confirm((callback) =>
+        channel.publish(
+          this.topology.exchange,
+          routingKeyFor(message.event, message.tenant?.routing_prefix),
+          messageBuffer,
+          {
+            persistent: true, // Survive broker restart
+            contentType: "application/json",
+            timestamp: Date.now(),
+            headers: transportTraceHeaders(message), // traceparent, x-correlation-id
+          },
+          callback
+        )
+      )
+
+      if (confirmed) {
+        logger.debug({ messageId: message.id }, "Message confirmed by broker")
+      } else {
+        logger.warn(
+          { messageId: message.id },
+          "Message not confirmed by broker"
+        )
+      }
+
+      return confirmed
+    } catch (error) {
+      logger.error(
+        { error, messageId: message.id },
+        "Failed to publish message"
+      )
+      throw error
+    }
+  }
+
+  /**
+   * Waits for the publisher confirm of a single publish
+   */
+  private confirm(
+    send: (callback: (err: unknown) => void) => void
+  ): Promise<boolean> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => resolve(false), this.confirmTimeoutMs)
+
+      send((err) => {
+        clearTimeout(timer)
+        resolve(!err)
+      })
+    })
+  }
+
+  /**
+   * Consumes messages from the queue. The handler stays registered and is
+   * re-attached to the new channel after a reconnect.
+   *
+   * Up to `prefetch` deliveries are handed to the handler without waiting
+   * for earlier ones to finish; the handler is called in delivery order.
+   * @param handler - Callback function to process each message
+   */
+  async consume(
+    handler: MessageHandler,
+    options: ConsumeOptions = {}
+  ): Promise<void> {
+    if (!this.channel) {
+      throw new Error("Channel not initialized. Call connect() first")
+    }
+
+    const consumer: Consumer = { handler, prefetch: options.prefetch || 1 }
+
+    // Delay queues are only needed by consumers
+    await this.assertRetryQueues(this.channel)
+    await this.registerConsumer(this.channel, consumer)
+    this.consumers.push(consumer)
+  }
+
+  private async registerConsumer(
+    channel: Channel,
+    consumer: Consumer
+  ): Promise<void> {
+    const { handler, prefetch } = consumer
+
+    // Prefetch bounds how many messages are in flight at once
+    await channel.prefetch(prefetch)
+
+    logger.info(
+      { queueName: this.queueName, prefetch },
+      "Starting message consumption"
+    )
+
+    const { consumerTag } = await channel.consume(
+      this.queueName,
+      async (msg: amqp.ConsumeMessage | null) => {
+        if (!msg) {
+          return
+        }
+
+        const headers = msg.properties.headers || {}
+        const delivery: RabbitMQDelivery = {
+          headers,
+          retryCount: Number(headers[RETRY_COUNT_HEADER]) || 0,
+          raw: msg,
+          channel,
+        }
+        this.unsettled.add(delivery)
+
+        let message: QueueMessage
+        try {
+          message = JSON.parse(msg.content.toString()) as QueueMessage
+        } catch (error) {
+          logger.error({ error }, "Received malformed message")
+          delivery.failureReason = "malformed_message"
+          await this.nack(delivery, error)
+          return
+        }
+        delivery.message = message
+
+        try {
+          logger.debug({ messageId: message.id }, "Processing message")
+
+          await handler(message, delivery)
+
+          // Acknowledge message after successful processing
+          await this.ack(delivery)
+          logger.debug({ messageId: message.id }, "Message acknowledged")
+        } catch (error) {
+          logger.error(
+            { error, messageId: message.id },
+            "Error processing message"
+          )
+          await this.nack(delivery, error)
+        }
+      },
+      {
+        noAck: false, // Manual acknowledgment
+      }
+    )
+    consumer.tag = consumerTag
+  }
+
+  /**
+   * Cancels the consumers on the broker, so nothing more is delivered, and
+   * requeues the deliveries still unsettled after timeoutMs
+   */
+  async drain(timeoutMs: number): Promise<number> {
+    const consumers = this.consumers.splice(0) // Not re-registered after a reconnect
+    const channel = this.channel
+
+    for (const { tag } of consumers) {
+      if (channel && tag) {
+        await channel.cancel(tag).catch((error) => {
+          logger.warn({ error, consumerTag: tag }, "Failed to cancel consumer")
+        })
+      }
+    }
+
+    await waitUntil(() => this.unsettled.size === 0, timeoutMs)
+
+    const released = [...this.unsettled]
+    for (const delivery of released) {
+      this.settle(delivery, () => delivery.channel.nack(delivery.raw, false, true))
+      delivery.released = true
+    }
+    return released.length
+  }
+
+  /**
+   * Acknowledges on the channel that delivered the message; if it died
+   * meanwhile the broker redelivers and dedup skips it
+   */
+  async ack(delivery: Delivery): Promise<void> {
+    const { channel, raw } = delivery as RabbitMQDelivery
+    this.settle(delivery as RabbitMQDelivery, () => channel.ack(raw))
+  }
+
+  /**
+   * Runs an ack/nack unless drain() already requeued the delivery or the
+   * delivering channel has been replaced
+   */
+  private settle(delivery: RabbitMQDelivery, action: () => void): void {
+    if (delivery.released) {
+      logger.debug({ messageId: delivery.message?.id }, "Ignoring settlement of a requeued message")
+      return
+    }
+    this.unsettled.delete(delivery)
+
+    if (delivery.channel !== this.channel) {
+      logger.warn("Delivery channel is gone, message will be redelivered")
+      return
+    }
+
+    try {
+      action()
+    } catch (error) {
+      logger.warn({ error }, "Failed to settle message")
+    }
+  }
+
+  /**
+   * Declares one delay queue per backoff tier. Expired messages are
+   * dead-lettered back onto the main queue through the default exchange.
+   */
+  private async assertRetryQueues(channel: Channel): Promise<void> {
+    if (this.topology.broadcast) {
+      return // Broadcast messages are not retried
+    }
+
+    for (const delay of retryTiers(this.retryPolicy)) {
+      await channel.assertQueue(retryQueueName(this.queueName, delay), {
+        durable: true,
+        arguments: {
+          "x-message-ttl": delay,
+          "x-dead-letter-exchange": "",
+          "x-dead-letter-routing-key": this.queueName,
+        },
+      })
+    }
+  }
+
+  /**
+   * Schedules a retry or dead-letters a failed message, then acks the
+   * original delivery once the broker confirmed the reroute. Falls back to
+   * a requeue if the reroute is not confirmed.
+   */
+  async nack(delivery: Delivery, error: unknown): Promise<void> {
+    const rabbitDelivery = delivery as RabbitMQDelivery
+    const { channel, raw, failureReason } = rabbitDelivery
+    if (rabbitDelivery.released) {
+      return // Requeued by drain(); a retry would duplicate it
+    }
+
+    if (this.topology.broadcast) {
+      logger.warn(
+        { messageId: delivery.message?.id, error: errorMessage(error) },
+        "Broadcast message dropped"
+      )
+      this.settle(rabbitDelivery, () => channel.ack(raw))
+      return
+    }
+    const message = delivery.message
+    const plan = planFailure(
+      this.retryPolicy,
+      delivery.retryCount,
+      message?.event?.event_type,
+      failureReason || failureReasonOf(error)
+    )
+
+    try {
+      if (plan.action === "retry") {
+        const content = message
+          ? Buffer.from(JSON.stringify({ ...message, retry_count: plan.retry }))
+          : raw.content
+
+        const confirmed = await this.confirm((callback) =>
+          channel.sendToQueue(
+            retryQueueName(this.queueName, plan.tier),
+            content,
+            {
+              ...raw.properties,
+              persistent: true,
+              expiration: String(plan.delay),
+              headers: retryHeaders(delivery.headers, error, plan.retry),
+            },
+            callback
+          )
+        )
+        if (!confirmed) {
+          throw new Error("Retry publish not confirmed")
+        }
+
+        logger.warn(
+          { messageId: message?.id, retry: plan.retry, delay: plan.delay },
+          "Message scheduled for retry"
+        )
+        this.emit("retry", message ?? null, plan.retry, plan.delay)
+      } else {
+        const confirmed = await this.confirm((callback) =>
+          channel.publish(
+            deadLetterExchangeName(this.queueName),
+            this.queueName,
+            raw.content,
+            {
+              ...raw.properties,
+              persistent: true,
+              expiration: undefined,
+              headers: deadLetterHeaders(
+                delivery.headers,
+                error,
+                plan.reason,
+                this.queueName
+              ),
+            },
+            callback
+          )
+        )
+        if (!confirmed) {
+          throw new Error("Dead-letter publish not confirmed")
+        }
+
+        logger.error(
+          {
+            messageId: message?.id,
+            reason: plan.reason,
+            lastError: errorMessage(error),
+          },
+          "Message moved to dead-letter queue"
+        )
+        this.emit("dead_letter", message ?? null, plan.reason)
+      }
+
+      this.settle(rabbitDelivery, () => channel.ack(raw))
+    } catch (publishError) {
+      logger.error(
+        { error: publishError, messageId: message?.id },
+        "Failed to reroute message, requeuing"
+      )
+      this.settle(rabbitDelivery, () => channel.reject(raw, true))
+    }
+  }
+
+  /**
+   * Closes the connection and stops reconnecting
+   */
+  async close(): Promise<void> {
+    this.setState("closed")
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+
+    try {
+      await this.channel?.close()
+      await this.connection?.close()
+      logger.info("RabbitMQ connection closed")
+    } catch (error) {
+      logger.error({ error }, "Error closing RabbitMQ connection")
+    } finally {
+      this.channel = null
+      this.connection = null
+    }
+  }
+
+  /**
+   * Health check
+   */
+  isConnected(): boolean {
+    return this.state === "connected" && this.channel !== null
+  }
+
+  getHealth(): TransportHealth {
+    return {
+      transport: this.type,
+      state: this.state,
+      consumers: this.consumers.length,
+      reconnect_attempt: this.reconnectAttempt,
+      last_connected_at: this.lastConnectedAt?.toISOString() || null,
+    }
+  }
+
+  /**
+   * Checks the queues on a channel of its own: checking a queue that does
+   * not exist closes the channel. Retry queues are only declared once this
+   * transport consumes, so they are counted from then on.
+   */
+  async queueDepth(): Promise<QueueDepth> {
+    if (!this.connection || !this.isConnected()) {
+      throw new Error("Transport not connected")
+    }
+
+    const channel = await this.connection.createChannel()
+    channel.on("error", () => undefined) // Surfaces as the rejected check below
+    try {
+      const count = async (queueName: string): Promise<number> =>
+        (await channel.checkQueue(queueName)).messageCount
+
+      const ready = await count(this.queueName)
+      if (this.topology.broadcast) {
+        return { ready, delayed: 0, dead_letters: 0 }
+      }
+
+      let delayed = 0
+      if (this.consumers.length > 0) {
+        for (const delay of retryTiers(this.retryPolicy)) {
+          delayed += await count(retryQueueName(this.queueName, delay))
+        }
+      }
+      return { ready, delayed, dead_letters: await count(deadLetterQueueName(this.queueName)) }
+    } finally {
+      await channel.close().catch(() => undefined)
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { QueueMessage } from "../types"
+import { FailureReason, RetryPolicy } from "../retry"
+import { TopologySpec } from "../topology"
+
+/**
+ * Transport abstraction for the Message Bus component
+ *
+ * The handler publishes and the worker consumes through this interface, so
+ * the pipeline can run on RabbitMQ, in-process (dev mode, tests) or on a
+ * shared directory (small deployments).
+ */
+
+export type TransportType = "rabbitmq" | "memory" | "file"
+
+/**
+ * Connection lifecycle. Every transition is emitted as a "state" event
+ * (state, previous) and as an event named after the new state.
+ */
+export type ConnectionState =
+  | "idle"
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "closed"
+
+export interface ReconnectPolicy {
+  initialDelayMs: number
+  maxDelayMs: number
+}
+
+/**
+ * A message handed to a consumer. Transports extend it with whatever they
+ * need to settle the message later.
+ */
+export interface Delivery {
+  message?: QueueMessage // Missing if the body could not be parsed
+  headers: Record<string, unknown>
+  retryCount: number
+}
+
+export type MessageHandler = (
+  message: QueueMessage,
+  delivery: Delivery
+) => Promise<void>
+
+export interface ConsumeOptions {
+  prefetch?: number // Max unacked deliveries handled in parallel (default 1)
+}
+
+export interface TransportHealth {
+  transport: TransportType
+  state: ConnectionState
+  consumers: number
+  [detail: string]: unknown
+}
+
+/**
+ * Messages in this service's queue. Transports that cannot tell ready and
+ * delayed messages apart count what they can.
+ */
+export interface QueueDepth {
+  ready: number
+  delayed: number // Waiting for a retry
+  dead_letters: number
+}
+
+export interface MessageTransport {
+  readonly type: TransportType
+
+  connect(): Promise<void>
+
+  /**
+   * Publishes a message to the topic exchange, routed by event type
+   * @returns true once the message is durably stored by the backend
+   */
+  publish(message: QueueMessage): Promise<boolean>
+
+  /**
+   * Registers a handler. Deliveries are acked when the handler resolves
+   * and nacked (retried or dead-lettered) when it throws.
+   */
+  consume(handler: MessageHandler, options?: ConsumeOptions): Promise<void>
+
+  /**
+   * Stops consuming: no new deliveries are handed out, while the ones being
+   * handled still settle as usual. Resolves once they all settled or
+   * timeoutMs passed; deliveries still unsettled then go back to the queue
+   * unchanged (not counted as a retry), and their late ack or nack is
+   * ignored.
+   * @returns Number of deliveries returned to the queue
+   */
+  drain(timeoutMs: number): Promise<number>
+
+  /** Removes a delivery from the queue */
+  ack(delivery: Delivery): Promise<void>
+
+  /** Schedules a retry or dead-letters the delivery per the retry policy */
+  nack(delivery: Delivery, error: unknown): Promise<void>
+
+  isConnected(): boolean
+  getHealth(): TransportHealth
+
+  /** Counts the messages in the consumed queue and its retry/dead-letter queues */
+  queueDepth(): Promise<QueueDepth>
+
+  close(): Promise<void>
+
+  on(
+    event: "state",
+    listener: (state: ConnectionState, previous: ConnectionState) => void
+  ): this
+
+  /** A failed delivery was scheduled for retry (message is null if malformed) */
+  on(
+    event: "retry",
+    listener: (message: QueueMessage | null, retry: number, delayMs: number) => void
+  ): this
+
+  /** A delivery was moved to the dead-letter queue */
+  on(
+    event: "dead_letter",
+    listener: (message: QueueMessage | null, reason: FailureReason) => void
+  ): this
+}
+
+export interface TransportConfig {
+  type: TransportType
+  queueName: string // Queue this service consumes from
+  topology?: TopologySpec // Defaults to queueName bound with "#"
+  rabbitmqUrl: string
+  fileDir: string
+  retryPolicy?: RetryPolicy
+  confirmTimeoutMs?: number
+  reconnect?: ReconnectPolicy
+}
@@ -3,6 +3,8 @@
  * Based on GET_STARTED.md documentation
  */
 
+import { FailureReason } from "./retry"
+
 // Discourse Event Types
 export enum DiscourseEventType {
   USER_CREATED = "user_created",
@@ -91,13 +93,188 @@ export interface DiscourseNotificationPayload {
   }
 }
 
+// Post payload fields, shared by post, like and solved events
+export interface DiscoursePost {
+  id: number
+  topic_id: number
+  user_id?: number
+  username: string
+  post_number: number
+  post_type?: number
+  raw?: string
+  cooked: string
+  created_at: string
+  updated_at?: string
+  reply_to_post_number?: number | null
+  topic_title?: string
+  topic_slug?: string
+  category_id?: number
+  deleted_at?: string | null
+}
+
+// Post Event Payload (post_created, post_edited, ...)
+export interface DiscoursePostPayload {
+  post: DiscoursePost
+}
+
+// Topic Event Payload
+export interface DiscourseTopicPayload {
+  topic: {
+    id: number
+    title: string
+    slug: string
+    category_id?: number
+    archetype: string // "regular" or "private_message"
+    posts_count: number
+    created_at: string
+    visible?: boolean
+    closed?: boolean
+    archived?: boolean
+    tags?: string[]
+    created_by?: { id: number; username: string }
+  }
+}
+
+// Category Event Payload
+export interface DiscourseCategoryPayload {
+  category: {
+    id: number
+    name: string
+    slug: string
+    color?: string
+    parent_category_id?: number | null
+    topic_count?: number
+    read_restricted?: boolean
+  }
+}
+
+// Tag Event Payload
+export interface DiscourseTagPayload {
+  tag: {
+    id: number
+    name: string
+    topic_count?: number
+    description?: string | null
+  }
+}
+
+// Group Event Payload
+export interface DiscourseGroupPayload {
+  group: {
+    id: number
+    name: string
+    full_name?: string | null
+    user_count?: number
+    automatic?: boolean
+    visibility_level?: number
+  }
+}
+
+// Reviewable (moderation queue) Event Payload
+export interface DiscourseReviewablePayload {
+  reviewable: {
+    id: number
+    type: string // e.g. "ReviewableFlaggedPost", "ReviewableUser"
+    status: number | string
+    created_at: string
+    target_type?: string
+    target_id?: number
+    target_created_by_id?: number
+    topic_id?: number | null
+    category_id?: number | null
+    score?: number
+  }
+}
+
+// Like Event Payload (post_liked)
+export interface DiscourseLikePayload {
+  like: {
+    post: DiscoursePost
+    user: { id: number; username: string }
+  }
+}
+
+// Solved plugin Event Payload (accepted_solution, unaccepted_solution)
+export interface DiscourseSolvedPayload {
+  solved: DiscoursePost
+}
+
+// Chat Event Payload (chat_message_created, ...)
+export interface DiscourseChatPayload {
+  chat_message: {
+    message: {
+      id: number
+      message: string
+      cooked?: string
+      created_at: string
+      user: { id: number; username: string }
+    }
+    channel: {
+      id: number
+      name?: string | null
+      chatable_type?: string
+    }
+  }
+}
+
+/**
+ * Event types we receive, by payload family. Unlisted event types that
+ * start with "<family>_" are treated as part of that family.
+ */
+export const DISCOURSE_EVENTS = {
+  user: [
+    "user_created",
+    "user_updated",
+    "user_approved",
+    "user_destroyed",
+    "user_logged_in",
+    "user_logged_out",
+    "user_confirmed_email",
+    "user_promoted",
+  ],
+  notification: ["notification", "notification_created"],
+  post: ["post_created", "post_edited", "post_destroyed", "post_recovered"],
+  topic: [
+    "topic_created",
+    "topic_revised",
+    "topic_edited",
+    "topic_destroyed",
+    "topic_recovered",
+  ],
+  category: ["category_created", "category_updated", "category_destroyed"],
+  tag: ["tag_created", "tag_updated", "tag_destroyed"],
+  group: ["group_created", "group_updated", "group_destroyed"],
+  reviewable: ["reviewable_created", "reviewable_updated", "reviewable_transitioned_to"],
+  like: ["post_liked"],
+  solved: ["accepted_solution", "unaccepted_solution"],
+  chat: [
+    "chat_message_created",
+    "chat_message_edited",
+    "chat_message_trashed",
+    "chat_message_restored",
+  ],
+} as const
+
+export type DiscourseEventFamily = keyof typeof DISCOURSE_EVENTS
+
+export interface DiscoursePayloads {
+  user: DiscourseUserPayload
+  notification: DiscourseNotificationPayload
+  post: DiscoursePostPayload
+  topic: DiscourseTopicPayload
+  category: DiscourseCategoryPayload
+  tag: DiscourseTagPayload
+  group: DiscourseGroupPayload
+  reviewable: DiscourseReviewablePayload
+  like: DiscourseLikePayload
+  solved: DiscourseSolvedPayload
+  chat: DiscourseChatPayload
+}
+
 // Generic Discourse Webhook Event
 export interface DiscourseWebhookEvent {
   event_type: DiscourseEventType | string
-  payload:
-    | DiscourseUserPayload
-    | DiscourseNotificationPayload
-    | Record<string, unknown>
+  payload: DiscoursePayloads[DiscourseEventFamily] | Record<string, unknown>
   headers: {
     "x-discourse-event": string
     "x-discourse-event-signature": string
@@ -107,12 +284,50 @@ export interface DiscourseWebhookEvent {
   received_at: string
 }
 
+// A validated webhook event of one family, narrowed by event_type
+export type DiscourseEventOf<F extends DiscourseEventFamily> = Omit<
+  DiscourseWebhookEvent,
+  "event_type" | "payload"
+> & {
+  event_type: (typeof DISCOURSE_EVENTS)[F][number]
+  payload: DiscoursePayloads[F]
+}
+
+// Discriminated union of every known event, keyed on event_type
+export type DiscourseEvent = {
+  [F in DiscourseEventFamily]: DiscourseEventOf<F>
+}[DiscourseEventFamily]
+
+// Discourse instance the handler resolved a webhook to
+export interface Tenant {
+  id: string // Instance id from the registry ("default" without one)
+  routing_prefix: string // First word of the message's routing key
+}
+
 // Message Queue Message Structure
+// W3C trace context of the span that published a message
+export interface TraceHeaders {
+  traceparent: string
+  tracestate?: string
+  correlation_id?: string // From X-Correlation-Id / X-Request-Id, or generated
+}
+
+// Marks a message re-ingested from captured deliveries (npm run replay)
+export interface ReplayMarker {
+  run_id: string // Shared by the messages of one replay, kept across resumes
+  source: string // File (or archive segment) and line it was read from
+  replayed_at: string
+}
+
 export interface QueueMessage {
   id: string
   event: DiscourseWebhookEvent
   timestamp: string
   retry_count?: number
+  idempotency_key?: string // instance:event-id, absent if no event id was sent
+  tenant?: Tenant // Absent on messages queued before instances were resolved
+  trace?: TraceHeaders // Also sent as transport headers
+  replay?: ReplayMarker // Processors registered with skipOnReplay do not run
 }
 
 // Worker Processing Result
@@ -122,4 +337,9 @@ export interface ProcessingResult {
   event_type: string
   error?: string
   processed_at: string
+  processor?: string // Set on per-processor results
+  duration_ms?: number
+  failure_reason?: FailureReason // Set when the failure must not be retried
+  failure_details?: unknown
+  results?: ProcessingResult[] // Per-processor results of an aggregated run
 }
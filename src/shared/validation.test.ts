@@ -0,0 +1,166 @@
+import {
+  PayloadValidationError,
+  assertValidEvent,
+  eventFamilyOf,
+  payloadOf,
+  validatePayload,
+} from "./validation"
+import { DiscourseWebhookEvent } from "./types"
+
+const AT = "2025-11-18T00:00:00.000Z"
+
+const post = {
+  id: 10,
+  topic_id: 5,
+  username: "alice",
+  post_number: 1,
+  cooked: "<p>Hello</p>",
+  created_at: AT,
+}
+
+const topic = {
+  id: 5,
+  title: "Hello",
+  slug: "hello",
+  archetype: "regular",
+  posts_count: 1,
+  created_at: AT,
+}
+
+const userRef = { id: 1, username: "alice" }
+
+const VALID_PAYLOADS: Array<[string, unknown]> = [
+  ["user_created", { user: { id: 1, username: "alice", created_at: AT, trust_level: 0 } }],
+  [
+    "notification",
+    {
+      notification: {
+        id: 1,
+        user_id: 1,
+        notification_type: 2,
+        read: false,
+        created_at: AT,
+        updated_at: AT,
+        data: {},
+      },
+    },
+  ],
+  ["post_created", { post }],
+  ["topic_created", { topic }],
+  ["category_created", { category: { id: 2, name: "General", slug: "general" } }],
+  ["tag_created", { tag: { id: 3, name: "news" } }],
+  ["group_created", { group: { id: 4, name: "staff" } }],
+  ["reviewable_created", { reviewable: { id: 6, type: "ReviewableFlaggedPost", status: 0, created_at: AT } }],
+  ["reviewable_updated", { reviewable: { id: 6, type: "ReviewableFlaggedPost", status: "approved", created_at: AT } }],
+  ["post_liked", { like: { post, user: userRef } }],
+  ["accepted_solution", { solved: post }],
+  [
+    "chat_message_created",
+    {
+      chat_message: {
+        message: { id: 7, message: "hi", created_at: AT, user: userRef },
+        channel: { id: 8 },
+      },
+    },
+  ],
+]
+
+function eventOf(eventType: string, payload: unknown): DiscourseWebhookEvent {
+  return {
+    event_type: eventType,
+    payload: payload as DiscourseWebhookEvent["payload"],
+    headers: { "x-discourse-event": eventType, "x-discourse-event-signature": "sha256=00" },
+    received_at: AT,
+  }
+}
+
+describe("eventFamilyOf", () => {
+  it("finds listed event types, then falls back to the prefix", () => {
+    expect(eventFamilyOf("post_liked")).toBe("like")
+    expect(eventFamilyOf("accepted_solution")).toBe("solved")
+    expect(eventFamilyOf("user_suspended")).toBe("user")
+    expect(eventFamilyOf("plugin_event")).toBeUndefined()
+  })
+})
+
+describe("validatePayload", () => {
+  it.each(VALID_PAYLOADS)("accepts a minimal %s payload", (eventType, payload) => {
+    expect(validatePayload(eventType, payload).issues).toEqual([])
+  })
+
+  it.each(VALID_PAYLOADS)("requires the entity of %s", (eventType) => {
+    const { issues } = validatePayload(eventType, {})
+
+    expect(issues).toHaveLength(1)
+    expect(issues[0].message).toBe("is required")
+  })
+
+  it("reports every problem with its path", () => {
+    const report = validatePayload("post_created", {
+      post: { ...post, topic_id: "5", created_at: "yesterday", username: undefined },
+    })
+
+    expect(report).toEqual({
+      event_type: "post_created",
+      family: "post",
+      issues: [
+        { path: "payload.post.topic_id", message: "must be a number, got string" },
+        { path: "payload.post.username", message: "is required" },
+        { path: "payload.post.created_at", message: "must be an ISO timestamp, got string" },
+      ],
+    })
+  })
+
+  it("checks nested objects and arrays", () => {
+    const { issues } = validatePayload("topic_created", {
+      topic: { ...topic, tags: ["news", 1] },
+    })
+
+    expect(issues).toEqual([{ path: "payload.topic.tags[1]", message: "must be a string, got number" }])
+  })
+
+  it("allows null where the schema is nullable", () => {
+    const payload = { category: { id: 2, name: "General", slug: "general", parent_category_id: null } }
+
+    expect(validatePayload("category_created", payload).issues).toEqual([])
+    expect(validatePayload("tag_created", { tag: null }).issues).toEqual([
+      { path: "payload.tag", message: "must be an object, got null" },
+    ])
+  })
+
+  it("only needs an object for event types it does not model", () => {
+    expect(validatePayload("plugin_event", { anything: true })).toEqual({
+      event_type: "plugin_event",
+      family: undefined,
+      issues: [],
+    })
+    expect(validatePayload("plugin_event", []).issues).toEqual([
+      { path: "payload", message: "must be an object, got array" },
+    ])
+  })
+})
+
+describe("assertValidEvent", () => {
+  it("throws a non-retryable error with the report", () => {
+    let thrown: unknown
+    try {
+      assertValidEvent(eventOf("tag_created", { tag: { id: "3", name: "news" } }))
+    } catch (error) {
+      thrown = error
+    }
+
+    expect(thrown).toBeInstanceOf(PayloadValidationError)
+    expect((thrown as PayloadValidationError).failureReason).toBe("invalid_payload")
+    expect((thrown as PayloadValidationError).message).toBe(
+      "Invalid tag_created payload: payload.tag.id must be a number, got string"
+    )
+  })
+})
+
+describe("payloadOf", () => {
+  it("refuses events of another family", () => {
+    expect(() => payloadOf(eventOf("tag_created", {}), "post")).toThrow(
+      "Expected a post event, got tag_created"
+    )
+  })
+})
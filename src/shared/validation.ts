@@ -0,0 +1,327 @@
+/**
+ * Runtime validation of Discourse webhook payloads
+ *
+ * Each payload family has a schema mirroring its interface in types.ts.
+ * Validation collects every problem with its path instead of stopping at
+ * the first one, so a quarantined message carries a complete report.
+ * Fields Discourse sends beyond the schema are allowed.
+ */
+
+import {
+  DISCOURSE_EVENTS,
+  DiscourseEventFamily,
+  DiscourseEventOf,
+  DiscoursePayloads,
+  DiscourseWebhookEvent,
+} from "./types"
+import { FailureReason } from "./retry"
+
+export interface ValidationIssue {
+  path: string // e.g. "payload.post.topic_id"
+  message: string
+}
+
+export interface ValidationReport {
+  event_type: string
+  family?: DiscourseEventFamily // Undefined for event types we do not model
+  issues: ValidationIssue[]
+}
+
+/**
+ * Thrown for events whose payload does not match its family's schema.
+ * Never retried: the transport dead-letters it with the report.
+ */
+export class PayloadValidationError extends Error {
+  readonly failureReason: FailureReason = "invalid_payload"
+
+  constructor(readonly details: ValidationReport) {
+    super(
+      `Invalid ${details.event_type} payload: ` +
+        details.issues.map((issue) => `${issue.path} ${issue.message}`).join("; ")
+    )
+    this.name = "PayloadValidationError"
+  }
+}
+
+type Validator = (value: unknown, path: string, issues: ValidationIssue[]) => void
+
+const optionalValidators = new WeakSet<Validator>()
+
+function describe(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  return typeof value
+}
+
+function primitive(
+  expected: string,
+  test: (value: unknown) => boolean
+): Validator {
+  return (value, path, issues) => {
+    if (!test(value)) {
+      issues.push({ path, message: `must be ${expected}, got ${describe(value)}` })
+    }
+  }
+}
+
+const number = primitive("a number", (value) => typeof value === "number" && Number.isFinite(value))
+const string = primitive("a string", (value) => typeof value === "string")
+const boolean = primitive("a boolean", (value) => typeof value === "boolean")
+const timestamp = primitive(
+  "an ISO timestamp",
+  (value) => typeof value === "string" && !Number.isNaN(Date.parse(value))
+)
+
+function optional(validator: Validator): Validator {
+  const wrapped: Validator = (value, path, issues) => {
+    if (value !== undefined) validator(value, path, issues)
+  }
+  optionalValidators.add(wrapped)
+  return wrapped
+}
+
+function nullable(validator: Validator): Validator {
+  return (value, path, issues) => {
+    if (value !== null) validator(value, path, issues)
+  }
+}
+
+function oneOf(...validators: Validator[]): Validator {
+  return (value, path, issues) => {
+    const attempts = validators.map((validator) => {
+      const found: ValidationIssue[] = []
+      validator(value, path, found)
+      return found
+    })
+    if (attempts.every((found) => found.length > 0)) {
+      issues.push(...attempts[0])
+    }
+  }
+}
+
+function arrayOf(validator: Validator): Validator {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `must be an array, got ${describe(value)}` })
+      return
+    }
+    value.forEach((item, index) => validator(item, `${path}[${index}]`, issues))
+  }
+}
+
+function object(shape: Record<string, Validator>): Validator {
+  return (value, path, issues) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      issues.push({ path, message: `must be an object, got ${describe(value)}` })
+      return
+    }
+
+    const record = value as Record<string, unknown>
+    for (const [key, validator] of Object.entries(shape)) {
+      const fieldPath = `${path}.${key}`
+      if (record[key] === undefined && !optionalValidators.has(validator)) {
+        issues.push({ path: fieldPath, message: "is required" })
+      } else {
+        validator(record[key], fieldPath, issues)
+      }
+    }
+  }
+}
+
+const userRef = object({ id: number, username: string })
+
+const post = object({
+  id: number,
+  topic_id: number,
+  user_id: optional(number),
+  username: string,
+  post_number: number,
+  post_type: optional(number),
+  raw: optional(string),
+  cooked: string,
+  created_at: timestamp,
+  updated_at: optional(timestamp),
+  reply_to_post_number: optional(nullable(number)),
+  topic_title: optional(string),
+  topic_slug: optional(string),
+  category_id: optional(number),
+  deleted_at: optional(nullable(timestamp)),
+})
+
+const PAYLOAD_SCHEMAS: Record<DiscourseEventFamily, Validator> = {
+  user: object({
+    user: object({
+      id: number,
+      username: string,
+      name: optional(nullable(string)),
+      email: optional(string),
+      created_at: timestamp,
+      trust_level: number,
+      admin: optional(boolean),
+      moderator: optional(boolean),
+      avatar_template: optional(string),
+      post_count: optional(number),
+      locale: optional(nullable(string)),
+      active: optional(boolean),
+    }),
+  }),
+  notification: object({
+    notification: object({
+      id: number,
+      user_id: number,
+      notification_type: number,
+      read: boolean,
+      created_at: timestamp,
+      updated_at: timestamp,
+      data: object({
+        original_username: optional(string),
+        original_post_id: optional(number),
+        topic_title: optional(string),
+        display_username: optional(string),
+        badge_id: optional(number),
+        badge_name: optional(string),
+      }),
+      topic_id: optional(nullable(number)),
+      post_number: optional(nullable(number)),
+    }),
+  }),
+  post: object({ post }),
+  topic: object({
+    topic: object({
+      id: number,
+      title: string,
+      slug: string,
+      category_id: optional(number),
+      archetype: string,
+      posts_count: number,
+      created_at: timestamp,
+      visible: optional(boolean),
+      closed: optional(boolean),
+      archived: optional(boolean),
+      tags: optional(arrayOf(string)),
+      created_by: optional(userRef),
+    }),
+  }),
+  category: object({
+    category: object({
+      id: number,
+      name: string,
+      slug: string,
+      color: optional(string),
+      parent_category_id: optional(nullable(number)),
+      topic_count: optional(number),
+      read_restricted: optional(boolean),
+    }),
+  }),
+  tag: object({
+    tag: object({
+      id: number,
+      name: string,
+      topic_count: optional(number),
+      description: optional(nullable(string)),
+    }),
+  }),
+  group: object({
+    group: object({
+      id: number,
+      name: string,
+      full_name: optional(nullable(string)),
+      user_count: optional(number),
+      automatic: optional(boolean),
+      visibility_level: optional(number),
+    }),
+  }),
+  reviewable: object({
+    reviewable: object({
+      id: number,
+      type: string,
+      status: oneOf(number, string),
+      created_at: timestamp,
+      target_type: optional(string),
+      target_id: optional(number),
+      target_created_by_id: optional(number),
+      topic_id: optional(nullable(number)),
+      category_id: optional(nullable(number)),
+      score: optional(number),
+    }),
+  }),
+  like: object({
+    like: object({ post, user: userRef }),
+  }),
+  solved: object({ solved: post }),
+  chat: object({
+    chat_message: object({
+      message: object({
+        id: number,
+        message: string,
+        cooked: optional(string),
+        created_at: timestamp,
+        user: userRef,
+      }),
+      channel: object({
+        id: number,
+        name: optional(nullable(string)),
+        chatable_type: optional(string),
+      }),
+    }),
+  }),
+}
+
+const FAMILIES = Object.keys(DISCOURSE_EVENTS) as DiscourseEventFamily[]
+
+/**
+ * Payload family of an event type: listed event types first, then by
+ * "<family>_" prefix. Undefined for event types we do not model.
+ */
+export function eventFamilyOf(eventType: string): DiscourseEventFamily | undefined {
+  const listed = FAMILIES.find((family) =>
+    (DISCOURSE_EVENTS[family] as readonly string[]).includes(eventType)
+  )
+  return listed || FAMILIES.find((family) => eventType.startsWith(`${family}_`))
+}
+
+export function validatePayload(eventType: string, payload: unknown): ValidationReport {
+  const family = eventFamilyOf(eventType)
+  const issues: ValidationIssue[] = []
+
+  if (family) {
+    PAYLOAD_SCHEMAS[family](payload, "payload", issues)
+  } else if (typeof payload !== "object" || payload === null || Array.isArray(payload)) {
+    issues.push({ path: "payload", message: `must be an object, got ${describe(payload)}` })
+  }
+
+  return { event_type: eventType, family, issues }
+}
+
+/**
+ * Throws a PayloadValidationError with the full report unless the payload
+ * matches its family's schema. Events of unmodelled types only need an
+ * object payload.
+ */
+export function assertValidEvent(event: DiscourseWebhookEvent): void {
+  const report = validatePayload(event.event_type, event.payload)
+  if (report.issues.length > 0) {
+    throw new PayloadValidationError(report)
+  }
+}
+
+export function isEventOf<F extends DiscourseEventFamily>(
+  event: DiscourseWebhookEvent,
+  family: F
+): event is DiscourseWebhookEvent & DiscourseEventOf<F> {
+  return eventFamilyOf(event.event_type) === family
+}
+
+/**
+ * Typed payload of an already validated event; throws if the event belongs
+ * to another family (a processor registered for the wrong events)
+ */
+export function payloadOf<F extends DiscourseEventFamily>(
+  event: DiscourseWebhookEvent,
+  family: F
+): DiscoursePayloads[F] {
+  if (!isEventOf(event, family)) {
+    throw new Error(`Expected a ${family} event, got ${event.event_type}`)
+  }
+  return event.payload
+}
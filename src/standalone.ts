@@ -0,0 +1,22 @@
+/**
+ * Single-binary dev mode
+ *
+ * Runs the handler and the worker in one process. Defaults to the
+ * in-memory transport, so no broker is needed:
+ *
+ *   npm run dev
+ *
+ * Set TRANSPORT=file or TRANSPORT=rabbitmq to exercise another backend.
+ * The inbox API listens on localhost, so it needs no INBOX_API_TOKEN.
+ */
+
+process.env.TRANSPORT = process.env.TRANSPORT || "memory"
+process.env.INBOX_API_HOST = process.env.INBOX_API_HOST || "127.0.0.1"
+
+async function main(): Promise<void> {
+  // Imported after TRANSPORT is set; each module starts its own service
+  await import("./handler/index")
+  await import("./worker/index")
+}
+
+main()
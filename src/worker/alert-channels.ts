@@ -0,0 +1,141 @@
+import { promises as fs } from "fs"
+import * as path from "path"
+import logger from "../shared/logger"
+import { signWebhookBody } from "../shared/security"
+import { AlertSeverity } from "./alert-rules"
+
+/**
+ * Channels alerts are raised through
+ *
+ *   log      the worker's log (always available as "log")
+ *   webhook  a signed JSON POST (X-Alert-Signature, same scheme as
+ *            X-Discourse-Event-Signature), e.g. a chat incoming webhook
+ *   file     appended to an NDJSON file
+ */
+
+export interface Alert {
+  id: string
+  rule: string
+  description?: string
+  severity: AlertSeverity
+  instance: string
+  event_type: string
+  event_id?: string
+  user?: { id: number; username: string; email?: string }
+  details: Record<string, unknown> // Values the rule looked at
+  raised_at: string
+}
+
+export interface AlertChannel {
+  readonly id: string
+  send(alert: Alert): Promise<void>
+}
+
+export type AlertChannelConfig =
+  | { id: string; type: "log" }
+  | {
+      id: string
+      type: "webhook"
+      url: string
+      secret?: string
+      secretEnv?: string // Name of an environment variable holding the secret
+      headers?: Record<string, string>
+      timeoutMs?: number
+    }
+  | { id: string; type: "file"; path: string }
+
+export const LOG_CHANNEL_ID = "log"
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 10000
+
+export class LogAlertChannel implements AlertChannel {
+  constructor(readonly id: string = LOG_CHANNEL_ID) {}
+
+  async send(alert: Alert): Promise<void> {
+    const details = { alertId: alert.id, rule: alert.rule, instance: alert.instance, user: alert.user, ...alert.details }
+    const message = `Alert: ${alert.description || alert.rule}`
+
+    if (alert.severity === "critical") {
+      logger.error(details, message)
+    } else if (alert.severity === "warning") {
+      logger.warn(details, message)
+    } else {
+      logger.info(details, message)
+    }
+  }
+}
+
+export class WebhookAlertChannel implements AlertChannel {
+  constructor(
+    readonly id: string,
+    private readonly url: string,
+    private readonly secret: string | undefined,
+    private readonly headers: Record<string, string> = {},
+    private readonly timeoutMs: number = DEFAULT_WEBHOOK_TIMEOUT_MS
+  ) {}
+
+  async send(alert: Alert): Promise<void> {
+    const body = JSON.stringify(alert)
+    const headers: Record<string, string> = { ...this.headers, "Content-Type": "application/json" }
+    if (this.secret) {
+      headers["X-Alert-Signature"] = signWebhookBody(body, this.secret)
+    }
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers,
+      body,
+      signal: AbortSignal.timeout(this.timeoutMs),
+    })
+    await response.body?.cancel()
+
+    if (!response.ok) {
+      throw new Error(`Alert webhook ${this.id} answered ${response.status}`)
+    }
+  }
+}
+
+export class FileAlertChannel implements AlertChannel {
+  private writeChain: Promise<void> = Promise.resolve()
+
+  constructor(
+    readonly id: string,
+    private readonly filePath: string
+  ) {}
+
+  send(alert: Alert): Promise<void> {
+    const next = this.writeChain.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+      await fs.appendFile(this.filePath, JSON.stringify(alert) + "\n")
+    })
+    this.writeChain = next.catch(() => undefined)
+    return next
+  }
+}
+
+export function createAlertChannel(
+  config: AlertChannelConfig,
+  env: NodeJS.ProcessEnv = process.env
+): AlertChannel {
+  switch (config.type) {
+    case "log":
+      return new LogAlertChannel(config.id)
+    case "webhook":
+      if (!/^https?:\/\//.test(config.url || "")) {
+        throw new Error(`Alert channel ${config.id}: url must be http(s)`)
+      }
+      return new WebhookAlertChannel(
+        config.id,
+        config.url,
+        config.secret || (config.secretEnv ? env[config.secretEnv] : undefined),
+        config.headers,
+        config.timeoutMs
+      )
+    case "file":
+      if (!config.path) {
+        throw new Error(`Alert channel ${config.id}: path is required`)
+      }
+      return new FileAlertChannel(config.id, config.path)
+    default:
+      throw new Error(`Unknown alert channel type: ${(config as { type: string }).type}`)
+  }
+}
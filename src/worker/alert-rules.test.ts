@@ -0,0 +1,80 @@
+import { AlertCondition, AlertRule, evaluateCondition, validateAlertRules } from "./alert-rules"
+
+const context = {
+  event_type: "user_updated",
+  user: { id: 1, username: "Alice", trust_level: 3, email_domain: "example.com", admin: false },
+  previous: { id: 1, username: "Alice", trust_level: 1, email_domain: "example.com", admin: true },
+}
+
+const firstSeen = { event_type: "user_created", user: context.user }
+
+describe("evaluateCondition", () => {
+  it.each<[AlertCondition, boolean]>([
+    [{ field: "user.username", op: "eq", value: "alice" }, true],
+    [{ field: "user.username", op: "neq", value: "alice" }, false],
+    [{ field: "user.email_domain", op: "in", value: ["EXAMPLE.com", "example.org"] }, true],
+    [{ field: "user.email_domain", op: "not_in", value: ["example.com"] }, false],
+    [{ field: "user.trust_level", op: "gt", value: 2 }, true],
+    [{ field: "user.trust_level", op: "gte", value: 3 }, true],
+    [{ field: "user.trust_level", op: "lt", value: 3 }, false],
+    [{ field: "user.trust_level", op: "lte", value: "3" }, false],
+    [{ field: "user.username", op: "contains", value: "LIC" }, true],
+    [{ field: "user.username", op: "matches", value: "^al" }, true],
+    [{ field: "user.name", op: "exists" }, false],
+    [{ field: "user.name", op: "exists", value: false }, true],
+  ])("%j is %s", (condition, expected) => {
+    expect(evaluateCondition(condition, context)).toBe(expected)
+  })
+
+  it("combines conditions with all, any and not", () => {
+    const admin: AlertCondition = { field: "user.admin", op: "eq", value: true }
+    const trusted: AlertCondition = { field: "user.trust_level", op: "gte", value: 3 }
+
+    expect(evaluateCondition({ all: [trusted, { not: admin }] }, context)).toBe(true)
+    expect(evaluateCondition({ all: [trusted, admin] }, context)).toBe(false)
+    expect(evaluateCondition({ any: [admin, trusted] }, context)).toBe(true)
+  })
+
+  describe("change operators", () => {
+    it("compare with the user as last seen", () => {
+      expect(evaluateCondition({ field: "user.trust_level", op: "changed" }, context)).toBe(true)
+      expect(evaluateCondition({ field: "user.username", op: "changed" }, context)).toBe(false)
+      expect(evaluateCondition({ field: "user.admin", op: "became", value: false }, context)).toBe(true)
+      expect(evaluateCondition({ field: "user.trust_level", op: "increased_by", value: 2 }, context)).toBe(true)
+      expect(evaluateCondition({ field: "user.trust_level", op: "increased_by", value: 3 }, context)).toBe(false)
+      expect(evaluateCondition({ field: "user.trust_level", op: "decreased_by", value: 1 }, context)).toBe(false)
+    })
+
+    it("never match on the first event seen for a user", () => {
+      expect(evaluateCondition({ field: "user.trust_level", op: "changed" }, firstSeen)).toBe(false)
+      expect(evaluateCondition({ field: "user.admin", op: "became", value: false }, firstSeen)).toBe(false)
+    })
+  })
+})
+
+describe("matches conditions", () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it("compile their pattern once, when the rules are validated", () => {
+    const condition: AlertCondition = { field: "user.email_domain", op: "matches", value: "^example\\." }
+    const rules: AlertRule[] = [{ id: "domain", events: ["user_*"], conditions: [condition] }]
+    const compile = jest.spyOn(globalThis, "RegExp")
+
+    validateAlertRules(rules, ["log"])
+    for (let i = 0; i < 3; i++) {
+      expect(evaluateCondition(condition, context)).toBe(true)
+    }
+
+    expect(compile).toHaveBeenCalledTimes(1)
+  })
+
+  it("are rejected with an invalid pattern", () => {
+    const rules: AlertRule[] = [
+      { id: "broken", events: ["user_*"], conditions: [{ field: "user.username", op: "matches", value: "(" }] },
+    ]
+
+    expect(() => validateAlertRules(rules, ["log"])).toThrow()
+  })
+})
@@ -0,0 +1,228 @@
+/**
+ * Declarative alert rules over user events (Administrative Monitoring)
+ *
+ * A rule selects user event types and lists conditions on the event; all
+ * of them must hold. Fields are dotted paths into:
+ *
+ *   event_type, instance
+ *   user.*                  the payload's user, plus user.email_domain
+ *   previous.*              the same user as last seen, email_domain included
+ *                           (for change operators)
+ *
+ * Conditions: { "field", "op", "value" }, or { "all": [...] },
+ * { "any": [...] }, { "not": {...} }. A rule with a threshold only fires
+ * once `count` matching events with the same groupBy value happened within
+ * windowMs.
+ */
+
+export type AlertSeverity = "info" | "warning" | "critical"
+
+export const CONDITION_OPS = [
+  "eq",
+  "neq",
+  "in",
+  "not_in",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "contains",
+  "matches",
+  "exists",
+  // Change operators compare with the user as last seen and never match
+  // on the first event seen for a user
+  "changed",
+  "became", // Equals value now and did not before
+  "increased_by", // Grew by at least value since last seen
+  "decreased_by",
+] as const
+
+export type ConditionOp = (typeof CONDITION_OPS)[number]
+
+export type AlertCondition =
+  | { field: string; op: ConditionOp; value?: unknown }
+  | { all: AlertCondition[] }
+  | { any: AlertCondition[] }
+  | { not: AlertCondition }
+
+export interface AlertThreshold {
+  count: number
+  windowMs: number
+  groupBy?: string // Field; all matching events count together if unset
+}
+
+export interface AlertRule {
+  id: string
+  description?: string
+  severity?: AlertSeverity // Default "warning"
+  events: string[] // User event type patterns ("user_*")
+  conditions?: AlertCondition[]
+  threshold?: AlertThreshold
+  cooldownMs?: number // Quiet period per rule and user (or group) after an alert
+  channels?: string[] // Channel ids; ["log"] if unset
+  enabled?: boolean
+}
+
+export type AlertContext = Record<string, unknown>
+
+const CHANGE_OPS: ConditionOp[] = ["changed", "became", "increased_by", "decreased_by"]
+
+// Compiled patterns of "matches" conditions, filled when the rules are
+// validated so events do not compile them again
+const patterns = new WeakMap<AlertCondition, RegExp>()
+
+export function lookupField(context: AlertContext, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (value, key) =>
+      typeof value === "object" && value !== null
+        ? (value as Record<string, unknown>)[key]
+        : undefined,
+    context
+  )
+}
+
+function previousField(field: string): string {
+  return field.replace(/^user\./, "previous.")
+}
+
+function compare(actual: unknown, expected: unknown, test: (a: number, b: number) => boolean): boolean {
+  return typeof actual === "number" && typeof expected === "number" && test(actual, expected)
+}
+
+/**
+ * The compiled pattern of a "matches" condition; throws on an invalid one
+ */
+function patternOf(condition: AlertCondition & { value?: unknown }): RegExp {
+  let pattern = patterns.get(condition)
+  if (!pattern) {
+    pattern = new RegExp(String(condition.value), "i")
+    patterns.set(condition, pattern)
+  }
+  return pattern
+}
+
+function lowercase(value: unknown): unknown {
+  return typeof value === "string" ? value.toLowerCase() : value
+}
+
+/**
+ * Whether the condition holds. String comparisons ignore case.
+ */
+export function evaluateCondition(condition: AlertCondition, context: AlertContext): boolean {
+  if ("all" in condition) {
+    return condition.all.every((child) => evaluateCondition(child, context))
+  }
+  if ("any" in condition) {
+    return condition.any.some((child) => evaluateCondition(child, context))
+  }
+  if ("not" in condition) {
+    return !evaluateCondition(condition.not, context)
+  }
+
+  const actual = lowercase(lookupField(context, condition.field))
+  const expected = Array.isArray(condition.value)
+    ? condition.value.map(lowercase)
+    : lowercase(condition.value)
+  const previous = lowercase(lookupField(context, previousField(condition.field)))
+  const known = context.previous !== undefined // Seen before; absent fields count as changed
+
+  switch (condition.op) {
+    case "eq":
+      return actual === expected
+    case "neq":
+      return actual !== expected
+    case "in":
+      return Array.isArray(expected) && expected.includes(actual)
+    case "not_in":
+      return Array.isArray(expected) && !expected.includes(actual)
+    case "gt":
+      return compare(actual, expected, (a, b) => a > b)
+    case "gte":
+      return compare(actual, expected, (a, b) => a >= b)
+    case "lt":
+      return compare(actual, expected, (a, b) => a < b)
+    case "lte":
+      return compare(actual, expected, (a, b) => a <= b)
+    case "contains":
+      return typeof actual === "string" && typeof expected === "string" && actual.includes(expected)
+    case "matches":
+      return typeof actual === "string" && patternOf(condition).test(actual)
+    case "exists":
+      return (actual !== undefined && actual !== null) === (condition.value ?? true)
+    case "changed":
+      return known && actual !== previous
+    case "became":
+      return known && actual === expected && previous !== expected
+    case "increased_by":
+      return known && compare(actual, expected, (a, b) => a - (previous as number) >= b)
+    case "decreased_by":
+      return known && compare(actual, expected, (a, b) => (previous as number) - a >= b)
+  }
+}
+
+function validateCondition(condition: AlertCondition, ruleId: string): void {
+  if ("all" in condition || "any" in condition) {
+    const children = "all" in condition ? condition.all : condition.any
+    if (!Array.isArray(children) || children.length === 0) {
+      throw new Error(`Rule ${ruleId}: all/any needs a non-empty array of conditions`)
+    }
+    children.forEach((child) => validateCondition(child, ruleId))
+    return
+  }
+  if ("not" in condition) {
+    validateCondition(condition.not, ruleId)
+    return
+  }
+
+  if (typeof condition.field !== "string" || !condition.field) {
+    throw new Error(`Rule ${ruleId}: condition needs a field`)
+  }
+  if (!CONDITION_OPS.includes(condition.op)) {
+    throw new Error(`Rule ${ruleId}: unknown op ${condition.op} (expected ${CONDITION_OPS.join(", ")})`)
+  }
+  if (CHANGE_OPS.includes(condition.op) && !condition.field.startsWith("user.")) {
+    throw new Error(`Rule ${ruleId}: ${condition.op} only applies to user.* fields`)
+  }
+  if (["in", "not_in"].includes(condition.op) && !Array.isArray(condition.value)) {
+    throw new Error(`Rule ${ruleId}: ${condition.op} needs an array value`)
+  }
+  if (condition.op === "matches") {
+    patternOf(condition)
+  }
+}
+
+/**
+ * Checks the rules' structure and that they only use known channels
+ */
+export function validateAlertRules(rules: AlertRule[], channelIds: string[]): void {
+  const ids = new Set<string>()
+
+  for (const rule of rules) {
+    if (!rule.id) {
+      throw new Error("Every alert rule needs an id")
+    }
+    if (ids.has(rule.id)) {
+      throw new Error(`Duplicate alert rule id: ${rule.id}`)
+    }
+    ids.add(rule.id)
+
+    if (!Array.isArray(rule.events) || rule.events.length === 0) {
+      throw new Error(`Rule ${rule.id}: events must list at least one pattern`)
+    }
+    if (rule.severity && !["info", "warning", "critical"].includes(rule.severity)) {
+      throw new Error(`Rule ${rule.id}: unknown severity ${rule.severity}`)
+    }
+    for (const condition of rule.conditions || []) {
+      validateCondition(condition, rule.id)
+    }
+
+    if (rule.threshold && !(rule.threshold.count >= 1 && rule.threshold.windowMs > 0)) {
+      throw new Error(`Rule ${rule.id}: threshold needs count >= 1 and windowMs > 0`)
+    }
+    for (const channel of rule.channels || []) {
+      if (!channelIds.includes(channel)) {
+        throw new Error(`Rule ${rule.id}: unknown channel ${channel}`)
+      }
+    }
+  }
+}
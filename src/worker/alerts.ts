@@ -0,0 +1,363 @@
+import { randomUUID } from "crypto"
+import { promises as fs, readFileSync } from "fs"
+import * as path from "path"
+import logger from "../shared/logger"
+import { eventTypeMatches } from "../shared/topology"
+import {
+  DiscourseUserPayload,
+  DiscourseWebhookEvent,
+  ProcessingResult,
+} from "../shared/types"
+import {
+  Alert,
+  AlertChannel,
+  AlertChannelConfig,
+  LOG_CHANNEL_ID,
+  LogAlertChannel,
+  createAlertChannel,
+} from "./alert-channels"
+import {
+  AlertCondition,
+  AlertContext,
+  AlertRule,
+  evaluateCondition,
+  lookupField,
+  validateAlertRules,
+} from "./alert-rules"
+import { DEFAULT_INBOX_INSTANCE } from "./inbox"
+import { Processor } from "./registry"
+
+/**
+ * Admin alerts on user events (Goal 1: Administrative Monitoring)
+ *
+ * The "alerts" processor evaluates the rules of ALERT_RULES_FILE against
+ * every user event and raises an alert through the rule's channels for
+ * each rule that matches. Change operators ("trust level went up by 2")
+ * compare with a snapshot of the user as last seen, kept per worker in
+ * ALERT_STATE_PATH; threshold windows and cooldowns are kept in memory.
+ *
+ * Try rules against sample events with `npm run alert-rules -- test`.
+ */
+
+export interface AlertsConfig {
+  rulesFile?: string // No alerts without one
+  statePath: string
+  maxUsers: number // User snapshots kept (least recently seen dropped)
+}
+
+export interface AlertRulesFile {
+  channels?: AlertChannelConfig[]
+  rules: AlertRule[]
+}
+
+/**
+ * A rule whose conditions matched an event, with the alert it raised or
+ * why it did not raise one
+ */
+export interface RuleOutcome {
+  rule: AlertRule
+  alert?: Alert
+  suppressed?: string
+}
+
+type UserSnapshot = Record<string, string | number | boolean | null>
+
+const DEFAULT_MAX_USERS = 100000
+const STATE_FLUSH_INTERVAL_MS = 5000
+const MAX_TRACKED_WINDOWS = 10000
+
+export function getAlertsConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): AlertsConfig {
+  return {
+    rulesFile: env.ALERT_RULES_FILE || undefined,
+    statePath: env.ALERT_STATE_PATH || "./data/alert-state.json",
+    maxUsers: parseInt(env.ALERT_STATE_MAX_USERS || String(DEFAULT_MAX_USERS), 10),
+  }
+}
+
+/**
+ * Reads and validates a rules file ({ channels, rules })
+ */
+export function readAlertRulesFile(filePath: string): AlertRulesFile {
+  const file = JSON.parse(readFileSync(filePath, "utf-8")) as AlertRulesFile
+  if (!file || !Array.isArray(file.rules)) {
+    throw new Error(`${filePath} must contain { "channels": [...], "rules": [...] }`)
+  }
+
+  const channelIds = [LOG_CHANNEL_ID, ...(file.channels || []).map((channel) => channel.id)]
+  validateAlertRules(file.rules, channelIds)
+  return file
+}
+
+export function createAlertChannels(
+  configs: AlertChannelConfig[] = [],
+  env: NodeJS.ProcessEnv = process.env
+): Map<string, AlertChannel> {
+  const channels = new Map<string, AlertChannel>([[LOG_CHANNEL_ID, new LogAlertChannel()]])
+  for (const config of configs) {
+    channels.set(config.id, createAlertChannel(config, env))
+  }
+  return channels
+}
+
+function fieldsOf(condition: AlertCondition): string[] {
+  if ("all" in condition) return condition.all.flatMap(fieldsOf)
+  if ("any" in condition) return condition.any.flatMap(fieldsOf)
+  if ("not" in condition) return fieldsOf(condition.not)
+  return [condition.field]
+}
+
+/**
+ * The user as rules see it: the payload's fields plus the computed ones
+ */
+function userFieldsOf(user: DiscourseUserPayload["user"]): Record<string, unknown> {
+  return { ...user, email_domain: user.email?.split("@")[1]?.toLowerCase() }
+}
+
+/**
+ * Scalar fields of userFieldsOf(), computed ones included, so previous.*
+ * compares like with like
+ */
+function snapshotOf(user: Record<string, unknown>): UserSnapshot {
+  return Object.fromEntries(
+    Object.entries(user).filter(
+      ([, value]) => value === null || ["string", "number", "boolean"].includes(typeof value)
+    )
+  ) as UserSnapshot
+}
+
+/**
+ * Users as last seen, in an LRU flushed to a JSON file on an interval and
+ * on close (in memory only without a file path)
+ */
+export class UserSnapshots {
+  private users = new Map<string, UserSnapshot>()
+  private dirty = false
+  private timer: NodeJS.Timeout | null = null
+
+  constructor(
+    private readonly maxUsers: number,
+    private readonly filePath?: string
+  ) {}
+
+  async open(): Promise<void> {
+    if (!this.filePath) return
+
+    try {
+      const stored = JSON.parse(await fs.readFile(this.filePath, "utf-8")) as Record<string, UserSnapshot>
+      this.users = new Map(Object.entries(stored))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn({ error, filePath: this.filePath }, "Ignoring unreadable alert state")
+      }
+    }
+
+    this.timer = setInterval(() => {
+      this.flush().catch((error) => {
+        logger.warn({ error, filePath: this.filePath }, "Failed to write alert state")
+      })
+    }, STATE_FLUSH_INTERVAL_MS)
+    this.timer.unref()
+  }
+
+  get(key: string): UserSnapshot | undefined {
+    return this.users.get(key)
+  }
+
+  set(key: string, snapshot: UserSnapshot): void {
+    this.users.delete(key)
+    this.users.set(key, snapshot)
+    if (this.users.size > this.maxUsers) {
+      const [oldest] = this.users.keys()
+      this.users.delete(oldest)
+    }
+    this.dirty = true
+  }
+
+  delete(key: string): void {
+    this.dirty = this.users.delete(key) || this.dirty
+  }
+
+  async flush(): Promise<void> {
+    if (!this.filePath || !this.dirty) return
+    this.dirty = false
+
+    const tmpPath = `${this.filePath}.tmp`
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+    await fs.writeFile(tmpPath, JSON.stringify(Object.fromEntries(this.users)))
+    await fs.rename(tmpPath, this.filePath)
+  }
+
+  async close(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    await this.flush()
+  }
+}
+
+export class AlertEngine {
+  private readonly windows = new Map<string, number[]>() // rule + group -> match times
+  private readonly cooldowns = new Map<string, number>() // rule + key -> quiet until
+
+  constructor(
+    private readonly rules: AlertRule[],
+    private readonly snapshots: UserSnapshots
+  ) {}
+
+  /**
+   * Evaluates every rule against a user event and remembers the user as
+   * seen now. Events without a user are ignored.
+   */
+  evaluate(event: DiscourseWebhookEvent, instance: string, now: number = Date.now()): RuleOutcome[] {
+    const user = (event.payload as DiscourseUserPayload)?.user
+    if (!user || typeof user.id !== "number") {
+      return []
+    }
+
+    const userKey = `${instance}:${user.id}`
+    const fields = userFieldsOf(user)
+    const context: AlertContext = {
+      event_type: event.event_type,
+      instance,
+      user: fields,
+      previous: this.snapshots.get(userKey),
+    }
+
+    const outcomes = this.rules
+      .filter(
+        (rule) =>
+          rule.enabled !== false &&
+          rule.events.some((pattern) => eventTypeMatches(pattern, event.event_type)) &&
+          (rule.conditions || []).every((condition) => evaluateCondition(condition, context))
+      )
+      .map((rule) => this.outcomeOf(rule, event, context, userKey, now))
+
+    if (event.event_type === "user_destroyed") {
+      this.snapshots.delete(userKey)
+    } else {
+      this.snapshots.set(userKey, snapshotOf(fields))
+    }
+    this.prune(now)
+
+    return outcomes
+  }
+
+  private outcomeOf(
+    rule: AlertRule,
+    event: DiscourseWebhookEvent,
+    context: AlertContext,
+    userKey: string,
+    now: number
+  ): RuleOutcome {
+    const details: Record<string, unknown> = {}
+    for (const field of (rule.conditions || []).flatMap(fieldsOf)) {
+      details[field] = lookupField(context, field)
+      const previous = lookupField(context, field.replace(/^user\./, "previous."))
+      if (previous !== undefined && previous !== details[field]) {
+        details[field.replace(/^user\./, "previous.")] = previous
+      }
+    }
+
+    let cooldownKey = `${rule.id}|${userKey}`
+    const { threshold } = rule
+    if (threshold) {
+      const group = threshold.groupBy ? lookupField(context, threshold.groupBy) : ""
+      if (group === undefined || group === null) {
+        return { rule, suppressed: `No ${threshold.groupBy} to group by` }
+      }
+
+      const windowKey = `${rule.id}|${String(group)}`
+      const times = (this.windows.get(windowKey) || []).filter((at) => now - at < threshold.windowMs)
+      times.push(now)
+      if (times.length < threshold.count) {
+        this.windows.set(windowKey, times)
+        return { rule, suppressed: `${times.length}/${threshold.count} within ${threshold.windowMs}ms` }
+      }
+
+      this.windows.delete(windowKey) // Counting starts over after an alert
+      cooldownKey = windowKey
+      details.count = times.length
+      details.window_ms = threshold.windowMs
+      if (threshold.groupBy) details[threshold.groupBy] = group
+    }
+
+    const quietUntil = this.cooldowns.get(cooldownKey)
+    if (quietUntil !== undefined && quietUntil > now) {
+      return { rule, suppressed: `Cooling down until ${new Date(quietUntil).toISOString()}` }
+    }
+    if (rule.cooldownMs) {
+      this.cooldowns.set(cooldownKey, now + rule.cooldownMs)
+    }
+
+    const user = context.user as DiscourseUserPayload["user"]
+    return {
+      rule,
+      alert: {
+        id: randomUUID(),
+        rule: rule.id,
+        description: rule.description,
+        severity: rule.severity || "warning",
+        instance: context.instance as string,
+        event_type: event.event_type,
+        event_id: event.headers["x-discourse-event-id"],
+        user: { id: user.id, username: user.username, email: user.email },
+        details,
+        raised_at: new Date(now).toISOString(),
+      },
+    }
+  }
+
+  /**
+   * Drops expired windows and cooldowns once there are many of them
+   */
+  private prune(now: number): void {
+    if (this.windows.size > MAX_TRACKED_WINDOWS) {
+      const longest = Math.max(...this.rules.map((rule) => rule.threshold?.windowMs || 0))
+      for (const [key, times] of this.windows) {
+        if (now - times[times.length - 1] >= longest) this.windows.delete(key)
+      }
+    }
+    if (this.cooldowns.size > MAX_TRACKED_WINDOWS) {
+      for (const [key, until] of this.cooldowns) {
+        if (until <= now) this.cooldowns.delete(key)
+      }
+    }
+  }
+}
+
+/**
+ * Processor that raises alerts for user events. A channel that fails is
+ * logged rather than failing the event: a retry would not raise the alert
+ * again, since the user's snapshot already moved on.
+ */
+export function alertsProcessor(
+  engine: AlertEngine,
+  channels: Map<string, AlertChannel>
+): Processor {
+  return async (event, context): Promise<ProcessingResult> => {
+    const instance = context.tenant?.id || DEFAULT_INBOX_INSTANCE
+
+    for (const { rule, alert } of engine.evaluate(event, instance)) {
+      if (!alert) continue
+
+      for (const channelId of rule.channels || [LOG_CHANNEL_ID]) {
+        await channels
+          .get(channelId)
+          ?.send(alert)
+          .catch((error) => {
+            context.logger.error({ error, rule: rule.id, channel: channelId, alertId: alert.id }, "Alert channel failed")
+          })
+      }
+    }
+
+    return {
+      success: true,
+      message_id: event.headers["x-discourse-event-id"] || "unknown",
+      event_type: event.event_type,
+      processed_at: new Date().toISOString(),
+    }
+  }
+}
@@ -4,24 +4,146 @@
  */
 
 // Environment Variables (to be moved to .env)
+// TRANSPORT=rabbitmq
 // RABBITMQ_URL=amqp://localhost:5672
+// FILE_TRANSPORT_DIR=./data/queue
 // QUEUE_NAME=discourse-events
+// TOPIC_EXCHANGE=discourse.events
+// QUEUE_BINDINGS=#
+// TOPOLOGY_FILE=./topology.json
 // LOG_LEVEL=info
 // WORKER_CONCURRENCY=1
+// WORKER_SHUTDOWN_TIMEOUT_MS=30000
+// RETRY_MAX_ATTEMPTS=4
+// RETRY_MAX_ATTEMPTS_BY_EVENT=notification:6,user_created:2
+// RETRY_INITIAL_DELAY_MS=5000
+// RETRY_BACKOFF_MULTIPLIER=4
+// RETRY_MAX_DELAY_MS=300000
+// RETRY_JITTER=0.2
+// DEDUP_STORE=memory
+// DEDUP_RETENTION_MS=86400000
+// DEDUP_MAX_ENTRIES=100000
+// DEDUP_FILE_PATH=./data/worker-dedup.ndjson
+// RECONNECT_INITIAL_DELAY_MS=1000
+// RECONNECT_MAX_DELAY_MS=30000
+// INBOX_STORE=file
+// INBOX_FILE_PATH=./data/inbox.ndjson
+// INBOX_MAX_PER_USER=500
+// INBOX_API_PORT=3001
+// INBOX_API_HOST=0.0.0.0
+// INBOX_API_TOKEN=
+// WORKER_HTTP_PORT=3002
+// WORKER_READY_MAX_BACKLOG=10000
+// WORKER_READY_MAX_IDLE_MS=300000
+// TRACING_EXPORTER=none
+// TRACING_FILE_PATH=./data/spans.ndjson
+// OTEL_EXPORTER_OTLP_ENDPOINT=http://localhost:4318
+// OTEL_SERVICE_NAME=discourse-webhook-worker
+// TRACING_FLUSH_INTERVAL_MS=5000
+// PUSH_TOKEN_SECRET=
+// PUSH_EXCHANGE=discourse.push
+// PUSH_HEARTBEAT_MS=15000
+// PUSH_REPLAY_PER_USER=100
+// PUSH_MAX_BUFFERED_BYTES=1048576
+// SUBSCRIBERS_FILE=./subscribers.json
+// OUTBOUND_EXCHANGE=discourse.outbound
+// OUTBOUND_QUEUE_PREFIX=discourse-outbound
+// OUTBOUND_TIMEOUT_MS=10000
+// OUTBOUND_DISABLE_AFTER_FAILURES=20
+// OUTBOUND_RETRY_MAX_ATTEMPTS=8
+// OUTBOUND_RETRY_INITIAL_DELAY_MS=10000
+// OUTBOUND_RETRY_BACKOFF_MULTIPLIER=3
+// OUTBOUND_RETRY_MAX_DELAY_MS=3600000
+// DELIVERY_LOG_STORE=file
+// DELIVERY_LOG_FILE_PATH=./data/deliveries.ndjson
+// DELIVERY_LOG_MAX_PER_SUBSCRIBER=1000
+// ALERT_RULES_FILE=./alert-rules.json
+// ALERT_STATE_PATH=./data/alert-state.json
+// ALERT_STATE_MAX_USERS=100000
+// DIGEST_USERS_FILE=./digest-users.json
+// DIGEST_WINDOW_MS=86400000
+// DIGEST_NOTIFICATION_TYPES=MENTIONED,REPLIED,LIKED
+// DIGEST_CHECK_INTERVAL_MS=60000
+// DIGEST_MAX_PER_USER=200
+// DIGEST_MAX_ATTEMPTS=10
+// DIGEST_STORE=file
+// DIGEST_FILE_PATH=./data/digests.ndjson
+// DIGEST_BASE_URL=https://forum.example.com
+// DIGEST_TEMPLATES_DIR=./digest-templates
+// MAIL_TRANSPORT=file
+// MAIL_FROM=Discourse <noreply@localhost>
+// MAIL_FILE_DIR=./data/mail
+// SMTP_HOST=localhost
+// SMTP_PORT=1025
+// SMTP_SECURE=false
+// SMTP_USER=
+// SMTP_PASSWORD=
+// SMTP_ALLOW_INSECURE_AUTH=false
+// SMTP_TIMEOUT_MS=30000
+
+import { RetryPolicy, getRetryPolicyFromEnv } from '../shared/retry';
+import { DedupConfig, getDedupConfigFromEnv } from '../shared/dedup';
+import { TopologySpec, getTopologyFromEnv } from '../shared/topology';
+import { TracingConfig, getTracingConfigFromEnv } from '../shared/tracing';
+import { InboxConfig, getInboxConfigFromEnv } from './inbox';
+import { InboxApiConfig, getInboxApiConfigFromEnv } from './inbox-api';
+import { WorkerHttpConfig, getWorkerHttpConfigFromEnv } from './http';
+import { PushConfig, getPushConfigFromEnv } from './push';
+import { OutboundConfig, getOutboundConfigFromEnv } from './subscribers';
+import { AlertsConfig, getAlertsConfigFromEnv } from './alerts';
+import { DigestConfig, getDigestConfigFromEnv } from './digest';
+import {
+  ReconnectPolicy,
+  TransportType,
+  getReconnectPolicyFromEnv,
+  getTransportTypeFromEnv
+} from '../shared/transport';
 
 export interface WorkerConfig {
+  transport: TransportType;
   rabbitmqUrl: string;
+  fileTransportDir: string;
   queueName: string;
+  topology: TopologySpec;
   logLevel: string;
   concurrency: number;
+  shutdownTimeoutMs: number; // How long in-flight messages may finish on shutdown
+  retry: RetryPolicy;
+  dedup: DedupConfig;
+  reconnect: ReconnectPolicy;
+  inbox: InboxConfig;
+  inboxApi: InboxApiConfig;
+  http: WorkerHttpConfig;
+  tracing: TracingConfig;
+  push: PushConfig;
+  outbound: OutboundConfig;
+  alerts: AlertsConfig;
+  digest: DigestConfig;
 }
 
 export function getWorkerConfig(): WorkerConfig {
+  const queueName = process.env.QUEUE_NAME || 'discourse-events';
+
   return {
+    transport: getTransportTypeFromEnv(),
     rabbitmqUrl: process.env.RABBITMQ_URL || 'amqp://localhost:5672',
-    queueName: process.env.QUEUE_NAME || 'discourse-events',
+    fileTransportDir: process.env.FILE_TRANSPORT_DIR || './data/queue',
+    queueName,
+    topology: getTopologyFromEnv(queueName),
     logLevel: process.env.LOG_LEVEL || 'info',
-    concurrency: parseInt(process.env.WORKER_CONCURRENCY || '1', 10)
+    concurrency: parseInt(process.env.WORKER_CONCURRENCY || '1', 10),
+    shutdownTimeoutMs: parseInt(process.env.WORKER_SHUTDOWN_TIMEOUT_MS || '30000', 10),
+    retry: getRetryPolicyFromEnv(),
+    dedup: getDedupConfigFromEnv('./data/worker-dedup.ndjson'),
+    reconnect: getReconnectPolicyFromEnv(),
+    inbox: getInboxConfigFromEnv(),
+    inboxApi: getInboxApiConfigFromEnv(),
+    http: getWorkerHttpConfigFromEnv(),
+    tracing: getTracingConfigFromEnv('discourse-webhook-worker'),
+    push: getPushConfigFromEnv(),
+    outbound: getOutboundConfigFromEnv(),
+    alerts: getAlertsConfigFromEnv(),
+    digest: getDigestConfigFromEnv()
   };
 }
 
@@ -0,0 +1,231 @@
+import { promises as fs } from "fs"
+import * as path from "path"
+import logger from "../shared/logger"
+
+/**
+ * Delivery log of the outbound webhook subscribers
+ *
+ * Every delivery attempt is recorded with its outcome, as are subscribers
+ * being disabled (after repeated failures) and enabled again. The last
+ * state change of a subscriber is what it starts in after a restart, so it
+ * is kept even when its attempts have been dropped from the log.
+ */
+
+export type DeliveryStatus = "delivered" | "failed" | "disabled" | "enabled"
+
+export interface DeliveryRecord {
+  subscriber: string
+  status: DeliveryStatus
+  at: string
+  message_id?: string // Outbound message; absent on state changes
+  event_id?: string // X-Discourse-Event-Id of the event
+  event_type?: string
+  attempt?: number // 1-based
+  http_status?: number
+  duration_ms?: number
+  error?: string // Failure, or why the subscriber was disabled
+}
+
+export interface DeliveryQuery {
+  status?: DeliveryStatus
+  limit: number
+}
+
+export interface DeliveryLog {
+  open(): Promise<void>
+  record(entry: DeliveryRecord): Promise<void>
+  /** Newest first */
+  list(subscriber: string, query: DeliveryQuery): Promise<DeliveryRecord[]>
+  /** Last "disabled" or "enabled" record of the subscriber */
+  lastStateChange(subscriber: string): DeliveryRecord | undefined
+  close(): Promise<void>
+}
+
+export type DeliveryLogStoreType = "memory" | "file"
+
+export interface DeliveryLogConfig {
+  store: DeliveryLogStoreType
+  filePath: string
+  maxPerSubscriber: number
+}
+
+const DEFAULT_MAX_PER_SUBSCRIBER = 1000
+
+export function getDeliveryLogConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): DeliveryLogConfig {
+  return {
+    store: (env.DELIVERY_LOG_STORE as DeliveryLogStoreType) || "file",
+    filePath: env.DELIVERY_LOG_FILE_PATH || "./data/deliveries.ndjson",
+    maxPerSubscriber: parseInt(
+      env.DELIVERY_LOG_MAX_PER_SUBSCRIBER || String(DEFAULT_MAX_PER_SUBSCRIBER),
+      10
+    ),
+  }
+}
+
+function isStateChange(entry: DeliveryRecord): boolean {
+  return entry.status === "disabled" || entry.status === "enabled"
+}
+
+/**
+ * In-memory log keeping the last maxPerSubscriber records per subscriber
+ */
+export class MemoryDeliveryLog implements DeliveryLog {
+  protected readonly entries = new Map<string, DeliveryRecord[]>() // Oldest first
+  protected readonly stateChanges = new Map<string, DeliveryRecord>()
+  protected size = 0
+
+  constructor(protected readonly maxPerSubscriber: number) {}
+
+  async open(): Promise<void> {}
+
+  async record(entry: DeliveryRecord): Promise<void> {
+    await this.persist(entry)
+    this.store(entry)
+  }
+
+  async list(subscriber: string, query: DeliveryQuery): Promise<DeliveryRecord[]> {
+    return [...(this.entries.get(subscriber) || [])]
+      .reverse()
+      .filter((entry) => !query.status || entry.status === query.status)
+      .slice(0, query.limit)
+  }
+
+  lastStateChange(subscriber: string): DeliveryRecord | undefined {
+    return this.stateChanges.get(subscriber)
+  }
+
+  async close(): Promise<void> {}
+
+  protected store(entry: DeliveryRecord): void {
+    let entries = this.entries.get(entry.subscriber)
+    if (!entries) {
+      entries = []
+      this.entries.set(entry.subscriber, entries)
+    }
+    entries.push(entry)
+    this.size++
+    if (entries.length > this.maxPerSubscriber) {
+      entries.shift()
+      this.size--
+    }
+
+    if (isStateChange(entry)) {
+      this.stateChanges.set(entry.subscriber, entry)
+    }
+  }
+
+  /**
+   * Makes a record durable; nothing to do in memory
+   */
+  protected async persist(_entry: DeliveryRecord): Promise<void> {}
+}
+
+/**
+ * File-backed log: records are appended to an NDJSON file, replayed on
+ * startup and compacted once the file holds twice the kept records.
+ */
+export class FileDeliveryLog extends MemoryDeliveryLog {
+  private lineCount = 0
+  private writeChain: Promise<void> = Promise.resolve()
+
+  constructor(
+    private readonly filePath: string,
+    maxPerSubscriber: number
+  ) {
+    super(maxPerSubscriber)
+  }
+
+  async open(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+
+    let contents = ""
+    try {
+      contents = await fs.readFile(this.filePath, "utf-8")
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error
+      }
+    }
+
+    for (const line of contents.split("\n")) {
+      if (!line) continue
+      try {
+        this.store(JSON.parse(line) as DeliveryRecord)
+      } catch {
+        logger.warn({ filePath: this.filePath }, "Skipping corrupt delivery log entry")
+      }
+    }
+
+    await this.enqueue(() => this.rewrite())
+    logger.info(
+      { filePath: this.filePath, subscribers: this.entries.size, records: this.size },
+      "Loaded delivery log"
+    )
+  }
+
+  async close(): Promise<void> {
+    await this.writeChain.catch(() => undefined)
+  }
+
+  /**
+   * Losing a log line must not fail the delivery: write errors are logged
+   */
+  protected persist(entry: DeliveryRecord): Promise<void> {
+    return this.enqueue(async () => {
+      await fs.appendFile(this.filePath, JSON.stringify(entry) + "\n")
+      this.lineCount++
+    }).catch(() => undefined)
+  }
+
+  protected store(entry: DeliveryRecord): void {
+    super.store(entry)
+
+    if (this.lineCount > this.size * 2 && this.lineCount > 1000) {
+      this.lineCount = 0 // Until the rewrite sets it
+      this.enqueue(() => this.rewrite()).catch(() => undefined) // Logged by enqueue
+    }
+  }
+
+  /**
+   * Rewrites the file with the kept records plus each subscriber's last
+   * state change (atomic rename)
+   */
+  private async rewrite(): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`
+    const kept = [...this.entries.values()].flat()
+    const stateChanges = [...this.stateChanges.values()].filter(
+      (entry) => !kept.includes(entry)
+    )
+    const lines = [...stateChanges, ...kept]
+      .sort((a, b) => a.at.localeCompare(b.at))
+      .map((entry) => JSON.stringify(entry) + "\n")
+
+    await fs.writeFile(tmpPath, lines.join(""))
+    await fs.rename(tmpPath, this.filePath)
+    this.lineCount = lines.length
+  }
+
+  /**
+   * Serializes file writes so appends and rewrites never interleave
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(task)
+    this.writeChain = next.catch((error) => {
+      logger.error({ error, filePath: this.filePath }, "Delivery log write failed")
+    })
+    return next
+  }
+}
+
+export function createDeliveryLog(config: DeliveryLogConfig): DeliveryLog {
+  switch (config.store) {
+    case "memory":
+      return new MemoryDeliveryLog(config.maxPerSubscriber)
+    case "file":
+      return new FileDeliveryLog(config.filePath, config.maxPerSubscriber)
+    default:
+      throw new Error(`Unknown delivery log store: ${config.store}`)
+  }
+}
@@ -0,0 +1,92 @@
+import { collapseNotifications, describeActors } from "./digest-render"
+import { Notification } from "./inbox"
+import { NotificationType } from "../shared/types"
+
+let nextId = 1
+
+function notificationOf(
+  type: NotificationType,
+  minute: number,
+  actor: string,
+  fields: Partial<Notification> = {}
+): Notification {
+  const at = `2025-11-18T10:${String(minute).padStart(2, "0")}:00.000Z`
+  return {
+    id: nextId++,
+    user_id: 1,
+    notification_type: type,
+    read: false,
+    created_at: at,
+    updated_at: at,
+    data: { display_username: actor, topic_title: "Hello" },
+    ...fields,
+  }
+}
+
+describe("collapseNotifications", () => {
+  it("merges likes of one post, naming each actor once, most recent first", () => {
+    const older = notificationOf(NotificationType.LIKED, 1, "alice", { topic_id: 5, post_number: 2 })
+    const newer = notificationOf(NotificationType.LIKED, 3, "bob", { topic_id: 5, post_number: 2 })
+    const again = notificationOf(NotificationType.LIKED, 2, "alice", { topic_id: 5, post_number: 2 })
+    const otherPost = notificationOf(NotificationType.LIKED, 4, "carol", { topic_id: 5, post_number: 3 })
+
+    const [likes] = collapseNotifications([older, newer, again, otherPost])
+
+    expect(likes.notification_type).toBe(NotificationType.LIKED)
+    expect(likes.entries).toHaveLength(2)
+    expect(likes.entries[0]).toMatchObject({ notification_ids: [otherPost.id], actors: ["carol"] })
+    expect(likes.entries[1]).toMatchObject({
+      notification_ids: [newer.id, again.id, older.id],
+      actors: ["bob", "alice"],
+      post_number: 2,
+      created_at: newer.created_at,
+    })
+  })
+
+  it("merges private messages per topic", () => {
+    const first = notificationOf(NotificationType.PRIVATE_MESSAGE, 1, "alice", { topic_id: 9, post_number: 1 })
+    const second = notificationOf(NotificationType.PRIVATE_MESSAGE, 2, "bob", { topic_id: 9, post_number: 2 })
+
+    const [messages] = collapseNotifications([first, second])
+
+    expect(messages.entries).toHaveLength(1)
+    expect(messages.entries[0].actors).toEqual(["bob", "alice"])
+  })
+
+  it("keeps other notifications apart and sorts sections by type", () => {
+    const like = notificationOf(NotificationType.LIKED, 1, "alice", { topic_id: 5, post_number: 2 })
+    const reply = notificationOf(NotificationType.REPLIED, 2, "bob", { topic_id: 5, post_number: 3 })
+    const otherReply = notificationOf(NotificationType.REPLIED, 3, "bob", { topic_id: 5, post_number: 4 })
+    const mention = notificationOf(NotificationType.MENTIONED, 4, "carol")
+
+    const sections = collapseNotifications([like, reply, otherReply, mention])
+
+    expect(sections.map((section) => section.notification_type)).toEqual([
+      NotificationType.MENTIONED,
+      NotificationType.REPLIED,
+      NotificationType.LIKED,
+    ])
+    expect(sections[1].entries.map((entry) => entry.notification_ids)).toEqual([[otherReply.id], [reply.id]])
+  })
+
+  it("does not merge likes without a topic", () => {
+    const sections = collapseNotifications([
+      notificationOf(NotificationType.LIKED, 1, "alice"),
+      notificationOf(NotificationType.LIKED, 2, "bob"),
+    ])
+
+    expect(sections[0].entries).toHaveLength(2)
+  })
+})
+
+describe("describeActors", () => {
+  it.each([
+    [[], "Someone"],
+    [["alice"], "alice"],
+    [["alice", "bob"], "alice and bob"],
+    [["alice", "bob", "carol"], "alice, bob and carol"],
+    [["alice", "bob", "carol", "dave"], "alice, bob and 2 others"],
+  ])("describes %j as %s", (actors, expected) => {
+    expect(describeActors(actors)).toBe(expected)
+  })
+})
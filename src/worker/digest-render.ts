@@ -0,0 +1,320 @@
+import { readFileSync } from "fs"
+import * as path from "path"
+import { NotificationType } from "../shared/types"
+import { Notification } from "./inbox"
+
+/**
+ * Digest rendering
+ *
+ * Notifications are collapsed (several LIKED on one post become one line
+ * naming the likers), grouped into sections by NotificationType and
+ * rendered as plain text and HTML. Templates use {{name}} placeholders;
+ * the built-in ones can be replaced per file from DIGEST_TEMPLATES_DIR:
+ *
+ *   subject.txt              {{count}} {{username}} {{instance}}
+ *   layout.txt, layout.html  {{sections}} plus the subject's placeholders
+ *   section.txt, .html       {{title}} {{items}} {{count}}
+ *   item.txt, item.html      {{summary}} {{url}} {{url_suffix}} {{time}}
+ *   summary.<TYPE>.txt       One line per collapsed entry, e.g.
+ *                            summary.LIKED.txt; summary.txt for the rest.
+ *                            {{actors}} {{count}} {{topic_title}}
+ *                            {{badge_name}} {{excerpt}}
+ *
+ * Placeholders are HTML-escaped in the .html templates.
+ */
+
+export interface DigestEntry {
+  notification_type: NotificationType
+  notification_ids: number[]
+  actors: string[] // Distinct usernames, most recent first
+  topic_id?: number
+  post_number?: number
+  data: Notification["data"] // Of the most recent notification
+  created_at: string // Most recent
+}
+
+export interface DigestSection {
+  notification_type: NotificationType
+  entries: DigestEntry[]
+}
+
+export interface RenderedDigest {
+  subject: string
+  text: string
+  html: string
+}
+
+export interface DigestRenderContext {
+  username?: string
+  instance: string
+  baseUrl?: string // Links are left out without one
+}
+
+type Templates = Record<string, string>
+
+const DEFAULT_TEMPLATES: Templates = {
+  "subject.txt": "{{count}} new notifications",
+  "layout.txt": "Hi {{username}},\n\nHere is what happened since your last summary.\n\n{{sections}}",
+  "layout.html":
+    '<!DOCTYPE html>\n<html><body style="font-family: sans-serif">\n' +
+    "<p>Hi {{username}},</p>\n<p>Here is what happened since your last summary.</p>\n" +
+    "{{sections}}</body></html>\n",
+  "section.txt": "{{title}}\n{{items}}",
+  "section.html": "<h3>{{title}}</h3>\n<ul>\n{{items}}</ul>\n",
+  "item.txt": "- {{summary}}{{url_suffix}}\n",
+  "item.html": '<li><a href="{{url}}">{{summary}}</a></li>\n',
+  "summary.txt": "{{actors}}: {{topic_title}}",
+  "summary.MENTIONED.txt": "{{actors}} mentioned you in {{topic_title}}",
+  "summary.GROUP_MENTIONED.txt": "{{actors}} mentioned your group in {{topic_title}}",
+  "summary.REPLIED.txt": "{{actors}} replied to you in {{topic_title}}",
+  "summary.QUOTED.txt": "{{actors}} quoted you in {{topic_title}}",
+  "summary.LIKED.txt": "{{actors}} liked your post in {{topic_title}}",
+  "summary.REACTION.txt": "{{actors}} reacted to your post in {{topic_title}}",
+  "summary.PRIVATE_MESSAGE.txt": "{{actors}} sent you a message: {{topic_title}}",
+  "summary.INVITED_TO_PRIVATE_MESSAGE.txt": "{{actors}} invited you to the message {{topic_title}}",
+  "summary.INVITED_TO_TOPIC.txt": "{{actors}} invited you to {{topic_title}}",
+  "summary.POSTED.txt": "{{actors}} posted in {{topic_title}}",
+  "summary.WATCHING_FIRST_POST.txt": "New topic: {{topic_title}}",
+  "summary.GRANTED_BADGE.txt": "You earned the {{badge_name}} badge",
+}
+
+const SECTION_TITLES: Partial<Record<NotificationType, string>> = {
+  [NotificationType.MENTIONED]: "Mentions",
+  [NotificationType.GROUP_MENTIONED]: "Group mentions",
+  [NotificationType.REPLIED]: "Replies",
+  [NotificationType.QUOTED]: "Quotes",
+  [NotificationType.LIKED]: "Likes",
+  [NotificationType.REACTION]: "Reactions",
+  [NotificationType.PRIVATE_MESSAGE]: "Messages",
+  [NotificationType.GRANTED_BADGE]: "Badges",
+}
+
+// Types whose notifications on one post are merged into one entry
+const COLLAPSED_BY_POST = new Set<NotificationType>([
+  NotificationType.LIKED,
+  NotificationType.LIKED_CONSOLIDATED,
+  NotificationType.REACTION,
+  NotificationType.EDITED,
+  NotificationType.LINKED,
+])
+
+// Merged per topic: one line for a busy private message or watched topic
+const COLLAPSED_BY_TOPIC = new Set<NotificationType>([
+  NotificationType.PRIVATE_MESSAGE,
+  NotificationType.POSTED,
+  NotificationType.GROUP_MESSAGE_SUMMARY,
+])
+
+const MAX_NAMED_ACTORS = 2
+
+function typeName(type: NotificationType): string {
+  return NotificationType[type] || "UNKNOWN"
+}
+
+function collapseKey(notification: Notification): string {
+  const type = notification.notification_type
+  if (COLLAPSED_BY_POST.has(type) && notification.topic_id !== undefined) {
+    return `${type}|${notification.topic_id}|${notification.post_number ?? ""}`
+  }
+  if (COLLAPSED_BY_TOPIC.has(type) && notification.topic_id !== undefined) {
+    return `${type}|${notification.topic_id}`
+  }
+  return `${type}|#${notification.id}`
+}
+
+function actorOf(notification: Notification): string | undefined {
+  const { display_username, original_username, username } = notification.data as Record<string, unknown>
+  const actor = display_username || original_username || username
+  return typeof actor === "string" && actor ? actor : undefined
+}
+
+/**
+ * Collapses the notifications into entries and groups them by type, in
+ * NotificationType order; entries are most recent first
+ */
+export function collapseNotifications(notifications: Notification[]): DigestSection[] {
+  const entries = new Map<string, DigestEntry>()
+  const newestFirst = [...notifications].sort(
+    (a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id
+  )
+
+  for (const notification of newestFirst) {
+    const key = collapseKey(notification)
+    const actor = actorOf(notification)
+    const entry = entries.get(key)
+
+    if (!entry) {
+      entries.set(key, {
+        notification_type: notification.notification_type,
+        notification_ids: [notification.id],
+        actors: actor ? [actor] : [],
+        topic_id: notification.topic_id,
+        post_number: notification.post_number,
+        data: notification.data,
+        created_at: notification.created_at,
+      })
+      continue
+    }
+
+    entry.notification_ids.push(notification.id)
+    if (actor && !entry.actors.includes(actor)) {
+      entry.actors.push(actor)
+    }
+  }
+
+  const sections = new Map<NotificationType, DigestSection>()
+  for (const entry of entries.values()) {
+    const section = sections.get(entry.notification_type)
+    if (section) {
+      section.entries.push(entry)
+    } else {
+      sections.set(entry.notification_type, { notification_type: entry.notification_type, entries: [entry] })
+    }
+  }
+  return [...sections.values()].sort((a, b) => a.notification_type - b.notification_type)
+}
+
+/**
+ * "alice", "alice and bob", "alice, bob and 3 others"
+ */
+export function describeActors(actors: string[]): string {
+  if (actors.length === 0) return "Someone"
+  if (actors.length <= MAX_NAMED_ACTORS + 1) {
+    return actors.length === 1
+      ? actors[0]
+      : `${actors.slice(0, -1).join(", ")} and ${actors[actors.length - 1]}`
+  }
+
+  const named = actors.slice(0, MAX_NAMED_ACTORS)
+  return `${named.join(", ")} and ${actors.length - named.length} others`
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+/**
+ * Replaces {{name}} placeholders; values marked raw are inserted as is
+ */
+function interpolate(
+  template: string,
+  values: Record<string, string | number | undefined>,
+  escape: (value: string) => string = (value): string => value,
+  raw: string[] = []
+): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => {
+    const value = values[name]
+    if (value === undefined) return ""
+    return raw.includes(name) ? String(value) : escape(String(value))
+  })
+}
+
+function humanize(type: NotificationType): string {
+  const words = typeName(type).toLowerCase().replace(/_/g, " ")
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+function entryUrl(entry: DigestEntry, baseUrl: string | undefined): string | undefined {
+  if (!baseUrl || entry.topic_id === undefined) return undefined
+  const post = entry.post_number !== undefined ? `/${entry.post_number}` : ""
+  return `${baseUrl.replace(/\/$/, "")}/t/${entry.topic_id}${post}`
+}
+
+export class DigestRenderer {
+  private readonly templates: Templates
+
+  /**
+   * Loads the templates in templatesDir over the built-in ones
+   */
+  constructor(templatesDir?: string) {
+    this.templates = { ...DEFAULT_TEMPLATES }
+    if (!templatesDir) return
+
+    const names = [
+      ...Object.keys(DEFAULT_TEMPLATES),
+      ...Object.keys(NotificationType)
+        .filter((name) => !/^\d+$/.test(name))
+        .map((name) => `summary.${name}.txt`),
+    ]
+    for (const name of new Set(names)) {
+      try {
+        this.templates[name] = readFileSync(path.join(templatesDir, name), "utf-8")
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw error
+        }
+      }
+    }
+  }
+
+  render(sections: DigestSection[], context: DigestRenderContext): RenderedDigest {
+    const count = sections.reduce(
+      (total, section) => total + section.entries.reduce((sum, entry) => sum + entry.notification_ids.length, 0),
+      0
+    )
+    const common = { count, username: context.username || "there", instance: context.instance }
+
+    const renderSections = (format: "txt" | "html", escape?: (value: string) => string): string =>
+      sections
+        .map((section) => {
+          const items = section.entries
+            .map((entry) => {
+              const summary = this.summaryOf(entry)
+              const url = entryUrl(entry, context.baseUrl)
+              return interpolate(
+                this.templates[`item.${format}`],
+                {
+                  summary,
+                  url: url || context.baseUrl,
+                  url_suffix: url ? ` (${url})` : undefined,
+                  time: entry.created_at,
+                },
+                escape
+              )
+            })
+            .join("")
+          return interpolate(
+            this.templates[`section.${format}`],
+            {
+              title: SECTION_TITLES[section.notification_type] || humanize(section.notification_type),
+              items,
+              count: section.entries.length,
+            },
+            escape,
+            ["items"]
+          )
+        })
+        .join(format === "txt" ? "\n" : "")
+
+    return {
+      subject: interpolate(this.templates["subject.txt"], common).trim(),
+      text: interpolate(this.templates["layout.txt"], { ...common, sections: renderSections("txt") }),
+      html: interpolate(
+        this.templates["layout.html"],
+        { ...common, sections: renderSections("html", escapeHtml) },
+        escapeHtml,
+        ["sections"]
+      ),
+    }
+  }
+
+  private summaryOf(entry: DigestEntry): string {
+    const template =
+      this.templates[`summary.${typeName(entry.notification_type)}.txt`] || this.templates["summary.txt"]
+    const data = entry.data as Record<string, unknown>
+    const text = (value: unknown): string | undefined => (typeof value === "string" ? value : undefined)
+
+    return interpolate(template, {
+      actors: describeActors(entry.actors),
+      count: entry.notification_ids.length,
+      topic_title: text(data.topic_title) || "a topic",
+      badge_name: text(data.badge_name),
+      excerpt: text(data.excerpt),
+    }).trim()
+  }
+}
@@ -0,0 +1,59 @@
+import { DigestMailer, MemoryDigestStore, getDigestConfigFromEnv } from "./digest"
+import { MailTransport } from "./mail"
+import { registerDefaultProcessors } from "./processors"
+import { ProcessorRegistry } from "./registry"
+import logger from "../shared/logger"
+import { DiscourseWebhookEvent, NotificationType } from "../shared/types"
+
+const AT = "2025-11-18T10:00:00.000Z"
+
+function notificationEvent(id: number, type: NotificationType): DiscourseWebhookEvent {
+  return {
+    event_type: "notification",
+    payload: {
+      notification: {
+        id,
+        user_id: 1,
+        notification_type: type,
+        read: false,
+        created_at: AT,
+        updated_at: AT,
+        data: { display_username: "alice", topic_title: "Hello" },
+        topic_id: 5,
+        post_number: id,
+      },
+    },
+    headers: {
+      "x-discourse-event": "notification",
+      "x-discourse-event-signature": "sha256=00",
+      "x-discourse-event-id": String(id),
+    },
+    received_at: AT,
+  }
+}
+
+describe("digest processor", () => {
+  it("only collects notifications of DIGEST_NOTIFICATION_TYPES", async () => {
+    const config = getDigestConfigFromEnv({
+      DIGEST_STORE: "memory",
+      DIGEST_NOTIFICATION_TYPES: "replied,mentioned",
+    })
+    const store = new MemoryDigestStore(config.maxPerUser)
+    const add = jest.spyOn(store, "add")
+    const transport: MailTransport = { send: jest.fn(), close: jest.fn() }
+    const mailer = new DigestMailer(config, new Map([["default:1", { user_id: 1 }]]), store, transport)
+    const registry = registerDefaultProcessors(new ProcessorRegistry(), { digests: mailer })
+
+    for (const [id, type] of [
+      [1, NotificationType.REPLIED],
+      [2, NotificationType.LIKED],
+      [3, NotificationType.MENTIONED],
+      [4, NotificationType.PRIVATE_MESSAGE],
+    ]) {
+      const result = await registry.process(notificationEvent(id, type), { messageId: `m${id}`, logger })
+      expect(result.success).toBe(true)
+    }
+
+    expect(add.mock.calls.map(([, notification]) => notification.id)).toEqual([1, 3])
+  })
+})
@@ -0,0 +1,623 @@
+import { createHash } from "crypto"
+import { promises as fs, readFileSync } from "fs"
+import * as path from "path"
+import logger from "../shared/logger"
+import { errorMessage } from "../shared/retry"
+import {
+  DiscourseWebhookEvent,
+  NotificationType,
+  ProcessingResult,
+} from "../shared/types"
+import { payloadOf } from "../shared/validation"
+import { DigestRenderer, collapseNotifications } from "./digest-render"
+import { DEFAULT_INBOX_INSTANCE, Notification } from "./inbox"
+import {
+  MailConfig,
+  MailTransport,
+  getMailConfigFromEnv,
+  mailAddressOf,
+} from "./mail"
+import { Processor } from "./registry"
+
+/**
+ * Notification digests (User Notification Aggregation)
+ *
+ * Users listed in DIGEST_USERS_FILE get one summary email per window:
+ * their notifications are collected from the first one on, and
+ * DIGEST_WINDOW_MS later the digest is rendered and mailed.
+ * Notifications read in the meantime are left out. Addresses come from the
+ * users file or from the latest user event carrying the user's email.
+ *
+ * Sent digests are recorded with the notifications they contained, so a
+ * redelivered notification or a restart never mails them again. The
+ * Message-ID is derived from the contents, letting a mail server drop the
+ * copy sent if the worker died between sending and recording.
+ */
+
+export interface DigestUser {
+  user_id: number
+  instance?: string // Default "default"
+  email?: string // Else taken from user events
+}
+
+export interface Recipient {
+  email: string
+  username?: string
+}
+
+export interface PendingDigest {
+  instance: string
+  user_id: number
+  opened_at: string // When the first notification arrived
+  notifications: Notification[]
+}
+
+export type DigestOutcome = "sent" | "failed"
+
+export interface SentDigest {
+  id: string
+  instance: string
+  user_id: number
+  status: DigestOutcome // "failed": given up after maxAttempts
+  to?: string
+  notification_ids: number[]
+  at: string
+  error?: string
+}
+
+export type AddResult = "added" | "updated" | "removed" | "ignored"
+
+export interface DigestStore {
+  open(): Promise<void>
+  /** Adds or updates a pending notification; a read one is removed */
+  add(instance: string, notification: Notification, at: string): Promise<AddResult>
+  setRecipient(instance: string, userId: number, recipient: Recipient): Promise<void>
+  recipientOf(instance: string, userId: number): Recipient | undefined
+  /** Digests whose window closed at or before `before` */
+  due(before: string): PendingDigest[]
+  /** Records the outcome and clears the digest's notifications */
+  complete(digest: SentDigest): Promise<void>
+  close(): Promise<void>
+}
+
+export type DigestStoreType = "memory" | "file"
+
+export interface DigestConfig {
+  usersFile?: string // No digests without one
+  windowMs: number
+  notificationTypes?: NotificationType[] // All when unset
+  checkIntervalMs: number
+  maxPerUser: number // Pending notifications kept per user (oldest dropped)
+  maxAttempts: number // Sends of one digest before it is given up
+  store: DigestStoreType
+  filePath: string
+  baseUrl?: string // Forum URL for links, e.g. https://forum.example.com
+  templatesDir?: string
+  mail: MailConfig
+}
+
+type DigestLogEntry =
+  | { kind: "pending"; instance: string; notification: Notification; at: string }
+  | { kind: "removed"; instance: string; user_id: number; notification_id: number }
+  | { kind: "recipient"; instance: string; user_id: number; recipient: Recipient }
+  | { kind: "completed"; digest: SentDigest }
+
+interface PendingNotification {
+  notification: Notification
+  at: string
+}
+
+const SENT_KEPT_PER_USER = 20
+
+export function getDigestConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): DigestConfig {
+  return {
+    usersFile: env.DIGEST_USERS_FILE || undefined,
+    windowMs: parseInt(env.DIGEST_WINDOW_MS || "86400000", 10), // 1 day
+    notificationTypes: env.DIGEST_NOTIFICATION_TYPES
+      ? env.DIGEST_NOTIFICATION_TYPES.split(",").map((value) => parseDigestType(value.trim()))
+      : undefined,
+    checkIntervalMs: parseInt(env.DIGEST_CHECK_INTERVAL_MS || "60000", 10),
+    maxPerUser: parseInt(env.DIGEST_MAX_PER_USER || "200", 10),
+    maxAttempts: parseInt(env.DIGEST_MAX_ATTEMPTS || "10", 10),
+    store: (env.DIGEST_STORE as DigestStoreType) || "file",
+    filePath: env.DIGEST_FILE_PATH || "./data/digests.ndjson",
+    baseUrl: env.DIGEST_BASE_URL || undefined,
+    templatesDir: env.DIGEST_TEMPLATES_DIR || undefined,
+    mail: getMailConfigFromEnv(env),
+  }
+}
+
+function parseDigestType(value: string): NotificationType {
+  const type = /^\d+$/.test(value)
+    ? Number(value)
+    : NotificationType[value.toUpperCase() as keyof typeof NotificationType]
+  if (type === undefined) {
+    throw new Error(`DIGEST_NOTIFICATION_TYPES: unknown notification type ${value}`)
+  }
+  return type
+}
+
+function userKey(instance: string, userId: number): string {
+  return `${instance}:${userId}`
+}
+
+/**
+ * Reads the users who want digests
+ */
+export function loadDigestUsers(config: DigestConfig): Map<string, DigestUser> {
+  if (!config.usersFile) {
+    return new Map()
+  }
+
+  const users = JSON.parse(readFileSync(config.usersFile, "utf-8")) as DigestUser[]
+  if (!Array.isArray(users)) {
+    throw new Error(`${config.usersFile} must contain an array of { user_id, instance?, email? }`)
+  }
+
+  return new Map(
+    users.map((user) => {
+      if (!Number.isInteger(user.user_id)) {
+        throw new Error(`${config.usersFile}: every entry needs a numeric user_id`)
+      }
+      return [userKey(user.instance || DEFAULT_INBOX_INSTANCE, user.user_id), user]
+    })
+  )
+}
+
+/**
+ * Id of a digest: the same user and notifications always give the same id
+ */
+export function digestIdOf(instance: string, userId: number, notificationIds: number[]): string {
+  const ids = [...notificationIds].sort((a, b) => a - b).join(",")
+  return createHash("sha256").update(`${instance}:${userId}:${ids}`).digest("hex").slice(0, 32)
+}
+
+/**
+ * In-memory digest state. Each user keeps at most maxPerUser pending
+ * notifications and the last few completed digests.
+ */
+export class MemoryDigestStore implements DigestStore {
+  protected readonly pending = new Map<string, Map<number, PendingNotification>>()
+  protected readonly recipients = new Map<string, Recipient>()
+  protected readonly completed = new Map<string, SentDigest[]>()
+
+  constructor(protected readonly maxPerUser: number) {}
+
+  async open(): Promise<void> {}
+
+  async add(instance: string, notification: Notification, at: string): Promise<AddResult> {
+    const key = userKey(instance, notification.user_id)
+    const existing = this.pending.get(key)?.get(notification.id)
+
+    if (notification.read) {
+      if (!existing) return "ignored"
+      await this.write([{ kind: "removed", instance, user_id: notification.user_id, notification_id: notification.id }])
+      return "removed"
+    }
+
+    const included = this.completed
+      .get(key)
+      ?.some((digest) => digest.notification_ids.includes(notification.id))
+    if (included || (existing && existing.notification.updated_at >= notification.updated_at)) {
+      return "ignored" // Already mailed, or a redelivery
+    }
+
+    await this.write([{ kind: "pending", instance, notification, at: existing?.at || at }])
+    return existing ? "updated" : "added"
+  }
+
+  async setRecipient(instance: string, userId: number, recipient: Recipient): Promise<void> {
+    const existing = this.recipients.get(userKey(instance, userId))
+    if (existing?.email === recipient.email && existing?.username === recipient.username) {
+      return
+    }
+    await this.write([{ kind: "recipient", instance, user_id: userId, recipient }])
+  }
+
+  recipientOf(instance: string, userId: number): Recipient | undefined {
+    return this.recipients.get(userKey(instance, userId))
+  }
+
+  due(before: string): PendingDigest[] {
+    const digests: PendingDigest[] = []
+
+    for (const [key, notifications] of this.pending) {
+      const entries = [...notifications.values()]
+      const openedAt = entries.reduce((oldest, entry) => (entry.at < oldest ? entry.at : oldest), entries[0].at)
+      if (openedAt > before) continue
+
+      const separator = key.lastIndexOf(":")
+      digests.push({
+        instance: key.slice(0, separator),
+        user_id: parseInt(key.slice(separator + 1), 10),
+        opened_at: openedAt,
+        notifications: entries.map((entry) => entry.notification),
+      })
+    }
+    return digests
+  }
+
+  async complete(digest: SentDigest): Promise<void> {
+    await this.write([{ kind: "completed", digest }])
+  }
+
+  async close(): Promise<void> {}
+
+  /**
+   * Persists the entries, then applies them; if the write fails nothing
+   * changed
+   */
+  protected async write(entries: DigestLogEntry[]): Promise<void> {
+    await this.persist(entries)
+    entries.forEach((entry) => this.apply(entry))
+  }
+
+  protected apply(entry: DigestLogEntry): void {
+    switch (entry.kind) {
+      case "pending": {
+        const key = userKey(entry.instance, entry.notification.user_id)
+        let notifications = this.pending.get(key)
+        if (!notifications) {
+          notifications = new Map()
+          this.pending.set(key, notifications)
+        }
+        notifications.set(entry.notification.id, { notification: entry.notification, at: entry.at })
+
+        if (notifications.size > this.maxPerUser) {
+          const [oldest] = [...notifications.entries()].sort(
+            ([, a], [, b]) => a.notification.created_at.localeCompare(b.notification.created_at)
+          )
+          notifications.delete(oldest[0])
+        }
+        break
+      }
+      case "removed":
+        this.removePending(userKey(entry.instance, entry.user_id), [entry.notification_id])
+        break
+      case "recipient":
+        this.recipients.set(userKey(entry.instance, entry.user_id), entry.recipient)
+        break
+      case "completed": {
+        const key = userKey(entry.digest.instance, entry.digest.user_id)
+        this.removePending(key, entry.digest.notification_ids)
+
+        const history = [...(this.completed.get(key) || []), entry.digest]
+        this.completed.set(key, history.slice(-SENT_KEPT_PER_USER))
+        break
+      }
+    }
+  }
+
+  /**
+   * Entries that recreate the current state
+   */
+  protected snapshot(): DigestLogEntry[] {
+    const entries: DigestLogEntry[] = []
+    for (const [key, recipient] of this.recipients) {
+      const separator = key.lastIndexOf(":")
+      entries.push({
+        kind: "recipient",
+        instance: key.slice(0, separator),
+        user_id: parseInt(key.slice(separator + 1), 10),
+        recipient,
+      })
+    }
+    for (const history of this.completed.values()) {
+      entries.push(...history.map((digest): DigestLogEntry => ({ kind: "completed", digest })))
+    }
+    for (const [key, notifications] of this.pending) {
+      const instance = key.slice(0, key.lastIndexOf(":"))
+      for (const { notification, at } of notifications.values()) {
+        entries.push({ kind: "pending", instance, notification, at })
+      }
+    }
+    return entries
+  }
+
+  /**
+   * Makes entries durable; nothing to do in memory
+   */
+  protected async persist(_entries: DigestLogEntry[]): Promise<void> {}
+
+  private removePending(key: string, ids: number[]): void {
+    const notifications = this.pending.get(key)
+    if (!notifications) return
+
+    ids.forEach((id) => notifications.delete(id))
+    if (notifications.size === 0) {
+      this.pending.delete(key)
+    }
+  }
+}
+
+/**
+ * File-backed digest state: entries are appended to an NDJSON log,
+ * replayed on startup and compacted once the log grew to twice its size
+ * after the last compaction
+ */
+export class FileDigestStore extends MemoryDigestStore {
+  private lineCount = 0
+  private compactAbove = 0
+  private writeChain: Promise<void> = Promise.resolve()
+
+  constructor(
+    private readonly filePath: string,
+    maxPerUser: number
+  ) {
+    super(maxPerUser)
+  }
+
+  async open(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+
+    let contents = ""
+    try {
+      contents = await fs.readFile(this.filePath, "utf-8")
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error
+      }
+    }
+
+    for (const line of contents.split("\n")) {
+      if (!line) continue
+      try {
+        this.apply(JSON.parse(line) as DigestLogEntry)
+      } catch {
+        logger.warn({ filePath: this.filePath }, "Skipping corrupt digest entry")
+      }
+    }
+
+    await this.enqueue(() => this.rewrite())
+    logger.info(
+      { filePath: this.filePath, pendingUsers: this.pending.size, recipients: this.recipients.size },
+      "Loaded digest state"
+    )
+  }
+
+  async close(): Promise<void> {
+    await this.writeChain.catch(() => undefined)
+  }
+
+  /**
+   * Appends the entries; a failed write fails the operation (and the
+   * message is retried)
+   */
+  protected persist(entries: DigestLogEntry[]): Promise<void> {
+    return this.enqueue(async () => {
+      await fs.appendFile(this.filePath, entries.map((entry) => JSON.stringify(entry) + "\n").join(""))
+      this.lineCount += entries.length
+
+      if (this.lineCount > this.compactAbove) {
+        await this.rewrite()
+      }
+    })
+  }
+
+  /**
+   * Rewrites the log with only the current state (atomic rename)
+   */
+  private async rewrite(): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`
+    const lines = this.snapshot().map((entry) => JSON.stringify(entry) + "\n")
+    await fs.writeFile(tmpPath, lines.join(""))
+    await fs.rename(tmpPath, this.filePath)
+    this.lineCount = lines.length
+    this.compactAbove = Math.max(lines.length * 2, 1000)
+  }
+
+  /**
+   * Serializes file writes so appends and rewrites never interleave
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(task)
+    this.writeChain = next.catch((error) => {
+      logger.error({ error, filePath: this.filePath }, "Digest write failed")
+    })
+    return next
+  }
+}
+
+export function createDigestStore(config: DigestConfig): DigestStore {
+  switch (config.store) {
+    case "memory":
+      return new MemoryDigestStore(config.maxPerUser)
+    case "file":
+      return new FileDigestStore(config.filePath, config.maxPerUser)
+    default:
+      throw new Error(`Unknown digest store: ${config.store}`)
+  }
+}
+
+/**
+ * Collects notifications for the digest users and mails each digest once
+ * its window closed
+ */
+export class DigestMailer {
+  private timer: NodeJS.Timeout | null = null
+  private flushing: Promise<number> | null = null
+  private readonly attempts = new Map<string, number>() // Digest id -> failed sends
+  private readonly unaddressed = new Set<string>() // Users warned about a missing email
+  private readonly messageDomain: string
+
+  constructor(
+    private readonly config: DigestConfig,
+    private readonly users: Map<string, DigestUser>,
+    private readonly store: DigestStore,
+    private readonly transport: MailTransport,
+    private readonly renderer: DigestRenderer = new DigestRenderer(config.templatesDir)
+  ) {
+    this.messageDomain = mailAddressOf(config.mail.from).split("@")[1] || "localhost"
+  }
+
+  get notificationTypes(): NotificationType[] | undefined {
+    return this.config.notificationTypes
+  }
+
+  wants(instance: string, userId: number): boolean {
+    return this.users.has(userKey(instance, userId))
+  }
+
+  add(instance: string, notification: Notification): Promise<AddResult> {
+    return this.store.add(instance, notification, new Date().toISOString())
+  }
+
+  async updateRecipient(instance: string, userId: number, recipient: Recipient): Promise<void> {
+    await this.store.setRecipient(instance, userId, recipient)
+  }
+
+  /**
+   * Checks for closed windows every checkIntervalMs
+   */
+  start(): void {
+    this.timer = setInterval(() => {
+      this.flush().catch((error) => logger.error({ error }, "Digest check failed"))
+    }, this.config.checkIntervalMs)
+    this.timer.unref()
+
+    logger.info(
+      { users: this.users.size, windowMs: this.config.windowMs, transport: this.config.mail.transport },
+      "Notification digests started"
+    )
+  }
+
+  /**
+   * Mails every digest whose window closed; returns how many were sent.
+   * A failed send is retried on the next check.
+   */
+  flush(now: number = Date.now()): Promise<number> {
+    if (!this.flushing) {
+      this.flushing = this.sendDue(now).finally(() => {
+        this.flushing = null
+      })
+    }
+    return this.flushing
+  }
+
+  async close(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    await this.flushing?.catch(() => undefined)
+    await this.transport.close()
+  }
+
+  private async sendDue(now: number): Promise<number> {
+    let sent = 0
+    const before = new Date(now - this.config.windowMs).toISOString()
+
+    for (const pending of this.store.due(before)) {
+      const ids = pending.notifications.map((notification) => notification.id)
+      const id = digestIdOf(pending.instance, pending.user_id, ids)
+      const outcome = { id, instance: pending.instance, user_id: pending.user_id, notification_ids: ids }
+
+      const user = this.users.get(userKey(pending.instance, pending.user_id))
+      const recipient = this.store.recipientOf(pending.instance, pending.user_id)
+      const email = user?.email || recipient?.email
+      if (!email) {
+        const key = userKey(pending.instance, pending.user_id)
+        if (!this.unaddressed.has(key)) {
+          this.unaddressed.add(key)
+          logger.warn(
+            { instance: pending.instance, userId: pending.user_id, notifications: ids.length },
+            "No email address for digest yet"
+          )
+        }
+        continue
+      }
+
+      try {
+        const rendered = this.renderer.render(collapseNotifications(pending.notifications), {
+          username: recipient?.username,
+          instance: pending.instance,
+          baseUrl: this.config.baseUrl,
+        })
+        await this.transport.send({
+          from: this.config.mail.from,
+          to: email,
+          subject: rendered.subject,
+          text: rendered.text,
+          html: rendered.html,
+          messageId: `digest-${id}@${this.messageDomain}`,
+          headers: { "X-Discourse-Digest-Id": id },
+        })
+
+        this.attempts.delete(id)
+        await this.store.complete({ ...outcome, status: "sent", to: email, at: new Date().toISOString() })
+        sent++
+        logger.info(
+          { digestId: id, instance: pending.instance, userId: pending.user_id, notifications: ids.length },
+          "Digest sent"
+        )
+      } catch (error) {
+        const attempts = (this.attempts.get(id) || 0) + 1
+        this.attempts.set(id, attempts)
+        logger.warn(
+          { digestId: id, userId: pending.user_id, attempts, error: errorMessage(error) },
+          "Digest send failed"
+        )
+
+        if (attempts >= this.config.maxAttempts) {
+          this.attempts.delete(id)
+          await this.store.complete({
+            ...outcome,
+            status: "failed",
+            to: email,
+            at: new Date().toISOString(),
+            error: errorMessage(error),
+          })
+          logger.error({ digestId: id, userId: pending.user_id }, "Digest given up")
+        }
+      }
+    }
+
+    return sent
+  }
+}
+
+function processed(event: DiscourseWebhookEvent): ProcessingResult {
+  return {
+    success: true,
+    message_id: event.headers["x-discourse-event-id"] || "unknown",
+    event_type: event.event_type,
+    processed_at: new Date().toISOString(),
+  }
+}
+
+/**
+ * Processor that collects notifications of the digest users
+ */
+export function digestProcessor(mailer: DigestMailer): Processor {
+  return async (event, context): Promise<ProcessingResult> => {
+    const { notification } = payloadOf(event, "notification")
+    const instance = context.tenant?.id || DEFAULT_INBOX_INSTANCE
+
+    if (mailer.wants(instance, notification.user_id)) {
+      const result = await mailer.add(instance, notification)
+      context.logger.debug(
+        { notificationId: notification.id, userId: notification.user_id, instance, result },
+        "Notification collected for digest"
+      )
+    }
+    return processed(event)
+  }
+}
+
+/**
+ * Processor that keeps the digest users' email addresses current from
+ * user events
+ */
+export function digestRecipientProcessor(mailer: DigestMailer): Processor {
+  return async (event, context): Promise<ProcessingResult> => {
+    const { user } = payloadOf(event, "user")
+    const instance = context.tenant?.id || DEFAULT_INBOX_INSTANCE
+
+    if (user.email && mailer.wants(instance, user.id)) {
+      await mailer.updateRecipient(instance, user.id, { email: user.email, username: user.username })
+    }
+    return processed(event)
+  }
+}
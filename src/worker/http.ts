@@ -0,0 +1,162 @@
+import Fastify, { FastifyInstance, FastifyReply, FastifyRequest } from "fastify"
+import { METRICS_CONTENT_TYPE, metrics } from "../shared/metrics"
+import {
+  CheckResult,
+  HealthRoutesOptions,
+  ReadinessCheck,
+  ageMs,
+  registerHealthRoutes,
+} from "../shared/health"
+import { QueueDepth } from "../shared/transport"
+import { MonitoredQueue } from "./metrics"
+
+/**
+ * Worker HTTP port for operations endpoints (GET /metrics, /livez, /readyz
+ * and /status), separate from the inbox API so it can stay unauthenticated
+ * and off the public network
+ */
+
+export interface WorkerHttpConfig {
+  port: number // 0 disables the port
+  readyMaxBacklog: number // Ready messages above which /readyz warns
+  readyMaxIdleMs: number // /readyz fails when messages wait and none succeeded for this long
+}
+
+export function getWorkerHttpConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): WorkerHttpConfig {
+  return {
+    port: parseInt(env.WORKER_HTTP_PORT || "3002", 10),
+    readyMaxBacklog: parseInt(env.WORKER_READY_MAX_BACKLOG || "10000", 10),
+    readyMaxIdleMs: parseInt(env.WORKER_READY_MAX_IDLE_MS || "300000", 10), // 5 minutes
+  }
+}
+
+// Readiness probes and /status share one depth read per second
+const DEPTH_CACHE_MS = 1000
+
+/**
+ * When the worker last finished a message (processed or skipped as a
+ * duplicate) and last failed one
+ */
+export class MessageActivity {
+  readonly startedAt = new Date()
+  lastSucceededAt?: Date
+  lastFailedAt?: Date
+
+  succeeded(): void {
+    this.lastSucceededAt = new Date()
+  }
+
+  failed(): void {
+    this.lastFailedAt = new Date()
+  }
+}
+
+export interface WorkerReadinessSources {
+  queue: MonitoredQueue // The consumed event queue
+  auxiliaryQueues: MonitoredQueue[] // Push fan-out and outbound subscriber queues
+  activity: MessageActivity
+  inFlight: () => number
+}
+
+/**
+ * Reads the main queue's depth, at most once per DEPTH_CACHE_MS
+ */
+function cachedQueueDepth(queue: MonitoredQueue): () => Promise<QueueDepth> {
+  let cached: { at: number; depth: Promise<QueueDepth> } | undefined
+  return () => {
+    const now = Date.now()
+    if (!cached || now - cached.at > DEPTH_CACHE_MS) {
+      cached = { at: now, depth: queue.transport.queueDepth() }
+      cached.depth.catch(() => (cached = undefined))
+    }
+    return cached.depth
+  }
+}
+
+/**
+ * The worker is ready while its broker connection is up and its consumer
+ * registered, and it is not stuck: with messages waiting or in flight, one
+ * must have succeeded within readyMaxIdleMs (counted from startup until
+ * the first). A backlog over readyMaxBacklog and disconnected push or
+ * outbound queues only warn, since taking the worker out of rotation
+ * would not help either.
+ */
+export function workerReadinessChecks(
+  config: WorkerHttpConfig,
+  sources: WorkerReadinessSources
+): Record<string, ReadinessCheck> {
+  const { queue, activity } = sources
+  const queueDepth = cachedQueueDepth(queue)
+
+  return {
+    broker: (): CheckResult => {
+      const { transport, state, reconnect_attempt } = queue.transport.getHealth()
+      return {
+        status: queue.transport.isConnected() ? "pass" : "fail",
+        transport,
+        state,
+        reconnect_attempt,
+      }
+    },
+    consumer: (): CheckResult => {
+      const { consumers } = queue.transport.getHealth()
+      return { status: consumers > 0 ? "pass" : "fail", queue: queue.name, consumers }
+    },
+    backlog: async (): Promise<CheckResult> => {
+      if (!queue.transport.isConnected()) {
+        return { status: "warn", error: "Queue depth unavailable while disconnected" }
+      }
+      try {
+        const depth = await queueDepth()
+        return {
+          status: depth.ready > config.readyMaxBacklog ? "warn" : "pass",
+          ...depth,
+          max_ready: config.readyMaxBacklog,
+        }
+      } catch (error) {
+        return { status: "warn", error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+    last_message: async (): Promise<CheckResult> => {
+      const inFlight = sources.inFlight()
+      const ready = queue.transport.isConnected()
+        ? await queueDepth().then((depth) => depth.ready, () => 0)
+        : 0
+      const idleMs = ageMs(activity.lastSucceededAt ?? activity.startedAt) ?? 0
+      const stuck = ready + inFlight > 0 && idleMs > config.readyMaxIdleMs
+      return {
+        status: stuck ? "fail" : "pass",
+        last_succeeded_at: activity.lastSucceededAt?.toISOString() ?? null,
+        last_failed_at: activity.lastFailedAt?.toISOString() ?? null,
+        idle_ms: idleMs,
+        max_idle_ms: config.readyMaxIdleMs,
+        waiting: ready,
+        in_flight: inFlight,
+      }
+    },
+    auxiliary_queues: (): CheckResult => {
+      const disconnected = sources.auxiliaryQueues
+        .filter(({ transport }) => !transport.isConnected())
+        .map(({ name }) => name)
+      return {
+        status: disconnected.length > 0 ? "warn" : "pass",
+        queues: sources.auxiliaryQueues.length,
+        disconnected,
+      }
+    },
+  }
+}
+
+export function createWorkerHttpServer(health: HealthRoutesOptions): FastifyInstance {
+  const app = Fastify({ logger: false })
+
+  app.get("/metrics", async (_request: FastifyRequest, reply: FastifyReply) => {
+    return reply.type(METRICS_CONTENT_TYPE).send(await metrics.render())
+  })
+
+  registerHealthRoutes(app, health)
+
+  return app
+}
@@ -0,0 +1,192 @@
+/**
+ * Notification inbox API, served by the worker
+ *
+ *   GET  /users/:userId/notifications               ?instance&types&unread&limit&cursor
+ *   GET  /users/:userId/notifications/unread-count  ?instance
+ *   POST /users/:userId/notifications/read          ?instance  { "ids": [1, 2] } (all if omitted)
+ *
+ * `instance` is the tenant id of the Discourse instance ("default" in
+ * single-instance mode). `types` takes NotificationType numbers or names
+ * ("1,REPLIED"). Marking read only changes the inbox, not Discourse.
+ */
+
+import Fastify, { FastifyInstance, FastifyReply, FastifyRequest } from "fastify"
+import { timingSafeEqual } from "crypto"
+import { NotificationType } from "../shared/types"
+import { DEFAULT_INBOX_INSTANCE, NotificationStore } from "./inbox"
+
+export interface InboxApiConfig {
+  port: number // 0 disables the API
+  host: string
+  token?: string // Bearer token required on every request; optional on loopback only
+  defaultLimit: number
+  maxLimit: number
+}
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "::1", "localhost"]
+
+/**
+ * The API also serves the subscriber admin routes, so it refuses to start
+ * without INBOX_API_TOKEN unless only reachable from the host itself
+ */
+export function getInboxApiConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): InboxApiConfig {
+  const config: InboxApiConfig = {
+    port: parseInt(env.INBOX_API_PORT || "3001", 10),
+    host: env.INBOX_API_HOST || "0.0.0.0",
+    token: env.INBOX_API_TOKEN || undefined,
+    defaultLimit: 20,
+    maxLimit: 100,
+  }
+
+  if (config.port > 0 && !config.token && !LOOPBACK_HOSTS.includes(config.host)) {
+    throw new Error(
+      `INBOX_API_TOKEN is required when the inbox API listens on ${config.host}; ` +
+        "set it, or bind the API to localhost with INBOX_API_HOST=127.0.0.1"
+    )
+  }
+  return config
+}
+
+interface UserParams {
+  userId: string
+}
+
+interface InboxQuerystring {
+  instance?: string
+  types?: string
+  unread?: string
+  limit?: string
+  cursor?: string
+}
+
+class BadRequestError extends Error {}
+
+function parseUserId(value: string): number {
+  const userId = Number(value)
+  if (!Number.isInteger(userId)) {
+    throw new BadRequestError(`Invalid user id: ${value}`)
+  }
+  return userId
+}
+
+function parseTypes(value: string | undefined): NotificationType[] | undefined {
+  if (!value) return undefined
+
+  return value.split(",").map((item) => {
+    const name = item.trim()
+    const type = /^\d+$/.test(name)
+      ? Number(name)
+      : NotificationType[name.toUpperCase() as keyof typeof NotificationType]
+    if (type === undefined) {
+      throw new BadRequestError(`Unknown notification type: ${item}`)
+    }
+    return type
+  })
+}
+
+function tokenMatches(header: string | undefined, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`)
+  const actual = Buffer.from(header || "")
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+/**
+ * Requires INBOX_API_TOKEN on every route of the scope (unset only when
+ * the API is bound to localhost)
+ */
+export function requireApiToken(scope: FastifyInstance, token: string | undefined): void {
+  if (!token) return
+
+  scope.addHook("onRequest", async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!tokenMatches(request.headers.authorization, token)) {
+      return reply.code(401).send({ error: "Unauthorized", message: "Invalid API token" })
+    }
+  })
+}
+
+export function createInboxApi(
+  store: NotificationStore,
+  config: InboxApiConfig
+): FastifyInstance {
+  const app = Fastify({ logger: false })
+
+  app.setErrorHandler((error, _request, reply) => {
+    if (error instanceof BadRequestError) {
+      return reply.code(400).send({ error: "Bad Request", message: error.message })
+    }
+    return reply.code(error.statusCode || 500).send({
+      error: error.statusCode ? error.name : "Internal Server Error",
+      message: error.message,
+    })
+  })
+
+  // Encapsulated so the token only guards the inbox routes
+  app.register(async (inbox) => {
+    requireApiToken(inbox, config.token)
+
+    inbox.get(
+      "/users/:userId/notifications",
+      async (request: FastifyRequest<{ Params: UserParams; Querystring: InboxQuerystring }>) => {
+        const { instance, types, unread, limit, cursor } = request.query
+        const pageSize = limit ? parseInt(limit, 10) : config.defaultLimit
+        if (!Number.isInteger(pageSize) || pageSize < 1) {
+          throw new BadRequestError(`Invalid limit: ${limit}`)
+        }
+
+        return store.list(instance || DEFAULT_INBOX_INSTANCE, parseUserId(request.params.userId), {
+          types: parseTypes(types),
+          unreadOnly: unread === "true",
+          limit: Math.min(pageSize, config.maxLimit),
+          cursor,
+        })
+      }
+    )
+
+    inbox.get(
+      "/users/:userId/notifications/unread-count",
+      async (request: FastifyRequest<{ Params: UserParams; Querystring: InboxQuerystring }>) => {
+        const counts = await store.unreadCounts(
+          request.query.instance || DEFAULT_INBOX_INSTANCE,
+          parseUserId(request.params.userId)
+        )
+
+        return {
+          unread_count: Object.values(counts).reduce((sum, count) => sum + (count || 0), 0),
+          by_type: Object.fromEntries(
+            Object.entries(counts).map(([type, count]) => [
+              NotificationType[Number(type)] || type,
+              count,
+            ])
+          ),
+        }
+      }
+    )
+
+    inbox.post(
+      "/users/:userId/notifications/read",
+      async (
+        request: FastifyRequest<{
+          Params: UserParams
+          Querystring: InboxQuerystring
+          Body: { ids?: number[] } | undefined
+        }>
+      ) => {
+        const ids = request.body?.ids
+        if (ids !== undefined && (!Array.isArray(ids) || !ids.every(Number.isInteger))) {
+          throw new BadRequestError("ids must be an array of notification ids")
+        }
+
+        const marked = await store.markRead(
+          request.query.instance || DEFAULT_INBOX_INSTANCE,
+          parseUserId(request.params.userId),
+          ids
+        )
+        return { marked }
+      }
+    )
+  })
+
+  return app
+}
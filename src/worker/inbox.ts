@@ -0,0 +1,365 @@
+import { promises as fs } from "fs"
+import * as path from "path"
+import logger from "../shared/logger"
+import {
+  DiscourseNotificationPayload,
+  NotificationType,
+  ProcessingResult,
+} from "../shared/types"
+import { payloadOf } from "../shared/validation"
+import { Processor } from "./registry"
+
+/**
+ * Per-user notification inbox (User Notification Aggregation)
+ *
+ * The worker upserts every notification event into the inbox of its
+ * recipient, keyed on instance + notification.user_id. Redeliveries and
+ * updates of the same notification.id replace the stored one unless they
+ * are older; once read (in Discourse or through the API) a notification
+ * stays read.
+ */
+
+export type Notification = DiscourseNotificationPayload["notification"]
+
+export interface InboxNotification extends Notification {
+  instance: string // Tenant id of the Discourse instance
+  read_at?: string // Set when marked read through the inbox API
+}
+
+export interface InboxQuery {
+  types?: NotificationType[]
+  unreadOnly?: boolean
+  limit: number
+  cursor?: string // next_cursor of the previous page
+}
+
+export interface InboxPage {
+  notifications: InboxNotification[]
+  unread_count: number // Across all pages, with the same type filter
+  next_cursor?: string
+}
+
+export type UpsertResult = "created" | "updated" | "unchanged"
+
+export interface NotificationStore {
+  open(): Promise<void>
+  upsert(instance: string, notification: Notification): Promise<UpsertResult>
+  /** Newest first */
+  list(instance: string, userId: number, query: InboxQuery): Promise<InboxPage>
+  unreadCounts(instance: string, userId: number): Promise<Partial<Record<NotificationType, number>>>
+  /** Marks the given notifications (all when ids is undefined) read; returns how many changed */
+  markRead(instance: string, userId: number, ids?: number[]): Promise<number>
+  close(): Promise<void>
+}
+
+export type NotificationStoreType = "memory" | "file"
+
+export interface InboxConfig {
+  store: NotificationStoreType
+  filePath: string
+  maxPerUser: number
+}
+
+// Messages queued before the handler resolved instances carry no tenant
+export const DEFAULT_INBOX_INSTANCE = "default"
+
+const DEFAULT_MAX_PER_USER = 500
+
+export function getInboxConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): InboxConfig {
+  return {
+    store: (env.INBOX_STORE as NotificationStoreType) || "file",
+    filePath: env.INBOX_FILE_PATH || "./data/inbox.ndjson",
+    maxPerUser: parseInt(
+      env.INBOX_MAX_PER_USER || String(DEFAULT_MAX_PER_USER),
+      10
+    ),
+  }
+}
+
+function userKey(instance: string, userId: number): string {
+  return `${instance}:${userId}`
+}
+
+// Newest first; the id breaks ties between notifications of the same instant
+function newestFirst(a: InboxNotification, b: InboxNotification): number {
+  return b.created_at.localeCompare(a.created_at) || b.id - a.id
+}
+
+function cursorOf(notification: InboxNotification): string {
+  return Buffer.from(`${notification.created_at}|${notification.id}`).toString("base64url")
+}
+
+function isAfterCursor(notification: InboxNotification, cursor: string): boolean {
+  const [createdAt, id] = Buffer.from(cursor, "base64url").toString("utf-8").split("|")
+  return notification.created_at < createdAt ||
+    (notification.created_at === createdAt && notification.id < parseInt(id, 10))
+}
+
+/**
+ * In-memory inbox. Each user keeps at most maxPerUser notifications; the
+ * oldest are dropped first.
+ */
+export class MemoryNotificationStore implements NotificationStore {
+  protected readonly inboxes = new Map<string, Map<number, InboxNotification>>()
+  protected size = 0
+  private mutationChain: Promise<unknown> = Promise.resolve()
+
+  constructor(protected readonly maxPerUser: number) {}
+
+  async open(): Promise<void> {}
+
+  upsert(instance: string, notification: Notification): Promise<UpsertResult> {
+    return this.exclusive(() => this.upsertNow(instance, notification))
+  }
+
+  private async upsertNow(instance: string, notification: Notification): Promise<UpsertResult> {
+    const existing = this.inboxes.get(userKey(instance, notification.user_id))?.get(notification.id)
+
+    if (existing && existing.updated_at > notification.updated_at) {
+      return "unchanged" // A redelivery older than what we have
+    }
+
+    const record: InboxNotification = {
+      ...notification,
+      instance,
+      read: notification.read || Boolean(existing?.read),
+      read_at: existing?.read_at,
+    }
+    if (existing && JSON.stringify(existing) === JSON.stringify(record)) {
+      return "unchanged"
+    }
+
+    // Persisted first: if the write fails, the retried message finds it missing
+    await this.persist([record])
+    this.store(record)
+    return existing ? "updated" : "created"
+  }
+
+  async list(instance: string, userId: number, query: InboxQuery): Promise<InboxPage> {
+    const matching = this.notificationsOf(instance, userId).filter(
+      (notification) =>
+        !query.types || query.types.includes(notification.notification_type)
+    )
+    const unread = matching.filter((notification) => !notification.read)
+
+    const candidates = (query.unreadOnly ? unread : matching).filter(
+      (notification) => !query.cursor || isAfterCursor(notification, query.cursor)
+    )
+    const notifications = candidates.slice(0, query.limit)
+
+    return {
+      notifications,
+      unread_count: unread.length,
+      next_cursor:
+        candidates.length > query.limit
+          ? cursorOf(notifications[notifications.length - 1])
+          : undefined,
+    }
+  }
+
+  async unreadCounts(
+    instance: string,
+    userId: number
+  ): Promise<Partial<Record<NotificationType, number>>> {
+    const counts: Partial<Record<NotificationType, number>> = {}
+    for (const notification of this.notificationsOf(instance, userId)) {
+      if (!notification.read) {
+        const type = notification.notification_type
+        counts[type] = (counts[type] || 0) + 1
+      }
+    }
+    return counts
+  }
+
+  markRead(instance: string, userId: number, ids?: number[]): Promise<number> {
+    return this.exclusive(() => this.markReadNow(instance, userId, ids))
+  }
+
+  private async markReadNow(instance: string, userId: number, ids?: number[]): Promise<number> {
+    const readAt = new Date().toISOString()
+    const changed = this.notificationsOf(instance, userId)
+      .filter((notification) => !notification.read && (!ids || ids.includes(notification.id)))
+      .map((notification) => ({ ...notification, read: true, read_at: readAt }))
+
+    await this.persist(changed)
+    changed.forEach((notification) => this.store(notification))
+    return changed.length
+  }
+
+  async close(): Promise<void> {}
+
+  /**
+   * Runs upserts and markRead one at a time: each reads a record, persists
+   * and stores a new version, which must not overwrite one stored meanwhile
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.mutationChain.then(task)
+    this.mutationChain = next.catch(() => undefined)
+    return next
+  }
+
+  protected notificationsOf(instance: string, userId: number): InboxNotification[] {
+    return [...(this.inboxes.get(userKey(instance, userId))?.values() || [])].sort(newestFirst)
+  }
+
+  protected store(record: InboxNotification): void {
+    const key = userKey(record.instance, record.user_id)
+    let inbox = this.inboxes.get(key)
+    if (!inbox) {
+      inbox = new Map()
+      this.inboxes.set(key, inbox)
+    }
+    if (!inbox.has(record.id)) {
+      this.size++
+    }
+    inbox.set(record.id, record)
+
+    if (inbox.size > this.maxPerUser) {
+      const evicted = [...inbox.values()].sort(newestFirst).slice(this.maxPerUser)
+      evicted.forEach((notification) => inbox?.delete(notification.id))
+      this.size -= evicted.length
+    }
+  }
+
+  /**
+   * Makes stored records durable; nothing to do in memory
+   */
+  protected async persist(_records: InboxNotification[]): Promise<void> {}
+}
+
+/**
+ * File-backed inbox: every stored record is appended to an NDJSON log,
+ * replayed on startup (last record per notification wins, evictions are
+ * applied again) and compacted once the log grows to twice the live
+ * record count.
+ */
+export class FileNotificationStore extends MemoryNotificationStore {
+  private lineCount = 0
+  private writeChain: Promise<void> = Promise.resolve()
+
+  constructor(
+    private readonly filePath: string,
+    maxPerUser: number
+  ) {
+    super(maxPerUser)
+  }
+
+  async open(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+
+    let contents = ""
+    try {
+      contents = await fs.readFile(this.filePath, "utf-8")
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error
+      }
+    }
+
+    for (const line of contents.split("\n")) {
+      if (!line) continue
+      try {
+        this.store(JSON.parse(line) as InboxNotification)
+      } catch {
+        logger.warn({ filePath: this.filePath }, "Skipping corrupt inbox entry")
+      }
+    }
+
+    await this.enqueue(() => this.rewrite())
+    logger.info(
+      { filePath: this.filePath, users: this.inboxes.size, notifications: this.size },
+      "Loaded notification inbox"
+    )
+  }
+
+  async close(): Promise<void> {
+    await this.writeChain.catch(() => undefined)
+  }
+
+  /**
+   * Appends the records; a failed write fails the upsert (and the message
+   * is retried)
+   */
+  protected persist(records: InboxNotification[]): Promise<void> {
+    if (records.length === 0) {
+      return Promise.resolve()
+    }
+
+    return this.enqueue(async () => {
+      await fs.appendFile(
+        this.filePath,
+        records.map((record) => JSON.stringify(record) + "\n").join("")
+      )
+      this.lineCount += records.length
+    })
+  }
+
+  protected store(record: InboxNotification): void {
+    super.store(record)
+
+    if (this.lineCount > this.size * 2 && this.lineCount > 1000) {
+      this.lineCount = 0 // Until the rewrite sets it
+      this.enqueue(() => this.rewrite()).catch(() => undefined) // Logged by enqueue
+    }
+  }
+
+  /**
+   * Rewrites the log with only live records (atomic rename)
+   */
+  private async rewrite(): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`
+    const lines = [...this.inboxes.values()].flatMap((inbox) =>
+      [...inbox.values()].map((record) => JSON.stringify(record) + "\n")
+    )
+    await fs.writeFile(tmpPath, lines.join(""))
+    await fs.rename(tmpPath, this.filePath)
+    this.lineCount = lines.length
+  }
+
+  /**
+   * Serializes file writes so appends and rewrites never interleave
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(task)
+    this.writeChain = next.catch((error) => {
+      logger.error({ error, filePath: this.filePath }, "Inbox write failed")
+    })
+    return next
+  }
+}
+
+export function createNotificationStore(config: InboxConfig): NotificationStore {
+  switch (config.store) {
+    case "memory":
+      return new MemoryNotificationStore(config.maxPerUser)
+    case "file":
+      return new FileNotificationStore(config.filePath, config.maxPerUser)
+    default:
+      throw new Error(`Unknown inbox store: ${config.store}`)
+  }
+}
+
+/**
+ * Processor that upserts notification events into the recipient's inbox
+ */
+export function inboxProcessor(store: NotificationStore): Processor {
+  return async (event, context): Promise<ProcessingResult> => {
+    const { notification } = payloadOf(event, "notification")
+    const instance = context.tenant?.id || DEFAULT_INBOX_INSTANCE
+    const result = await store.upsert(instance, notification)
+
+    context.logger.debug(
+      { notificationId: notification.id, userId: notification.user_id, instance, result },
+      "Notification stored in inbox"
+    )
+
+    return {
+      success: true,
+      message_id: event.headers["x-discourse-event-id"] || "unknown",
+      event_type: event.event_type,
+      processed_at: new Date().toISOString(),
+    }
+  }
+}
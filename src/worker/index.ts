@@ -12,70 +12,285 @@
  */
 
 import { getWorkerConfig } from "./config"
-import { MessageQueue } from "../shared/queue"
+import { Delivery, createTransport } from "../shared/transport"
 import { QueueMessage, DiscourseWebhookEvent } from "../shared/types"
+import { registerDefaultProcessors } from "./processors"
 import {
-  // processUserEvent,
-  processNotificationEvent,
-  // processGenericEvent,
-} from "./processors"
+  ProcessingFailedError,
+  ProcessorRegistry,
+  errorMiddleware,
+  loggingMiddleware,
+  timingMiddleware,
+  tracingMiddleware,
+} from "./registry"
 import logger from "../shared/logger"
+import { createTracer, traceOf } from "../shared/tracing"
+import { assertValidEvent } from "../shared/validation"
+import { KeyedExecutor, partitionKeyFor } from "./partition"
+import { DEFAULT_INBOX_INSTANCE, createNotificationStore } from "./inbox"
+import { createInboxApi } from "./inbox-api"
+import { PushHub, pushEventOf, pushTopology } from "./push"
+import { registerPushRoutes } from "./push-api"
+import { createDeliveryLog } from "./delivery-log"
+import { OutboundDispatcher } from "./outbound"
+import { loadSubscribers } from "./subscribers"
+import { registerSubscriberRoutes } from "./subscribers-api"
+import {
+  AlertEngine,
+  UserSnapshots,
+  createAlertChannels,
+  readAlertRulesFile,
+} from "./alerts"
+import { DigestMailer, createDigestStore, loadDigestUsers } from "./digest"
+import { createMailTransport } from "./mail"
+import { MessageActivity, createWorkerHttpServer, workerReadinessChecks } from "./http"
+import {
+  MonitoredQueue,
+  deadLettersTotal,
+  messagesTotal,
+  metricsMiddleware,
+  monitorPartitions,
+  monitorQueues,
+  recordConsumerLag,
+} from "./metrics"
+import { eventTypeLabel } from "../shared/metrics"
+import { onShutdown } from "../shared/shutdown"
+import {
+  IdempotencyStore,
+  MemoryIdempotencyStore,
+  createIdempotencyStore,
+  idempotencyKeyFor,
+} from "../shared/dedup"
 
 // Initialize configuration
 const config = getWorkerConfig()
 
-// Initialize Message Queue
-const messageQueue = new MessageQueue(config.queueName, config.rabbitmqUrl)
+// Initialize Message Queue (transport selected by TRANSPORT)
+const messageQueue = createTransport({
+  type: config.transport,
+  queueName: config.queueName,
+  topology: config.topology,
+  rabbitmqUrl: config.rabbitmqUrl,
+  fileDir: config.fileTransportDir,
+  retryPolicy: config.retry,
+  reconnect: config.reconnect,
+})
+
+messageQueue.on("state", (state, previous) => {
+  logger.info({ state, previous }, "Message queue state changed")
+})
+
+// Per-user notification inbox and its query API
+const inbox = createNotificationStore(config.inbox)
+const inboxApi = createInboxApi(inbox, config.inboxApi)
+
+// Real-time push, enabled by PUSH_TOKEN_SECRET: notifications fan out to
+// every worker over the push exchange and on to its connected clients
+const pushSecret = config.push.tokenSecret
+const pushHub = new PushHub(config.push)
+const pushTransportTopology = pushTopology(config.push)
+const pushTransport = pushSecret
+  ? createTransport({
+      type: config.transport,
+      queueName: pushTransportTopology.queues[0].name,
+      topology: pushTransportTopology,
+      rabbitmqUrl: config.rabbitmqUrl,
+      fileDir: config.fileTransportDir,
+      reconnect: config.reconnect,
+    })
+  : undefined
+
+if (pushSecret) {
+  registerPushRoutes(inboxApi, pushHub, { ...config.push, tokenSecret: pushSecret })
+}
+
+// Downstream webhook subscribers (SUBSCRIBERS_FILE), each on its own queue
+const deliveryLog = createDeliveryLog(config.outbound.deliveryLog)
+const subscribers = loadSubscribers(config.outbound)
+const outbound =
+  subscribers.length > 0
+    ? new OutboundDispatcher(subscribers, config.outbound, deliveryLog, {
+        type: config.transport,
+        rabbitmqUrl: config.rabbitmqUrl,
+        fileDir: config.fileTransportDir,
+        reconnect: config.reconnect,
+      })
+    : undefined
+
+if (outbound) {
+  registerSubscriberRoutes(inboxApi, outbound, deliveryLog, config.inboxApi.token)
+}
+
+// Admin alerts on user events (ALERT_RULES_FILE)
+const alertRules = config.alerts.rulesFile ? readAlertRulesFile(config.alerts.rulesFile) : undefined
+const userSnapshots = new UserSnapshots(config.alerts.maxUsers, config.alerts.statePath)
+const alerts = alertRules && {
+  engine: new AlertEngine(alertRules.rules, userSnapshots),
+  channels: createAlertChannels(alertRules.channels),
+}
+
+// Notification digests for the users in DIGEST_USERS_FILE
+const digestUsers = loadDigestUsers(config.digest)
+const digestStore = createDigestStore(config.digest)
+const digests =
+  digestUsers.size > 0
+    ? new DigestMailer(config.digest, digestUsers, digestStore, createMailTransport(config.digest.mail))
+    : undefined
+
+// Spans for consumed messages and processor runs (TRACING_EXPORTER)
+const tracer = createTracer(config.tracing)
+
+// Processors per event type; see registerDefaultProcessors()
+const registry = registerDefaultProcessors(
+  new ProcessorRegistry(new MemoryIdempotencyStore(config.dedup.retentionMs, config.dedup.maxEntries))
+    .use(tracingMiddleware(tracer))
+    .use(loggingMiddleware)
+    .use(timingMiddleware)
+    .use(errorMiddleware)
+    .use(metricsMiddleware),
+  {
+    inbox,
+    publishPush:
+      pushTransport && ((message: QueueMessage): Promise<boolean> => pushTransport.publish(message)),
+    outbound,
+    alerts,
+    digests,
+  }
+)
+
+// Per-user ordering: messages for one user never run concurrently
+const executor = new KeyedExecutor()
+
+const PARTITION_STATS_INTERVAL_MS = 30000
+
+const mainQueue: MonitoredQueue = { name: config.queueName, transport: messageQueue }
+
+monitorQueues([mainQueue, ...(outbound?.queues() || [])])
+monitorPartitions(executor)
+
+// Last succeeded and failed message, for /readyz and /status
+const activity = new MessageActivity()
+
+// Operations endpoints (/metrics, /livez, /readyz, /status) on WORKER_HTTP_PORT
+const httpServer = createWorkerHttpServer({
+  service: "discourse-webhook-worker",
+  config,
+  checks: workerReadinessChecks(config.http, {
+    queue: mainQueue,
+    auxiliaryQueues: [
+      ...(pushTransport ? [{ name: pushTransportTopology.queues[0].name, transport: pushTransport }] : []),
+      ...(outbound?.queues() || []),
+    ],
+    activity,
+    inFlight: () => executor.stats().in_flight,
+  }),
+  status: () => ({
+    transport: config.transport,
+    queue: messageQueue.getHealth(),
+    concurrency: config.concurrency,
+    partitions: executor.stats(),
+    messages: messagesTotal.totalsBy("outcome"),
+    dead_letters: deadLettersTotal.totalsBy("reason"),
+    last_succeeded_at: activity.lastSucceededAt?.toISOString() ?? null,
+    last_failed_at: activity.lastFailedAt?.toISOString() ?? null,
+  }),
+})
+
+// Initialized in start()
+let idempotencyStore: IdempotencyStore
+
+// Set once shutdown requeued the unfinished deliveries
+let consumptionStopped = false
 
 /**
- * Route message to appropriate processor based on event type
+ * Route message to the processors registered for its event type. Every
+ * log line, the processors' included, carries the message and event IDs,
+ * the trace ID and the correlation ID.
  */
-async function routeMessage(message: QueueMessage): Promise<void> {
+async function routeMessage(message: QueueMessage, delivery: Delivery): Promise<void> {
   const event: DiscourseWebhookEvent = message.event
   const eventType = event.event_type
+  const eventId = event.headers["x-discourse-event-id"]
 
-  logger.info(
-    {
-      messageId: message.id,
-      eventType,
-      timestamp: message.timestamp,
+  const { parent, correlationId } = traceOf(message, delivery.headers)
+  const span = tracer.startSpan("consume", {
+    kind: "consumer",
+    parent,
+    attributes: {
+      "messaging.system": config.transport,
+      "messaging.destination.name": config.queueName,
+      "messaging.message.id": message.id,
+      "messaging.delivery.retry_count": delivery.retryCount,
+      "discourse.event_type": eventType,
+      "discourse.event_id": eventId,
+      "discourse.instance": message.tenant?.id,
     },
+  })
+  const log = logger.child({
+    messageId: message.id,
+    eventId,
+    eventType,
+    traceId: span.traceId,
+    spanId: span.spanId,
+    correlationId,
+  })
+
+  log.info(
+    { tenant: message.tenant?.id, timestamp: message.timestamp, replay: message.replay?.run_id },
     "Routing message to processor"
   )
 
+  const idempotencyKey =
+    message.idempotency_key ||
+    idempotencyKeyFor(event.headers, message.tenant?.id || DEFAULT_INBOX_INSTANCE)
+
   try {
-    let result
-
-    // Route based on event type
-    if (eventType === "notification" || eventType === "notification_created") {
-      // Goal 2: User Notification Aggregation
-      result = await processNotificationEvent(event)
-    } else {
-      // Ignorando outros eventos para focar nos logs de notificação
-      logger.debug({ eventType }, "Ignoring event type")
-      return // Sai da função para eventos não relacionados a notificação
+    if (idempotencyKey && (await idempotencyStore.seen(idempotencyKey))) {
+      log.info({ idempotencyKey }, "Duplicate message skipped")
+      messagesTotal.inc({ event_type: eventTypeLabel(eventType), outcome: "duplicate" })
+      activity.succeeded()
+      span.setAttribute("discourse.duplicate", true)
+      return // Acked without processing
     }
 
-    result
-    // logger.info(
-    //   {
-    //     messageId: message.id,
-    //     eventType,
-    //     success: result.success,
-    //     message,
-    //   },
-    //   "Message processed successfully"
-    // )
+    // Throws PayloadValidationError: dead-lettered at once, not retried
+    assertValidEvent(event)
+
+    const result = await registry.process(event, {
+      messageId: message.id,
+      tenant: message.tenant,
+      logger: log,
+      trace: span.context,
+      replay: message.replay,
+    })
+
+    if (!result.success) {
+      throw new ProcessingFailedError(result)
+    }
+
+    if (idempotencyKey) {
+      await idempotencyStore.remember(idempotencyKey).catch((error) => {
+        log.warn({ error, idempotencyKey }, "Failed to record idempotency key")
+      })
+    }
+
+    messagesTotal.inc({ event_type: eventTypeLabel(eventType), outcome: "processed" })
+    activity.succeeded()
+    log.info(
+      { processors: result.results?.map((processorResult) => processorResult.processor) },
+      "Message processed successfully"
+    )
   } catch (error) {
-    logger.error(
-      {
-        messageId: message.id,
-        eventType,
-        error: error instanceof Error ? error.message : "Unknown error",
-      },
+    messagesTotal.inc({ event_type: eventTypeLabel(eventType), outcome: "failed" })
+    activity.failed()
+    span.recordError(error)
+    log.error(
+      { error: error instanceof Error ? error.message : "Unknown error" },
       "Error processing message"
     )
     throw error // Re-throw to trigger retry mechanism
+  } finally {
+    span.end()
   }
 }
 
@@ -86,8 +301,55 @@ async function start(): Promise<void> {
   try {
     logger.info("Starting worker consumer service...")
 
+    idempotencyStore = await createIdempotencyStore(config.dedup)
+
+    await inbox.open()
+
+    if (pushTransport) {
+      await pushTransport.connect()
+      await pushTransport.consume(async (message: QueueMessage) => {
+        try {
+          pushHub.deliver(pushEventOf(message))
+        } catch (error) {
+          logger.warn({ error, messageId: message.id }, "Dropping invalid push event")
+        }
+      })
+      logger.info({ exchange: config.push.exchange }, "Push fan-out started")
+    }
+
+    if (outbound) {
+      await deliveryLog.open()
+      await outbound.start()
+    }
+
+    if (alertRules) {
+      await userSnapshots.open()
+      logger.info(
+        { rules: alertRules.rules.map((rule) => rule.id), file: config.alerts.rulesFile },
+        "Alert rules loaded"
+      )
+    }
+
+    if (digests) {
+      await digestStore.open()
+      digests.start()
+    }
+
+    if (config.inboxApi.port > 0) {
+      await inboxApi.listen({ port: config.inboxApi.port, host: config.inboxApi.host })
+      logger.info(
+        { port: config.inboxApi.port, host: config.inboxApi.host, auth: Boolean(config.inboxApi.token) },
+        "Inbox API listening"
+      )
+    }
+
+    if (config.http.port > 0) {
+      await httpServer.listen({ port: config.http.port, host: "0.0.0.0" })
+      logger.info({ port: config.http.port }, "Worker HTTP port listening")
+    }
+
     // Connect to message queue
-    logger.info("Connecting to RabbitMQ...")
+    logger.info({ transport: config.transport }, "Connecting to message queue...")
     await messageQueue.connect()
 
     // Start consuming messages
@@ -95,11 +357,28 @@ async function start(): Promise<void> {
       {
         queueName: config.queueName,
         concurrency: config.concurrency,
+        maxAttempts: config.retry.maxAttempts,
       },
       "Starting message consumption"
     )
 
-    await messageQueue.consume(routeMessage)
+    await messageQueue.consume(
+      (message: QueueMessage, delivery: Delivery) => {
+        recordConsumerLag(message.timestamp)
+        return executor.run(partitionKeyFor(message), async () => {
+          // Waiting in its partition when shutdown requeued it
+          if (!consumptionStopped) await routeMessage(message, delivery)
+        })
+      },
+      { prefetch: config.concurrency }
+    )
+
+    setInterval(() => {
+      const stats = executor.stats()
+      if (stats.in_flight > 0) {
+        logger.info(stats, "Partition in-flight counts")
+      }
+    }, PARTITION_STATS_INTERVAL_MS).unref()
 
     logger.info("Worker consumer service started successfully")
   } catch (error) {
@@ -109,24 +388,49 @@ async function start(): Promise<void> {
 }
 
 /**
- * Graceful shutdown
+ * Graceful shutdown: cancels the consumers, so no new deliveries arrive,
+ * and gives the messages in flight (running or waiting in their partition)
+ * up to WORKER_SHUTDOWN_TIMEOUT_MS to finish and be acked or nacked. What
+ * is left is requeued unchanged before the connections and stores close.
  */
 async function shutdown(): Promise<void> {
-  logger.info("Shutting down worker consumer service...")
+  logger.info(
+    { inFlight: executor.stats().in_flight, timeoutMs: config.shutdownTimeoutMs },
+    "Shutting down worker consumer service..."
+  )
 
-  try {
-    await messageQueue.close()
-    logger.info("Shutdown complete")
-    process.exit(0)
-  } catch (error) {
-    logger.error({ error }, "Error during shutdown")
-    process.exit(1)
+  const released = await Promise.all([
+    messageQueue.drain(config.shutdownTimeoutMs),
+    pushTransport?.drain(config.shutdownTimeoutMs) ?? 0,
+    outbound?.drain(config.shutdownTimeoutMs) ?? 0,
+  ])
+  consumptionStopped = true
+
+  const [main, push, subscribers] = released
+  if (main + push + subscribers > 0) {
+    logger.warn(
+      { main, push, subscribers },
+      "Requeued messages still in flight at the shutdown deadline"
+    )
   }
+
+  await messageQueue.close()
+  await pushTransport?.close()
+  await outbound?.close()
+  await deliveryLog.close()
+  await userSnapshots.close()
+  await digests?.close()
+  await digestStore.close()
+  await inboxApi.close()
+  await httpServer.close()
+  await inbox.close()
+  await idempotencyStore?.close()
+  await tracer.close()
+  logger.info("Worker consumer service stopped")
 }
 
-// Handle shutdown signals
-process.on("SIGTERM", shutdown)
-process.on("SIGINT", shutdown)
+// Handle shutdown signals (SIGTERM, SIGINT)
+onShutdown("worker", config.shutdownTimeoutMs, shutdown)
 
 // Unhandled errors
 process.on("unhandledRejection", (reason, promise) => {
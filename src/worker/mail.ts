@@ -0,0 +1,342 @@
+import { promises as fs } from "fs"
+import * as net from "net"
+import * as os from "os"
+import * as path from "path"
+import * as tls from "tls"
+
+/**
+ * Outgoing mail
+ *
+ *   smtp  an SMTP server: implicit TLS with SMTP_SECURE, otherwise STARTTLS
+ *         when offered; AUTH PLAIN with SMTP_USER, only over TLS unless the
+ *         server is local or SMTP_ALLOW_INSECURE_AUTH is set. For
+ *         development point it at a local catcher such as Mailpit
+ *         (localhost:1025)
+ *   file  one .eml file per message in MAIL_FILE_DIR
+ */
+
+export interface MailMessage {
+  from: string
+  to: string
+  subject: string
+  text: string
+  html?: string
+  messageId: string // Without angle brackets
+  headers?: Record<string, string>
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>
+  close(): Promise<void>
+}
+
+export type MailTransportType = "smtp" | "file"
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean // Implicit TLS (port 465)
+  user?: string
+  password?: string
+  allowInsecureAuth: boolean // AUTH over an unencrypted connection to a remote server
+  timeoutMs: number
+}
+
+export interface MailConfig {
+  transport: MailTransportType
+  from: string
+  smtp: SmtpConfig
+  fileDir: string
+}
+
+interface SmtpReply {
+  code: number
+  text: string
+}
+
+const MIME_LINE_LENGTH = 76
+
+const LOCAL_HOSTS = ["localhost", "127.0.0.1", "::1"]
+
+export function getMailConfigFromEnv(env: NodeJS.ProcessEnv = process.env): MailConfig {
+  return {
+    transport: (env.MAIL_TRANSPORT as MailTransportType) || "file",
+    from: env.MAIL_FROM || "Discourse <noreply@localhost>",
+    smtp: {
+      host: env.SMTP_HOST || "localhost",
+      port: parseInt(env.SMTP_PORT || "1025", 10),
+      secure: env.SMTP_SECURE === "true",
+      user: env.SMTP_USER || undefined,
+      password: env.SMTP_PASSWORD || undefined,
+      allowInsecureAuth: env.SMTP_ALLOW_INSECURE_AUTH === "true",
+      timeoutMs: parseInt(env.SMTP_TIMEOUT_MS || "30000", 10),
+    },
+    fileDir: env.MAIL_FILE_DIR || "./data/mail",
+  }
+}
+
+/**
+ * The address part of "Name <address>"
+ */
+export function mailAddressOf(mailbox: string): string {
+  return /<([^>]+)>/.exec(mailbox)?.[1] || mailbox.trim()
+}
+
+/**
+ * Addresses end up in headers and SMTP commands verbatim, so a CR or LF
+ * would let them inject more of either
+ */
+function assertNoLineBreaks(field: string, value: string): void {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`Mail ${field} must not contain line breaks`)
+  }
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf-8").toString("base64")}?=`
+}
+
+function base64Lines(content: string): string {
+  const encoded = Buffer.from(content, "utf-8").toString("base64")
+  return (encoded.match(new RegExp(`.{1,${MIME_LINE_LENGTH}}`, "g")) || []).join("\r\n")
+}
+
+/**
+ * RFC 5322 message: text/plain, or multipart/alternative with an HTML part
+ */
+export function buildMimeMessage(message: MailMessage, date: Date = new Date()): string {
+  assertNoLineBreaks("From", message.from)
+  assertNoLineBreaks("To", message.to)
+  assertNoLineBreaks("Message-ID", message.messageId)
+  Object.keys(message.headers || {}).forEach((name) => assertNoLineBreaks("header name", name))
+
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${message.messageId}>`,
+    "MIME-Version: 1.0",
+    ...Object.entries(message.headers || {}).map(([name, value]) => `${name}: ${encodeHeader(value)}`),
+  ]
+  const part = (type: string, content: string): string =>
+    `Content-Type: ${type}; charset=utf-8\r\nContent-Transfer-Encoding: base64\r\n\r\n${base64Lines(content)}`
+
+  if (!message.html) {
+    return `${headers.join("\r\n")}\r\n${part("text/plain", message.text)}\r\n`
+  }
+
+  const boundary = `=_${message.messageId.replace(/[^\w]/g, "")}`
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    part("text/plain", message.text),
+    `--${boundary}`,
+    part("text/html", message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n")
+}
+
+/**
+ * One SMTP conversation: commands in, replies (multi-line joined) out
+ */
+class SmtpConnection {
+  private buffer = ""
+  private lines: string[] = []
+  private readonly replies: SmtpReply[] = []
+  private waiting?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }
+  private failure?: Error
+
+  private constructor(
+    private socket: net.Socket,
+    private readonly config: SmtpConfig
+  ) {
+    this.attach(socket)
+  }
+
+  static async open(config: SmtpConfig): Promise<SmtpConnection> {
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const connecting = config.secure
+        ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(connecting))
+        : net.connect({ host: config.host, port: config.port }, () => resolve(connecting))
+      connecting.once("error", reject)
+      connecting.setTimeout(config.timeoutMs, () =>
+        connecting.destroy(new Error(`SMTP connect to ${config.host}:${config.port} timed out`))
+      )
+    })
+    return new SmtpConnection(socket, config)
+  }
+
+  /**
+   * Sends a command (or only waits for a reply) and checks the reply code
+   */
+  async command(line: string | undefined, expected: number[]): Promise<SmtpReply> {
+    if (line !== undefined) {
+      this.socket.write(`${line}\r\n`)
+    }
+    const reply = await this.nextReply()
+    if (!expected.includes(reply.code)) {
+      const shown = line?.startsWith("AUTH") ? "AUTH" : line || "greeting"
+      throw new Error(`SMTP ${shown} answered ${reply.code} ${reply.text}`)
+    }
+    return reply
+  }
+
+  async startTls(): Promise<void> {
+    this.socket.removeAllListeners("data")
+    this.socket.removeAllListeners("error")
+    this.socket.removeAllListeners("close")
+    this.socket = await new Promise<net.Socket>((resolve, reject) => {
+      const secured = tls.connect({ socket: this.socket, servername: this.config.host }, () => resolve(secured))
+      secured.once("error", reject)
+    })
+    this.attach(this.socket)
+  }
+
+  write(data: string): void {
+    this.socket.write(data)
+  }
+
+  close(): void {
+    this.socket.destroy()
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding("utf-8")
+    socket.setTimeout(this.config.timeoutMs, () => socket.destroy(new Error("SMTP server timed out")))
+    socket.on("data", (chunk: string) => this.receive(chunk))
+    socket.on("error", (error) => this.fail(error))
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")))
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk
+    let newline = this.buffer.indexOf("\n")
+    while (newline >= 0) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, "")
+      this.buffer = this.buffer.slice(newline + 1)
+      this.lines.push(line.slice(4))
+
+      if (line[3] !== "-") { // "250-..." continues, "250 ..." ends the reply
+        this.replies.push({ code: parseInt(line.slice(0, 3), 10), text: this.lines.join("\n") })
+        this.lines = []
+      }
+      newline = this.buffer.indexOf("\n")
+    }
+    this.settle()
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error
+    this.settle()
+  }
+
+  private settle(): void {
+    if (!this.waiting) return
+    const reply = this.replies.shift()
+    if (reply) {
+      this.waiting.resolve(reply)
+      this.waiting = undefined
+    } else if (this.failure) {
+      this.waiting.reject(this.failure)
+      this.waiting = undefined
+    }
+  }
+
+  private nextReply(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject }
+      this.settle()
+    })
+  }
+}
+
+/**
+ * Delivers each message over a new SMTP connection
+ */
+export class SmtpMailTransport implements MailTransport {
+  constructor(private readonly config: SmtpConfig) {}
+
+  async send(message: MailMessage): Promise<void> {
+    // Checked before connecting: RCPT TO takes the address verbatim
+    const data = buildMimeMessage(message)
+    const connection = await SmtpConnection.open(this.config)
+    const hello = `EHLO ${os.hostname() || "localhost"}`
+
+    try {
+      await connection.command(undefined, [220])
+      let features = await connection.command(hello, [250])
+      let encrypted = this.config.secure
+
+      if (!this.config.secure && /^STARTTLS$/m.test(features.text)) {
+        await connection.command("STARTTLS", [220])
+        await connection.startTls()
+        features = await connection.command(hello, [250])
+        encrypted = true
+      }
+
+      if (this.config.user) {
+        if (!encrypted && !this.config.allowInsecureAuth && !LOCAL_HOSTS.includes(this.config.host)) {
+          throw new Error(
+            `SMTP server ${this.config.host} offers no TLS; refusing to send credentials ` +
+              "(set SMTP_ALLOW_INSECURE_AUTH=true to allow it)"
+          )
+        }
+        if (!/^AUTH\b.*\bPLAIN\b/m.test(features.text)) {
+          throw new Error(`SMTP server ${this.config.host} does not offer AUTH PLAIN`)
+        }
+        const credentials = Buffer.from(`\0${this.config.user}\0${this.config.password || ""}`).toString("base64")
+        await connection.command(`AUTH PLAIN ${credentials}`, [235])
+      }
+
+      await connection.command(`MAIL FROM:<${mailAddressOf(message.from)}>`, [250])
+      await connection.command(`RCPT TO:<${mailAddressOf(message.to)}>`, [250, 251])
+      await connection.command("DATA", [354])
+
+      // Dot-stuffing: a line starting with "." gets another one
+      const stuffed = data.replace(/^\./gm, "..")
+      connection.write(stuffed.endsWith("\r\n") ? stuffed : `${stuffed}\r\n`)
+      await connection.command(".", [250])
+
+      await connection.command("QUIT", [221]).catch(() => undefined)
+    } finally {
+      connection.close()
+    }
+  }
+
+  async close(): Promise<void> {}
+}
+
+/**
+ * Drops each message as an .eml file, for development and for mail relays
+ * that pick files up from a directory
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true })
+    const name = `${Date.now()}-${message.messageId.replace(/[^\w.-]/g, "_")}.eml`
+    const tmpPath = path.join(this.dir, `.${name}.tmp`)
+    await fs.writeFile(tmpPath, buildMimeMessage(message))
+    await fs.rename(tmpPath, path.join(this.dir, name))
+  }
+
+  async close(): Promise<void> {}
+}
+
+export function createMailTransport(config: MailConfig): MailTransport {
+  switch (config.transport) {
+    case "smtp":
+      return new SmtpMailTransport(config.smtp)
+    case "file":
+      return new FileMailTransport(config.fileDir)
+    default:
+      throw new Error(`Unknown mail transport: ${config.transport}`)
+  }
+}
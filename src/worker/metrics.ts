@@ -0,0 +1,115 @@
+/**
+ * Worker metrics, served on GET /metrics of the worker HTTP port
+ *
+ * Processing is measured per message and per processor run (through
+ * metricsMiddleware). Retries and dead-letters come from the transports'
+ * "retry" and "dead_letter" events, so outbound subscriber queues are
+ * covered as well; queue depth is read from the transports on each scrape.
+ */
+
+import { eventTypeLabel, metrics } from "../shared/metrics"
+import { MessageTransport, QueueDepth } from "../shared/transport"
+import { ProcessorMiddleware } from "./registry"
+import { KeyedExecutor } from "./partition"
+
+export interface MonitoredQueue {
+  name: string
+  transport: MessageTransport
+}
+
+// Seconds between publish and delivery; retried messages include their backoff
+const LAG_BUCKETS = [0.01, 0.05, 0.1, 0.5, 1, 5, 15, 60, 300, 900, 3600]
+
+export const messagesTotal = metrics.counter({
+  name: "discourse_worker_messages_total",
+  help: "Consumed messages by event type and outcome (processed, duplicate, failed)",
+  labelNames: ["event_type", "outcome"],
+})
+
+export const processorDuration = metrics.histogram({
+  name: "discourse_worker_processor_duration_seconds",
+  help: "Time one processor took for an event, by processor and outcome (success, failure)",
+  labelNames: ["processor", "outcome"],
+})
+
+export const retriesTotal = metrics.counter({
+  name: "discourse_worker_retries_total",
+  help: "Failed deliveries scheduled for retry, by queue and event type",
+  labelNames: ["queue", "event_type"],
+})
+
+export const deadLettersTotal = metrics.counter({
+  name: "discourse_worker_dead_letters_total",
+  help: "Deliveries moved to the dead-letter queue, by queue and failure reason",
+  labelNames: ["queue", "reason"],
+})
+
+export const consumerLag = metrics.histogram({
+  name: "discourse_worker_consumer_lag_seconds",
+  help: "Time from publish to delivery of a message on the main queue",
+  buckets: LAG_BUCKETS,
+})
+
+/**
+ * Records every processor run; place it inside errorMiddleware so thrown
+ * errors arrive as failed results
+ */
+export const metricsMiddleware: ProcessorMiddleware = async (_event, processor, next) => {
+  const stopTimer = processorDuration.startTimer({ processor: processor.name })
+  const result = await next()
+  stopTimer({ outcome: result.success ? "success" : "failure" })
+  return result
+}
+
+/**
+ * Observes the message's lag (the timestamp is set by the handler)
+ */
+export function recordConsumerLag(timestamp: string, now: number = Date.now()): void {
+  const publishedAt = Date.parse(timestamp)
+  if (!Number.isNaN(publishedAt)) {
+    consumerLag.observe({}, Math.max(0, now - publishedAt) / 1000)
+  }
+}
+
+/**
+ * Counts the queues' retries and dead-letters and reports their depth
+ */
+export function monitorQueues(queues: MonitoredQueue[]): void {
+  for (const { name, transport } of queues) {
+    transport.on("retry", (message) => {
+      retriesTotal.inc({ queue: name, event_type: eventTypeLabel(message?.event?.event_type) })
+    })
+    transport.on("dead_letter", (_message, reason) => {
+      deadLettersTotal.inc({ queue: name, reason })
+    })
+  }
+
+  metrics.gauge({
+    name: "discourse_worker_queue_messages",
+    help: "Messages in the consumed queues by state (ready, delayed, dead_letters)",
+    labelNames: ["queue", "state"],
+    collect: async (gauge) => {
+      for (const { name, transport } of queues) {
+        if (!transport.isConnected()) continue
+        const depth = await transport.queueDepth()
+        for (const state of Object.keys(depth) as Array<keyof QueueDepth>) {
+          gauge.set({ queue: name, state }, depth[state])
+        }
+      }
+    },
+  })
+}
+
+export function monitorPartitions(executor: KeyedExecutor): void {
+  metrics.gauge({
+    name: "discourse_worker_messages_in_flight",
+    help: "Messages being processed",
+    collect: (gauge) => gauge.set({}, executor.stats().in_flight),
+  })
+
+  metrics.gauge({
+    name: "discourse_worker_partitions_active",
+    help: "Partition keys (users, or single messages without one) with messages being processed or waiting",
+    collect: (gauge) => gauge.set({}, Object.keys(executor.stats().partitions).length),
+  })
+}
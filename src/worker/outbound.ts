@@ -0,0 +1,346 @@
+import { randomUUID } from "crypto"
+import logger from "../shared/logger"
+import { errorMessage } from "../shared/retry"
+import { TopologySpec, routingWord } from "../shared/topology"
+import { MessageTransport, TransportConfig, createTransport } from "../shared/transport"
+import { ProcessingResult, QueueMessage } from "../shared/types"
+import { DeliveryLog } from "./delivery-log"
+import { Processor } from "./registry"
+import {
+  OutboundConfig,
+  Subscriber,
+  SubscriberDeliveryError,
+  sendToSubscriber,
+  subscriberMatches,
+  subscriberQueueName,
+} from "./subscribers"
+
+/**
+ * Outbound webhook fan-out
+ *
+ * The "outbound" processor publishes each event some subscriber selected to
+ * the outbound exchange once. Every subscriber has its own queue on it,
+ * consumed with the subscriber's retry policy, so a slow or failing
+ * endpoint only delays its own deliveries; exhausted deliveries land in
+ * the subscriber's dead-letter queue ("<queue>.dlq").
+ *
+ * A subscriber whose deliveries fail disableAfterFailures times in a row is
+ * disabled: its pending deliveries are dead-lettered ("subscriber_disabled")
+ * until it is enabled again, and can then be replayed from its DLQ.
+ */
+
+export type SubscriberState = "active" | "disabled" | "paused"
+
+export interface SubscriberStatus {
+  id: string
+  url: string
+  events: string[]
+  state: SubscriberState // "paused": enabled is false in SUBSCRIBERS_FILE
+  queue: string
+  consecutive_failures: number
+  disabled_at?: string
+  disabled_reason?: string
+  last_delivered_at?: string
+  last_failed_at?: string
+}
+
+interface RuntimeState {
+  consecutiveFailures: number
+  disabledAt?: string
+  disabledReason?: string
+  lastDeliveredAt?: string
+  lastFailedAt?: string
+}
+
+type OutboundTransportConfig = Pick<TransportConfig, "type" | "rabbitmqUrl" | "fileDir" | "reconnect">
+
+export class SubscriberDisabledError extends Error {
+  readonly failureReason = "subscriber_disabled" as const
+
+  constructor(subscriberId: string) {
+    super(`Subscriber ${subscriberId} is disabled`)
+    this.name = "SubscriberDisabledError"
+  }
+}
+
+/**
+ * Queue bindings for the subscriber's event patterns. Routing keys are
+ * "<instance>.<event_type>[.<notification_type>]"; patterns with a
+ * wildcard inside the event type cannot be expressed as topic bindings and
+ * are matched by the consumer instead.
+ */
+function bindingsFor(subscriber: Subscriber): string[] {
+  if (subscriber.events.some((pattern) => pattern.includes("*"))) {
+    return ["#"]
+  }
+  return subscriber.events.map((eventType) => `*.${routingWord(eventType)}.#`)
+}
+
+export class OutboundDispatcher {
+  private readonly active: Subscriber[]
+  private readonly transports = new Map<string, MessageTransport>()
+  private readonly states = new Map<string, RuntimeState>()
+
+  constructor(
+    private readonly subscribers: Subscriber[],
+    private readonly config: OutboundConfig,
+    private readonly log: DeliveryLog,
+    transport: OutboundTransportConfig
+  ) {
+    this.active = subscribers.filter((subscriber) => subscriber.enabled)
+    const topology = this.topology()
+
+    for (const subscriber of this.active) {
+      this.states.set(subscriber.id, { consecutiveFailures: 0 })
+      this.transports.set(
+        subscriber.id,
+        createTransport({
+          ...transport,
+          queueName: subscriberQueueName(config, subscriber.id),
+          topology,
+          retryPolicy: subscriber.retry,
+        })
+      )
+    }
+  }
+
+  /**
+   * Event type patterns any active subscriber selected
+   */
+  eventPatterns(): string[] {
+    return [...new Set(this.active.flatMap((subscriber) => subscriber.events))]
+  }
+
+  /**
+   * Restores disabled states from the delivery log and starts consuming
+   * every subscriber's queue
+   */
+  async start(): Promise<void> {
+    for (const subscriber of this.active) {
+      const change = this.log.lastStateChange(subscriber.id)
+      if (change?.status === "disabled") {
+        Object.assign(this.stateOf(subscriber.id), {
+          disabledAt: change.at,
+          disabledReason: change.error,
+        })
+      }
+
+      const transport = this.transportOf(subscriber.id)
+      await transport.connect()
+      await transport.consume((message, delivery) =>
+        this.deliver(subscriber, message, delivery.retryCount + 1)
+      )
+    }
+
+    logger.info(
+      { subscribers: this.active.map((subscriber) => subscriber.id), exchange: this.config.exchange },
+      "Outbound subscribers started"
+    )
+  }
+
+  /**
+   * Every active subscriber's queue and the transport consuming it
+   */
+  queues(): Array<{ name: string; transport: MessageTransport }> {
+    return this.active.map((subscriber) => ({
+      name: subscriberQueueName(this.config, subscriber.id),
+      transport: this.transportOf(subscriber.id),
+    }))
+  }
+
+  /**
+   * Active subscribers that selected the message's event, disabled ones
+   * included (their deliveries are dead-lettered for a later replay)
+   */
+  matching(message: QueueMessage): Subscriber[] {
+    return this.active.filter((subscriber) => subscriberMatches(subscriber, message))
+  }
+
+  publish(message: QueueMessage): Promise<boolean> {
+    const [transport] = this.transports.values()
+    return transport.publish(message)
+  }
+
+  status(): SubscriberStatus[] {
+    return this.subscribers.map((subscriber) => {
+      const state = this.states.get(subscriber.id)
+      return {
+        id: subscriber.id,
+        url: subscriber.url,
+        events: subscriber.events,
+        state: !subscriber.enabled ? "paused" : state?.disabledAt ? "disabled" : "active",
+        queue: subscriberQueueName(this.config, subscriber.id),
+        consecutive_failures: state?.consecutiveFailures ?? 0,
+        disabled_at: state?.disabledAt,
+        disabled_reason: state?.disabledReason,
+        last_delivered_at: state?.lastDeliveredAt,
+        last_failed_at: state?.lastFailedAt,
+      }
+    })
+  }
+
+  has(subscriberId: string): boolean {
+    return this.states.has(subscriberId)
+  }
+
+  async enable(subscriberId: string): Promise<void> {
+    const state = this.stateOf(subscriberId)
+    if (!state.disabledAt) return
+
+    Object.assign(state, { consecutiveFailures: 0, disabledAt: undefined, disabledReason: undefined })
+    await this.log.record({ subscriber: subscriberId, status: "enabled", at: new Date().toISOString() })
+    logger.info({ subscriber: subscriberId }, "Outbound subscriber enabled")
+  }
+
+  async disable(subscriberId: string, reason: string): Promise<void> {
+    const state = this.stateOf(subscriberId)
+    if (state.disabledAt) return
+
+    state.disabledAt = new Date().toISOString()
+    state.disabledReason = reason
+    await this.log.record({
+      subscriber: subscriberId,
+      status: "disabled",
+      at: state.disabledAt,
+      error: reason,
+    })
+    logger.warn({ subscriber: subscriberId, reason }, "Outbound subscriber disabled")
+  }
+
+  /**
+   * Stops consuming every subscriber queue; deliveries still running after
+   * timeoutMs are requeued
+   * @returns Number of requeued deliveries
+   */
+  async drain(timeoutMs: number): Promise<number> {
+    const released = await Promise.all(
+      [...this.transports.values()].map((transport) => transport.drain(timeoutMs))
+    )
+    return released.reduce((sum, count) => sum + count, 0)
+  }
+
+  async close(): Promise<void> {
+    for (const transport of this.transports.values()) {
+      await transport.close()
+    }
+  }
+
+  /**
+   * Consumer of a subscriber's queue: throwing retries the delivery per the
+   * subscriber's retry policy
+   */
+  private async deliver(subscriber: Subscriber, message: QueueMessage, attempt: number): Promise<void> {
+    if (!subscriberMatches(subscriber, message)) {
+      return // Bound more widely than it selects (see bindingsFor)
+    }
+
+    const state = this.stateOf(subscriber.id)
+    if (state.disabledAt) {
+      throw new SubscriberDisabledError(subscriber.id)
+    }
+
+    const record = {
+      subscriber: subscriber.id,
+      message_id: message.id,
+      event_id: message.event.headers["x-discourse-event-id"],
+      event_type: message.event.event_type,
+      attempt,
+    }
+
+    try {
+      const response = await sendToSubscriber(subscriber, message)
+      state.consecutiveFailures = 0
+      state.lastDeliveredAt = new Date().toISOString()
+      await this.log.record({
+        ...record,
+        status: "delivered",
+        at: state.lastDeliveredAt,
+        http_status: response.status,
+        duration_ms: response.durationMs,
+      })
+    } catch (error) {
+      state.consecutiveFailures++
+      state.lastFailedAt = new Date().toISOString()
+      await this.log.record({
+        ...record,
+        status: "failed",
+        at: state.lastFailedAt,
+        http_status: error instanceof SubscriberDeliveryError ? error.status : undefined,
+        duration_ms: error instanceof SubscriberDeliveryError ? error.durationMs : undefined,
+        error: errorMessage(error),
+      })
+      logger.warn(
+        { subscriber: subscriber.id, messageId: message.id, attempt, error: errorMessage(error) },
+        "Outbound delivery failed"
+      )
+
+      if (
+        subscriber.disableAfterFailures > 0 &&
+        state.consecutiveFailures >= subscriber.disableAfterFailures
+      ) {
+        await this.disable(
+          subscriber.id,
+          `${state.consecutiveFailures} consecutive failures, last: ${errorMessage(error)}`
+        )
+      }
+      throw error
+    }
+  }
+
+  private topology(): TopologySpec {
+    return {
+      exchange: this.config.exchange,
+      queues: this.active.map((subscriber) => ({
+        name: subscriberQueueName(this.config, subscriber.id),
+        bindings: bindingsFor(subscriber),
+      })),
+    }
+  }
+
+  private stateOf(subscriberId: string): RuntimeState {
+    const state = this.states.get(subscriberId)
+    if (!state) {
+      throw new Error(`Unknown subscriber: ${subscriberId}`)
+    }
+    return state
+  }
+
+  private transportOf(subscriberId: string): MessageTransport {
+    return this.transports.get(subscriberId) as MessageTransport
+  }
+}
+
+/**
+ * Processor that hands events to the outbound subscribers that selected
+ * them. Failing to publish, or an unconfirmed publish, fails the event,
+ * which is retried.
+ */
+export function outboundProcessor(dispatcher: OutboundDispatcher): Processor {
+  return async (event, context): Promise<ProcessingResult> => {
+    const message: QueueMessage = {
+      id: randomUUID(),
+      event,
+      timestamp: new Date().toISOString(),
+      retry_count: 0,
+      tenant: context.tenant,
+    }
+
+    const subscribers = dispatcher.matching(message)
+    if (subscribers.length > 0) {
+      if (!(await dispatcher.publish(message))) {
+        throw new Error(`Outbound message ${message.id} was not confirmed by the broker`)
+      }
+      context.logger.debug(
+        { outboundMessageId: message.id, subscribers: subscribers.map((subscriber) => subscriber.id) },
+        "Event published to outbound subscribers"
+      )
+    }
+
+    return {
+      success: true,
+      message_id: event.headers["x-discourse-event-id"] || "unknown",
+      event_type: event.event_type,
+      processed_at: new Date().toISOString(),
+    }
+  }
+}
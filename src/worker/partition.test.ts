@@ -0,0 +1,95 @@
+import { KeyedExecutor, partitionKeyFor } from "./partition"
+import { QueueMessage } from "../shared/types"
+
+function messageOf(eventType: string, payload: unknown): QueueMessage {
+  return {
+    id: "m1",
+    event: {
+      event_type: eventType,
+      payload: payload as QueueMessage["event"]["payload"],
+      headers: { "x-discourse-event": eventType, "x-discourse-event-signature": "sha256=00" },
+      received_at: "2025-11-18T00:00:00.000Z",
+    },
+    timestamp: "2025-11-18T00:00:00.000Z",
+    retry_count: 0,
+  }
+}
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve = (): void => undefined
+  const promise = new Promise<void>((done) => {
+    resolve = done
+  })
+  return { promise, resolve }
+}
+
+describe("partitionKeyFor", () => {
+  it("keys notifications by the notified user", () => {
+    expect(partitionKeyFor(messageOf("notification", { notification: { user_id: 7 } }))).toBe("user:7")
+  })
+
+  it("keys user events by the user", () => {
+    expect(partitionKeyFor(messageOf("user_updated", { user: { id: 3 } }))).toBe("user:3")
+  })
+
+  it("falls back to the message id", () => {
+    expect(partitionKeyFor(messageOf("post_created", { post: { id: 1 } }))).toBe("message:m1")
+    expect(partitionKeyFor(messageOf("post_created", null))).toBe("message:m1")
+    expect(partitionKeyFor(messageOf("post_created", "not an object"))).toBe("message:m1")
+  })
+})
+
+describe("KeyedExecutor", () => {
+  it("runs tasks with the same key one after another, in order", async () => {
+    const executor = new KeyedExecutor()
+    const gate = deferred()
+    const order: string[] = []
+
+    const first = executor.run("user:1", async () => {
+      await gate.promise
+      order.push("first")
+    })
+    const second = executor.run("user:1", async () => {
+      order.push("second")
+    })
+
+    await Promise.resolve()
+    expect(order).toEqual([])
+    expect(executor.stats()).toEqual({ in_flight: 2, partitions: { "user:1": 2 } })
+
+    gate.resolve()
+    await Promise.all([first, second])
+    expect(order).toEqual(["first", "second"])
+    expect(executor.stats()).toEqual({ in_flight: 0, partitions: {} })
+  })
+
+  it("runs different keys in parallel", async () => {
+    const executor = new KeyedExecutor()
+    const gate = deferred()
+    const order: string[] = []
+
+    const blocked = executor.run("user:1", async () => {
+      await gate.promise
+      order.push("user:1")
+    })
+    await executor.run("user:2", async () => {
+      order.push("user:2")
+    })
+
+    gate.resolve()
+    await blocked
+    expect(order).toEqual(["user:2", "user:1"])
+  })
+
+  it("keeps going after a failed task", async () => {
+    const executor = new KeyedExecutor()
+
+    const failed = executor.run("user:1", async () => {
+      throw new Error("boom")
+    })
+    const next = executor.run("user:1", async () => "next")
+
+    await expect(failed).rejects.toThrow("boom")
+    await expect(next).resolves.toBe("next")
+  })
+})
@@ -0,0 +1,97 @@
+/**
+ * Keyed in-process partitioning for parallel message processing
+ *
+ * Messages with the same partition key (the Discourse user they concern)
+ * run one after another in delivery order; different keys run in parallel.
+ * Overall parallelism is bounded by the consumer prefetch.
+ */
+
+import {
+  DiscourseNotificationPayload,
+  DiscourseUserPayload,
+  QueueMessage,
+} from "../shared/types"
+
+export interface PartitionStats {
+  in_flight: number
+  partitions: Record<string, number>
+}
+
+/**
+ * Partition key for a message: the notified user for notifications, the
+ * user itself for user events. Other messages (and payloads that are not
+ * objects) have no ordering requirement and get a partition of their own.
+ */
+export function partitionKeyFor(message: QueueMessage): string {
+  const payload = message.event?.payload as
+    | Partial<DiscourseNotificationPayload & DiscourseUserPayload>
+    | null
+    | undefined
+
+  const notification = payload?.notification
+  if (notification?.user_id !== undefined) {
+    return `user:${notification.user_id}`
+  }
+
+  const user = payload?.user
+  if (user?.id !== undefined) {
+    return `user:${user.id}`
+  }
+
+  return `message:${message.id}`
+}
+
+export class KeyedExecutor {
+  // Tail of each partition's chain and how many tasks it holds
+  private readonly tails = new Map<string, Promise<unknown>>()
+  private readonly counts = new Map<string, number>()
+  private unkeyed = 0
+
+  /**
+   * Runs the task after every earlier task with the same key settled.
+   * Tasks without a key start immediately.
+   */
+  async run<T>(key: string | undefined, task: () => Promise<T>): Promise<T> {
+    if (key === undefined) {
+      this.unkeyed++
+      try {
+        return await task()
+      } finally {
+        this.unkeyed--
+      }
+    }
+
+    const previous = this.tails.get(key) || Promise.resolve()
+    const current = previous.catch(() => undefined).then(task)
+    const tail = current.catch(() => undefined)
+
+    this.tails.set(key, tail)
+    this.counts.set(key, (this.counts.get(key) || 0) + 1)
+
+    try {
+      return await current
+    } finally {
+      const remaining = (this.counts.get(key) || 1) - 1
+      if (remaining === 0) {
+        this.counts.delete(key)
+        if (this.tails.get(key) === tail) {
+          this.tails.delete(key)
+        }
+      } else {
+        this.counts.set(key, remaining)
+      }
+    }
+  }
+
+  stats(): PartitionStats {
+    let inFlight = this.unkeyed
+    for (const count of this.counts.values()) {
+      inFlight += count
+    }
+
+    return {
+      in_flight: inFlight,
+      partitions: Object.fromEntries(this.counts),
+    }
+  }
+}
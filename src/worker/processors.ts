@@ -2,31 +2,53 @@
  * Event processors for different Discourse event types
  *
  * This module contains the business logic for processing events.
- * Customize these functions based on your specific requirements.
+ * Customize these functions based on your specific requirements, and
+ * register new ones in registerDefaultProcessors().
  */
 
-import logger from "../shared/logger"
+import { payloadOf } from "../shared/validation"
+import { ProcessorContext, ProcessorRegistry } from "./registry"
+import { NotificationStore, inboxProcessor } from "./inbox"
+import { pushProcessor } from "./push"
+import { OutboundDispatcher, outboundProcessor } from "./outbound"
+import { AlertEngine, alertsProcessor } from "./alerts"
+import { AlertChannel } from "./alert-channels"
+import { DigestMailer, digestProcessor, digestRecipientProcessor } from "./digest"
 import {
   DiscourseWebhookEvent,
-  DiscourseUserPayload,
   DiscourseNotificationPayload,
   NotificationType,
   ProcessingResult,
+  QueueMessage,
 } from "../shared/types"
 
+function processed(event: DiscourseWebhookEvent): ProcessingResult {
+  return {
+    success: true,
+    message_id: event.headers["x-discourse-event-id"] || "unknown",
+    event_type: event.event_type,
+    processed_at: new Date().toISOString(),
+  }
+}
+
+function notificationOf(
+  event: DiscourseWebhookEvent
+): DiscourseNotificationPayload["notification"] {
+  return payloadOf(event, "notification").notification
+}
+
 /**
  * Process User Event (Goal 1: Administrative Monitoring)
  * Examples: user_created, user_approved, user_updated
  */
 export async function processUserEvent(
-  event: DiscourseWebhookEvent
+  event: DiscourseWebhookEvent,
+  { logger }: ProcessorContext
 ): Promise<ProcessingResult> {
-  const payload = event.payload as DiscourseUserPayload
-  const { user } = payload
+  const { user } = payloadOf(event, "user")
 
   logger.info(
     {
-      eventType: event.event_type,
       userId: user.id,
       username: user.username,
       trustLevel: user.trust_level,
@@ -38,12 +60,9 @@ export async function processUserEvent(
     // TODO: Implement your business logic here
     // Examples:
     // - Store user in database
-    // - Send notification to admin Slack channel
     // - Trigger welcome email
     // - Update analytics dashboard
-
-    // Simulated processing
-    await new Promise((resolve) => setTimeout(resolve, 100))
+    // Admin alerts are raised by the "alerts" processor (ALERT_RULES_FILE)
 
     logger.info(
       {
@@ -70,17 +89,16 @@ export async function processUserEvent(
  * Examples: mentions, replies, private messages, badges
  */
 export async function processNotificationEvent(
-  event: DiscourseWebhookEvent
+  event: DiscourseWebhookEvent,
+  { logger }: ProcessorContext
 ): Promise<ProcessingResult> {
-  const payload = event.payload as DiscourseNotificationPayload
-  const { notification } = payload
+  const { notification } = payloadOf(event, "notification")
 
   const notificationTypeName =
     NotificationType[notification.notification_type] || "UNKNOWN"
 
   logger.info(
     {
-      eventType: event.event_type,
       notificationId: notification.id,
       userId: notification.user_id,
       notificationType: notificationTypeName,
@@ -91,66 +109,8 @@ export async function processNotificationEvent(
   )
 
   try {
-    // TODO: Implement your business logic here
-    // Examples based on notification type:
-
-    switch (notification.notification_type) {
-      case NotificationType.MENTIONED:
-        // Handle @mention notification
-        logger.info(
-          {
-            userId: notification.user_id,
-            originalUsername: notification.data.original_username,
-            topicTitle: notification.data.topic_title,
-          },
-          "User was mentioned"
-        )
-        // TODO: Send push notification, email, or aggregate in user's notification center
-        break
-
-      case NotificationType.REPLIED:
-        // Handle reply notification
-        logger.info(
-          {
-            userId: notification.user_id,
-            topicId: notification.topic_id,
-          },
-          "User received a reply"
-        )
-        // TODO: Update conversation thread, send notification
-        break
-
-      case NotificationType.PRIVATE_MESSAGE:
-        // Handle private message notification
-        logger.info(
-          {
-            userId: notification.user_id,
-            topicTitle: notification.data.topic_title,
-          },
-          "User received a private message"
-        )
-        // TODO: Send high-priority notification
-        break
-
-      case NotificationType.GRANTED_BADGE:
-        // Handle badge notification
-        logger.info(
-          {
-            userId: notification.user_id,
-            badgeName: notification.data.badge_name,
-          },
-          "User was granted a badge"
-        )
-        // TODO: Celebrate achievement, update user profile
-        break
-
-      default:
-        logger.debug(
-          { notificationType: notificationTypeName },
-          "Processing other notification type"
-        )
-      // TODO: Handle other notification types as needed
-    }
+    // Stored in the user's inbox by the "inbox" processor; per-type
+    // reactions are registered separately (see below)
 
     // Simulated processing
     await new Promise((resolve) => setTimeout(resolve, 100))
@@ -182,22 +142,17 @@ export async function processNotificationEvent(
  * Process generic event (fallback processor)
  */
 export async function processGenericEvent(
-  event: DiscourseWebhookEvent
+  event: DiscourseWebhookEvent,
+  { logger }: ProcessorContext
 ): Promise<ProcessingResult> {
-  logger.info(
-    {
-      eventType: event.event_type,
-      eventId: event.headers["x-discourse-event-id"],
-    },
-    "Processing generic event"
-  )
+  logger.info("Processing generic event")
 
   try {
     // TODO: Implement generic event handling
     // Examples:
     // - Log event for analytics
     // - Store raw event in data warehouse
-    // - Forward to other systems
+    // (Forwarding to other systems: see SUBSCRIBERS_FILE / outbound.ts)
 
     // Simulated processing
     await new Promise((resolve) => setTimeout(resolve, 50))
@@ -213,3 +168,204 @@ export async function processGenericEvent(
     throw error
   }
 }
+
+/**
+ * Handle @mention notification
+ */
+export async function processMention(
+  event: DiscourseWebhookEvent,
+  { logger }: ProcessorContext
+): Promise<ProcessingResult> {
+  const notification = notificationOf(event)
+  logger.info(
+    {
+      userId: notification.user_id,
+      originalUsername: notification.data.original_username,
+      topicTitle: notification.data.topic_title,
+    },
+    "User was mentioned"
+  )
+  // TODO: Send push notification or email (the inbox already has it)
+  return processed(event)
+}
+
+/**
+ * Handle reply notification
+ */
+export async function processReply(
+  event: DiscourseWebhookEvent,
+  { logger }: ProcessorContext
+): Promise<ProcessingResult> {
+  const notification = notificationOf(event)
+  logger.info(
+    {
+      userId: notification.user_id,
+      topicId: notification.topic_id,
+    },
+    "User received a reply"
+  )
+  // TODO: Update conversation thread, send notification
+  return processed(event)
+}
+
+/**
+ * Handle private message notification
+ */
+export async function processPrivateMessage(
+  event: DiscourseWebhookEvent,
+  { logger }: ProcessorContext
+): Promise<ProcessingResult> {
+  const notification = notificationOf(event)
+  logger.info(
+    {
+      userId: notification.user_id,
+      topicTitle: notification.data.topic_title,
+    },
+    "User received a private message"
+  )
+  // TODO: Send high-priority notification
+  return processed(event)
+}
+
+/**
+ * Handle badge notification
+ */
+export async function processBadgeGranted(
+  event: DiscourseWebhookEvent,
+  { logger }: ProcessorContext
+): Promise<ProcessingResult> {
+  const notification = notificationOf(event)
+  logger.info(
+    {
+      userId: notification.user_id,
+      badgeName: notification.data.badge_name,
+    },
+    "User was granted a badge"
+  )
+  // TODO: Celebrate achievement, update user profile
+  return processed(event)
+}
+
+/**
+ * Optional services the built-in processors deliver to
+ */
+export interface DefaultProcessorServices {
+  inbox?: NotificationStore
+  publishPush?: (message: QueueMessage) => Promise<boolean>
+  outbound?: OutboundDispatcher
+  alerts?: { engine: AlertEngine; channels: Map<string, AlertChannel> }
+  digests?: DigestMailer
+}
+
+/**
+ * Registers the built-in processors. Add new reactions here (or register
+ * them on the worker's registry from your own module).
+ */
+export function registerDefaultProcessors(
+  registry: ProcessorRegistry,
+  { inbox, publishPush, outbound, alerts, digests }: DefaultProcessorServices = {}
+): ProcessorRegistry {
+  const notificationEvents = ["notification", "notification_created"]
+
+  if (inbox) {
+    registry.register({
+      name: "inbox",
+      events: notificationEvents,
+      order: 20, // Stored before the per-type reactions run
+      process: inboxProcessor(inbox),
+    })
+  }
+
+  if (publishPush) {
+    registry.register({
+      name: "push",
+      events: notificationEvents,
+      order: 30, // Pushed once stored, so clients that reload find it
+      skipOnReplay: true,
+      process: pushProcessor(publishPush),
+    })
+  }
+
+  if (alerts) {
+    registry.register({
+      name: "alerts",
+      events: ["user_*"],
+      order: 20,
+      skipOnReplay: true,
+      process: alertsProcessor(alerts.engine, alerts.channels),
+    })
+  }
+
+  if (digests) {
+    registry
+      .register({
+        name: "digest",
+        events: notificationEvents,
+        notificationTypes: digests.notificationTypes,
+        order: 50,
+        skipOnReplay: true,
+        process: digestProcessor(digests),
+      })
+      .register({
+        name: "digest_recipient",
+        events: ["user_created", "user_updated"],
+        order: 50,
+        skipOnReplay: true, // Old user events would restore old addresses
+        process: digestRecipientProcessor(digests),
+      })
+  }
+
+  const outboundEvents = outbound?.eventPatterns() || []
+  if (outbound && outboundEvents.length > 0) {
+    registry.register({
+      name: "outbound",
+      events: outboundEvents,
+      order: 40,
+      skipOnReplay: true,
+      process: outboundProcessor(outbound),
+    })
+  }
+
+  return registry
+    .register({
+      name: "user",
+      events: ["user_*"],
+      process: processUserEvent,
+    })
+    .register({
+      name: "notification",
+      events: notificationEvents,
+      order: 10, // Logs the notification before the per-type reactions
+      process: processNotificationEvent,
+    })
+    .register({
+      name: "mention",
+      events: notificationEvents,
+      notificationTypes: [NotificationType.MENTIONED],
+      process: processMention,
+    })
+    .register({
+      name: "reply",
+      events: notificationEvents,
+      notificationTypes: [NotificationType.REPLIED],
+      process: processReply,
+    })
+    .register({
+      name: "private_message",
+      events: notificationEvents,
+      notificationTypes: [NotificationType.PRIVATE_MESSAGE],
+      process: processPrivateMessage,
+    })
+    .register({
+      name: "badge_granted",
+      events: notificationEvents,
+      notificationTypes: [NotificationType.GRANTED_BADGE],
+      process: processBadgeGranted,
+    })
+    .register({
+      name: "generic",
+      events: ["*"],
+      fallback: true,
+      process: processGenericEvent,
+    })
+}
@@ -0,0 +1,161 @@
+/**
+ * Streaming endpoints for real-time notifications, on the inbox API server
+ *
+ *   GET /push/sse   Server-Sent Events; resumes from Last-Event-ID
+ *   GET /push/ws    WebSocket; resumes from ?last_event_id
+ *
+ * Clients authenticate with a push token (Authorization: Bearer, or
+ * ?token= since browsers cannot set headers on EventSource/WebSocket) and
+ * receive the notifications of the user in the token.
+ *
+ * Messages: "notification" events carry { instance, notification }; a
+ * "resync" event tells the client it may have missed notifications and
+ * should reload them from the inbox API. Heartbeats are SSE comments and
+ * WebSocket pings. A client whose unsent data exceeds
+ * PUSH_MAX_BUFFERED_BYTES is disconnected and resumes after reconnecting.
+ */
+
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify"
+import websocket from "@fastify/websocket"
+import type { WebSocket } from "ws"
+import logger from "../shared/logger"
+import {
+  PushConfig,
+  PushEvent,
+  PushHub,
+  PushSubscriber,
+  PushTokenClaims,
+  verifyPushToken,
+} from "./push"
+
+interface PushQuerystring {
+  token?: string
+  last_event_id?: string
+}
+
+type PushRequest = FastifyRequest<{ Querystring: PushQuerystring }>
+
+const SSE_RETRY_MS = 5000
+const WS_TRY_AGAIN_LATER = 1013
+
+function claimsOf(request: PushRequest, secret: string): PushTokenClaims | undefined {
+  const header = request.headers.authorization
+  const token = header?.startsWith("Bearer ") ? header.slice(7) : request.query.token
+  return token ? verifyPushToken(token, secret) : undefined
+}
+
+function messageOf(event: PushEvent): string {
+  return JSON.stringify({ instance: event.instance, notification: event.notification })
+}
+
+export function registerPushRoutes(
+  app: FastifyInstance,
+  hub: PushHub,
+  config: PushConfig & { tokenSecret: string }
+): void {
+  const authenticate = async (request: PushRequest, reply: FastifyReply): Promise<void> => {
+    if (!claimsOf(request, config.tokenSecret)) {
+      await reply.code(401).send({ error: "Unauthorized", message: "Invalid push token" })
+    }
+  }
+
+  app.register(websocket, { options: { maxPayload: 1024 } }) // Clients only receive
+
+  app.register(async (push) => {
+    push.get("/push/sse", { preValidation: authenticate }, (request: PushRequest, reply) => {
+      const claims = claimsOf(request, config.tokenSecret) as PushTokenClaims
+      const lastEventId =
+        (request.headers["last-event-id"] as string | undefined) || request.query.last_event_id
+      const stream = reply.raw
+
+      reply.hijack()
+      stream.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no", // Disable proxy buffering (nginx)
+      })
+
+      // false once the client stopped draining what we send
+      const write = (chunk: string): boolean => {
+        stream.write(chunk)
+        return stream.writableLength <= config.maxBufferedBytes
+      }
+
+      const subscriber: PushSubscriber = {
+        send: (event) => write(`id: ${event.id}\nevent: notification\ndata: ${messageOf(event)}\n\n`),
+        resync: () => write("event: resync\ndata: {}\n\n"),
+        close: (reason) => {
+          logger.info({ userId: claims.user_id, reason }, "Closing push stream")
+          stream.destroy()
+        },
+      }
+
+      write(`retry: ${SSE_RETRY_MS}\n\n`)
+      const unsubscribe = hub.subscribe(claims.instance, claims.user_id, subscriber, lastEventId)
+
+      const heartbeat = setInterval(() => {
+        if (!write(": heartbeat\n\n")) subscriber.close("Client too slow")
+      }, config.heartbeatMs)
+
+      request.raw.on("close", () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+      })
+    })
+
+    push.get(
+      "/push/ws",
+      { websocket: true, preValidation: authenticate },
+      (socket: WebSocket, request: PushRequest) => {
+        const claims = claimsOf(request, config.tokenSecret) as PushTokenClaims
+
+        const send = (data: string): boolean => {
+          socket.send(data)
+          return socket.bufferedAmount <= config.maxBufferedBytes
+        }
+
+        const subscriber: PushSubscriber = {
+          send: (event) =>
+            send(
+              JSON.stringify({
+                type: "notification",
+                id: event.id,
+                instance: event.instance,
+                notification: event.notification,
+              })
+            ),
+          resync: () => send(JSON.stringify({ type: "resync" })),
+          close: (reason) => {
+            logger.info({ userId: claims.user_id, reason }, "Closing push socket")
+            socket.close(WS_TRY_AGAIN_LATER, reason)
+          },
+        }
+
+        const unsubscribe = hub.subscribe(
+          claims.instance,
+          claims.user_id,
+          subscriber,
+          request.query.last_event_id
+        )
+
+        // A client that did not answer the previous ping is gone
+        let alive = true
+        socket.on("pong", () => (alive = true))
+        const heartbeat = setInterval(() => {
+          if (!alive) {
+            socket.terminate()
+            return
+          }
+          alive = false
+          socket.ping()
+        }, config.heartbeatMs)
+
+        socket.on("close", () => {
+          clearInterval(heartbeat)
+          unsubscribe()
+        })
+      }
+    )
+  })
+}
@@ -0,0 +1,277 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto"
+import { hostname } from "os"
+import logger from "../shared/logger"
+import { TopologySpec } from "../shared/topology"
+import { ProcessingResult, QueueMessage } from "../shared/types"
+import { payloadOf } from "../shared/validation"
+import { DEFAULT_INBOX_INSTANCE, Notification } from "./inbox"
+import { Processor } from "./registry"
+
+/**
+ * Real-time push of notifications to connected clients
+ *
+ * The "push" processor publishes every processed notification to a
+ * broadcast exchange on the message bus. Each worker process consumes it
+ * through its own short-lived queue and hands the notification to the SSE
+ * and WebSocket clients connected to that process for the recipient, so a
+ * client receives it whichever worker it is connected to.
+ *
+ * Each hub keeps the last events per user so a reconnecting client can
+ * resume from its Last-Event-ID. Event ids ("<published ms>-<notification
+ * id>") are the same on every worker.
+ */
+
+export interface PushConfig {
+  tokenSecret?: string // Signs client tokens; push is disabled without it
+  exchange: string
+  heartbeatMs: number
+  replayPerUser: number // Events kept per user for Last-Event-ID resume
+  maxBufferedBytes: number // Unsent bytes before a slow client is disconnected
+}
+
+export interface PushEvent {
+  id: string
+  instance: string
+  notification: Notification
+}
+
+export interface PushTokenClaims {
+  instance: string
+  user_id: number
+  exp: number // Unix seconds
+}
+
+/**
+ * A connected client. send() returns false when the client cannot keep up;
+ * the hub then closes it and it resumes after reconnecting.
+ */
+export interface PushSubscriber {
+  send(event: PushEvent): boolean
+  resync(): void // Events since its Last-Event-ID are gone: reload from the inbox API
+  close(reason: string): void
+}
+
+export const PUSH_EXCHANGE = "discourse.push"
+const MAX_BUFFERED_USERS = 10000
+
+export function getPushConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): PushConfig {
+  return {
+    tokenSecret: env.PUSH_TOKEN_SECRET || undefined,
+    exchange: env.PUSH_EXCHANGE || PUSH_EXCHANGE,
+    heartbeatMs: parseInt(env.PUSH_HEARTBEAT_MS || "15000", 10),
+    replayPerUser: parseInt(env.PUSH_REPLAY_PER_USER || "100", 10),
+    maxBufferedBytes: parseInt(env.PUSH_MAX_BUFFERED_BYTES || "1048576", 10), // 1MB
+  }
+}
+
+/**
+ * One queue per worker process on the push exchange, receiving everything
+ */
+export function pushTopology(config: PushConfig): TopologySpec {
+  return {
+    exchange: config.exchange,
+    queues: [
+      {
+        name: `${config.exchange}.${hostname()}.${process.pid}.${randomUUID().slice(0, 8)}`,
+        bindings: ["#"],
+      },
+    ],
+    broadcast: true,
+  }
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url")
+}
+
+/**
+ * Token a client presents to subscribe to its own notifications. Issued by
+ * the application that knows the logged-in user (see `npm run push-token`).
+ */
+export function createPushToken(claims: PushTokenClaims, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url")
+  return `${payload}.${sign(payload, secret)}`
+}
+
+export function verifyPushToken(
+  token: string,
+  secret: string,
+  now: Date = new Date()
+): PushTokenClaims | undefined {
+  const [payload, signature] = token.split(".")
+  if (!payload || !signature) {
+    return undefined
+  }
+
+  const expected = Buffer.from(sign(payload, secret))
+  const actual = Buffer.from(signature)
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return undefined
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8")) as PushTokenClaims
+    if (!Number.isInteger(claims.user_id) || typeof claims.instance !== "string") {
+      return undefined
+    }
+    return claims.exp * 1000 > now.getTime() ? claims : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function parseEventId(id: string): [number, number] | undefined {
+  const match = /^(\d+)-(\d+)$/.exec(id)
+  return match ? [Number(match[1]), Number(match[2])] : undefined
+}
+
+function isNewer(id: string, than: string): boolean {
+  const [a, b] = [parseEventId(id), parseEventId(than)]
+  if (!a || !b) return true
+  return a[0] > b[0] || (a[0] === b[0] && a[1] > b[1])
+}
+
+export function pushEventOf(message: QueueMessage): PushEvent {
+  const { notification } = payloadOf(message.event, "notification")
+  return {
+    id: `${Date.parse(message.timestamp)}-${notification.id}`,
+    instance: message.tenant?.id || DEFAULT_INBOX_INSTANCE,
+    notification,
+  }
+}
+
+interface UserBuffer {
+  events: PushEvent[] // Oldest first
+  evictedUpTo?: string // Newest event id dropped from the buffer
+}
+
+export class PushHub {
+  private readonly subscribers = new Map<string, Set<PushSubscriber>>()
+  private readonly buffers = new Map<string, UserBuffer>()
+  // Clients whose last event is older may have missed events: since the
+  // hub started, or since a user's buffer was dropped to bound memory
+  private completeSince = Date.now()
+
+  constructor(private readonly config: PushConfig) {}
+
+  /**
+   * Registers a client for a user's notifications, first replaying what
+   * it missed since lastEventId. Returns the unsubscribe function.
+   */
+  subscribe(
+    instance: string,
+    userId: number,
+    subscriber: PushSubscriber,
+    lastEventId?: string
+  ): () => void {
+    const key = `${instance}:${userId}`
+
+    if (lastEventId) {
+      const buffer = this.buffers.get(key)
+      const lastPublishedAt = parseEventId(lastEventId)?.[0] ?? 0
+
+      if (
+        lastPublishedAt < this.completeSince ||
+        (buffer?.evictedUpTo && isNewer(buffer.evictedUpTo, lastEventId))
+      ) {
+        subscriber.resync()
+      }
+      for (const event of buffer?.events || []) {
+        if (isNewer(event.id, lastEventId) && !subscriber.send(event)) {
+          subscriber.close("Client too slow")
+          return () => undefined
+        }
+      }
+    }
+
+    let subscribers = this.subscribers.get(key)
+    if (!subscribers) {
+      subscribers = new Set()
+      this.subscribers.set(key, subscribers)
+    }
+    subscribers.add(subscriber)
+
+    return () => {
+      subscribers?.delete(subscriber)
+      if (subscribers?.size === 0) {
+        this.subscribers.delete(key)
+      }
+    }
+  }
+
+  /**
+   * Delivers an event from the bus to the recipient's local clients
+   */
+  deliver(event: PushEvent): void {
+    const key = `${event.instance}:${event.notification.user_id}`
+    this.remember(key, event)
+
+    for (const subscriber of this.subscribers.get(key) || []) {
+      if (!subscriber.send(event)) {
+        logger.warn(
+          { instance: event.instance, userId: event.notification.user_id },
+          "Disconnecting slow push client"
+        )
+        subscriber.close("Client too slow")
+      }
+    }
+  }
+
+  connections(): number {
+    let count = 0
+    this.subscribers.forEach((subscribers) => (count += subscribers.size))
+    return count
+  }
+
+  private remember(key: string, event: PushEvent): void {
+    const buffer = this.buffers.get(key) || { events: [] }
+    this.buffers.delete(key) // Re-inserted as most recently used
+    this.buffers.set(key, buffer)
+
+    buffer.events.push(event)
+    buffer.events.sort((a, b) => (isNewer(a.id, b.id) ? 1 : -1))
+    while (buffer.events.length > this.config.replayPerUser) {
+      buffer.evictedUpTo = buffer.events.shift()?.id
+    }
+
+    if (this.buffers.size > MAX_BUFFERED_USERS) {
+      const [oldest, dropped] = this.buffers.entries().next().value as [string, UserBuffer]
+      this.buffers.delete(oldest)
+
+      const newest = parseEventId(dropped.events[dropped.events.length - 1]?.id || "")
+      this.completeSince = Math.max(this.completeSince, (newest?.[0] ?? 0) + 1)
+    }
+  }
+}
+
+/**
+ * Processor that publishes notifications to every worker's push hub
+ */
+export function pushProcessor(
+  publish: (message: QueueMessage) => Promise<boolean>
+): Processor {
+  return async (event, context): Promise<ProcessingResult> => {
+    const { notification } = payloadOf(event, "notification")
+    const message: QueueMessage = {
+      id: randomUUID(),
+      event,
+      timestamp: new Date().toISOString(),
+      retry_count: 0,
+      tenant: context.tenant,
+    }
+
+    // Best effort: a notification that misses the push is still in the inbox
+    await publish(message).catch((error) => {
+      context.logger.warn({ error, notificationId: notification.id }, "Failed to publish push event")
+    })
+
+    return {
+      success: true,
+      message_id: event.headers["x-discourse-event-id"] || "unknown",
+      event_type: event.event_type,
+      processed_at: new Date().toISOString(),
+    }
+  }
+}
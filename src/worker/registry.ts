@@ -0,0 +1,297 @@
+/**
+ * Processor registry: maps events to the processors that react to them
+ *
+ * Processors register for event types ("notification", "user_*", "*") and
+ * optionally for notification types. Every matching processor runs, in
+ * ascending order, through the middleware chain; the worker receives one
+ * aggregated ProcessingResult. Processors registered as fallback run only
+ * when nothing else matched. Processors with side effects that must not
+ * repeat (mail, push, deliveries) register with skipOnReplay and are left
+ * out for replayed messages.
+ *
+ * When a message is retried, processors that already succeeded for it (by
+ * queue message id) are not run again; only the failed ones are retried.
+ */
+
+import { IdempotencyStore, MemoryIdempotencyStore } from "../shared/dedup"
+import logger, { Logger } from "../shared/logger"
+import { FailureReason, failureReasonOf } from "../shared/retry"
+import { eventTypeMatches } from "../shared/topology"
+import { SpanContext, Tracer } from "../shared/tracing"
+import {
+  DiscourseNotificationPayload,
+  DiscourseWebhookEvent,
+  NotificationType,
+  ProcessingResult,
+  ReplayMarker,
+  Tenant,
+} from "../shared/types"
+
+export interface ProcessorContext {
+  messageId?: string // Queue message id, the same on every retry
+  tenant?: Tenant // Discourse instance the event came from
+  logger: Logger // Bound to the message, its trace and the processor
+  trace?: SpanContext // Span the processors run under
+  replay?: ReplayMarker // Set when the message was replayed
+}
+
+export type Processor = (
+  event: DiscourseWebhookEvent,
+  context: ProcessorContext
+) => Promise<ProcessingResult>
+
+export interface ProcessorRegistration {
+  name: string
+  events: string[] // Event type patterns, "*" matches any run of characters
+  notificationTypes?: NotificationType[] // Only these notifications, if set
+  order?: number // Lower runs first (default 100)
+  fallback?: boolean // Runs only when no other processor matched
+  skipOnReplay?: boolean // Does not run for replayed messages
+  process: Processor
+}
+
+/**
+ * Wraps one processor run. Call next() to continue down the chain.
+ */
+export type ProcessorMiddleware = (
+  event: DiscourseWebhookEvent,
+  processor: ProcessorRegistration,
+  next: () => Promise<ProcessingResult>,
+  context: ProcessorContext
+) => Promise<ProcessingResult>
+
+const DEFAULT_ORDER = 100
+
+// Processors that succeeded, remembered per message for as long as it may be retried
+const DEFAULT_COMPLETED_RETENTION_MS = 86400000 // 24 hours, matches the queue TTL
+const DEFAULT_MAX_COMPLETED = 100000
+
+/**
+ * Thrown for a failed aggregate; carries the failure reason of a processor
+ * whose error must not be retried, so the message is dead-lettered at once
+ */
+export class ProcessingFailedError extends Error {
+  readonly failureReason?: FailureReason
+  readonly details?: unknown
+
+  constructor(readonly result: ProcessingResult) {
+    super(result.error || "Processing failed")
+    this.name = "ProcessingFailedError"
+    this.failureReason = result.failure_reason
+    this.details = result.failure_details
+  }
+}
+
+function messageIdOf(event: DiscourseWebhookEvent): string {
+  return event.headers["x-discourse-event-id"] || "unknown"
+}
+
+/**
+ * Records how long the processor took
+ */
+export const timingMiddleware: ProcessorMiddleware = async (_event, _processor, next) => {
+  const startedAt = Date.now()
+  const result = await next()
+  return { ...result, duration_ms: Date.now() - startedAt }
+}
+
+/**
+ * Turns a thrown error into a failed result, so the remaining processors
+ * still run. Keeps the reason of errors that must not be retried.
+ */
+export const errorMiddleware: ProcessorMiddleware = async (event, _processor, next) => {
+  try {
+    return await next()
+  } catch (error) {
+    const failureReason = failureReasonOf(error)
+    return {
+      success: false,
+      message_id: messageIdOf(event),
+      event_type: event.event_type,
+      error: error instanceof Error ? error.message : String(error),
+      processed_at: new Date().toISOString(),
+      ...(failureReason && {
+        failure_reason: failureReason,
+        failure_details: (error as { details?: unknown }).details,
+      }),
+    }
+  }
+}
+
+export const loggingMiddleware: ProcessorMiddleware = async (_event, _processor, next, context) => {
+  const result = await next()
+  const details = { durationMs: result.duration_ms }
+
+  if (result.success) {
+    context.logger.debug(details, "Processor finished")
+  } else {
+    context.logger.warn({ ...details, error: result.error }, "Processor failed")
+  }
+  return result
+}
+
+/**
+ * Records a "process" span per processor run, under the context's span
+ */
+export function tracingMiddleware(tracer: Tracer): ProcessorMiddleware {
+  return async (event, processor, next, context) => {
+    const span = tracer.startSpan("process", {
+      parent: context.trace,
+      attributes: { "discourse.processor": processor.name, "discourse.event_type": event.event_type },
+    })
+    try {
+      const result = await next()
+      if (!result.success) span.setStatus("error", result.error)
+      return result
+    } catch (error) {
+      span.recordError(error)
+      throw error
+    } finally {
+      span.end()
+    }
+  }
+}
+
+export class ProcessorRegistry {
+  private readonly registrations: Array<{
+    registration: ProcessorRegistration
+    sequence: number
+  }> = []
+  private readonly middleware: ProcessorMiddleware[] = []
+
+  constructor(
+    private readonly completed: IdempotencyStore = new MemoryIdempotencyStore(
+      DEFAULT_COMPLETED_RETENTION_MS,
+      DEFAULT_MAX_COMPLETED
+    )
+  ) {}
+
+  register(registration: ProcessorRegistration): this {
+    if (this.registrations.some((entry) => entry.registration.name === registration.name)) {
+      throw new Error(`Processor ${registration.name} is already registered`)
+    }
+
+    this.registrations.push({
+      registration,
+      sequence: this.registrations.length,
+    })
+    return this
+  }
+
+  /**
+   * Adds middleware; the first added is the outermost
+   */
+  use(middleware: ProcessorMiddleware): this {
+    this.middleware.push(middleware)
+    return this
+  }
+
+  /**
+   * Processors that handle the event, in run order
+   */
+  match(event: DiscourseWebhookEvent): ProcessorRegistration[] {
+    const notificationType = (event.payload as DiscourseNotificationPayload)
+      ?.notification?.notification_type
+
+    const matched = this.registrations.filter(({ registration }) => {
+      if (!registration.events.some((pattern) => eventTypeMatches(pattern, event.event_type))) {
+        return false
+      }
+      return (
+        !registration.notificationTypes ||
+        registration.notificationTypes.includes(notificationType)
+      )
+    })
+
+    const primary = matched.filter(({ registration }) => !registration.fallback)
+    return (primary.length > 0 ? primary : matched)
+      .sort(
+        (a, b) =>
+          (a.registration.order ?? DEFAULT_ORDER) -
+            (b.registration.order ?? DEFAULT_ORDER) || a.sequence - b.sequence
+      )
+      .map(({ registration }) => registration)
+  }
+
+  /**
+   * Runs every matching processor and aggregates their results. The
+   * aggregate succeeds only if all of them did. Processors that already
+   * succeeded for context.messageId on an earlier attempt are skipped.
+   */
+  async process(
+    event: DiscourseWebhookEvent,
+    context: ProcessorContext = { logger }
+  ): Promise<ProcessingResult> {
+    const matched = this.match(event)
+    const processors = context.replay
+      ? matched.filter((processor) => !processor.skipOnReplay)
+      : matched
+
+    if (processors.length < matched.length) {
+      context.logger.debug(
+        { skipped: matched.filter((processor) => processor.skipOnReplay).map(({ name }) => name) },
+        "Processors skipped for replayed message"
+      )
+    }
+    if (processors.length === 0) {
+      context.logger.debug({ eventType: event.event_type }, "No processor registered for event")
+    }
+
+    const results: ProcessingResult[] = []
+    const alreadyCompleted: string[] = []
+    for (const processor of processors) {
+      const completedKey = context.messageId && `${context.messageId}:${processor.name}`
+      if (completedKey && (await this.completed.seen(completedKey))) {
+        alreadyCompleted.push(processor.name)
+        continue
+      }
+
+      const result = await this.run(event, processor, {
+        ...context,
+        logger: context.logger.child({ processor: processor.name }),
+      })
+      results.push({ ...result, processor: processor.name })
+
+      if (completedKey && result.success) {
+        await this.completed.remember(completedKey).catch((error) => {
+          context.logger.warn({ error, processor: processor.name }, "Failed to record processor success")
+        })
+      }
+    }
+
+    if (alreadyCompleted.length > 0) {
+      context.logger.debug(
+        { skipped: alreadyCompleted },
+        "Processors skipped, they succeeded on an earlier attempt"
+      )
+    }
+
+    const failed = results.filter((result) => !result.success)
+    const nonRetryable = failed.find((result) => result.failure_reason)
+    return {
+      success: failed.length === 0,
+      message_id: messageIdOf(event),
+      event_type: event.event_type,
+      error:
+        failed.length > 0
+          ? failed.map((result) => `${result.processor}: ${result.error}`).join("; ")
+          : undefined,
+      processed_at: new Date().toISOString(),
+      failure_reason: nonRetryable?.failure_reason,
+      failure_details: nonRetryable?.failure_details,
+      results,
+    }
+  }
+
+  private run(
+    event: DiscourseWebhookEvent,
+    processor: ProcessorRegistration,
+    context: ProcessorContext
+  ): Promise<ProcessingResult> {
+    const chain = this.middleware.reduceRight<() => Promise<ProcessingResult>>(
+      (next, middleware) => () => middleware(event, processor, next, context),
+      () => processor.process(event, context)
+    )
+    return chain()
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Admin endpoints for the outbound subscribers, on the inbox API server
+ *
+ *   GET  /subscribers                       State of every subscriber
+ *   GET  /subscribers/:id/deliveries        ?status&limit  Delivery log, newest first
+ *   POST /subscribers/:id/enable            Re-enable after an automatic disable
+ *   POST /subscribers/:id/disable           { "reason": "..." }
+ *
+ * Guarded by INBOX_API_TOKEN like the inbox routes. Each worker tracks its
+ * own subscriber state, so with several replicas call every one of them.
+ */
+
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify"
+import { DeliveryLog, DeliveryStatus } from "./delivery-log"
+import { requireApiToken } from "./inbox-api"
+import { OutboundDispatcher } from "./outbound"
+
+interface SubscriberParams {
+  id: string
+}
+
+const DELIVERY_STATUSES: DeliveryStatus[] = ["delivered", "failed", "disabled", "enabled"]
+const DEFAULT_DELIVERY_LIMIT = 50
+const MAX_DELIVERY_LIMIT = 1000
+
+export function registerSubscriberRoutes(
+  app: FastifyInstance,
+  dispatcher: OutboundDispatcher,
+  log: DeliveryLog,
+  token: string | undefined
+): void {
+  const unknown = (reply: FastifyReply, id: string): FastifyReply =>
+    reply.code(404).send({ error: "Not Found", message: `Unknown or paused subscriber: ${id}` })
+
+  app.register(async (admin) => {
+    requireApiToken(admin, token)
+
+    admin.get("/subscribers", async () => ({ subscribers: dispatcher.status() }))
+
+    admin.get(
+      "/subscribers/:id/deliveries",
+      async (
+        request: FastifyRequest<{
+          Params: SubscriberParams
+          Querystring: { status?: string; limit?: string }
+        }>,
+        reply
+      ) => {
+        const { status, limit } = request.query
+        const pageSize = limit ? parseInt(limit, 10) : DEFAULT_DELIVERY_LIMIT
+
+        if (status && !DELIVERY_STATUSES.includes(status as DeliveryStatus)) {
+          return reply.code(400).send({
+            error: "Bad Request",
+            message: `status must be one of ${DELIVERY_STATUSES.join(", ")}`,
+          })
+        }
+        if (!Number.isInteger(pageSize) || pageSize < 1) {
+          return reply.code(400).send({ error: "Bad Request", message: `Invalid limit: ${limit}` })
+        }
+
+        return {
+          deliveries: await log.list(request.params.id, {
+            status: status as DeliveryStatus | undefined,
+            limit: Math.min(pageSize, MAX_DELIVERY_LIMIT),
+          }),
+        }
+      }
+    )
+
+    admin.post(
+      "/subscribers/:id/enable",
+      async (request: FastifyRequest<{ Params: SubscriberParams }>, reply) => {
+        if (!dispatcher.has(request.params.id)) {
+          return unknown(reply, request.params.id)
+        }
+        await dispatcher.enable(request.params.id)
+        return dispatcher.status().find((subscriber) => subscriber.id === request.params.id)
+      }
+    )
+
+    admin.post(
+      "/subscribers/:id/disable",
+      async (
+        request: FastifyRequest<{ Params: SubscriberParams; Body: { reason?: string } | undefined }>,
+        reply
+      ) => {
+        if (!dispatcher.has(request.params.id)) {
+          return unknown(reply, request.params.id)
+        }
+        await dispatcher.disable(request.params.id, request.body?.reason || "Disabled through the API")
+        return dispatcher.status().find((subscriber) => subscriber.id === request.params.id)
+      }
+    )
+  })
+}
@@ -0,0 +1,35 @@
+import { renderTemplate } from "./subscribers"
+
+const context = {
+  event_type: "post_created",
+  event_id: "evt-1",
+  payload: { post: { id: 10, username: "alice", tags: ["news"] } },
+}
+
+describe("renderTemplate", () => {
+  it("keeps the type of a value that fills the whole string", () => {
+    expect(renderTemplate("{{payload.post.id}}", context)).toBe(10)
+    expect(renderTemplate("{{ payload.post }}", context)).toEqual(context.payload.post)
+    expect(renderTemplate("{{payload.missing}}", context)).toBeNull()
+  })
+
+  it("interpolates placeholders inside longer strings", () => {
+    expect(renderTemplate("{{payload.post.username}} posted ({{event_type}})", context)).toBe(
+      "alice posted (post_created)"
+    )
+    expect(renderTemplate("tags: {{payload.post.tags}}", context)).toBe('tags: ["news"]')
+    expect(renderTemplate("by {{payload.missing.username}}", context)).toBe("by ")
+  })
+
+  it("renders nested objects and arrays, leaving other values alone", () => {
+    const template = {
+      text: "New post {{payload.post.id}}",
+      meta: [{ id: "{{event_id}}" }, 3, true, null],
+    }
+
+    expect(renderTemplate(template, context)).toEqual({
+      text: "New post 10",
+      meta: [{ id: "evt-1" }, 3, true, null],
+    })
+  })
+})
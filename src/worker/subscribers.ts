@@ -0,0 +1,324 @@
+/**
+ * Downstream webhook subscribers
+ *
+ * Each subscriber is an HTTP endpoint that receives the events it selected
+ * (event type patterns, optionally notification types and instances). The
+ * request looks like a Discourse webhook: the payload as JSON body, or a
+ * template rendered from it, with X-Discourse-Event* headers and an
+ * X-Discourse-Event-Signature made with the subscriber's secret, so the
+ * receiver can check it with validateWebhookSignature.
+ *
+ * Subscribers are read from SUBSCRIBERS_FILE (JSON array of
+ * SubscriberConfig) when the worker starts.
+ */
+
+import { readFileSync } from "fs"
+import { DEFAULT_RETRY_POLICY, RetryPolicy } from "../shared/retry"
+import { signWebhookBody } from "../shared/security"
+import { eventTypeMatches } from "../shared/topology"
+import {
+  DiscourseNotificationPayload,
+  NotificationType,
+  QueueMessage,
+} from "../shared/types"
+import { eventFamilyOf } from "../shared/validation"
+import { DeliveryLogConfig, getDeliveryLogConfigFromEnv } from "./delivery-log"
+import { DEFAULT_INBOX_INSTANCE } from "./inbox"
+
+export type SubscriberRetry = Partial<
+  Pick<RetryPolicy, "maxAttempts" | "initialDelayMs" | "multiplier" | "maxDelayMs" | "jitter">
+>
+
+export interface SubscriberConfig {
+  id: string // Letters, digits, "_" and "-"; part of the queue name
+  url: string
+  secret?: string
+  secretEnv?: string // Name of an environment variable holding the secret
+  events: string[] // Event type patterns ("post_*", "*")
+  notificationTypes?: Array<NotificationType | string> // Numbers or names; notifications only
+  instances?: string[] // Tenant ids; every instance if unset
+  template?: unknown // JSON body with {{placeholders}}; the payload if unset
+  headers?: Record<string, string>
+  timeoutMs?: number
+  retry?: SubscriberRetry // Overrides OUTBOUND_RETRY_*
+  disableAfterFailures?: number // Consecutive failed attempts; 0 never disables
+  enabled?: boolean // false keeps the subscriber configured but idle
+}
+
+export interface Subscriber {
+  id: string
+  url: string
+  secret: string
+  events: string[]
+  notificationTypes?: NotificationType[]
+  instances?: string[]
+  template?: unknown
+  headers: Record<string, string>
+  timeoutMs: number
+  retry: RetryPolicy
+  disableAfterFailures: number
+  enabled: boolean
+}
+
+export interface OutboundConfig {
+  subscribers: SubscriberConfig[]
+  exchange: string
+  queuePrefix: string // Subscriber queues are "<prefix>.<id>"
+  timeoutMs: number
+  disableAfterFailures: number
+  retry: RetryPolicy
+  deliveryLog: DeliveryLogConfig
+}
+
+export interface DeliveryResponse {
+  status: number
+  durationMs: number
+}
+
+export const OUTBOUND_EXCHANGE = "discourse.outbound"
+const USER_AGENT = "discourse-webhook-integration"
+
+export class SubscriberDeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly durationMs?: number
+  ) {
+    super(message)
+    this.name = "SubscriberDeliveryError"
+  }
+}
+
+export function getOutboundConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): OutboundConfig {
+  const subscribers = env.SUBSCRIBERS_FILE
+    ? (JSON.parse(readFileSync(env.SUBSCRIBERS_FILE, "utf-8")) as SubscriberConfig[])
+    : []
+  if (!Array.isArray(subscribers)) {
+    throw new Error(`${env.SUBSCRIBERS_FILE} must contain an array of subscribers`)
+  }
+
+  return {
+    subscribers,
+    exchange: env.OUTBOUND_EXCHANGE || OUTBOUND_EXCHANGE,
+    queuePrefix: env.OUTBOUND_QUEUE_PREFIX || "discourse-outbound",
+    timeoutMs: parseInt(env.OUTBOUND_TIMEOUT_MS || "10000", 10),
+    disableAfterFailures: parseInt(env.OUTBOUND_DISABLE_AFTER_FAILURES || "20", 10),
+    retry: {
+      ...DEFAULT_RETRY_POLICY,
+      initialDelayMs: parseInt(env.OUTBOUND_RETRY_INITIAL_DELAY_MS || "10000", 10),
+      multiplier: parseFloat(env.OUTBOUND_RETRY_BACKOFF_MULTIPLIER || "3"),
+      maxDelayMs: parseInt(env.OUTBOUND_RETRY_MAX_DELAY_MS || "3600000", 10), // 1 hour
+      maxAttempts: parseInt(env.OUTBOUND_RETRY_MAX_ATTEMPTS || "8", 10),
+      maxAttemptsByEventType: {},
+    },
+    deliveryLog: getDeliveryLogConfigFromEnv(env),
+  }
+}
+
+function parseNotificationType(value: NotificationType | string, subscriber: string): NotificationType {
+  const type =
+    typeof value === "number" || /^\d+$/.test(value)
+      ? Number(value)
+      : NotificationType[value.toUpperCase() as keyof typeof NotificationType]
+  if (type === undefined) {
+    throw new Error(`Subscriber ${subscriber}: unknown notification type ${value}`)
+  }
+  return type
+}
+
+/**
+ * Validates the configured subscribers and resolves secrets and defaults
+ */
+export function loadSubscribers(
+  config: OutboundConfig,
+  env: NodeJS.ProcessEnv = process.env
+): Subscriber[] {
+  const ids = new Set<string>()
+
+  return config.subscribers.map((subscriber) => {
+    if (!subscriber.id || !/^[A-Za-z0-9_-]+$/.test(subscriber.id)) {
+      throw new Error(`Invalid subscriber id: ${subscriber.id} (letters, digits, "_" and "-")`)
+    }
+    if (ids.has(subscriber.id)) {
+      throw new Error(`Duplicate subscriber id: ${subscriber.id}`)
+    }
+    ids.add(subscriber.id)
+
+    if (!/^https?:\/\//.test(subscriber.url || "")) {
+      throw new Error(`Subscriber ${subscriber.id}: url must be http(s)`)
+    }
+    if (!Array.isArray(subscriber.events) || subscriber.events.length === 0) {
+      throw new Error(`Subscriber ${subscriber.id}: events must list at least one pattern`)
+    }
+
+    const secret = subscriber.secret || (subscriber.secretEnv ? env[subscriber.secretEnv] : undefined)
+    if (!secret) {
+      throw new Error(`Subscriber ${subscriber.id} has no secret (secret or secretEnv)`)
+    }
+
+    return {
+      id: subscriber.id,
+      url: subscriber.url,
+      secret,
+      events: subscriber.events,
+      notificationTypes: subscriber.notificationTypes?.map((type) =>
+        parseNotificationType(type, subscriber.id)
+      ),
+      instances: subscriber.instances,
+      template: subscriber.template,
+      headers: subscriber.headers || {},
+      timeoutMs: subscriber.timeoutMs ?? config.timeoutMs,
+      retry: { ...config.retry, ...subscriber.retry },
+      disableAfterFailures: subscriber.disableAfterFailures ?? config.disableAfterFailures,
+      enabled: subscriber.enabled !== false,
+    }
+  })
+}
+
+export function subscriberQueueName(config: OutboundConfig, subscriberId: string): string {
+  return `${config.queuePrefix}.${subscriberId}`
+}
+
+/**
+ * Whether the subscriber selected the message's event
+ */
+export function subscriberMatches(subscriber: Subscriber, message: QueueMessage): boolean {
+  const { event } = message
+  const instance = message.tenant?.id || DEFAULT_INBOX_INSTANCE
+
+  if (subscriber.instances && !subscriber.instances.includes(instance)) {
+    return false
+  }
+  if (!subscriber.events.some((pattern) => eventTypeMatches(pattern, event.event_type))) {
+    return false
+  }
+
+  const notificationType = (event.payload as DiscourseNotificationPayload)?.notification
+    ?.notification_type
+  return !subscriber.notificationTypes || subscriber.notificationTypes.includes(notificationType)
+}
+
+function lookup(context: Record<string, unknown>, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (value, key) =>
+      typeof value === "object" && value !== null
+        ? (value as Record<string, unknown>)[key]
+        : undefined,
+    context
+  )
+}
+
+/**
+ * Replaces {{path}} placeholders in string values of the template. A
+ * string that is a single placeholder takes the value as is (object,
+ * number...); placeholders inside longer strings are interpolated.
+ */
+export function renderTemplate(template: unknown, context: Record<string, unknown>): unknown {
+  if (typeof template === "string") {
+    const whole = /^\{\{\s*([\w.]+)\s*\}\}$/.exec(template)
+    if (whole) {
+      return lookup(context, whole[1]) ?? null
+    }
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, path: string) => {
+      const value = lookup(context, path)
+      if (value === undefined || value === null) return ""
+      return typeof value === "object" ? JSON.stringify(value) : String(value)
+    })
+  }
+
+  if (Array.isArray(template)) {
+    return template.map((item) => renderTemplate(item, context))
+  }
+
+  if (typeof template === "object" && template !== null) {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, value]) => [key, renderTemplate(value, context)])
+    )
+  }
+
+  return template
+}
+
+/**
+ * Body and headers of the request delivering the message to the subscriber
+ */
+export function buildDeliveryRequest(
+  subscriber: Subscriber,
+  message: QueueMessage
+): { body: string; headers: Record<string, string> } {
+  const { event } = message
+  const eventId = event.headers["x-discourse-event-id"] || message.id
+  const instance = message.tenant?.id || DEFAULT_INBOX_INSTANCE
+
+  const body = JSON.stringify(
+    subscriber.template === undefined
+      ? event.payload
+      : renderTemplate(subscriber.template, {
+          event_type: event.event_type,
+          event_id: eventId,
+          instance,
+          discourse_instance: event.headers["x-discourse-instance"],
+          received_at: event.received_at,
+          payload: event.payload,
+        })
+  )
+
+  const headers: Record<string, string> = {
+    ...subscriber.headers,
+    "Content-Type": "application/json",
+    "User-Agent": USER_AGENT,
+    "X-Discourse-Event": event.event_type,
+    "X-Discourse-Event-Type": eventFamilyOf(event.event_type) || event.event_type,
+    "X-Discourse-Event-Id": eventId,
+    "X-Discourse-Event-Signature": signWebhookBody(body, subscriber.secret),
+  }
+  if (event.headers["x-discourse-instance"]) {
+    headers["X-Discourse-Instance"] = event.headers["x-discourse-instance"]
+  }
+
+  return { body, headers }
+}
+
+/**
+ * POSTs the message; throws SubscriberDeliveryError unless it gets a 2xx
+ */
+export async function sendToSubscriber(
+  subscriber: Subscriber,
+  message: QueueMessage
+): Promise<DeliveryResponse> {
+  const { body, headers } = buildDeliveryRequest(subscriber, message)
+  const startedAt = Date.now()
+
+  let response: Response
+  try {
+    response = await fetch(subscriber.url, {
+      method: "POST",
+      headers,
+      body,
+      redirect: "manual", // A redirect is a misconfiguration, not a delivery
+      signal: AbortSignal.timeout(subscriber.timeoutMs),
+    })
+  } catch (error) {
+    const reason =
+      error instanceof Error && error.name === "TimeoutError"
+        ? `Timed out after ${subscriber.timeoutMs}ms`
+        : error instanceof Error
+          ? (error.cause as Error | undefined)?.message || error.message
+          : String(error)
+    throw new SubscriberDeliveryError(reason, undefined, Date.now() - startedAt)
+  }
+
+  const durationMs = Date.now() - startedAt
+  await response.body?.cancel() // The response body is not used
+
+  if (response.status < 200 || response.status >= 300) {
+    throw new SubscriberDeliveryError(
+      `Subscriber answered ${response.status}`,
+      response.status,
+      durationMs
+    )
+  }
+  return { status: response.status, durationMs }
+}